@@ -27,6 +27,11 @@ function copyStaticFiles() {
   if (!existsSync(guideDir)) mkdirSync(guideDir, { recursive: true });
   copyFileSync('src/guide/guide.html', join(guideDir, 'guide.html'));
 
+  // Copy options page
+  const optionsDir = join(distDir, 'options');
+  if (!existsSync(optionsDir)) mkdirSync(optionsDir, { recursive: true });
+  copyFileSync('src/options/options.html', join(optionsDir, 'options.html'));
+
   // Copy _locales
   const srcLocales = 'src/_locales';
   if (existsSync(srcLocales)) {
@@ -67,6 +72,7 @@ const buildOptions = {
     'src/content/main.ts',
     'src/content/dom-bridge.ts',
     'src/background/service-worker.ts',
+    'src/options/options.ts',
   ],
   bundle: true,
   outdir: 'dist',
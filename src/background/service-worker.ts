@@ -34,7 +34,8 @@ chrome.storage.onChanged.addListener((changes, area) => {
 function domBridgeCode() {
   const PROTECTED = new Set([
     'role','aria-label','aria-roledescription','aria-expanded',
-    'aria-checked','aria-selected','aria-level','aria-describedby',
+    'aria-checked','aria-selected','aria-level','aria-setsize',
+    'aria-posinset','aria-describedby','aria-braillelabel','aria-brailleroledescription',
     'aria-owns','aria-modal','aria-live','aria-atomic','aria-relevant',
     'tabindex','data-accessible-notion','alt',
   ]);
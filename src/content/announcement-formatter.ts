@@ -0,0 +1,290 @@
+/**
+ * Announcement Formatter
+ *
+ * Single place where navigation announcements are assembled, so the
+ * `verbosity` setting applies consistently across modules:
+ * - minimal:  content and state only (no type labels, levels or counters)
+ * - standard: type + content + list position or nesting depth + state + position
+ * - verbose:  standard + depth of every block, to-do position, formatting, full text
+ */
+
+import type { ExtensionSettings } from '../shared/constants';
+import { t, type MessageKey } from '../shared/i18n';
+import {
+  BLOCK_TYPE_MAP, TEXTBOX,
+  detectBlockType, getBlockDescription, getBlockText, getListInfo,
+} from './selectors';
+import { getBlockEntry } from './block-model';
+
+type Verbosity = ExtensionSettings['verbosity'];
+
+/** Max characters of block text read in minimal/standard mode */
+const SHORT_TEXT_LENGTH = 60;
+
+/** Most distinct values a column summary still counts one by one */
+const MAX_VALUE_COUNTS = 5;
+
+/** Inline formatting checks, in announcement order */
+const FORMAT_CHECKS: { label: MessageKey; selector: string }[] = [
+  { label: 'formatBold', selector: 'b, strong, [style*="font-weight:600"], [style*="font-weight: 600"]' },
+  { label: 'formatItalic', selector: 'i, em, [style*="font-style:italic"], [style*="font-style: italic"]' },
+  { label: 'formatUnderline', selector: 'u, [style*="text-decoration:underline"], [style*="border-bottom:"]' },
+  { label: 'formatStrikethrough', selector: 's, del, [style*="line-through"]' },
+  { label: 'formatCode', selector: 'code, .notion-inline-code-container' },
+  { label: 'formatLink', selector: 'a[href]' },
+];
+
+let verbosity: Verbosity = 'standard';
+
+export function setVerbosity(level: Verbosity): void {
+  verbosity = level;
+}
+
+export function getVerbosity(): Verbosity {
+  return verbosity;
+}
+
+// ─── Composition ─────────────────────────────────────────────
+
+export interface AnnouncementParts {
+  /** Type label, e.g. "見出し1" — dropped in minimal mode */
+  type?: string;
+  /** Main content */
+  text: string;
+  /** Structural context, e.g. "レベル2" — dropped in minimal mode */
+  context?: string[];
+  /** State, e.g. "展開" / "チェック済み" — always read */
+  states?: string[];
+  /** Extra details — read in verbose mode only */
+  details?: string[];
+  /** Position counter "(n/total)" — dropped in minimal mode */
+  position?: { index: number; total: number };
+}
+
+/**
+ * Join announcement parts according to the current verbosity.
+ * Standard output: "type: text, context, states (n/total)".
+ */
+export function composeAnnouncement(parts: AnnouncementParts): string {
+  const minimal = verbosity === 'minimal';
+
+  let msg: string;
+  if (minimal || !parts.type) {
+    msg = parts.text || t('empty');
+  } else {
+    msg = parts.text ? `${parts.type}: ${parts.text}` : t('emptyLabel', { label: parts.type });
+  }
+
+  const extras = [
+    ...(minimal ? [] : parts.context ?? []),
+    ...(parts.states ?? []),
+    ...(verbosity === 'verbose' ? parts.details ?? [] : []),
+  ];
+  if (extras.length > 0) msg += `, ${extras.join(', ')}`;
+
+  if (!minimal && parts.position) {
+    msg += ` (${parts.position.index + 1}/${parts.position.total})`;
+  }
+  return msg;
+}
+
+// ─── Blocks ──────────────────────────────────────────────────
+
+function getExpandedState(el: Element): string[] {
+  const expanded = el.getAttribute('aria-expanded');
+  if (expanded === 'true') return [t('expanded')];
+  if (expanded === 'false') return [t('collapsed')];
+  return [];
+}
+
+function getFormatting(block: Element): string[] {
+  const textbox = block.querySelector(TEXTBOX) ?? block;
+  return FORMAT_CHECKS
+    .filter((check) => textbox.querySelector(check.selector))
+    .map((check) => t(check.label));
+}
+
+/**
+ * Announcement for a content block.
+ * `position` is the block's place in the navigation order, when known.
+ */
+export function formatBlock(block: HTMLElement, position?: { index: number; total: number }): string {
+  const blockType = detectBlockType(block);
+  const info = blockType ? BLOCK_TYPE_MAP[blockType] : null;
+  const verbose = verbosity === 'verbose';
+
+  const states = getExpandedState(block);
+  const checked = block.getAttribute('aria-checked');
+  if (checked === 'true') states.push(t('checked'));
+  else if (checked === 'false') states.push(t('unchecked'));
+
+  // List items read their list position and level like native lists;
+  // other nested blocks carry their depth so pages can be skimmed like a tree
+  const depth = getBlockEntry(block)?.depth ?? 1;
+  const list = getListInfo(block);
+  const listItem = info?.role === 'listitem' ? list : null;
+  const context: string[] = [];
+  if (listItem) {
+    context.push(t('listPosition', { index: listItem.index + 1, total: listItem.total }));
+    if (listItem.level > 1) context.push(t('level', { level: listItem.level }));
+  } else if (depth > 1 && !verbose) {
+    context.push(t('depth', { depth }));
+  }
+
+  const details: string[] = [];
+  if (verbose) {
+    details.push(t('depth', { depth }));
+    // To-do lists are checkboxes, so their position is only a detail
+    if (list && !listItem) {
+      details.push(t('listPosition', { index: list.index + 1, total: list.total }));
+    }
+    details.push(...getFormatting(block));
+  }
+
+  return composeAnnouncement({
+    type: info ? getBlockDescription(info) : t('block'),
+    text: getBlockText(block, verbose ? Infinity : SHORT_TEXT_LENGTH),
+    context,
+    states,
+    details,
+    position,
+  });
+}
+
+// ─── Other Widgets ───────────────────────────────────────────
+
+/**
+ * Announcement for a sidebar tree item.
+ * Standard output: "name, レベルn, 展開, 選択済み".
+ */
+export function formatTreeItem(item: HTMLElement): string {
+  const states = getExpandedState(item);
+  if (item.getAttribute('aria-selected') === 'true') states.push(t('selected'));
+
+  const details: string[] = [];
+  const posInSet = item.getAttribute('aria-posinset');
+  const setSize = item.getAttribute('aria-setsize');
+  if (posInSet && setSize) details.push(`${posInSet}/${setSize}`);
+
+  return composeAnnouncement({
+    text: item.getAttribute('aria-label') ?? '',
+    context: [t('level', { level: item.getAttribute('aria-level') ?? '1' })],
+    states,
+    details,
+  });
+}
+
+/**
+ * Announcement for a database grid cell.
+ * Standard output: "column: value".
+ */
+export function formatGridCell(
+  columnName: string,
+  value: string,
+  row: number,
+  col: number,
+  rowCount: number,
+  colCount: number,
+): string {
+  return composeAnnouncement({
+    type: columnName,
+    text: value || t('empty'),
+    details: [
+      t('gridRowPosition', { index: row + 1, total: rowCount }),
+      t('gridColPosition', { index: col + 1, total: colCount }),
+    ],
+  });
+}
+
+/**
+ * Announcement for a whole database row.
+ * Standard output: "column: value, column: value, …".
+ */
+export function formatGridRow(cells: string[], row: number, rowCount: number): string {
+  return composeAnnouncement({
+    text: cells.join(', '),
+    details: [t('gridRowPosition', { index: row + 1, total: rowCount })],
+  });
+}
+
+/**
+ * Announcement for a whole database column, top to bottom, with a
+ * summary. Values are counted when a few values repeat (select-like
+ * columns); counts of unique values would only repeat the list.
+ * Standard output: "column の列: v1, v2, 空。3行、空欄1件, v1 2件".
+ * `total` is given when `values` are only the rendered part of the table.
+ */
+export function formatGridColumn(columnName: string, values: string[], total?: number | string): string {
+  const filled = values.filter(Boolean);
+  const counts = new Map<string, number>();
+  filled.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+
+  const empty = values.length - filled.length;
+  const summary = [total === undefined
+    ? t('gridColumnSummary', { rows: values.length, empty })
+    : t('gridColumnSummaryShown', { rows: values.length, total, empty })];
+  if (counts.size <= MAX_VALUE_COUNTS && counts.size < filled.length) {
+    const byCount = [...counts].sort((a, b) => b[1] - a[1]);
+    summary.push(...byCount.map(([value, count]) => t('gridValueCount', { value, count })));
+  }
+  return t('gridColumnRead', {
+    column: columnName,
+    values: values.map((value) => value || t('empty')).join(', '),
+    summary: summary.join(', '),
+  });
+}
+
+/**
+ * Announcement for a database column header.
+ * Standard output: "列ヘッダー: column, property type, sort".
+ */
+export function formatColumnHeader(
+  columnName: string,
+  propertyType: string | null,
+  sort: string | null,
+  col: number,
+  colCount: number,
+): string {
+  return composeAnnouncement({
+    type: t('columnHeader'),
+    text: columnName,
+    context: propertyType ? [propertyType] : [],
+    states: sort ? [sort] : [],
+    details: [t('gridColPosition', { index: col + 1, total: colCount })],
+  });
+}
+
+/**
+ * Announcement for a gallery card.
+ * Standard output: "title, property values…".
+ */
+export function formatGalleryCard(
+  title: string,
+  properties: string[],
+  row: number,
+  col: number,
+  rowCount: number,
+  colCount: number,
+): string {
+  return composeAnnouncement({
+    text: title || t('empty'),
+    context: properties,
+    details: [
+      t('gridRowPosition', { index: row + 1, total: rowCount }),
+      t('gridColPosition', { index: col + 1, total: colCount }),
+    ],
+  });
+}
+
+/**
+ * Announcement for a comment in the side peek.
+ * `label` is the short "author date excerpt" label; verbose mode reads
+ * the full comment text instead.
+ */
+export function formatComment(comment: HTMLElement, label: string, index: number, total: number): string {
+  const fullText = (comment.textContent ?? '').replace(/\s+/g, ' ').trim();
+  return composeAnnouncement({
+    text: verbosity === 'verbose' && fullText ? fullText : label,
+    position: { index, total },
+  });
+}
@@ -0,0 +1,150 @@
+/**
+ * Announcement History Panel
+ *
+ * Extension-owned modal dialog listing everything the live announcer has
+ * spoken, newest first, with the time and the part of Notion it is about.
+ * For reading back a message that vanished from the live region before
+ * the screen reader finished it.
+ *
+ * ↑/↓/Home/End move focus between entries (roving tabindex), Tab moves
+ * between the list and the close button, Escape closes and restores focus.
+ */
+
+import { logDebug } from '../shared/logger';
+import { t, getLocale, type MessageKey } from '../shared/i18n';
+import { type AnnouncementRecord, announce, getAnnouncementHistory } from './live-announcer';
+import { createModalDialog, openModalDialog, closeModalDialog } from './modal-dialog';
+
+const MODULE = 'AnnouncementHistory';
+const DIALOG_ID = 'an-announcement-history';
+
+/**
+ * User-facing names for the modules that announce (their MODULE ids).
+ * Messages from other modules, or with no source, are listed without one.
+ */
+const SOURCE_NAMES: Record<string, MessageKey> = {
+  Main: 'sourcePage',
+  AriaInjector: 'sourceBlocks',
+  BlockFocusManager: 'sourceBlocks',
+  BlockNavigator: 'sourceBlocks',
+  TableEnhancer: 'sourceDatabase',
+  CellEditor: 'sourceDatabase',
+  RowActions: 'sourceDatabase',
+  DbSource: 'sourceDatabase',
+  BoardNavigator: 'sourceDatabase',
+  CalendarNavigator: 'sourceDatabase',
+  GalleryNavigator: 'sourceDatabase',
+  TimelineNavigator: 'sourceDatabase',
+  TreeEnhancer: 'sourceSidebar',
+  SearchEnhancer: 'sourceSearch',
+  CommentEnhancer: 'sourceComments',
+  ModalEnhancer: 'sourceDialogs',
+  PopupEnhancer: 'sourceDialogs',
+  KeyboardHandler: 'sourceNavigation',
+  FocusManager: 'sourceNavigation',
+  ElementsList: 'sourceNavigation',
+};
+
+let dialog: HTMLElement | null = null;
+
+// ─── Rendering ───────────────────────────────────────────────
+
+function formatTime(time: number): string {
+  return new Date(time).toLocaleTimeString(getLocale());
+}
+
+function buildEntry(record: AnnouncementRecord, index: number): HTMLElement {
+  const li = document.createElement('li');
+  li.id = `${DIALOG_ID}-item-${index}`;
+  li.tabIndex = index === 0 ? 0 : -1;
+  const source = SOURCE_NAMES[record.source];
+  li.textContent = source
+    ? t('historyEntry', { message: record.message, time: formatTime(record.time), source: t(source) })
+    : t('historyEntryNoSource', { message: record.message, time: formatTime(record.time) });
+  return li;
+}
+
+function buildDialog(history: AnnouncementRecord[]): HTMLElement {
+  const root = createModalDialog(DIALOG_ID, t('historyTitle'), 'announcement-history');
+
+  const list = document.createElement('ol');
+  list.id = `${DIALOG_ID}-items`;
+  list.setAttribute('aria-labelledby', `${DIALOG_ID}-title`);
+  [...history].reverse().forEach((record, i) => list.appendChild(buildEntry(record, i)));
+
+  const close = document.createElement('button');
+  close.type = 'button';
+  close.textContent = t('close');
+  close.addEventListener('click', closeAnnouncementHistory);
+
+  root.append(list, close);
+  root.addEventListener('keydown', handleKeydown);
+  return root;
+}
+
+// ─── Keyboard ────────────────────────────────────────────────
+
+function focusEntry(entries: HTMLElement[], index: number): void {
+  for (const entry of entries) entry.tabIndex = -1;
+  entries[index].tabIndex = 0;
+  entries[index].focus();
+}
+
+function handleKeydown(e: KeyboardEvent): void {
+  if (!dialog) return;
+  const entries = Array.from(dialog.querySelectorAll<HTMLElement>('li'));
+  const current = entries.indexOf(e.target as HTMLElement);
+
+  switch (e.key) {
+    case 'ArrowDown':
+    case 'ArrowUp':
+    case 'Home':
+    case 'End': {
+      if (current < 0) return;
+      e.preventDefault();
+      e.stopPropagation();
+      const target = e.key === 'Home' ? 0
+        : e.key === 'End' ? entries.length - 1
+          : Math.min(Math.max(current + (e.key === 'ArrowDown' ? 1 : -1), 0), entries.length - 1);
+      focusEntry(entries, target);
+      return;
+    }
+  }
+}
+
+// ─── Public API ──────────────────────────────────────────────
+
+/**
+ * Open the history panel with focus on the newest announcement.
+ */
+export function openAnnouncementHistory(): void {
+  if (dialog) {
+    dialog.querySelector<HTMLElement>('li[tabindex="0"]')?.focus();
+    return;
+  }
+  const history = getAnnouncementHistory();
+  if (history.length === 0) {
+    announce(t('historyEmpty'), { source: MODULE, history: false });
+    return;
+  }
+
+  dialog = buildDialog(history);
+  openModalDialog(dialog, closeAnnouncementHistory);
+  dialog.querySelector<HTMLElement>('li')?.focus();
+  logDebug(MODULE, `History panel opened: ${history.length} entries`);
+}
+
+/**
+ * Close the panel and return focus to where it was.
+ */
+export function closeAnnouncementHistory(): void {
+  if (!dialog) return;
+  const root = dialog;
+  dialog = null;
+  closeModalDialog(root);
+  logDebug(MODULE, 'History panel closed');
+}
+
+export function isAnnouncementHistoryOpen(): boolean {
+  return dialog !== null;
+}
@@ -7,19 +7,30 @@
  * - Toggle blocks: aria-expanded
  * - To-do blocks: aria-checked
  * - Column layouts: aria-label with column count
+ * - List items: aria-setsize / aria-posinset / aria-level, item numbers
+ * - Braille: abbreviated type and content-only label (settings.braille)
  * - Images: alt fallback
  */
 
-import { EXTENSION_ATTR } from '../shared/constants';
+import { EXTENSION_ATTR, OWN_LABEL_ATTR } from '../shared/constants';
 import { logDebug } from '../shared/logger';
+import { t, type MessageKey } from '../shared/i18n';
 import {
   BLOCK_SELECTABLE,
   BLOCK_TYPE_MAP,
+  DB_COLLECTION_VIEW,
   TEXTBOX,
   TOGGLE_BLOCK,
   detectBlockType,
+  getBlockBrailleDescription,
+  getBlockDescription,
   getBlockText,
+  getListInfo,
+  LIST_BLOCK_TYPES,
 } from './selectors';
+import { setBrailleLabel, setBrailleRoleDescription } from './braille';
+import { getLinkedSource, describeLinkedSource } from './db-source';
+import { protect } from './dom-events';
 
 const MODULE = 'AriaInjector';
 
@@ -28,15 +39,13 @@ function mark(el: Element): void {
   el.setAttribute(EXTENSION_ATTR, 'true');
 }
 
-/** Request DOMLock protection for an element's ARIA attributes */
-function protect(el: Element): void {
-  el.dispatchEvent(new CustomEvent('accessible-notion-protect', { bubbles: false }));
-}
-
 function isMarked(el: Element): boolean {
   return el.hasAttribute(EXTENSION_ATTR);
 }
 
+/** features.contentEditableEnhance — on unless the feature manager turns it off */
+let textboxesEnabled = true;
+
 /**
  * Enhance a single block container with semantic ARIA.
  */
@@ -57,27 +66,36 @@ export function enhanceBlock(block: Element): void {
     block.setAttribute('aria-level', String(info.ariaLevel));
   }
 
-  // Set aria-roledescription for non-standard roles
-  if (!block.getAttribute('aria-roledescription') && info.role !== 'heading') {
-    block.setAttribute('aria-roledescription', info.description);
+  // Set aria-roledescription for non-standard roles. Ours is rewritten, so a
+  // language change reaches it (and the label built from it below)
+  const ownDescription = !block.getAttribute('aria-roledescription') || block.hasAttribute(OWN_LABEL_ATTR);
+  if (ownDescription && info.role !== 'heading') {
+    block.setAttribute('aria-roledescription', getBlockDescription(info));
+    block.setAttribute(OWN_LABEL_ATTR, '');
   }
 
   // Build aria-label from content
-  const rdLabel = block.getAttribute('aria-roledescription') ?? info.description;
+  const rdLabel = block.getAttribute('aria-roledescription') ?? getBlockDescription(info);
 
   // DB blocks: extract title only (not view tabs/content)
   if (blockType === 'collection_view-block' || blockType === 'collection_view_page-block') {
     const dbTitle = getDbTitle(block);
-    block.setAttribute('aria-label', dbTitle
-      ? `${rdLabel}: ${dbTitle}`
-      : rdLabel);
+    const source = getLinkedSource(block);
+    const label = dbTitle ? `${rdLabel}: ${dbTitle}` : rdLabel;
+    block.setAttribute('aria-label', source ? `${label}, ${describeLinkedSource(source)}` : label);
+    setBrailleLabel(block, dbTitle);
   } else {
     const text = getBlockText(block);
     if (text) {
       block.setAttribute('aria-label', `${rdLabel}: ${text}`);
     } else {
-      block.setAttribute('aria-label', `${rdLabel} (空)`);
+      block.setAttribute('aria-label', t('emptyLabel', { label: rdLabel }));
     }
+    // The display shows the type from aria-brailleroledescription (or "h1"), so content only
+    setBrailleLabel(block, getBlockText(block, Infinity));
+  }
+  if (info.role !== 'heading') {
+    setBrailleRoleDescription(block, getBlockBrailleDescription(info));
   }
 
   // Toggle-specific: aria-expanded
@@ -144,7 +162,7 @@ export function enhanceBlock(block: Element): void {
   if (blockType === 'column_list-block') {
     const columns = block.querySelectorAll('.notion-column-block');
     if (columns.length > 0) {
-      block.setAttribute('aria-label', `${info.description} (${columns.length}列)`);
+      block.setAttribute('aria-label', t('columnCount', { label: getBlockDescription(info), count: columns.length }));
     }
   }
 
@@ -155,7 +173,9 @@ export function enhanceBlock(block: Element): void {
       const siblings = Array.from(columnList.querySelectorAll('.notion-column-block'));
       const index = siblings.indexOf(block as HTMLElement);
       if (index >= 0) {
-        block.setAttribute('aria-label', `${info.description} (${index + 1}/${siblings.length}列目)`);
+        block.setAttribute('aria-label', t('columnPosition', {
+          label: getBlockDescription(info), index: index + 1, total: siblings.length,
+        }));
       }
     }
   }
@@ -169,20 +189,77 @@ export function enhanceBlock(block: Element): void {
   protect(block);
 }
 
+/**
+ * Group consecutive list blocks into virtual lists: size, position and
+ * nesting level on every item, and the item number in numbered-list
+ * labels. Notion has no list container, so this runs on every scan —
+ * inserting or removing one item renumbers the whole list.
+ */
+export function enhanceLists(): void {
+  for (const block of document.querySelectorAll(BLOCK_SELECTABLE)) {
+    const type = detectBlockType(block);
+    // To-do items are checkboxes, which do not take list attributes
+    if (!type || !LIST_BLOCK_TYPES.has(type) || BLOCK_TYPE_MAP[type].role !== 'listitem') continue;
+
+    // Each list is handled once, from its first item
+    const prev = block.previousElementSibling;
+    if (prev?.matches(BLOCK_SELECTABLE) && detectBlockType(prev) === type) continue;
+
+    const items: Element[] = [];
+    for (
+      let el: Element | null = block;
+      el?.matches(BLOCK_SELECTABLE) && detectBlockType(el) === type;
+      el = el.nextElementSibling
+    ) {
+      items.push(el);
+    }
+    // Items are siblings, so they share the first item's level
+    const level = String(getListInfo(block)?.level ?? 1);
+    items.forEach((item, index) => labelListItem(item, type, index, items.length, level));
+  }
+}
+
+function labelListItem(item: Element, type: string, index: number, total: number, level: string): void {
+  const position = String(index + 1);
+  item.setAttribute('aria-setsize', String(total));
+  item.setAttribute('aria-posinset', position);
+  item.setAttribute('aria-level', level);
+
+  if (type === 'numbered_list-block') {
+    // Compared with the label itself, not the position: re-init and text
+    // edits rewrite the label without the number
+    const description = `${getBlockDescription(BLOCK_TYPE_MAP[type])} ${position}`;
+    const text = getBlockText(item);
+    const label = text ? `${description}: ${text}` : t('emptyLabel', { label: description });
+    if (item.getAttribute('aria-label') !== label) {
+      item.setAttribute('aria-label', label);
+      setBrailleLabel(item, `${position}. ${getBlockText(item, Infinity)}`);
+    }
+  }
+  protect(item);
+}
+
+/** Remove the list attributes, e.g. when the extension is disabled */
+export function clearLists(): void {
+  for (const item of document.querySelectorAll(`${BLOCK_SELECTABLE}[aria-posinset]`)) {
+    item.removeAttribute('aria-setsize');
+    item.removeAttribute('aria-posinset');
+    item.removeAttribute('aria-level');
+  }
+}
+
 /**
  * Extract DB title from a collection_view block without picking up view tabs/content.
  */
 function getDbTitle(block: Element): string {
-  // Linked DB: only child is an <a> tag with the DB name
-  const firstChild = block.children[0];
-  if (firstChild?.tagName === 'A') {
-    return firstChild.textContent?.trim() ?? '';
-  }
+  // Linked DB: the first child is an <a> tag with the DB name
+  const source = getLinkedSource(block);
+  if (source) return source.title;
 
-  // Inline DB: look for collection title / icon area
-  const titleEl = block.querySelector(
+  // Inline DB: look for collection title / icon area, skipping nested DBs' titles
+  const titleEl = Array.from(block.querySelectorAll(
     '[class*="collection-title"], [placeholder*="Untitled"], [placeholder*="無題"]',
-  );
+  )).find((el) => el.closest(DB_COLLECTION_VIEW) === block);
   if (titleEl?.textContent?.trim()) {
     return titleEl.textContent.trim();
   }
@@ -217,9 +294,9 @@ function enhanceCodeBlock(block: Element): void {
   const codeText = getBlockText(block, 30);
 
   if (langText && langText.length < 30) {
-    block.setAttribute('aria-label', `コード (${langText}): ${codeText || '空'}`);
+    block.setAttribute('aria-label', t('codeWithLanguage', { language: langText, code: codeText || t('empty') }));
   } else {
-    block.setAttribute('aria-label', `コード: ${codeText || '空'}`);
+    block.setAttribute('aria-label', t('code', { code: codeText || t('empty') }));
   }
 }
 
@@ -230,14 +307,14 @@ function enhanceBookmark(block: Element): void {
   const url = link?.href ?? '';
 
   if (title) {
-    block.setAttribute('aria-label', `ブックマーク: ${title}`);
+    block.setAttribute('aria-label', t('bookmark', { title }));
   } else if (url) {
     // Show domain only for brevity
     try {
       const domain = new URL(url).hostname;
-      block.setAttribute('aria-label', `ブックマーク: ${domain}`);
+      block.setAttribute('aria-label', t('bookmark', { title: domain }));
     } catch {
-      block.setAttribute('aria-label', `ブックマーク: ${url.substring(0, 50)}`);
+      block.setAttribute('aria-label', t('bookmark', { title: url.substring(0, 50) }));
     }
   }
 }
@@ -286,7 +363,7 @@ function enhanceVideoBlock(block: Element, rdLabel: string): void {
 
     // Ensure iframe has a title for accessibility
     if (!iframe.getAttribute('title') && service) {
-      iframe.setAttribute('title', `${service}動画`);
+      iframe.setAttribute('title', t('videoTitle', { service }));
     }
     return;
   }
@@ -295,7 +372,7 @@ function enhanceVideoBlock(block: Element, rdLabel: string): void {
   const video = block.querySelector<HTMLVideoElement>('video');
   if (video) {
     const src = video.src || video.querySelector('source')?.src || '';
-    block.setAttribute('aria-label', `${rdLabel}: 動画${src ? '' : ' (ソース未設定)'}`);
+    block.setAttribute('aria-label', t(src ? 'video' : 'videoNoSource', { label: rdLabel }));
   }
 }
 
@@ -327,7 +404,7 @@ function enhanceEmbedBlock(block: Element, rdLabel: string): void {
 
   // Ensure iframe has a title
   if (!iframe.getAttribute('title')) {
-    iframe.setAttribute('title', service ? `${service}の埋め込み` : '埋め込みコンテンツ');
+    iframe.setAttribute('title', service ? t('embedTitle', { service }) : t('embedContent'));
   }
 }
 
@@ -351,7 +428,8 @@ function enhanceSimpleTable(block: Element): void {
   block.setAttribute('aria-colcount', String(colCount));
 
   const text = getBlockText(block, 30);
-  block.setAttribute('aria-label', `シンプルテーブル ${rows.length}行 ${colCount}列${text ? ': ' + text : ''}`);
+  const tableLabel = t('simpleTable', { rows: rows.length, cols: colCount });
+  block.setAttribute('aria-label', text ? `${tableLabel}: ${text}` : tableLabel);
 
   // Check if first row is a header (Notion may style it differently)
   const firstRowEl = rows[0] as HTMLElement;
@@ -395,7 +473,7 @@ function enhanceSyncedBlock(block: Element, rdLabel: string): void {
   const sourceLink = block.querySelector<HTMLAnchorElement>('a[href]');
   if (sourceLink) {
     const linkText = sourceLink.textContent?.trim();
-    block.setAttribute('aria-label', `${rdLabel}: ${linkText ?? 'リンク元あり'}`);
+    block.setAttribute('aria-label', `${rdLabel}: ${linkText ?? t('syncedSource')}`);
   } else {
     const text = getBlockText(block, 40);
     block.setAttribute('aria-label', text ? `${rdLabel}: ${text}` : `${rdLabel}`);
@@ -404,7 +482,7 @@ function enhanceSyncedBlock(block: Element, rdLabel: string): void {
 
 function enhanceTableOfContents(block: Element, rdLabel: string): void {
   const links = block.querySelectorAll('a');
-  block.setAttribute('aria-label', `${rdLabel} (${links.length}件)`);
+  block.setAttribute('aria-label', t('itemCount', { label: rdLabel, count: links.length }));
 }
 
 function enhanceToggle(block: Element): void {
@@ -428,12 +506,12 @@ function enhanceTodo(block: Element): void {
  * Enhance textbox elements with proper aria-label.
  */
 export function enhanceTextbox(textbox: Element): void {
-  if (isMarked(textbox)) return;
+  if (!textboxesEnabled || isMarked(textbox)) return;
 
   const blockParent = textbox.closest(BLOCK_SELECTABLE);
   const blockType = blockParent ? detectBlockType(blockParent) : null;
   const info = blockType ? BLOCK_TYPE_MAP[blockType] : null;
-  const prefix = info?.description ?? 'テキスト';
+  const prefix = info ? getBlockDescription(info) : t('text');
 
   const text = (textbox.textContent ?? '').trim();
   const placeholder = textbox.getAttribute('placeholder') ?? '';
@@ -444,13 +522,36 @@ export function enhanceTextbox(textbox: Element): void {
   } else if (placeholder) {
     textbox.setAttribute('aria-label', `${prefix}: ${placeholder}`);
   } else {
-    textbox.setAttribute('aria-label', `${prefix} (空)`);
+    textbox.setAttribute('aria-label', t('emptyLabel', { label: prefix }));
   }
 
   mark(textbox);
   protect(textbox);
 }
 
+/**
+ * Start labeling editable textboxes (features.contentEditableEnhance).
+ */
+export function initTextboxEnhancer(): void {
+  textboxesEnabled = true;
+  for (const tb of document.querySelectorAll(TEXTBOX)) {
+    enhanceTextbox(tb);
+  }
+}
+
+/**
+ * Stop labeling textboxes and remove the labels already injected,
+ * so Notion's own textbox semantics apply again.
+ */
+export function destroyTextboxEnhancer(): void {
+  textboxesEnabled = false;
+  for (const tb of document.querySelectorAll(`${TEXTBOX}[${EXTENSION_ATTR}]`)) {
+    tb.dispatchEvent(new CustomEvent('accessible-notion-unprotect', { bubbles: false }));
+    tb.removeAttribute('aria-label');
+    tb.removeAttribute(EXTENSION_ATTR);
+  }
+}
+
 /**
  * Enhance images missing alt text.
  */
@@ -474,59 +575,59 @@ export function enhanceImage(img: HTMLImageElement): void {
     }
   }
 
-  img.alt = '画像';
+  img.alt = t('image');
   mark(img);
   protect(img);
 }
 
 /**
- * Map of common Notion SVG icon class names to Japanese labels.
+ * Map of common Notion SVG icon class names to message keys.
  * Used to label icon-only buttons that lack text content.
  */
-const ICON_BUTTON_LABELS: Record<string, string> = {
-  xMarkSmall: '閉じる',
-  xMark: '閉じる',
-  plus: '追加',
-  plusSmall: '追加',
-  plusCircle: '新規追加',
-  trash: '削除',
-  trashSmall: '削除',
-  copy: 'コピー',
-  duplicate: '複製',
-  moveTo: '移動',
-  pin: 'ピン留め',
-  star: 'お気に入り',
-  starFilled: 'お気に入り済み',
-  share: '共有',
-  lock: 'ロック',
-  unlock: 'ロック解除',
-  settings: '設定',
-  gear: '設定',
-  search: '検索',
-  filter: 'フィルター',
-  sort: '並べ替え',
-  arrowLeft: '戻る',
-  arrowRight: '進む',
-  chevronRight: '展開',
-  chevronDown: '折りたたむ',
-  arrowUpRight: '外部リンクで開く',
-  maximize: '全画面',
-  minimize: '縮小',
-  moreHorizontal: 'その他',
-  ellipsis: 'その他',
-  ellipsisSmall: 'その他',
-  refresh: '更新',
-  undo: '元に戻す',
-  redo: 'やり直す',
-  clock: '履歴',
-  calendar: 'カレンダー',
-  download: 'ダウンロード',
-  upload: 'アップロード',
-  link: 'リンク',
-  unlink: 'リンク解除',
-  eye: '表示',
-  eyeOff: '非表示',
-  dragHandle: 'ドラッグハンドル',
+const ICON_BUTTON_LABELS: Record<string, MessageKey> = {
+  xMarkSmall: 'close',
+  xMark: 'close',
+  plus: 'add',
+  plusSmall: 'add',
+  plusCircle: 'addNew',
+  trash: 'delete',
+  trashSmall: 'delete',
+  copy: 'copy',
+  duplicate: 'duplicate',
+  moveTo: 'move',
+  pin: 'pin',
+  star: 'favorite',
+  starFilled: 'favorited',
+  share: 'share',
+  lock: 'lock',
+  unlock: 'unlock',
+  settings: 'settings',
+  gear: 'settings',
+  search: 'search',
+  filter: 'filter',
+  sort: 'sort',
+  arrowLeft: 'back',
+  arrowRight: 'forward',
+  chevronRight: 'expand',
+  chevronDown: 'collapse',
+  arrowUpRight: 'openExternal',
+  maximize: 'fullScreen',
+  minimize: 'shrink',
+  moreHorizontal: 'more',
+  ellipsis: 'more',
+  ellipsisSmall: 'more',
+  refresh: 'refresh',
+  undo: 'undo',
+  redo: 'redo',
+  clock: 'history',
+  calendar: 'calendar',
+  download: 'download',
+  upload: 'upload',
+  link: 'link',
+  unlink: 'unlink',
+  eye: 'show',
+  eyeOff: 'hide',
+  dragHandle: 'dragHandle',
 };
 
 /**
@@ -550,7 +651,7 @@ export function enhanceIconButtons(): void {
     const cls = svg.getAttribute('class') ?? '';
     for (const token of cls.split(/\s+/)) {
       if (token in ICON_BUTTON_LABELS) {
-        btn.setAttribute('aria-label', ICON_BUTTON_LABELS[token]);
+        btn.setAttribute('aria-label', t(ICON_BUTTON_LABELS[token]));
         mark(btn);
         break;
       }
@@ -575,11 +676,11 @@ export function enhanceInlineLinks(): void {
     // Check if it's a user mention (has avatar/icon)
     const hasAvatar = link.querySelector('img, [class*="avatar"]');
     if (hasAvatar) {
-      link.setAttribute('aria-label', `メンション: ${text}`);
+      link.setAttribute('aria-label', t('mention', { text }));
     } else if (link.href.includes('notion.so')) {
       // Page link — only add prefix if not already labeled
       if (!link.getAttribute('aria-label')) {
-        link.setAttribute('aria-label', `ページリンク: ${text}`);
+        link.setAttribute('aria-label', t('pageLink', { text }));
       }
     }
     mark(link);
@@ -593,7 +694,7 @@ export function enhanceInlineLinks(): void {
     if (isMarked(dateMention)) continue;
     const text = dateMention.textContent?.trim();
     if (text && !dateMention.getAttribute('aria-label')) {
-      dateMention.setAttribute('aria-label', `日付: ${text}`);
+      dateMention.setAttribute('aria-label', t('date', { text }));
     }
     mark(dateMention);
   }
@@ -628,6 +729,9 @@ export function scanAndEnhance(): number {
     }
   }
 
+  // List grouping (after blocks, so numbered labels are not overwritten)
+  enhanceLists();
+
   // Textboxes
   const textboxes = document.querySelectorAll(TEXTBOX);
   for (const tb of textboxes) {
@@ -2,70 +2,60 @@
  * Block Focus Manager — Virtual Cursor
  *
  * Two-mode navigation for Notion blocks:
- * - Navigate mode: virtual cursor highlights blocks, ↑/↓ move between them
+ * - Navigate mode: virtual cursor highlights blocks, ↑/↓ move between them,
+ *   ← moves out to the parent block and → into the first child
  * - Edit mode: all keys pass through to Notion for normal editing
  *
  * Enter switches Navigate → Edit (places caret in block).
  * Escape switches Edit → Navigate (highlights current block).
  *
+ * Quick keys (settings.quickKeys, e.g. H / T / L) jump to the next block of
+ * a kind while the virtual cursor is up; with Shift they jump backwards.
+ *
+ * Like native lists, moving into or out of a bulleted / numbered list
+ * announces "リスト n項目" / "リスト終了" before the block.
+ *
  * Uses CSS-class highlighting instead of DOM focus to preserve
  * Notion's contenteditable editing system.  Block containers are
  * children of a single whenContentEditable wrapper — moving DOM
- * focus to them breaks text input.
+ * focus to them breaks text input.  The VoiceOver profile is the
+ * exception: its cursor does not follow the highlight, so the block
+ * also receives DOM focus and Enter moves focus back into the textbox.
  */
 
 import { logDebug } from '../shared/logger';
+import { t, type MessageKey } from '../shared/i18n';
+import { DEFAULT_SETTINGS } from '../shared/constants';
 import {
   BLOCK_SELECTABLE,
+  BLOCK_TYPE_MAP,
   TEXTBOX,
   MAIN_FRAME,
-  detectBlockType,
-  BLOCK_TYPE_MAP,
-  getBlockText,
+  type ListInfo,
+  getListInfo,
 } from './selectors';
 import { announce } from './live-announcer';
+import { playEarcon } from './earcons';
+import { formatBlock } from './announcement-formatter';
+import { getProfile } from './sr-profile';
+import {
+  type BlockEntry,
+  getBlocks, getBlockEntry, findBlock, findHeading, getFirstChild, getSibling,
+  getCurrentBlock, getCurrentBlockIndex, setCurrentBlock,
+} from './block-model';
 
 const MODULE = 'BlockFocusManager';
 const NAV_HIGHLIGHT_CLASS = 'accessible-notion-nav-focus';
 
-let currentBlockIndex = -1;
 let navigateMode = false;
 let keydownHandler: ((e: KeyboardEvent) => void) | null = null;
 let styleElement: HTMLStyleElement | null = null;
+/** Lists containing the last announced block, outermost first */
+let listChain: ListInfo[] = [];
+let quickKeys: Record<string, string> = { ...DEFAULT_SETTINGS.quickKeys };
 
 // ─── Block Utilities ─────────────────────────────────────────
 
-function getAllBlocks(): HTMLElement[] {
-  const main = document.querySelector(MAIN_FRAME);
-  if (!main) return [];
-  return Array.from(main.querySelectorAll<HTMLElement>(BLOCK_SELECTABLE));
-}
-
-function buildAnnouncement(block: HTMLElement, index: number, total: number): string {
-  const blockType = detectBlockType(block);
-  const info = blockType ? BLOCK_TYPE_MAP[blockType] : null;
-  const typeLabel = info?.description ?? 'ブロック';
-  const text = getBlockText(block, 60);
-
-  let msg = typeLabel;
-  if (text) {
-    msg += `: ${text}`;
-  } else {
-    msg += ' (空)';
-  }
-
-  const expanded = block.getAttribute('aria-expanded');
-  if (expanded === 'true') msg += ', 展開';
-  else if (expanded === 'false') msg += ', 折りたたみ';
-
-  const checked = block.getAttribute('aria-checked');
-  if (checked === 'true') msg += ', チェック済み';
-  else if (checked === 'false') msg += ', 未チェック';
-
-  msg += ` (${index + 1}/${total})`;
-  return msg;
-}
-
 function hasOpenPopupOrDialog(): boolean {
   return !!document.querySelector(
     '.notion-overlay-container [role="dialog"], ' +
@@ -82,7 +72,7 @@ function removeHighlight(): void {
 }
 
 function moveHighlight(index: number): void {
-  const blocks = getAllBlocks();
+  const blocks = getBlocks();
   if (blocks.length === 0) return;
 
   if (index < 0) index = 0;
@@ -90,18 +80,152 @@ function moveHighlight(index: number): void {
 
   removeHighlight();
 
-  const block = blocks[index];
-  currentBlockIndex = index;
+  const block = blocks[index].element;
+  setCurrentBlock(blocks[index]);
   block.classList.add(NAV_HIGHLIGHT_CLASS);
+  if (getProfile().blockFocus === 'dom') {
+    if (!block.hasAttribute('tabindex')) block.setAttribute('tabindex', '-1');
+    block.focus({ preventScroll: true });
+  }
   block.scrollIntoView?.({ block: 'nearest', behavior: 'smooth' });
   logDebug(MODULE, `Highlighted block ${index}`);
 }
 
+function getListChain(block: Element): ListInfo[] {
+  const chain: ListInfo[] = [];
+  for (let el: Element | null | undefined = block; el; el = el.parentElement?.closest(BLOCK_SELECTABLE)) {
+    const list = getListInfo(el);
+    if (list && BLOCK_TYPE_MAP[list.type].role === 'listitem') chain.unshift(list);
+  }
+  return chain;
+}
+
+/** Cues for the lists left and entered since the last announced block */
+function describeListChange(block: Element): string[] {
+  const chain = getListChain(block);
+  let common = 0;
+  while (common < chain.length && common < listChain.length
+    && chain[common].first === listChain[common].first) {
+    common++;
+  }
+  const cues = [
+    ...listChain.slice(common).map(() => t('listLeave')),
+    ...chain.slice(common).map((list) => t('listEnter', { count: list.total })),
+  ];
+  listChain = chain;
+  return cues;
+}
+
 function announceBlock(prefix?: string): void {
-  const blocks = getAllBlocks();
-  if (currentBlockIndex < 0 || currentBlockIndex >= blocks.length) return;
-  const msg = buildAnnouncement(blocks[currentBlockIndex], currentBlockIndex, blocks.length);
-  announce(prefix ? `${prefix} ${msg}` : msg);
+  const entry = getCurrentBlock();
+  if (!entry) return;
+  const msg = formatBlock(entry.element, { index: entry.index, total: getBlocks().length });
+  const cues = describeListChange(entry.element);
+  announce([prefix, ...cues, msg].filter(Boolean).join(' '), { interrupt: true, source: MODULE });
+}
+
+/** Highlight and announce a search result, or announce that there is none */
+function moveToEntry(entry: BlockEntry | null, notFound: string): void {
+  if (entry) {
+    moveHighlight(entry.index);
+    announceBlock();
+  } else {
+    playEarcon('boundary');
+    announce(notFound, { interrupt: true, source: MODULE });
+  }
+}
+
+function startNavigateMode(): void {
+  if (!navigateMode) playEarcon('navigateModeStart');
+  navigateMode = true;
+}
+
+/**
+ * Block the tree commands start from: the cursor in navigate mode,
+ * otherwise the block being edited.
+ */
+function getTreeOrigin(): BlockEntry | null {
+  if (navigateMode) return getCurrentBlock();
+  const focused = document.activeElement?.closest(BLOCK_SELECTABLE);
+  return focused ? getBlockEntry(focused) : null;
+}
+
+function moveInTree(find: (origin: BlockEntry) => BlockEntry | null, notFound: string): void {
+  if (getBlocks().length === 0) return;
+  const origin = getTreeOrigin();
+  if (!origin) {
+    enterNavigateMode(0);
+    return;
+  }
+
+  startNavigateMode();
+  const target = find(origin);
+  // Coming from edit mode the cursor still has to land somewhere
+  if (!target) moveHighlight(origin.index);
+  moveToEntry(target, notFound);
+}
+
+// ─── Quick Keys ──────────────────────────────────────────────
+
+interface QuickKeyTarget {
+  /** Kind of block, read in "次の{kind}がありません" */
+  label: MessageKey;
+  matches: (entry: BlockEntry) => boolean;
+}
+
+const TABLE_BLOCK_TYPES = new Set(['table-block', 'collection_view-block', 'collection_view_page-block']);
+const LINK_BLOCK_TYPES = new Set(['page-block', 'alias-block', 'bookmark-block']);
+
+function isType(type: string): (entry: BlockEntry) => boolean {
+  return (entry) => entry.type === type;
+}
+
+/** Link in the block's own text (not in a nested child block) */
+function hasOwnLink(entry: BlockEntry): boolean {
+  const textbox = entry.element.querySelector(TEXTBOX);
+  return !!textbox && textbox.closest(BLOCK_SELECTABLE) === entry.element && !!textbox.querySelector('a[href]');
+}
+
+/** First item of a bulleted / numbered list — L stops once per list */
+function isListStart(entry: BlockEntry): boolean {
+  const list = getListInfo(entry.element);
+  return !!list && list.index === 0 && BLOCK_TYPE_MAP[list.type].role === 'listitem';
+}
+
+/** Quick key name (settings.quickKeys) → blocks it jumps between */
+const QUICK_KEY_TARGETS: Record<string, QuickKeyTarget> = {
+  heading: { label: 'quickKeyHeading', matches: (entry) => entry.headingLevel !== null },
+  heading1: { label: 'quickKeyHeading1', matches: (entry) => entry.headingLevel === 1 },
+  heading2: { label: 'quickKeyHeading2', matches: (entry) => entry.headingLevel === 2 },
+  heading3: { label: 'quickKeyHeading3', matches: (entry) => entry.headingLevel === 3 },
+  table: { label: 'quickKeyTable', matches: (entry) => TABLE_BLOCK_TYPES.has(entry.type ?? '') },
+  list: { label: 'quickKeyList', matches: isListStart },
+  todo: { label: 'quickKeyTodo', matches: isType('to_do-block') },
+  image: { label: 'quickKeyImage', matches: isType('image-block') },
+  link: { label: 'quickKeyLink', matches: (entry) => LINK_BLOCK_TYPES.has(entry.type ?? '') || hasOwnLink(entry) },
+  code: { label: 'quickKeyCode', matches: isType('code-block') },
+  quote: { label: 'quickKeyQuote', matches: isType('quote-block') },
+};
+
+function getQuickKeyName(e: KeyboardEvent): string | null {
+  // e.code keeps Shift+1 as "1" rather than "!"
+  const key = e.code.startsWith('Key') ? e.code.slice(3)
+    : e.code.startsWith('Digit') ? e.code.slice(5)
+    : e.key;
+  if (key.length !== 1) return null;
+
+  for (const [name, value] of Object.entries(quickKeys)) {
+    if (value && value.toLowerCase() === key.toLowerCase() && name in QUICK_KEY_TARGETS) {
+      return name;
+    }
+  }
+  return null;
+}
+
+function jumpToQuickKeyTarget(name: string, direction: 1 | -1): void {
+  const target = QUICK_KEY_TARGETS[name];
+  const notFound = t(direction === 1 ? 'quickKeyNoNext' : 'quickKeyNoPrev', { kind: t(target.label) });
+  moveToEntry(findBlock(getCurrentBlockIndex(), direction, target.matches), notFound);
 }
 
 // ─── Event Handler ───────────────────────────────────────────
@@ -120,45 +244,75 @@ function handleKeydown(e: KeyboardEvent): void {
       return;
     }
 
+    const quickKey = getQuickKeyName(e);
+    if (quickKey) {
+      e.preventDefault();
+      e.stopPropagation();
+      jumpToQuickKeyTarget(quickKey, e.shiftKey ? -1 : 1);
+      return;
+    }
+
     // Let Shift+arrow pass through for Notion's multi-block selection
     if (e.shiftKey) return;
 
-    const blocks = getAllBlocks();
+    const blocks = getBlocks();
     if (blocks.length === 0) {
       navigateMode = false;
+      listChain = [];
       removeHighlight();
       return;
     }
+    const current = getCurrentBlockIndex();
 
     switch (e.key) {
       case 'ArrowDown': {
         e.preventDefault();
         e.stopPropagation();
-        if (currentBlockIndex < blocks.length - 1) {
-          moveHighlight(currentBlockIndex + 1);
+        if (current < blocks.length - 1) {
+          moveHighlight(current + 1);
           announceBlock();
         } else {
-          announce('最後のブロックです');
+          playEarcon('boundary');
+          announce(t('lastBlock'), { interrupt: true, source: MODULE });
         }
         return;
       }
       case 'ArrowUp': {
         e.preventDefault();
         e.stopPropagation();
-        if (currentBlockIndex > 0) {
-          moveHighlight(currentBlockIndex - 1);
+        if (current > 0) {
+          moveHighlight(current - 1);
           announceBlock();
         } else {
-          announce('最初のブロックです');
+          playEarcon('boundary');
+          announce(t('firstBlock'), { interrupt: true, source: MODULE });
         }
         return;
       }
+      case 'ArrowLeft': {
+        e.preventDefault();
+        e.stopPropagation();
+        navigateToParent();
+        return;
+      }
+      case 'ArrowRight': {
+        e.preventDefault();
+        e.stopPropagation();
+        navigateToFirstChild();
+        return;
+      }
       case 'Enter': {
         // Place caret in the highlighted block's textbox
-        if (currentBlockIndex >= 0 && currentBlockIndex < blocks.length) {
-          const block = blocks[currentBlockIndex];
+        if (current >= 0) {
+          const block = blocks[current].element;
           const editable = block.querySelector<HTMLElement>(TEXTBOX);
           if (editable) {
+            // DOM-focus profile: the block holds focus, so Enter must not
+            // reach Notion with the block as target
+            if (getProfile().blockFocus === 'dom') {
+              e.preventDefault();
+              editable.focus();
+            }
             const sel = window.getSelection();
             const range = document.createRange();
             range.selectNodeContents(editable);
@@ -168,9 +322,11 @@ function handleKeydown(e: KeyboardEvent): void {
           }
         }
         navigateMode = false;
+        listChain = [];
         removeHighlight();
         // Don't preventDefault — let Notion handle Enter
-        announce('編集モード');
+        playEarcon('navigateModeEnd');
+        announce(t('editMode'), { interrupt: true, source: MODULE });
         logDebug(MODULE, 'Exited navigate mode (Enter)');
         return;
       }
@@ -179,8 +335,10 @@ function handleKeydown(e: KeyboardEvent): void {
           e.preventDefault();
           e.stopPropagation();
           navigateMode = false;
+          listChain = [];
           removeHighlight();
-          announce('ナビゲートモード終了');
+          playEarcon('navigateModeEnd');
+          announce(t('navigateModeEnd'), { interrupt: true, source: MODULE });
           logDebug(MODULE, 'Exited navigate mode (Escape)');
         }
         return;
@@ -198,14 +356,13 @@ function handleKeydown(e: KeyboardEvent): void {
     if (editable) {
       const block = active.closest(BLOCK_SELECTABLE) as HTMLElement | null;
       if (block && !hasOpenPopupOrDialog()) {
-        const blocks = getAllBlocks();
-        const idx = blocks.indexOf(block);
+        const idx = getBlockEntry(block)?.index ?? -1;
         if (idx >= 0) {
           e.preventDefault();
           e.stopPropagation();
-          navigateMode = true;
+          startNavigateMode();
           moveHighlight(idx);
-          announceBlock('ナビゲートモード.');
+          announceBlock(t('navigateMode'));
           logDebug(MODULE, 'Entered navigate mode (Escape)');
         }
       }
@@ -219,50 +376,55 @@ function handleKeydown(e: KeyboardEvent): void {
  * Enter Navigate mode, highlighting a specific block (or first/current).
  */
 export function enterNavigateMode(blockIndex?: number): void {
-  const blocks = getAllBlocks();
+  const blocks = getBlocks();
   if (blocks.length === 0) {
-    announce('ブロックが見つかりません');
+    announce(t('noBlocks'), { interrupt: true, source: MODULE });
     return;
   }
 
-  const idx = blockIndex ?? (currentBlockIndex >= 0 ? currentBlockIndex : 0);
-  navigateMode = true;
+  const current = getCurrentBlockIndex();
+  const idx = blockIndex ?? (current >= 0 ? current : 0);
+  startNavigateMode();
   moveHighlight(Math.min(Math.max(0, idx), blocks.length - 1));
-  announceBlock('ナビゲートモード.');
+  announceBlock(t('navigateMode'));
   logDebug(MODULE, 'Entered navigate mode');
 }
 
 export function navigateNext(): void {
-  const blocks = getAllBlocks();
+  const blocks = getBlocks();
   if (blocks.length === 0) return;
 
-  if (!navigateMode || currentBlockIndex < 0) {
+  const current = getCurrentBlockIndex();
+  if (!navigateMode || current < 0) {
     enterNavigateMode(0);
     return;
   }
 
-  if (currentBlockIndex < blocks.length - 1) {
-    moveHighlight(currentBlockIndex + 1);
+  if (current < blocks.length - 1) {
+    moveHighlight(current + 1);
     announceBlock();
   } else {
-    announce('最後のブロックです');
+    playEarcon('boundary');
+    announce(t('lastBlock'), { interrupt: true, source: MODULE });
   }
 }
 
 export function navigatePrev(): void {
-  const blocks = getAllBlocks();
+  const blocks = getBlocks();
   if (blocks.length === 0) return;
 
-  if (!navigateMode || currentBlockIndex < 0) {
+  const current = getCurrentBlockIndex();
+  if (!navigateMode || current < 0) {
     enterNavigateMode(0);
     return;
   }
 
-  if (currentBlockIndex > 0) {
-    moveHighlight(currentBlockIndex - 1);
+  if (current > 0) {
+    moveHighlight(current - 1);
     announceBlock();
   } else {
-    announce('最初のブロックです');
+    playEarcon('boundary');
+    announce(t('firstBlock'), { interrupt: true, source: MODULE });
   }
 }
 
@@ -271,66 +433,52 @@ export function navigateToFirst(): void {
 }
 
 export function navigateToLast(): void {
-  const blocks = getAllBlocks();
+  const blocks = getBlocks();
   if (blocks.length === 0) return;
   enterNavigateMode(blocks.length - 1);
 }
 
 export function navigateToNextHeading(): void {
-  const blocks = getAllBlocks();
-  if (blocks.length === 0) return;
-
-  if (!navigateMode) navigateMode = true;
-
-  const start = currentBlockIndex < 0 ? 0 : currentBlockIndex + 1;
-  for (let i = start; i < blocks.length; i++) {
-    const type = detectBlockType(blocks[i]);
-    if (type === 'header-block' || type === 'sub_header-block' || type === 'sub_sub_header-block') {
-      moveHighlight(i);
-      announceBlock();
-      return;
-    }
-  }
-  announce('次の見出しがありません');
+  if (getBlocks().length === 0) return;
+  startNavigateMode();
+  moveToEntry(findHeading(getCurrentBlockIndex(), 1), t('noNextHeading'));
 }
 
 export function navigateToPrevHeading(): void {
-  const blocks = getAllBlocks();
-  if (blocks.length === 0) return;
+  if (getBlocks().length === 0) return;
+  startNavigateMode();
+  const current = getCurrentBlockIndex();
+  // From the first block, search wraps to the end of the page
+  moveToEntry(findHeading(current <= 0 ? -1 : current, -1), t('noPrevHeading'));
+}
 
-  if (!navigateMode) navigateMode = true;
+export function navigateToNextHeadingLevel(level: number): void {
+  if (getBlocks().length === 0) return;
+  startNavigateMode();
+  moveToEntry(findHeading(getCurrentBlockIndex(), 1, level), t('noNextHeadingLevel', { level }));
+}
 
-  const start = currentBlockIndex <= 0 ? blocks.length - 1 : currentBlockIndex - 1;
-  for (let i = start; i >= 0; i--) {
-    const type = detectBlockType(blocks[i]);
-    if (type === 'header-block' || type === 'sub_header-block' || type === 'sub_sub_header-block') {
-      moveHighlight(i);
-      announceBlock();
-      return;
-    }
-  }
-  announce('前の見出しがありません');
+export function navigateToParent(): void {
+  moveInTree((origin) => origin.parent, t('noParentBlock'));
 }
 
-export function navigateToNextHeadingLevel(level: number): void {
-  const blocks = getAllBlocks();
-  if (blocks.length === 0) return;
+export function navigateToFirstChild(): void {
+  moveInTree(getFirstChild, t('noChildBlock'));
+}
 
-  if (!navigateMode) navigateMode = true;
+export function navigateToNextSibling(): void {
+  moveInTree((origin) => getSibling(origin, 1), t('noNextSibling'));
+}
 
-  const targetType = level === 1 ? 'header-block'
-    : level === 2 ? 'sub_header-block'
-    : 'sub_sub_header-block';
+export function navigateToPrevSibling(): void {
+  moveInTree((origin) => getSibling(origin, -1), t('noPrevSibling'));
+}
 
-  const start = currentBlockIndex < 0 ? 0 : currentBlockIndex + 1;
-  for (let i = start; i < blocks.length; i++) {
-    if (detectBlockType(blocks[i]) === targetType) {
-      moveHighlight(i);
-      announceBlock();
-      return;
-    }
-  }
-  announce(`次の見出し${level}がありません`);
+/**
+ * Apply settings.quickKeys. An empty key disables that jump.
+ */
+export function setQuickKeys(keys: Record<string, string>): void {
+  quickKeys = { ...keys };
 }
 
 // ─── Focus Style Injection ───────────────────────────────────
@@ -352,6 +500,7 @@ function injectFocusStyles(): void {
 // ─── Lifecycle ───────────────────────────────────────────────
 
 export function initBlockFocusManager(): void {
+  if (keydownHandler) return;
   keydownHandler = handleKeydown;
   document.addEventListener('keydown', keydownHandler, true);
   injectFocusStyles();
@@ -367,19 +516,21 @@ export function destroyBlockFocusManager(): void {
   styleElement?.remove();
   styleElement = null;
   navigateMode = false;
-  currentBlockIndex = -1;
+  listChain = [];
+  setCurrentBlock(null);
   logDebug(MODULE, 'Block focus manager destroyed');
 }
 
 export function resetBlockFocusManager(): void {
   navigateMode = false;
+  listChain = [];
   removeHighlight();
-  currentBlockIndex = -1;
+  setCurrentBlock(null);
 }
 
 // For testing
 export function getCurrentIndex(): number {
-  return currentBlockIndex;
+  return getCurrentBlockIndex();
 }
 
 export function isNavigateMode(): boolean {
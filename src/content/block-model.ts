@@ -0,0 +1,232 @@
+/**
+ * Block Model
+ *
+ * Cached, ordered list of the blocks in the main content area, shared by
+ * block-focus-manager (virtual cursor), block-navigator (announcements)
+ * and the announcement formatter. main.ts's MutationObserver marks the
+ * list stale when blocks are added or removed, and it is rebuilt lazily on
+ * next access — arrow keys no longer re-query the whole main frame.
+ *
+ * Also holds the shared block cursor, so "current block" means the same
+ * thing to every module.
+ */
+
+import { logDebug } from '../shared/logger';
+import { BLOCK_SELECTABLE, BLOCK_TYPE_MAP, MAIN_FRAME, detectBlockType, getBlockText } from './selectors';
+
+const MODULE = 'BlockModel';
+
+/** Layout-only blocks that do not count as nesting for the reader */
+const LAYOUT_BLOCK_TYPES = new Set(['column-block', 'column_list-block']);
+
+export interface BlockEntry {
+  element: HTMLElement;
+  /** Position in document order */
+  index: number;
+  /** Notion block type, e.g. "header-block" */
+  type: string | null;
+  /** 1–3 for headings, null otherwise */
+  headingLevel: number | null;
+  /** Nesting depth, 1 = top level (column layouts are not counted) */
+  depth: number;
+  /** Nearest enclosing non-layout block */
+  parent: BlockEntry | null;
+  /** Full block text, read live from the DOM */
+  readonly text: string;
+}
+
+let entries: BlockEntry[] = [];
+let entryByElement = new Map<Element, BlockEntry>();
+let cachedMain: Element | null = null;
+let dirty = true;
+
+let currentBlock: HTMLElement | null = null;
+
+// ─── Cache ───────────────────────────────────────────────────
+
+function createEntry(element: HTMLElement, index: number): BlockEntry {
+  const type = detectBlockType(element);
+  const info = type ? BLOCK_TYPE_MAP[type] : null;
+
+  let parent: BlockEntry | null = null;
+  for (
+    let el = element.parentElement?.closest(BLOCK_SELECTABLE);
+    el;
+    el = el.parentElement?.closest(BLOCK_SELECTABLE)
+  ) {
+    const candidate = entryByElement.get(el);
+    if (candidate && !LAYOUT_BLOCK_TYPES.has(candidate.type ?? '')) {
+      parent = candidate;
+      break;
+    }
+  }
+
+  return {
+    element,
+    index,
+    type,
+    headingLevel: info?.role === 'heading' ? info.ariaLevel ?? null : null,
+    depth: parent ? parent.depth + 1 : 1,
+    parent,
+    get text() {
+      return getBlockText(element, Infinity);
+    },
+  };
+}
+
+function rebuild(main: Element | null): void {
+  entries = [];
+  entryByElement = new Map();
+  cachedMain = main;
+  dirty = false;
+  if (!main) return;
+
+  // querySelectorAll is in document order, so parents precede children
+  const blocks = main.querySelectorAll<HTMLElement>(BLOCK_SELECTABLE);
+  for (const block of blocks) {
+    const entry = createEntry(block, entries.length);
+    entries.push(entry);
+    entryByElement.set(block, entry);
+  }
+  logDebug(MODULE, `Block list rebuilt: ${entries.length} blocks`);
+}
+
+/**
+ * Mark the block list stale. Cheap — the list is rebuilt on next access.
+ */
+export function invalidateBlocks(): void {
+  dirty = true;
+}
+
+function containsBlock(node: Node): boolean {
+  return node instanceof Element && (node.matches(BLOCK_SELECTABLE) || !!node.querySelector(BLOCK_SELECTABLE));
+}
+
+/**
+ * Invalidate when a mutation batch added or removed blocks. Text edits and
+ * attribute changes (e.g. the navigation highlight class) keep the cache.
+ */
+export function invalidateBlocksOnMutation(mutations: MutationRecord[]): void {
+  if (dirty) return;
+  for (const mutation of mutations) {
+    if (mutation.type !== 'childList') continue;
+    for (const node of mutation.addedNodes) {
+      if (containsBlock(node)) { dirty = true; return; }
+    }
+    for (const node of mutation.removedNodes) {
+      if (containsBlock(node)) { dirty = true; return; }
+    }
+  }
+}
+
+/**
+ * All blocks in the main content area, in document order.
+ */
+export function getBlocks(): readonly BlockEntry[] {
+  // A page change replaces the main frame without necessarily notifying us
+  const main = document.querySelector(MAIN_FRAME);
+  if (dirty || main !== cachedMain) rebuild(main);
+  return entries;
+}
+
+/**
+ * Entry for a block element, or null when it is not in the main content area.
+ */
+export function getBlockEntry(element: Element): BlockEntry | null {
+  getBlocks();
+  return entryByElement.get(element) ?? null;
+}
+
+// ─── Search ──────────────────────────────────────────────────
+
+/**
+ * Find the next block after `from` (direction 1) or before it (-1) that
+ * matches `predicate`. `from` = -1 searches from the start (or from the
+ * end when going back).
+ */
+export function findBlock(
+  from: number,
+  direction: 1 | -1,
+  predicate: (entry: BlockEntry) => boolean,
+): BlockEntry | null {
+  const blocks = getBlocks();
+  const start = from < 0 ? (direction === 1 ? 0 : blocks.length - 1) : from + direction;
+  for (let i = start; i >= 0 && i < blocks.length; i += direction) {
+    if (predicate(blocks[i])) return blocks[i];
+  }
+  return null;
+}
+
+/**
+ * Find the next heading after `from` (direction 1) or before it (-1).
+ * When `level` is given only headings of that level match.
+ */
+export function findHeading(from: number, direction: 1 | -1, level?: number): BlockEntry | null {
+  return findBlock(from, direction, ({ headingLevel }) =>
+    headingLevel !== null && (level === undefined || headingLevel === level));
+}
+
+// ─── Tree ────────────────────────────────────────────────────
+//
+// Column layouts are transparent: blocks inside a column are children
+// (or siblings) of whatever encloses the column list, matching `depth`.
+
+function isLayout(entry: BlockEntry): boolean {
+  return LAYOUT_BLOCK_TYPES.has(entry.type ?? '');
+}
+
+/**
+ * First direct child of `entry`, or null when it has none.
+ */
+export function getFirstChild(entry: BlockEntry): BlockEntry | null {
+  const blocks = getBlocks();
+  // A layout block's contents hang off the layout's own parent
+  const owner = isLayout(entry) ? entry.parent : entry;
+  for (let i = entry.index + 1; i < blocks.length; i++) {
+    const candidate = blocks[i];
+    if (!entry.element.contains(candidate.element)) break;
+    if (candidate.parent === owner && !isLayout(candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Next (direction 1) or previous (-1) block with the same parent,
+ * skipping over descendants. Null at either end of the level.
+ */
+export function getSibling(entry: BlockEntry, direction: 1 | -1): BlockEntry | null {
+  const blocks = getBlocks();
+  const container = entry.parent?.element;
+  for (let i = entry.index + direction; i >= 0 && i < blocks.length; i += direction) {
+    const candidate = blocks[i];
+    if (container && !container.contains(candidate.element)) break;
+    if (candidate.parent === entry.parent && !isLayout(candidate)) return candidate;
+  }
+  return null;
+}
+
+// ─── Cursor ──────────────────────────────────────────────────
+
+/**
+ * Index of the current block, or -1 when there is none (or it was removed).
+ */
+export function getCurrentBlockIndex(): number {
+  if (!currentBlock) return -1;
+  return getBlockEntry(currentBlock)?.index ?? -1;
+}
+
+export function getCurrentBlock(): BlockEntry | null {
+  return currentBlock ? getBlockEntry(currentBlock) : null;
+}
+
+export function setCurrentBlock(entry: BlockEntry | null): void {
+  currentBlock = entry?.element ?? null;
+}
+
+/**
+ * Clear the cursor and the cache (page change).
+ */
+export function resetBlockModel(): void {
+  currentBlock = null;
+  dirty = true;
+}
@@ -7,74 +7,33 @@
  */
 
 import { logDebug } from '../shared/logger';
-import {
-  BLOCK_SELECTABLE,
-  BLOCK_TYPE_MAP,
-  MAIN_FRAME,
-  detectBlockType,
-  getBlockText,
-} from './selectors';
+import { t } from '../shared/i18n';
+import { BLOCK_SELECTABLE, getBlockText } from './selectors';
 import { announce } from './live-announcer';
+import { formatBlock } from './announcement-formatter';
+import {
+  type BlockEntry,
+  getBlocks, getBlockEntry, findHeading,
+  getCurrentBlockIndex, setCurrentBlock, resetBlockModel,
+} from './block-model';
 
-const MODULE = 'BlockNavigator';
-
-let currentBlockIndex = -1;
-
-/**
- * Get all top-level blocks in the main content area (not nested ones).
- */
-function getAllBlocks(): HTMLElement[] {
-  const main = document.querySelector(MAIN_FRAME);
-  if (!main) return [];
-
-  const blocks = main.querySelectorAll<HTMLElement>(BLOCK_SELECTABLE);
-  // Filter to exclude blocks nested inside other blocks (e.g. columns, toggles)
-  // We include all blocks for navigation — nesting is communicated via aria-level
-  return Array.from(blocks);
-}
-
-/**
- * Build an announcement string for a block.
- */
-function announceBlock(block: HTMLElement): string {
-  const blockType = detectBlockType(block);
-  const info = blockType ? BLOCK_TYPE_MAP[blockType] : null;
-  const typeLabel = info?.description ?? 'ブロック';
-  const text = getBlockText(block, 60);
-
-  let msg = typeLabel;
-  if (text) {
-    msg += `: ${text}`;
-  } else {
-    msg += ' (空)';
-  }
-
-  // Toggle state
-  const expanded = block.getAttribute('aria-expanded');
-  if (expanded === 'true') msg += ', 展開';
-  else if (expanded === 'false') msg += ', 折りたたみ';
-
-  // Checkbox state
-  const checked = block.getAttribute('aria-checked');
-  if (checked === 'true') msg += ', チェック済み';
-  else if (checked === 'false') msg += ', 未チェック';
+export { getCurrentBlockIndex };
 
-  return msg;
-}
+const MODULE = 'BlockNavigator';
 
 /**
  * Navigate to a specific block by index.
  */
 function navigateToBlock(index: number): void {
-  const blocks = getAllBlocks();
+  const blocks = getBlocks();
   if (blocks.length === 0) return;
 
   // Clamp index
   if (index < 0) index = 0;
   if (index >= blocks.length) index = blocks.length - 1;
 
-  const block = blocks[index];
-  currentBlockIndex = index;
+  const block = blocks[index].element;
+  setCurrentBlock(blocks[index]);
 
   // Focus the block
   if (!block.hasAttribute('tabindex')) {
@@ -83,30 +42,37 @@ function navigateToBlock(index: number): void {
   block.focus();
 
   // Announce
-  const position = `${index + 1}/${blocks.length}`;
-  const msg = `${announceBlock(block)} (${position})`;
-  announce(msg);
+  announce(formatBlock(block, { index, total: blocks.length }), { interrupt: true, source: MODULE });
 
   logDebug(MODULE, `Navigated to block ${index}:`, block.className);
 }
 
+function navigateToEntry(entry: BlockEntry | null, notFound: string): void {
+  if (entry) {
+    navigateToBlock(entry.index);
+  } else {
+    announce(notFound, { interrupt: true, source: MODULE });
+  }
+}
+
 /**
  * Move to the next block.
  */
 export function nextBlock(): void {
-  const blocks = getAllBlocks();
+  const blocks = getBlocks();
   if (blocks.length === 0) return;
 
+  const current = getCurrentBlockIndex();
   // If no current block, start from the first one
-  if (currentBlockIndex < 0) {
+  if (current < 0) {
     navigateToBlock(0);
     return;
   }
 
-  if (currentBlockIndex < blocks.length - 1) {
-    navigateToBlock(currentBlockIndex + 1);
+  if (current < blocks.length - 1) {
+    navigateToBlock(current + 1);
   } else {
-    announce('最後のブロックです');
+    announce(t('lastBlock'), { interrupt: true, source: MODULE });
   }
 }
 
@@ -114,19 +80,20 @@ export function nextBlock(): void {
  * Move to the previous block.
  */
 export function prevBlock(): void {
-  const blocks = getAllBlocks();
+  const blocks = getBlocks();
   if (blocks.length === 0) return;
 
-  if (currentBlockIndex <= 0) {
-    if (currentBlockIndex < 0) {
+  const current = getCurrentBlockIndex();
+  if (current <= 0) {
+    if (current < 0) {
       navigateToBlock(0);
     } else {
-      announce('最初のブロックです');
+      announce(t('firstBlock'), { interrupt: true, source: MODULE });
     }
     return;
   }
 
-  navigateToBlock(currentBlockIndex - 1);
+  navigateToBlock(current - 1);
 }
 
 /**
@@ -138,11 +105,11 @@ export function announceCurrentBlock(): void {
 
   const block = active.closest(BLOCK_SELECTABLE) as HTMLElement | null;
   if (block) {
-    const blocks = getAllBlocks();
-    currentBlockIndex = blocks.indexOf(block);
-    announce(announceBlock(block));
+    const entry = getBlockEntry(block);
+    if (entry) setCurrentBlock(entry);
+    announce(formatBlock(block), { source: MODULE });
   } else {
-    announce('ブロック外です');
+    announce(t('outsideBlock'), { source: MODULE });
   }
 }
 
@@ -150,93 +117,49 @@ export function announceCurrentBlock(): void {
  * Read out the heading structure of the current page.
  */
 export function announceHeadingOutline(): void {
-  const blocks = getAllBlocks();
-  const headings: string[] = [];
-
-  for (const block of blocks) {
-    const blockType = detectBlockType(block);
-    if (blockType === 'header-block' || blockType === 'sub_header-block' || blockType === 'sub_sub_header-block') {
-      const text = getBlockText(block, 40);
-      const level = blockType === 'header-block' ? 1
-        : blockType === 'sub_header-block' ? 2 : 3;
-      headings.push(`H${level}: ${text}`);
-    }
-  }
+  const headings = getBlocks()
+    .filter((entry) => entry.headingLevel !== null)
+    .map((entry) => `H${entry.headingLevel}: ${getBlockText(entry.element, 40)}`);
 
   if (headings.length === 0) {
-    announce('見出しがありません');
+    announce(t('noHeadings'), { source: MODULE });
     return;
   }
 
-  announce(`見出し構造: ${headings.join(', ')}`);
+  announce(t('headingOutline', { headings: headings.join(', ') }), { source: MODULE });
 }
 
 /**
  * Navigate to the next heading block (any level).
  */
 export function nextHeading(): void {
-  const blocks = getAllBlocks();
-  if (blocks.length === 0) return;
-
-  const start = currentBlockIndex < 0 ? 0 : currentBlockIndex + 1;
-
-  for (let i = start; i < blocks.length; i++) {
-    const type = detectBlockType(blocks[i]);
-    if (type === 'header-block' || type === 'sub_header-block' || type === 'sub_sub_header-block') {
-      navigateToBlock(i);
-      return;
-    }
-  }
-  announce('次の見出しがありません');
+  if (getBlocks().length === 0) return;
+  navigateToEntry(findHeading(getCurrentBlockIndex(), 1), t('noNextHeading'));
 }
 
 /**
  * Navigate to the previous heading block (any level).
  */
 export function prevHeading(): void {
-  const blocks = getAllBlocks();
-  if (blocks.length === 0) return;
-
-  const start = currentBlockIndex <= 0 ? blocks.length - 1 : currentBlockIndex - 1;
-
-  for (let i = start; i >= 0; i--) {
-    const type = detectBlockType(blocks[i]);
-    if (type === 'header-block' || type === 'sub_header-block' || type === 'sub_sub_header-block') {
-      navigateToBlock(i);
-      return;
-    }
-  }
-  announce('前の見出しがありません');
+  if (getBlocks().length === 0) return;
+  const current = getCurrentBlockIndex();
+  // From the first block, search wraps to the end of the page
+  navigateToEntry(findHeading(current <= 0 ? -1 : current, -1), t('noPrevHeading'));
 }
 
 /**
  * Navigate to the next heading of a specific level (1, 2, or 3).
  */
 export function nextHeadingLevel(level: number): void {
-  const blocks = getAllBlocks();
-  if (blocks.length === 0) return;
-
-  const targetType = level === 1 ? 'header-block'
-    : level === 2 ? 'sub_header-block'
-    : 'sub_sub_header-block';
-
-  const start = currentBlockIndex < 0 ? 0 : currentBlockIndex + 1;
-
-  for (let i = start; i < blocks.length; i++) {
-    if (detectBlockType(blocks[i]) === targetType) {
-      navigateToBlock(i);
-      return;
-    }
-  }
-  announce(`次の見出し${level}がありません`);
+  if (getBlocks().length === 0) return;
+  navigateToEntry(findHeading(getCurrentBlockIndex(), 1, level), t('noNextHeadingLevel', { level }));
 }
 
 /**
  * Navigate to the first block.
  */
 export function firstBlock(): void {
-  const blocks = getAllBlocks();
-  if (blocks.length === 0) return;
+  if (getBlocks().length === 0) return;
   navigateToBlock(0);
 }
 
@@ -244,7 +167,7 @@ export function firstBlock(): void {
  * Navigate to the last block.
  */
 export function lastBlock(): void {
-  const blocks = getAllBlocks();
+  const blocks = getBlocks();
   if (blocks.length === 0) return;
   navigateToBlock(blocks.length - 1);
 }
@@ -253,12 +176,5 @@ export function lastBlock(): void {
  * Reset navigation state (e.g. on page change).
  */
 export function resetBlockNavigation(): void {
-  currentBlockIndex = -1;
-}
-
-/**
- * Get the current block index (for testing).
- */
-export function getCurrentBlockIndex(): number {
-  return currentBlockIndex;
+  resetBlockModel();
 }
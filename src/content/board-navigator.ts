@@ -0,0 +1,288 @@
+/**
+ * Board View Navigation
+ *
+ * Keyboard model for board (kanban) views. Entered with the grid mode
+ * shortcut (Alt+Shift+D) when the focused database shows a board:
+ * - ←/→: previous/next group, keeping the card position where possible
+ * - ↑/↓: previous/next card; Home/End: first/last card of the group
+ * - Enter: open the card
+ * - Shift+←/→: move the card to the previous/next group
+ * - Escape: leave board mode
+ *
+ * Notion changes a card's group only through mouse drag and drop, so a
+ * move replays the drag as mouse events (press on the card, move over the
+ * target group, release) and then checks where the card ended up.
+ */
+
+import { logDebug } from '../shared/logger';
+import { t } from '../shared/i18n';
+import { DB_COLLECTION_VIEW } from './selectors';
+import { announce } from './live-announcer';
+import { playEarcon } from './earcons';
+import { getGridCommand } from './sr-profile';
+import { openLinkedSource } from './db-source';
+import { dispatchMouse } from './dom-events';
+
+const MODULE = 'BoardNavigator';
+
+const GROUP_SELECTOR = '.notion-board-group';
+const GROUP_HEADER_SELECTOR = '.notion-board-group-header, [class*="board-group-header"]';
+const CARD_SELECTOR = '.notion-collection-item';
+
+/** Pointer travel that makes Notion treat a press as a drag (px) */
+const DRAG_THRESHOLD = 10;
+/** Time for Notion to re-render the board after a drop (ms) */
+const DROP_SETTLE_MS = 500;
+
+let boardView: HTMLElement | null = null;
+let currentGroup = 0;
+let currentCard = 0;
+let moveTimer: ReturnType<typeof setTimeout> | null = null;
+
+// ─── Board Structure ─────────────────────────────────────────
+
+function getGroups(board: HTMLElement): HTMLElement[] {
+  return Array.from(board.querySelectorAll<HTMLElement>(GROUP_SELECTOR));
+}
+
+function getCards(group: HTMLElement): HTMLElement[] {
+  return Array.from(group.querySelectorAll<HTMLElement>(CARD_SELECTOR));
+}
+
+/** Group label set by table-enhancer, falling back to the header text */
+function getGroupName(group: HTMLElement, index: number): string {
+  return group.getAttribute('aria-label')
+    || group.querySelector(GROUP_HEADER_SELECTOR)?.textContent?.trim()
+    || t('groupN', { index: index + 1 });
+}
+
+function getCardTitle(card: HTMLElement): string {
+  return card.getAttribute('aria-label') || card.textContent?.trim().substring(0, 50) || t('empty');
+}
+
+// ─── Focus ───────────────────────────────────────────────────
+
+/**
+ * Focus card `cardIndex` of group `groupIndex` (or the group itself when
+ * it has no cards) and return the position announcement.
+ */
+function focusPosition(board: HTMLElement, groupIndex: number, cardIndex: number): string {
+  const group = getGroups(board)[groupIndex];
+  const cards = getCards(group);
+  const groupName = getGroupName(group, groupIndex);
+
+  currentGroup = groupIndex;
+  if (cards.length === 0) {
+    currentCard = 0;
+    if (!group.hasAttribute('tabindex')) group.setAttribute('tabindex', '-1');
+    group.focus();
+    return t('boardGroupEmpty', { group: groupName });
+  }
+
+  currentCard = Math.min(cardIndex, cards.length - 1);
+  const card = cards[currentCard];
+  // Cards re-rendered after a move have not been through table-enhancer
+  if (!card.hasAttribute('tabindex')) card.setAttribute('tabindex', '-1');
+  card.focus();
+  return t('boardCard', {
+    group: groupName,
+    index: currentCard + 1,
+    total: cards.length,
+    card: getCardTitle(card),
+  });
+}
+
+function moveTo(board: HTMLElement, groupIndex: number, cardIndex: number): void {
+  const groups = getGroups(board);
+  if (groupIndex < 0 || groupIndex >= groups.length) {
+    playEarcon('boundary');
+    return;
+  }
+  const cardCount = getCards(groups[groupIndex]).length;
+  if (groupIndex === currentGroup && (cardIndex < 0 || cardIndex >= cardCount)) {
+    playEarcon('boundary');
+    return;
+  }
+  announce(focusPosition(board, groupIndex, Math.max(cardIndex, 0)), { interrupt: true, source: MODULE });
+}
+
+// ─── Actions ─────────────────────────────────────────────────
+
+function openCard(board: HTMLElement): void {
+  const card = getCards(getGroups(board)[currentGroup])[currentCard];
+  if (!card) return;
+  // Cards are usually a link to the item page; clicking it opens the peek
+  const link = card.querySelector<HTMLElement>('a[href]') ?? card;
+  link.click();
+  announce(t('pageOpened', { title: getCardTitle(card) }), { source: MODULE });
+}
+
+/**
+ * Replay a mouse drag of `card` into `group`, dropping below its last
+ * card (or onto the group when it is empty).
+ */
+function dragCardTo(card: HTMLElement, group: HTMLElement): void {
+  const from = card.getBoundingClientRect();
+  const startX = from.left + from.width / 2;
+  const startY = from.top + from.height / 2;
+
+  const cards = getCards(group);
+  const dropTarget = cards[cards.length - 1] ?? group;
+  const to = dropTarget.getBoundingClientRect();
+  const endX = to.left + to.width / 2;
+  const endY = cards.length > 0 ? to.bottom - to.height / 4 : to.top + to.height / 2;
+
+  dispatchMouse(card, 'mousedown', startX, startY);
+  dispatchMouse(card, 'mousemove', startX + DRAG_THRESHOLD, startY);
+  dispatchMouse(dropTarget, 'mousemove', endX, endY);
+  dispatchMouse(dropTarget, 'mouseup', endX, endY);
+}
+
+function findCard(board: HTMLElement, card: HTMLElement): HTMLElement | null {
+  if (card.isConnected && board.contains(card)) return card;
+  // Notion may re-render the card as a new element
+  const blockId = card.getAttribute('data-block-id');
+  if (!blockId) return null;
+  return Array.from(board.querySelectorAll<HTMLElement>(CARD_SELECTOR))
+    .find((c) => c.getAttribute('data-block-id') === blockId) ?? null;
+}
+
+function moveCard(board: HTMLElement, direction: 1 | -1): void {
+  const groups = getGroups(board);
+  const card = getCards(groups[currentGroup])[currentCard];
+  if (!card) return;
+
+  const targetIndex = currentGroup + direction;
+  if (targetIndex < 0 || targetIndex >= groups.length) {
+    playEarcon('boundary');
+    announce(t('boardNoGroup'), { source: MODULE });
+    return;
+  }
+
+  const title = getCardTitle(card);
+  const targetGroup = groups[targetIndex];
+  const targetName = getGroupName(targetGroup, targetIndex);
+  dragCardTo(card, targetGroup);
+  logDebug(MODULE, `Dragged card to group ${targetIndex + 1}`);
+
+  if (moveTimer) clearTimeout(moveTimer);
+  moveTimer = setTimeout(() => {
+    moveTimer = null;
+    if (boardView !== board) return;
+
+    const moved = findCard(board, card);
+    const groupIndex = moved ? getGroups(board).indexOf(moved.closest<HTMLElement>(GROUP_SELECTOR)!) : -1;
+    if (!moved || groupIndex !== targetIndex) {
+      announce(t('boardCardMoveFailed', { card: title }), { priority: 'assertive', source: MODULE });
+      return;
+    }
+
+    const cards = getCards(getGroups(board)[groupIndex]);
+    focusPosition(board, groupIndex, cards.indexOf(moved));
+    announce(t('boardCardMoved', {
+      card: title,
+      group: targetName,
+      index: currentCard + 1,
+      total: cards.length,
+    }), { source: MODULE });
+  }, DROP_SETTLE_MS);
+}
+
+// ─── Keyboard ────────────────────────────────────────────────
+
+function handleBoardKeydown(event: KeyboardEvent): void {
+  const board = boardView;
+  if (!board) return;
+
+  const plain = !event.ctrlKey && !event.altKey && !event.metaKey;
+  if (plain && event.shiftKey && (event.key === 'ArrowLeft' || event.key === 'ArrowRight')) {
+    event.preventDefault();
+    event.stopPropagation();
+    moveCard(board, event.key === 'ArrowRight' ? 1 : -1);
+    return;
+  }
+  if (plain && !event.shiftKey && event.key === 'Enter') {
+    event.preventDefault();
+    event.stopPropagation();
+    openCard(board);
+    return;
+  }
+  if (plain && !event.shiftKey && (event.key === 's' || event.key === 'S')) {
+    event.preventDefault();
+    event.stopPropagation();
+    if (openLinkedSource(board)) destroyBoardNavigator();
+    return;
+  }
+
+  const command = getGridCommand(event);
+  if (!command) return;
+
+  event.preventDefault();
+  event.stopPropagation();
+
+  const lastCard = getCards(getGroups(board)[currentGroup]).length - 1;
+  switch (command) {
+    case 'right': moveTo(board, currentGroup + 1, currentCard); break;
+    case 'left': moveTo(board, currentGroup - 1, currentCard); break;
+    case 'down': moveTo(board, currentGroup, currentCard + 1); break;
+    case 'up': moveTo(board, currentGroup, currentCard - 1); break;
+    case 'rowStart':
+    case 'tableStart': moveTo(board, currentGroup, 0); break;
+    case 'rowEnd':
+    case 'tableEnd': moveTo(board, currentGroup, lastCard); break;
+    case 'exit': exitBoardMode(); break;
+  }
+}
+
+// ─── Public API ──────────────────────────────────────────────
+
+/**
+ * Enter board mode on `board`, starting at the focused card if there is
+ * one, otherwise at the first card of the first group.
+ */
+export function enterBoardMode(board: HTMLElement): void {
+  const groups = getGroups(board);
+  if (groups.length === 0) {
+    announce(t('boardEmpty'), { source: MODULE });
+    return;
+  }
+
+  destroyBoardNavigator();
+  boardView = board;
+  board.addEventListener('keydown', handleBoardKeydown, true);
+
+  const active = document.activeElement as HTMLElement | null;
+  const activeCard = active?.closest<HTMLElement>(CARD_SELECTOR);
+  const activeGroup = activeCard?.closest<HTMLElement>(GROUP_SELECTOR);
+  const groupIndex = activeGroup ? groups.indexOf(activeGroup) : -1;
+  const position = groupIndex >= 0
+    ? focusPosition(board, groupIndex, getCards(activeGroup!).indexOf(activeCard!))
+    : focusPosition(board, 0, 0);
+
+  playEarcon('gridModeStart');
+  announce(t('boardModeStart', { position }), { source: MODULE });
+  logDebug(MODULE, `Board mode entered: ${groups.length} groups`);
+}
+
+export function exitBoardMode(): void {
+  const board = boardView;
+  if (!board) return;
+  destroyBoardNavigator();
+  (board.closest<HTMLElement>(DB_COLLECTION_VIEW) ?? board).focus();
+  playEarcon('gridModeEnd');
+  announce(t('boardModeEnd'), { source: MODULE });
+  logDebug(MODULE, 'Board mode exited');
+}
+
+export function isBoardModeActive(): boolean {
+  return boardView !== null;
+}
+
+export function destroyBoardNavigator(): void {
+  boardView?.removeEventListener('keydown', handleBoardKeydown, true);
+  boardView = null;
+  currentGroup = 0;
+  currentCard = 0;
+  if (moveTimer) clearTimeout(moveTimer);
+  moveTimer = null;
+}
@@ -0,0 +1,75 @@
+/**
+ * Braille Labels
+ *
+ * Compact labels for refreshable braille displays (settings.braille).
+ * Spoken labels lead with role words and separators ("テキストブロック: …",
+ * "ステータス: 空") that fill a 40-cell display before the content starts.
+ * When enabled, modules pair each spoken label with a short form through
+ * aria-braillelabel / aria-brailleroledescription (ARIA 1.3); screen
+ * readers show those on the display and keep speaking the normal label.
+ *
+ * Browsers without ARIA 1.3 braille support get no extra attributes.
+ */
+
+const BRAILLE_TEXT_LENGTH = 60;
+/** Column names are cut short in cell labels — the value matters more */
+const COLUMN_NAME_LENGTH = 6;
+/** Shown for empty content; one cell instead of a word */
+const EMPTY = '-';
+
+let brailleEnabled = false;
+
+export function setBrailleLabels(enabled: boolean): void {
+  brailleEnabled = enabled;
+}
+
+/**
+ * ARIA 1.3 braille attributes are reflected as element properties in
+ * browsers that support them.
+ */
+export function isBrailleSupported(): boolean {
+  return 'ariaBrailleLabel' in Element.prototype;
+}
+
+function isActive(): boolean {
+  return brailleEnabled && isBrailleSupported();
+}
+
+/**
+ * Collapse whitespace and cut `text` to `maxLength` characters.
+ */
+export function compactText(text: string, maxLength = BRAILLE_TEXT_LENGTH): string {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  return collapsed.length > maxLength ? collapsed.slice(0, maxLength) + '…' : collapsed;
+}
+
+/**
+ * Set the braille form of an element's label, or remove it when braille
+ * labels are off. An empty label is shown as "-" (the attribute must not
+ * be empty).
+ */
+export function setBrailleLabel(el: Element, label: string): void {
+  if (isActive()) {
+    el.setAttribute('aria-braillelabel', compactText(label) || EMPTY);
+  } else {
+    el.removeAttribute('aria-braillelabel');
+  }
+}
+
+/**
+ * Set the braille form of an element's aria-roledescription.
+ */
+export function setBrailleRoleDescription(el: Element, description: string): void {
+  if (isActive()) {
+    el.setAttribute('aria-brailleroledescription', description);
+  } else {
+    el.removeAttribute('aria-brailleroledescription');
+  }
+}
+
+/**
+ * Compact form of a "columnName: value" cell label.
+ */
+export function formatBrailleCell(columnName: string, value: string): string {
+  return `${compactText(columnName, COLUMN_NAME_LENGTH)}:${compactText(value) || EMPTY}`;
+}
@@ -0,0 +1,371 @@
+/**
+ * Calendar View Navigation
+ *
+ * Date-grid keyboard model for calendar views. Entered with the grid mode
+ * shortcut (Alt+Shift+D) when the focused database shows a calendar:
+ * - ←/→: previous/next day; ↑/↓: same weekday of the previous/next week
+ * - Home/End: first/last day of the week (as laid out by Notion)
+ * - PageUp/PageDown: same day of the previous/next month (Notion switches
+ *   month too)
+ * - Enter: list the day's events (↑/↓/Home/End move, Enter opens,
+ *   Escape returns to the day)
+ * - N: create an event on the focused day
+ * - Escape: leave calendar mode
+ *
+ * Day cells only show the day number, so dates are worked out from the
+ * displayed month (toolbar label, tracked across PageUp/PageDown) and the
+ * cell holding day 1. Each date is announced in full with its weekday:
+ * "2026年10月19日月曜日、予定2件".
+ */
+
+import { logDebug } from '../shared/logger';
+import { t } from '../shared/i18n';
+import {
+  DB_COLLECTION_VIEW,
+  DB_CALENDAR_DAY,
+  DB_CALENDAR_DAY_NUMBER,
+  DB_CALENDAR_MONTH_LABEL,
+  DB_CALENDAR_PREV_MONTH,
+  DB_CALENDAR_NEXT_MONTH,
+  DB_CALENDAR_ADD_EVENT,
+} from './selectors';
+import { announce } from './live-announcer';
+import { playEarcon } from './earcons';
+import { getGridCommand } from './sr-profile';
+import { openLinkedSource } from './db-source';
+import { addDays, addMonths, daysBetween, parseMonthLabel, formatFullDate, formatMonth } from './dates';
+import { protect, hover } from './dom-events';
+
+const MODULE = 'CalendarNavigator';
+
+const EVENT_SELECTOR = '.notion-collection-item';
+const DAYS_PER_WEEK = 7;
+/** Time for Notion to render another month after a month button click (ms) */
+const MONTH_RENDER_MS = 300;
+
+let calendarView: HTMLElement | null = null;
+/** First day of the month Notion is showing */
+let viewMonth = new Date(0);
+let currentDate = new Date(0);
+/** Position in the day's event list; -1 while on the day itself */
+let eventIndex = -1;
+let renderTimer: ReturnType<typeof setTimeout> | null = null;
+
+// ─── Dates ───────────────────────────────────────────────────
+
+/**
+ * Month shown in the calendar toolbar, or the current month when the
+ * label cannot be read.
+ */
+function readViewMonth(view: HTMLElement): Date {
+  const scope = view.closest(DB_COLLECTION_VIEW) ?? view;
+  const month = parseMonthLabel(scope.querySelector(DB_CALENDAR_MONTH_LABEL)?.textContent ?? '');
+  if (month) return month;
+
+  logDebug(MODULE, 'Month label not found, assuming the current month');
+  const today = new Date();
+  return new Date(today.getFullYear(), today.getMonth(), 1);
+}
+
+// ─── Grid Structure ──────────────────────────────────────────
+
+function getDayCells(view: HTMLElement): HTMLElement[] {
+  return Array.from(view.querySelectorAll<HTMLElement>(DB_CALENDAR_DAY));
+}
+
+/** Day of month shown in the cell; the 1st also names the month ("10月1日", "Oct 1") */
+function getDayNumber(cell: HTMLElement): number {
+  const text = cell.querySelector(DB_CALENDAR_DAY_NUMBER)?.textContent ?? cell.textContent ?? '';
+  const match = /(\d+)\D*$/.exec(text.trim());
+  return match ? Number(match[1]) : NaN;
+}
+
+/**
+ * Cell for `date`. Cells run day by day in document order, so the offset
+ * from the cell showing day 1 of the displayed month gives the date.
+ */
+function findCell(view: HTMLElement, date: Date): HTMLElement | null {
+  const cells = getDayCells(view);
+  const firstOfMonth = cells.findIndex((cell) => getDayNumber(cell) === 1);
+  if (firstOfMonth < 0) return null;
+  return cells[firstOfMonth + daysBetween(viewMonth, date)] ?? null;
+}
+
+function getEvents(cell: HTMLElement): HTMLElement[] {
+  return Array.from(cell.querySelectorAll<HTMLElement>(EVENT_SELECTOR));
+}
+
+function getEventTitle(event: HTMLElement): string {
+  return event.getAttribute('aria-label') || event.textContent?.trim().substring(0, 50) || t('empty');
+}
+
+function describeDay(date: Date, cell: HTMLElement): string {
+  const count = getEvents(cell).length;
+  return count > 0
+    ? t('calendarDate', { date: formatFullDate(date), count })
+    : t('calendarDateNoEvents', { date: formatFullDate(date) });
+}
+
+// ─── Focus ───────────────────────────────────────────────────
+
+/**
+ * Focus the cell for `date` and return its announcement. The full date
+ * also becomes the cell's label so the screen reader's own focus
+ * announcement matches.
+ */
+function focusDay(cell: HTMLElement, date: Date): string {
+  currentDate = date;
+  eventIndex = -1;
+  const description = describeDay(date, cell);
+  cell.setAttribute('aria-label', description);
+  if (!cell.hasAttribute('tabindex')) cell.setAttribute('tabindex', '-1');
+  protect(cell);
+  cell.focus();
+  return description;
+}
+
+/**
+ * Move to `date`, switching Notion to another month first when the date
+ * is not in the rendered grid.
+ */
+function moveToDate(view: HTMLElement, date: Date): void {
+  const cell = findCell(view, date);
+  if (cell) {
+    announce(focusDay(cell, date), { interrupt: true, source: MODULE });
+  } else {
+    showMonthOf(view, date);
+  }
+}
+
+/**
+ * Click Notion's previous/next month button, then focus `date` once the
+ * new month has rendered.
+ */
+function showMonthOf(view: HTMLElement, date: Date): void {
+  const forward = date > viewMonth;
+  const scope = view.closest(DB_COLLECTION_VIEW) ?? document;
+  const button = scope.querySelector<HTMLElement>(forward ? DB_CALENDAR_NEXT_MONTH : DB_CALENDAR_PREV_MONTH);
+  if (!button) {
+    playEarcon('boundary');
+    announce(t('calendarMonthUnavailable', { month: formatMonth(date) }), { source: MODULE });
+    return;
+  }
+
+  button.click();
+  viewMonth = new Date(viewMonth.getFullYear(), viewMonth.getMonth() + (forward ? 1 : -1), 1);
+  if (renderTimer) clearTimeout(renderTimer);
+  renderTimer = setTimeout(() => {
+    renderTimer = null;
+    if (calendarView !== view) return;
+    const rendered = findCell(view, date);
+    if (rendered) {
+      announce(focusDay(rendered, date), { interrupt: true, source: MODULE });
+    } else {
+      announce(t('calendarMonthUnavailable', { month: formatMonth(date) }), { source: MODULE });
+    }
+  }, MONTH_RENDER_MS);
+  logDebug(MODULE, `Switched month to ${viewMonth.getFullYear()}-${viewMonth.getMonth() + 1}`);
+}
+
+/** First (or last) day of the week row holding the current day */
+function weekEdge(view: HTMLElement, end: boolean): Date {
+  const cells = getDayCells(view);
+  const cell = findCell(view, currentDate);
+  const index = cell ? cells.indexOf(cell) : 0;
+  const column = index % DAYS_PER_WEEK;
+  return addDays(currentDate, end ? DAYS_PER_WEEK - 1 - column : -column);
+}
+
+// ─── Event List ──────────────────────────────────────────────
+
+function focusEvent(events: HTMLElement[], index: number): void {
+  eventIndex = index;
+  const event = events[index];
+  if (!event.hasAttribute('tabindex')) event.setAttribute('tabindex', '-1');
+  event.focus();
+  announce(
+    t('calendarEvent', { index: index + 1, total: events.length, title: getEventTitle(event) }),
+    { interrupt: true, source: MODULE },
+  );
+}
+
+function openEventList(view: HTMLElement): void {
+  const cell = findCell(view, currentDate);
+  if (!cell) return;
+  const events = getEvents(cell);
+  if (events.length === 0) {
+    announce(t('calendarNoEvents', { date: formatFullDate(currentDate) }), { source: MODULE });
+    return;
+  }
+  focusEvent(events, 0);
+}
+
+function handleEventListKey(view: HTMLElement, event: KeyboardEvent): void {
+  const cell = findCell(view, currentDate);
+  const events = cell ? getEvents(cell) : [];
+  if (!cell || events.length === 0) {
+    eventIndex = -1;
+    return;
+  }
+
+  switch (event.key) {
+    case 'ArrowDown':
+    case 'ArrowUp': {
+      const next = eventIndex + (event.key === 'ArrowDown' ? 1 : -1);
+      if (next < 0 || next >= events.length) {
+        playEarcon('boundary');
+      } else {
+        focusEvent(events, next);
+      }
+      break;
+    }
+    case 'Home': focusEvent(events, 0); break;
+    case 'End': focusEvent(events, events.length - 1); break;
+    case 'Enter': {
+      const target = events[Math.min(eventIndex, events.length - 1)];
+      (target.querySelector<HTMLElement>('a[href]') ?? target).click();
+      announce(t('pageOpened', { title: getEventTitle(target) }), { source: MODULE });
+      break;
+    }
+    case 'Escape':
+      announce(focusDay(cell, currentDate), { interrupt: true, source: MODULE });
+      break;
+    default:
+      return;
+  }
+  event.preventDefault();
+  event.stopPropagation();
+}
+
+// ─── Actions ─────────────────────────────────────────────────
+
+/**
+ * Create an event on the current day with the "+" button Notion shows
+ * while the pointer is over the day.
+ */
+function createEvent(view: HTMLElement): void {
+  const cell = findCell(view, currentDate);
+  if (!cell) return;
+  hover(cell);
+
+  const button = cell.querySelector<HTMLElement>(DB_CALENDAR_ADD_EVENT);
+  if (!button) {
+    announce(t('calendarCreateUnavailable'), { source: MODULE });
+    return;
+  }
+  button.click();
+  announce(t('calendarCreateEvent', { date: formatFullDate(currentDate) }), { source: MODULE });
+  logDebug(MODULE, 'Create event clicked');
+}
+
+// ─── Keyboard ────────────────────────────────────────────────
+
+function handleCalendarKeydown(event: KeyboardEvent): void {
+  const view = calendarView;
+  if (!view) return;
+
+  if (eventIndex >= 0) {
+    handleEventListKey(view, event);
+    return;
+  }
+
+  const plain = !event.ctrlKey && !event.altKey && !event.metaKey && !event.shiftKey;
+  if (plain) {
+    let handled = true;
+    switch (event.key) {
+      case 'PageUp': showMonthOf(view, addMonths(currentDate, -1)); break;
+      case 'PageDown': showMonthOf(view, addMonths(currentDate, 1)); break;
+      case 'Enter': openEventList(view); break;
+      case 'n':
+      case 'N': createEvent(view); break;
+      case 's':
+      case 'S': if (openLinkedSource(view)) destroyCalendarNavigator(); break;
+      default: handled = false;
+    }
+    if (handled) {
+      event.preventDefault();
+      event.stopPropagation();
+      return;
+    }
+  }
+
+  const command = getGridCommand(event);
+  if (!command) return;
+
+  event.preventDefault();
+  event.stopPropagation();
+
+  switch (command) {
+    case 'right': moveToDate(view, addDays(currentDate, 1)); break;
+    case 'left': moveToDate(view, addDays(currentDate, -1)); break;
+    case 'down': moveToDate(view, addDays(currentDate, DAYS_PER_WEEK)); break;
+    case 'up': moveToDate(view, addDays(currentDate, -DAYS_PER_WEEK)); break;
+    case 'rowStart': moveToDate(view, weekEdge(view, false)); break;
+    case 'rowEnd': moveToDate(view, weekEdge(view, true)); break;
+    case 'tableStart': moveToDate(view, viewMonth); break;
+    case 'tableEnd':
+      moveToDate(view, new Date(viewMonth.getFullYear(), viewMonth.getMonth() + 1, 0));
+      break;
+    case 'exit': exitCalendarMode(); break;
+  }
+}
+
+// ─── Public API ──────────────────────────────────────────────
+
+/**
+ * Enter calendar mode on `view`, starting at the focused day, today if it
+ * is in the displayed month, or the first of the month.
+ */
+export function enterCalendarMode(view: HTMLElement): void {
+  const month = readViewMonth(view);
+  const cells = getDayCells(view);
+  if (cells.length === 0) {
+    announce(t('calendarEmpty'), { source: MODULE });
+    return;
+  }
+
+  destroyCalendarNavigator();
+  calendarView = view;
+  viewMonth = month;
+  view.addEventListener('keydown', handleCalendarKeydown, true);
+
+  const today = new Date();
+  const todayDate = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const activeCell = (document.activeElement as HTMLElement | null)?.closest<HTMLElement>(DB_CALENDAR_DAY);
+  const firstOfMonth = cells.findIndex((cell) => getDayNumber(cell) === 1);
+
+  let start = month;
+  if (activeCell && view.contains(activeCell) && firstOfMonth >= 0) {
+    start = addDays(month, cells.indexOf(activeCell) - firstOfMonth);
+  } else if (todayDate.getFullYear() === month.getFullYear() && todayDate.getMonth() === month.getMonth()) {
+    start = todayDate;
+  }
+  currentDate = start;
+
+  const cell = findCell(view, start) ?? cells[0];
+  playEarcon('gridModeStart');
+  announce(t('calendarModeStart', { position: focusDay(cell, start) }), { source: MODULE });
+  logDebug(MODULE, `Calendar mode entered: ${formatMonth(month)}`);
+}
+
+export function exitCalendarMode(): void {
+  const view = calendarView;
+  if (!view) return;
+  destroyCalendarNavigator();
+  (view.closest<HTMLElement>(DB_COLLECTION_VIEW) ?? view).focus();
+  playEarcon('gridModeEnd');
+  announce(t('calendarModeEnd'), { source: MODULE });
+  logDebug(MODULE, 'Calendar mode exited');
+}
+
+export function isCalendarModeActive(): boolean {
+  return calendarView !== null;
+}
+
+export function destroyCalendarNavigator(): void {
+  calendarView?.removeEventListener('keydown', handleCalendarKeydown, true);
+  calendarView = null;
+  eventIndex = -1;
+  if (renderTimer) clearTimeout(renderTimer);
+  renderTimer = null;
+}
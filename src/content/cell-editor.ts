@@ -0,0 +1,192 @@
+/**
+ * Grid Cell Editing
+ *
+ * Edit sub-mode of table grid mode. Enter/F2 clicks the focused cell so
+ * Notion opens its own editor — a text box in the cell or in a popup, or
+ * the option listbox for select properties — and moves focus into it.
+ * While the editor is open the grid keys belong to Notion. Escape commits
+ * or cancels the way Notion's editor does; once the editor is gone or
+ * focus has left it, the caller is told so it can return to the cell and
+ * announce the new value.
+ *
+ * Checkbox properties have no editor: Space (or Enter) toggles them. On a
+ * column header, Enter opens the property menu (sort, filter, hide, edit
+ * property) and is tracked the same way.
+ */
+
+import { logDebug } from '../shared/logger';
+import { t } from '../shared/i18n';
+import {
+  DB_CHECKBOX_PROPERTY,
+  DB_SELECT_PROPERTY,
+  DB_CELL_CHECKBOX,
+  DB_CELL_EDITOR,
+  DB_CELL_POPUP,
+} from './selectors';
+import { announce } from './live-announcer';
+
+const MODULE = 'CellEditor';
+
+/** Time for Notion to open the editor or re-render the cell (ms) */
+const RENDER_MS = 100;
+const MENU_ITEM = '[role="menuitem"], [role="option"]';
+
+export type CellKind = 'text' | 'select' | 'checkbox';
+
+interface EditSession {
+  /** Popup or in-cell editor; the session ends when focus leaves it */
+  region: HTMLElement;
+  onClose: () => void;
+}
+
+let session: EditSession | null = null;
+let openTimer: ReturnType<typeof setTimeout> | null = null;
+let renderTimer: ReturnType<typeof setTimeout> | null = null;
+let checkTimer: ReturnType<typeof setTimeout> | null = null;
+let closeObserver: MutationObserver | null = null;
+
+/**
+ * Kind of property a cell holds, from the column header's type icon and
+ * the cell's own content.
+ */
+export function getCellKind(header: HTMLElement | undefined, cell: HTMLElement): CellKind {
+  if (cell.querySelector(DB_CELL_CHECKBOX) || header?.querySelector(DB_CHECKBOX_PROPERTY)) return 'checkbox';
+  if (header?.querySelector(DB_SELECT_PROPERTY)) return 'select';
+  return 'text';
+}
+
+/** Cell value as read aloud; checkboxes have no text of their own */
+export function getCellValue(cell: HTMLElement): string {
+  const checkbox = cell.querySelector<HTMLElement>(DB_CELL_CHECKBOX);
+  if (checkbox) {
+    const checked = checkbox instanceof HTMLInputElement
+      ? checkbox.checked
+      : checkbox.getAttribute('aria-checked') === 'true';
+    return t(checked ? 'checked' : 'unchecked');
+  }
+  return cell.textContent?.trim() ?? '';
+}
+
+// ─── Edit Session ────────────────────────────────────────────
+
+function stopWatching(): void {
+  closeObserver?.disconnect();
+  closeObserver = null;
+  document.removeEventListener('focusout', scheduleCheck, true);
+  if (checkTimer) clearTimeout(checkTimer);
+  checkTimer = null;
+}
+
+function checkClosed(): void {
+  checkTimer = null;
+  if (!session) return;
+  const { region, onClose } = session;
+  if (region.isConnected && region.contains(document.activeElement)) return;
+
+  stopWatching();
+  session = null;
+  logDebug(MODULE, 'Cell editor closed');
+  onClose();
+}
+
+/** Focus moves settle before the check (focusout fires before focusin) */
+function scheduleCheck(): void {
+  if (checkTimer) clearTimeout(checkTimer);
+  checkTimer = setTimeout(checkClosed, 0);
+}
+
+function startSession(region: HTMLElement, target: HTMLElement, onClose: () => void): void {
+  session = { region, onClose };
+  target.focus();
+  closeObserver = new MutationObserver(scheduleCheck);
+  closeObserver.observe(document.body, { childList: true, subtree: true });
+  document.addEventListener('focusout', scheduleCheck, true);
+}
+
+/**
+ * Open Notion's editor for `cell` and move focus into it. `onClose` runs
+ * once the editor has closed; it does not run if no editor opens.
+ */
+export function openCellEditor(cell: HTMLElement, kind: CellKind, column: string, onClose: () => void): void {
+  destroyCellEditor();
+  cell.click();
+
+  openTimer = setTimeout(() => {
+    openTimer = null;
+    const popup = document.querySelector<HTMLElement>(DB_CELL_POPUP);
+    const inCell = cell.isConnected ? cell.querySelector<HTMLElement>(DB_CELL_EDITOR) : null;
+
+    if (kind === 'select' && popup) {
+      const options = popup.querySelectorAll<HTMLElement>('[role="option"]');
+      // The filter box drives the listbox; fall back to the first option
+      const target = popup.querySelector<HTMLElement>(DB_CELL_EDITOR) ?? options[0];
+      if (target) {
+        startSession(popup, target, onClose);
+        announce(t('cellEditOptions', { column, count: options.length }), { source: MODULE });
+        logDebug(MODULE, `Option listbox opened: ${options.length} options`);
+        return;
+      }
+    }
+
+    // An in-cell editor is its own region; otherwise the popup holds it
+    const region = inCell ?? popup;
+    const editor = inCell ?? popup?.querySelector<HTMLElement>(DB_CELL_EDITOR);
+    if (!region || !editor) {
+      cell.focus();
+      announce(t('cellEditUnavailable', { column }), { source: MODULE });
+      return;
+    }
+    startSession(region, editor, onClose);
+    announce(t('cellEditStart', { column }), { source: MODULE });
+    logDebug(MODULE, 'Cell editor opened');
+  }, RENDER_MS);
+}
+
+/**
+ * Open the property menu of a column header and focus its first item.
+ * `onClose` runs once the menu has closed.
+ */
+export function openColumnMenu(header: HTMLElement, column: string, onClose: () => void): void {
+  destroyCellEditor();
+  header.click();
+
+  openTimer = setTimeout(() => {
+    openTimer = null;
+    const popup = document.querySelector<HTMLElement>(DB_CELL_POPUP);
+    const target = popup?.querySelector<HTMLElement>(MENU_ITEM) ?? popup?.querySelector<HTMLElement>(DB_CELL_EDITOR);
+    if (!popup || !target) {
+      header.focus();
+      announce(t('columnMenuUnavailable', { column }), { source: MODULE });
+      return;
+    }
+    startSession(popup, target, onClose);
+    announce(t('columnMenuOpened', { column }), { source: MODULE });
+    logDebug(MODULE, 'Column menu opened');
+  }, RENDER_MS);
+}
+
+/**
+ * Toggle a checkbox cell. `onToggled` runs once Notion has re-rendered it.
+ */
+export function toggleCheckboxCell(cell: HTMLElement, onToggled: () => void): void {
+  (cell.querySelector<HTMLElement>(DB_CELL_CHECKBOX) ?? cell).click();
+  if (renderTimer) clearTimeout(renderTimer);
+  renderTimer = setTimeout(() => {
+    renderTimer = null;
+    onToggled();
+  }, RENDER_MS);
+}
+
+/** True from the Enter/F2 press until Notion's editor has closed */
+export function isCellEditing(): boolean {
+  return session !== null || openTimer !== null;
+}
+
+export function destroyCellEditor(): void {
+  stopWatching();
+  session = null;
+  if (openTimer) clearTimeout(openTimer);
+  openTimer = null;
+  if (renderTimer) clearTimeout(renderTimer);
+  renderTimer = null;
+}
@@ -0,0 +1,104 @@
+/**
+ * Database Column Information
+ *
+ * What a table's header cells do not say in text: the property type,
+ * shown only as an icon, and the view's sorts and filters, shown as rule
+ * pills under the view tabs while any are active. Used by table-enhancer
+ * for aria-sort, header announcements and the grid label.
+ */
+
+import { t, type MessageKey } from '../shared/i18n';
+import { DB_SORT_RULE, DB_FILTER_RULE, DB_SORT_DESCENDING } from './selectors';
+
+export type SortDirection = 'ascending' | 'descending';
+
+export interface SortRule {
+  column: string;
+  direction: SortDirection;
+}
+
+export interface ViewRules {
+  /** In priority order */
+  sorts: SortRule[];
+  filterCount: number;
+}
+
+/** Notion's property type icon classes → message keys */
+const PROPERTY_TYPE_LABELS: Record<string, MessageKey> = {
+  typesTitle: 'propertyTitle',
+  typesText: 'propertyText',
+  typesNumber: 'propertyNumber',
+  typesSelect: 'propertySelect',
+  typesMultipleSelect: 'propertyMultiSelect',
+  typesStatus: 'propertyStatus',
+  typesDate: 'propertyDate',
+  typesPerson: 'propertyPerson',
+  typesFile: 'propertyFiles',
+  typesCheckbox: 'propertyCheckbox',
+  typesUrl: 'propertyUrl',
+  typesEmail: 'propertyEmail',
+  typesPhoneNumber: 'propertyPhone',
+  typesFormula: 'propertyFormula',
+  typesRelation: 'propertyRelation',
+  typesRollup: 'propertyRollup',
+  typesCreatedAt: 'propertyCreatedTime',
+  typesLastEditedAt: 'propertyEditedTime',
+};
+
+const DESCENDING_TEXT = /降順|descending/i;
+
+/**
+ * Property type of a column, from the icon in its header cell, or null
+ * for an icon this map does not know.
+ */
+export function getPropertyType(header: HTMLElement): string | null {
+  for (const svg of header.querySelectorAll('svg')) {
+    const cls = svg.getAttribute('class') ?? '';
+    for (const token of cls.split(/\s+/)) {
+      if (token in PROPERTY_TYPE_LABELS) return t(PROPERTY_TYPE_LABELS[token]);
+    }
+  }
+  return null;
+}
+
+/**
+ * Active sorts and filter count of the view inside `scope`. A sort pill
+ * names its column somewhere in its text; the longest matching column
+ * name wins, so "Due date" is not read as "Due".
+ */
+export function readViewRules(scope: HTMLElement, columns: string[]): ViewRules {
+  const byLength = columns.filter(Boolean).sort((a, b) => b.length - a.length);
+  const sorts: SortRule[] = [];
+  for (const pill of scope.querySelectorAll<HTMLElement>(DB_SORT_RULE)) {
+    const text = pill.textContent ?? '';
+    const column = byLength.find((name) => text.includes(name));
+    if (!column) continue;
+    const descending = !!pill.querySelector(DB_SORT_DESCENDING) || DESCENDING_TEXT.test(text);
+    sorts.push({ column, direction: descending ? 'descending' : 'ascending' });
+  }
+  return { sorts, filterCount: scope.querySelectorAll(DB_FILTER_RULE).length };
+}
+
+/** Sort direction of `column`, if the view sorts by it */
+export function getSortDirection(rules: ViewRules, column: string): SortDirection | null {
+  return rules.sorts.find((sort) => sort.column === column)?.direction ?? null;
+}
+
+export function formatSortDirection(direction: SortDirection): string {
+  return t(direction === 'ascending' ? 'sortAscending' : 'sortDescending');
+}
+
+/**
+ * Summary for the grid label, e.g. "フィルター3件, 期限の昇順で並べ替え".
+ * Empty when the view has no rules.
+ */
+export function describeViewRules(rules: ViewRules): string {
+  const parts: string[] = [];
+  if (rules.filterCount > 0) parts.push(t('viewFilterCount', { count: rules.filterCount }));
+  if (rules.sorts.length > 0) {
+    const keys = rules.sorts.map((sort) =>
+      t('viewSortKey', { column: sort.column, direction: formatSortDirection(sort.direction) }));
+    parts.push(t('viewSortedBy', { keys: keys.join(', ') }));
+  }
+  return parts.join(', ');
+}
@@ -10,8 +10,10 @@
 
 import { EXTENSION_ATTR } from '../shared/constants';
 import { logDebug } from '../shared/logger';
+import { t } from '../shared/i18n';
 import { SIDE_PEEK } from './selectors';
 import { announce } from './live-announcer';
+import { formatComment } from './announcement-formatter';
 
 const MODULE = 'CommentEnhancer';
 
@@ -32,7 +34,7 @@ function enhanceComments(): void {
     const commentSection = peek.querySelector('[class*="discussion"], [class*="comment"]');
     if (commentSection instanceof HTMLElement) {
       commentSection.setAttribute('role', 'region');
-      commentSection.setAttribute('aria-label', 'コメント');
+      commentSection.setAttribute('aria-label', t('comments'));
       commentSection.setAttribute(EXTENSION_ATTR, 'comments');
     }
   }
@@ -74,7 +76,7 @@ function enhanceComments(): void {
   for (const input of inputs) {
     if (!input.hasAttribute(EXTENSION_ATTR + '-input')) {
       if (!input.getAttribute('aria-label')) {
-        input.setAttribute('aria-label', 'コメントを入力');
+        input.setAttribute('aria-label', t('commentInput'));
       }
       input.setAttribute(EXTENSION_ATTR + '-input', 'true');
     }
@@ -82,7 +84,7 @@ function enhanceComments(): void {
 
   // Announce new comments
   if (count > lastCommentCount && lastCommentCount > 0) {
-    announce(`新しいコメントが追加されました (${count}件)`);
+    announce(t('commentAdded', { count }), { source: MODULE });
   }
   lastCommentCount = count;
 
@@ -118,8 +120,8 @@ function navigateToComment(index: number): void {
   currentCommentIndex = index;
   const comment = comments[index];
   comment.focus();
-  const label = comment.getAttribute('aria-label') ?? 'コメント';
-  announce(`${label} (${index + 1}/${comments.length})`);
+  const label = comment.getAttribute('aria-label') ?? t('comment');
+  announce(formatComment(comment, label, index, comments.length), { source: MODULE });
 }
 
 /**
@@ -164,6 +166,8 @@ function detachCommentKeyboard(): void {
  * Initialize comment enhancer with MutationObserver.
  */
 export function initCommentEnhancer(): void {
+  if (observer) return;
+
   // Initial scan
   enhanceComments();
 
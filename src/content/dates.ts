@@ -0,0 +1,57 @@
+/**
+ * Date Helpers
+ *
+ * Shared by the calendar and timeline navigators. Notion's date views only
+ * render day numbers and a month label, so full dates are rebuilt from
+ * those; all arithmetic works on local midnight.
+ */
+
+import { getLocale } from '../shared/i18n';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const MONTH_PATTERN_JA = /(\d{4})年\s*(\d{1,2})月/;
+const MONTH_PATTERN_EN = /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(\d{4})/i;
+const MONTHS_EN = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/** Same day of another month, clamped to that month's length */
+export function addMonths(date: Date, months: number): Date {
+  const first = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(first.getFullYear(), first.getMonth() + 1, 0).getDate();
+  return new Date(first.getFullYear(), first.getMonth(), Math.min(date.getDate(), lastDay));
+}
+
+export function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * First day of the month named in a label such as "2026年10月" or
+ * "October 2026", or null when there is none.
+ */
+export function parseMonthLabel(label: string): Date | null {
+  const ja = label.match(MONTH_PATTERN_JA);
+  if (ja) return new Date(Number(ja[1]), Number(ja[2]) - 1, 1);
+  const en = label.match(MONTH_PATTERN_EN);
+  if (en) return new Date(Number(en[2]), MONTHS_EN.indexOf(en[1].toLowerCase()), 1);
+  return null;
+}
+
+/** "2026年10月19日月曜日" / "Monday, October 19, 2026" */
+export function formatFullDate(date: Date): string {
+  return date.toLocaleDateString(getLocale(), { year: 'numeric', month: 'long', day: 'numeric', weekday: 'long' });
+}
+
+/** "10月19日(月)" / "Mon, October 19" */
+export function formatShortDate(date: Date): string {
+  return date.toLocaleDateString(getLocale(), { month: 'long', day: 'numeric', weekday: 'short' });
+}
+
+/** "2026年10月" / "October 2026" */
+export function formatMonth(date: Date): string {
+  return date.toLocaleDateString(getLocale(), { year: 'numeric', month: 'long' });
+}
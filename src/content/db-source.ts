@@ -0,0 +1,154 @@
+/**
+ * Linked Database Sources
+ *
+ * A linked database view shows a database that lives elsewhere. Notion
+ * marks it only visually: the view's title is a link, with an arrow icon,
+ * to the source database. The DOM does not say which page the source
+ * lives on — the link's URL slug is the database's own name — so the page
+ * is looked up in Notion's own record API by the id at the end of the
+ * link, walking up from the database to the nearest page. Until that
+ * answers (or when it cannot), the view is described only as linked.
+ *
+ *   .notion-collection_view-block
+ *     > a[href] (source title)
+ *     > … (view tabs, view)
+ */
+
+import { logDebug } from '../shared/logger';
+import { t } from '../shared/i18n';
+import { DB_COLLECTION_VIEW } from './selectors';
+import { announce } from './live-announcer';
+
+const MODULE = 'DbSource';
+/** Notion's record API, same-origin with the page */
+const RECORD_API = '/api/v3/syncRecordValues';
+/** Trailing block id of a Notion URL path */
+const BLOCK_ID = /([0-9a-f]{32})$/i;
+/** Blocks between a database and its page (columns, toggles, …) */
+const MAX_DEPTH = 8;
+
+export interface DbSource {
+  /** Database title, from the link text */
+  title: string;
+  /** Page the source database lives on; '' until known */
+  page: string;
+  link: HTMLAnchorElement;
+}
+
+interface NotionBlock {
+  type?: string;
+  parent_id?: string;
+  parent_table?: string;
+  properties?: { title?: [string, ...unknown[]][] };
+}
+
+/** Source page names by database id; '' when there is none to tell */
+const sourcePages = new Map<string, string>();
+const pending = new Set<string>();
+let resolvedCallback: ((block: Element) => void) | null = null;
+
+// ─── Source Pages ────────────────────────────────────────────
+
+/** Dashed block id at the end of a Notion URL, or null */
+function getBlockId(href: string): string | null {
+  const hex = href.split(/[?#]/)[0].match(BLOCK_ID)?.[1].toLowerCase();
+  if (!hex) return null;
+  return [hex.slice(0, 8), hex.slice(8, 12), hex.slice(12, 16), hex.slice(16, 20), hex.slice(20)].join('-');
+}
+
+async function fetchBlock(id: string): Promise<NotionBlock | null> {
+  const response = await fetch(RECORD_API, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ requests: [{ pointer: { table: 'block', id }, version: -1 }] }),
+  });
+  if (!response.ok) return null;
+  const data = await response.json();
+  const record = data?.recordMap?.block?.[id]?.value;
+  // Newer responses wrap the block once more, next to the user's role
+  return record?.value ?? record ?? null;
+}
+
+/** Title of the page `id` sits on; '' for a database at the top of a workspace */
+async function fetchPageName(id: string): Promise<string> {
+  let block = await fetchBlock(id);
+  for (let depth = 0; block && depth < MAX_DEPTH; depth++) {
+    if (block.parent_table !== 'block' || !block.parent_id) return '';
+    block = await fetchBlock(block.parent_id);
+    if (block?.type === 'page') {
+      return (block.properties?.title ?? []).map(([text]) => text).join('').trim();
+    }
+  }
+  return '';
+}
+
+/** Look up the page of database `id` once, then relabel the views linked to it */
+async function resolveSourcePage(id: string): Promise<void> {
+  pending.add(id);
+  let page = '';
+  try {
+    page = await fetchPageName(id);
+  } catch (error) {
+    logDebug(MODULE, `Source page lookup failed for ${id}:`, error);
+  }
+  pending.delete(id);
+  sourcePages.set(id, page);
+  if (!page) return;
+  logDebug(MODULE, `Source page of ${id}: ${page}`);
+
+  for (const block of document.querySelectorAll(DB_COLLECTION_VIEW)) {
+    const link = block.children[0];
+    if (link instanceof HTMLAnchorElement && getBlockId(link.getAttribute('href') ?? '') === id) {
+      resolvedCallback?.(block);
+    }
+  }
+}
+
+/**
+ * Called with each linked view block whose source page has just become
+ * known, to rewrite its labels.
+ */
+export function onSourcePageResolved(callback: (block: Element) => void): void {
+  resolvedCallback = callback;
+}
+
+// ─── Public API ──────────────────────────────────────────────
+
+/**
+ * Source of a linked database view, or null for a database that lives in
+ * `block` itself. The first call for a database starts the lookup of its
+ * page.
+ */
+export function getLinkedSource(block: Element): DbSource | null {
+  const link = block.children[0];
+  if (!(link instanceof HTMLAnchorElement)) return null;
+
+  const id = getBlockId(link.getAttribute('href') ?? '');
+  if (id && !sourcePages.has(id) && !pending.has(id)) void resolveSourcePage(id);
+  const page = (id && sourcePages.get(id)) || '';
+  return { title: link.textContent?.trim() ?? '', page, link };
+}
+
+/** e.g. "Project Hub からのリンクドデータベース", or "リンクドデータベース" */
+export function describeLinkedSource(source: DbSource): string {
+  return source.page ? t('linkedDbFrom', { source: source.page }) : t('linkedDb');
+}
+
+/**
+ * Open the source database of the linked view `view` belongs to, as the
+ * S key of every database navigation mode. False, after saying so, when
+ * the view is not linked; the caller leaves its mode otherwise, as Notion
+ * navigates away from the page.
+ */
+export function openLinkedSource(view: Element): boolean {
+  const block = view.closest(DB_COLLECTION_VIEW);
+  const source = block && getLinkedSource(block);
+  if (!source) {
+    announce(t('dbNotLinked'), { interrupt: true, source: MODULE });
+    return false;
+  }
+  source.link.click();
+  announce(t('linkedDbOpening', { source: source.title || t('database') }), { source: MODULE });
+  logDebug(MODULE, `Opening linked source: ${source.title}`);
+  return true;
+}
@@ -27,10 +27,14 @@
     'role',
     'aria-label',
     'aria-roledescription',
+    'aria-braillelabel',
+    'aria-brailleroledescription',
     'aria-expanded',
     'aria-checked',
     'aria-selected',
     'aria-level',
+    'aria-setsize',
+    'aria-posinset',
     'aria-describedby',
     'aria-owns',
     'aria-modal',
@@ -0,0 +1,30 @@
+/**
+ * DOM Events
+ *
+ * Events the content script sends to the page: DOMLock protection requests
+ * for the DOM bridge (dom-bridge.ts), and the synthetic mouse events that
+ * reach controls and drags Notion offers only to the pointer.
+ */
+
+/** Request DOMLock protection for an element's ARIA attributes */
+export function protect(el: Element): void {
+  el.dispatchEvent(new CustomEvent('accessible-notion-protect', { bubbles: false }));
+}
+
+/** Make Notion render the hover-only controls of `target` (e.g. "+" buttons) */
+export function hover(target: Element): void {
+  target.dispatchEvent(new MouseEvent('mouseover', { bubbles: true }));
+  target.dispatchEvent(new MouseEvent('mouseenter'));
+}
+
+/** Primary-button mouse event at viewport point (x, y), as in a drag */
+export function dispatchMouse(target: Element, type: string, x: number, y: number): void {
+  target.dispatchEvent(new MouseEvent(type, {
+    bubbles: true,
+    cancelable: true,
+    clientX: x,
+    clientY: y,
+    button: 0,
+    buttons: type === 'mouseup' ? 0 : 1,
+  }));
+}
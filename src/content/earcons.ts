@@ -0,0 +1,110 @@
+/**
+ * Earcons
+ *
+ * Optional non-speech audio cues for mode changes, boundaries and opened
+ * dialogs/popups. A short tone is quicker than a spoken "最後のブロックです"
+ * and does not compete with the screen reader's speech queue.
+ *
+ * Tones are generated with WebAudio oscillators — no audio assets. The
+ * AudioContext is created on the first cue, which always follows a key
+ * press, so the browser's autoplay policy lets it start.
+ */
+
+import { DEFAULT_SETTINGS, type ExtensionSettings } from '../shared/constants';
+import { logDebug } from '../shared/logger';
+
+const MODULE = 'Earcons';
+
+export type EarconName =
+  | 'navigateModeStart'
+  | 'navigateModeEnd'
+  | 'boundary'
+  | 'dialogOpen'
+  | 'popupOpen'
+  | 'gridModeStart'
+  | 'gridModeEnd';
+
+interface Tone {
+  /** Hz */
+  frequency: number;
+  /** Seconds */
+  duration: number;
+  type?: OscillatorType;
+}
+
+/** Played back to back. Rising = entering, falling = leaving. */
+const CUES: Record<EarconName, Tone[]> = {
+  navigateModeStart: [{ frequency: 523, duration: 0.06 }, { frequency: 784, duration: 0.08 }],
+  navigateModeEnd: [{ frequency: 784, duration: 0.06 }, { frequency: 523, duration: 0.08 }],
+  boundary: [{ frequency: 196, duration: 0.09, type: 'triangle' }],
+  dialogOpen: [
+    { frequency: 440, duration: 0.05 },
+    { frequency: 554, duration: 0.05 },
+    { frequency: 659, duration: 0.08 },
+  ],
+  popupOpen: [{ frequency: 880, duration: 0.05 }],
+  gridModeStart: [{ frequency: 330, duration: 0.06, type: 'square' }, { frequency: 494, duration: 0.08, type: 'square' }],
+  gridModeEnd: [{ frequency: 494, duration: 0.06, type: 'square' }, { frequency: 330, duration: 0.08, type: 'square' }],
+};
+
+/** Fade in/out so tones do not click */
+const RAMP = 0.005;
+/** Square waves sound much louder than sines at the same gain */
+const TYPE_GAIN: Record<string, number> = { sine: 1, triangle: 1, square: 0.3, sawtooth: 0.3 };
+
+let settings: ExtensionSettings['earcons'] = DEFAULT_SETTINGS.earcons;
+let audioContext: AudioContext | null = null;
+
+export function setEarconSettings(earcons: ExtensionSettings['earcons']): void {
+  settings = earcons;
+}
+
+function getAudioContext(): AudioContext | null {
+  if (audioContext) return audioContext;
+  if (typeof AudioContext === 'undefined') return null;
+  audioContext = new AudioContext();
+  return audioContext;
+}
+
+/**
+ * Play a cue if earcons and that cue are enabled.
+ */
+export function playEarcon(name: EarconName): void {
+  if (!settings.enabled || !settings.cues[name] || settings.volume <= 0) return;
+
+  const ctx = getAudioContext();
+  if (!ctx) {
+    logDebug(MODULE, 'WebAudio unavailable, skipping cue:', name);
+    return;
+  }
+  if (ctx.state === 'suspended') void ctx.resume();
+
+  const volume = Math.min(settings.volume, 100) / 100;
+  let start = ctx.currentTime;
+  for (const tone of CUES[name]) {
+    const type = tone.type ?? 'sine';
+    const peak = volume * TYPE_GAIN[type];
+    const end = start + tone.duration;
+
+    const oscillator = ctx.createOscillator();
+    oscillator.type = type;
+    oscillator.frequency.value = tone.frequency;
+
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0, start);
+    gain.gain.linearRampToValueAtTime(peak, start + RAMP);
+    gain.gain.setValueAtTime(peak, end - RAMP);
+    gain.gain.linearRampToValueAtTime(0, end);
+
+    oscillator.connect(gain).connect(ctx.destination);
+    oscillator.start(start);
+    oscillator.stop(end);
+    start = end;
+  }
+  logDebug(MODULE, 'Played cue:', name);
+}
+
+export function destroyEarcons(): void {
+  void audioContext?.close();
+  audioContext = null;
+}
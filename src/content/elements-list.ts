@@ -0,0 +1,310 @@
+/**
+ * Elements List
+ *
+ * Extension-owned modal dialog listing the page's headings, links,
+ * databases, to-dos and comments — like NVDA's Elements List. A tab per
+ * kind, a filter field that narrows the list as you type, and Enter
+ * moves the Navigate-mode cursor to the chosen block.
+ *
+ * Focus stays in the filter field (a combobox); ↑/↓ move the active item
+ * via aria-activedescendant. Headings are shown as a tree (aria-level),
+ * everything else as a listbox.
+ */
+
+import { logDebug } from '../shared/logger';
+import { t, type MessageKey } from '../shared/i18n';
+import { BLOCK_SELECTABLE, BLOCK_DISCUSSION, MAIN_FRAME, getBlockText } from './selectors';
+import { type BlockEntry, getBlocks, getBlockEntry } from './block-model';
+import { enterNavigateMode } from './block-focus-manager';
+import { announce } from './live-announcer';
+import { createModalDialog, openModalDialog, closeModalDialog } from './modal-dialog';
+
+const MODULE = 'ElementsList';
+const DIALOG_ID = 'an-elements-list';
+const LABEL_LENGTH = 80;
+
+type ElementKind = 'headings' | 'links' | 'databases' | 'todos' | 'comments';
+
+interface ElementItem {
+  label: string;
+  entry: BlockEntry;
+  /** Heading level — headings tab only */
+  level?: number;
+}
+
+const DATABASE_BLOCK_TYPES = new Set(['collection_view-block', 'collection_view_page-block']);
+
+/** Tabs in display order */
+const KINDS: { kind: ElementKind; label: MessageKey }[] = [
+  { kind: 'headings', label: 'elementsTabHeadings' },
+  { kind: 'links', label: 'elementsTabLinks' },
+  { kind: 'databases', label: 'elementsTabDatabases' },
+  { kind: 'todos', label: 'elementsTabTodos' },
+  { kind: 'comments', label: 'elementsTabComments' },
+];
+
+let dialog: HTMLElement | null = null;
+let activeKind: ElementKind = 'headings';
+let items: Record<ElementKind, ElementItem[]> | null = null;
+let visibleItems: ElementItem[] = [];
+let activeIndex = -1;
+
+// ─── Collection ──────────────────────────────────────────────
+
+/** One item per matching element, tied to the innermost block around it */
+function collectByElement(selector: string, label: (el: Element, entry: BlockEntry) => string): ElementItem[] {
+  const main = document.querySelector(MAIN_FRAME);
+  if (!main) return [];
+
+  const result: ElementItem[] = [];
+  for (const el of main.querySelectorAll(selector)) {
+    const block = el.closest(BLOCK_SELECTABLE);
+    const entry = block ? getBlockEntry(block) : null;
+    if (!entry) continue;
+    const text = label(el, entry);
+    if (text) result.push({ label: text, entry });
+  }
+  return result;
+}
+
+function truncate(text: string): string {
+  return text.length > LABEL_LENGTH ? text.slice(0, LABEL_LENGTH) + '…' : text;
+}
+
+function collectItems(): Record<ElementKind, ElementItem[]> {
+  const blocks = getBlocks();
+
+  return {
+    headings: blocks
+      .filter((entry) => entry.headingLevel !== null)
+      .map((entry) => ({
+        label: getBlockText(entry.element, LABEL_LENGTH) || t('empty'),
+        entry,
+        level: entry.headingLevel ?? 1,
+      })),
+    links: collectByElement('a[href]', (link) =>
+      truncate(link.getAttribute('aria-label') ?? link.textContent?.trim() ?? '')),
+    databases: blocks
+      .filter((entry) => DATABASE_BLOCK_TYPES.has(entry.type ?? ''))
+      .map((entry) => ({
+        label: entry.element.getAttribute('aria-label') ?? (getBlockText(entry.element, LABEL_LENGTH) || t('empty')),
+        entry,
+      })),
+    todos: blocks
+      .filter((entry) => entry.type === 'to_do-block')
+      .map((entry) => ({
+        label: `${getBlockText(entry.element, LABEL_LENGTH) || t('empty')}, ${
+          entry.element.getAttribute('aria-checked') === 'true' ? t('checked') : t('unchecked')}`,
+        entry,
+      })),
+    comments: collectByElement(BLOCK_DISCUSSION, (thread, entry) =>
+      truncate(`${thread.textContent?.trim() ?? ''} — ${getBlockText(entry.element, 30)}`)),
+  };
+}
+
+// ─── Rendering ───────────────────────────────────────────────
+
+function tabId(kind: ElementKind): string {
+  return `${DIALOG_ID}-tab-${kind}`;
+}
+
+function renderTabs(): void {
+  if (!dialog || !items) return;
+  for (const { kind, label } of KINDS) {
+    const tab = dialog.querySelector<HTMLElement>(`#${tabId(kind)}`);
+    if (!tab) continue;
+    const selected = kind === activeKind;
+    tab.textContent = t('elementsTabCount', { label: t(label), count: items[kind].length });
+    tab.setAttribute('aria-selected', String(selected));
+    tab.tabIndex = selected ? 0 : -1;
+  }
+}
+
+function renderItems(): void {
+  if (!dialog || !items) return;
+  const input = dialog.querySelector<HTMLInputElement>('input');
+  const list = dialog.querySelector<HTMLElement>(`#${DIALOG_ID}-items`);
+  const empty = dialog.querySelector<HTMLElement>(`#${DIALOG_ID}-empty`);
+  if (!input || !list || !empty) return;
+  const filter = input.value.trim().toLowerCase();
+
+  visibleItems = items[activeKind].filter((item) => item.label.toLowerCase().includes(filter));
+  activeIndex = visibleItems.length > 0 ? 0 : -1;
+
+  const isTree = activeKind === 'headings';
+  list.setAttribute('role', isTree ? 'tree' : 'listbox');
+  list.setAttribute('aria-labelledby', tabId(activeKind));
+  input.setAttribute('aria-haspopup', isTree ? 'tree' : 'listbox');
+  list.textContent = '';
+
+  visibleItems.forEach((item, i) => {
+    const option = document.createElement('div');
+    option.id = `${DIALOG_ID}-item-${i}`;
+    option.setAttribute('role', isTree ? 'treeitem' : 'option');
+    option.textContent = item.label;
+    if (item.level) {
+      option.setAttribute('aria-level', String(item.level));
+      option.style.paddingInlineStart = `${(item.level - 1) * 1.5}em`;
+    }
+    option.addEventListener('click', () => choose(i));
+    list.appendChild(option);
+  });
+
+  empty.hidden = visibleItems.length > 0;
+  updateActiveItem();
+}
+
+function updateActiveItem(): void {
+  const input = dialog?.querySelector<HTMLInputElement>('input');
+  if (!dialog || !input) return;
+  dialog.querySelectorAll('[aria-selected][id*="-item-"]').forEach((el) => el.removeAttribute('aria-selected'));
+
+  if (activeIndex < 0) {
+    input.removeAttribute('aria-activedescendant');
+    return;
+  }
+  const option = dialog.querySelector<HTMLElement>(`#${DIALOG_ID}-item-${activeIndex}`);
+  if (!option) return;
+  option.setAttribute('aria-selected', 'true');
+  input.setAttribute('aria-activedescendant', option.id);
+  option.scrollIntoView?.({ block: 'nearest' });
+}
+
+function selectKind(kind: ElementKind, focusTab = false): void {
+  activeKind = kind;
+  renderTabs();
+  renderItems();
+  if (focusTab) dialog?.querySelector<HTMLElement>(`#${tabId(kind)}`)?.focus();
+}
+
+function buildDialog(): HTMLElement {
+  const root = createModalDialog(DIALOG_ID, t('elementsListTitle'), 'elements-list');
+
+  const tablist = document.createElement('div');
+  tablist.setAttribute('role', 'tablist');
+  for (const { kind } of KINDS) {
+    const tab = document.createElement('button');
+    tab.type = 'button';
+    tab.id = tabId(kind);
+    tab.setAttribute('role', 'tab');
+    tab.setAttribute('aria-controls', `${DIALOG_ID}-items`);
+    tab.addEventListener('click', () => selectKind(kind));
+    tablist.appendChild(tab);
+  }
+
+  const label = document.createElement('label');
+  label.htmlFor = `${DIALOG_ID}-filter`;
+  label.textContent = t('elementsFilter');
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.id = `${DIALOG_ID}-filter`;
+  input.autocomplete = 'off';
+  input.setAttribute('role', 'combobox');
+  input.setAttribute('aria-autocomplete', 'list');
+  input.setAttribute('aria-expanded', 'true');
+  input.setAttribute('aria-controls', `${DIALOG_ID}-items`);
+  input.addEventListener('input', renderItems);
+
+  const list = document.createElement('div');
+  list.id = `${DIALOG_ID}-items`;
+
+  const empty = document.createElement('p');
+  empty.id = `${DIALOG_ID}-empty`;
+  empty.textContent = t('elementsNone');
+  empty.hidden = true;
+
+  root.append(tablist, label, input, list, empty);
+  root.addEventListener('keydown', handleKeydown);
+  return root;
+}
+
+// ─── Keyboard ────────────────────────────────────────────────
+
+function handleKeydown(e: KeyboardEvent): void {
+  if (!dialog) return;
+  const target = e.target as HTMLElement;
+  const inTablist = target.getAttribute('role') === 'tab';
+
+  switch (e.key) {
+    case 'ArrowLeft':
+    case 'ArrowRight': {
+      if (!inTablist) return;
+      e.preventDefault();
+      e.stopPropagation();
+      const current = KINDS.findIndex(({ kind }) => kind === activeKind);
+      const step = e.key === 'ArrowRight' ? 1 : -1;
+      selectKind(KINDS[(current + step + KINDS.length) % KINDS.length].kind, true);
+      return;
+    }
+    case 'ArrowDown':
+    case 'ArrowUp': {
+      if (inTablist || visibleItems.length === 0) return;
+      e.preventDefault();
+      e.stopPropagation();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      activeIndex = Math.min(Math.max(activeIndex + step, 0), visibleItems.length - 1);
+      updateActiveItem();
+      return;
+    }
+    case 'Enter': {
+      if (inTablist) return;
+      e.preventDefault();
+      e.stopPropagation();
+      if (activeIndex >= 0) {
+        choose(activeIndex);
+      } else {
+        announce(t('elementsNone'), { source: MODULE });
+      }
+      return;
+    }
+  }
+}
+
+function choose(index: number): void {
+  const item = visibleItems[index];
+  if (!item) return;
+  closeElementsList();
+  enterNavigateMode(item.entry.index);
+  logDebug(MODULE, `Moved to ${activeKind} item ${index}`);
+}
+
+// ─── Public API ──────────────────────────────────────────────
+
+/**
+ * Open the elements list on the headings tab.
+ */
+export function openElementsList(): void {
+  if (dialog) {
+    dialog.querySelector<HTMLElement>('input')?.focus();
+    return;
+  }
+  if (getBlocks().length === 0) {
+    announce(t('noBlocks'), { source: MODULE });
+    return;
+  }
+
+  items = collectItems();
+  dialog = buildDialog();
+  openModalDialog(dialog, closeElementsList);
+  selectKind('headings');
+  dialog.querySelector<HTMLElement>('input')?.focus();
+  logDebug(MODULE, 'Elements list opened');
+}
+
+/**
+ * Close the dialog and return focus to where it was.
+ */
+export function closeElementsList(): void {
+  if (!dialog) return;
+  const root = dialog;
+  dialog = null;
+  items = null;
+  visibleItems = [];
+  activeIndex = -1;
+  closeModalDialog(root);
+  logDebug(MODULE, 'Elements list closed');
+}
+
+export function isElementsListOpen(): boolean {
+  return dialog !== null;
+}
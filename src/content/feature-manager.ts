@@ -0,0 +1,77 @@
+/**
+ * Feature Manager
+ *
+ * Starts and stops the module behind each `settings.features.*` flag,
+ * so toggling a feature in the options page applies without reloading
+ * Notion. Each flag maps to its module's init/destroy pair; only flags
+ * whose value changed since the last call are applied.
+ */
+
+import type { ExtensionSettings } from '../shared/constants';
+import { logDebug } from '../shared/logger';
+import { initLiveAnnouncer, destroyLiveAnnouncer } from './live-announcer';
+import { initTextboxEnhancer, destroyTextboxEnhancer } from './aria-injector';
+import { initTreeEnhancer, destroyTreeEnhancer } from './tree-enhancer';
+import { initBlockFocusManager, destroyBlockFocusManager } from './block-focus-manager';
+import { scanAndEnhanceTables, destroyTableEnhancer } from './table-enhancer';
+import { initSearchEnhancer, destroySearchEnhancer } from './search-enhancer';
+import { initCommentEnhancer, destroyCommentEnhancer } from './comment-enhancer';
+
+const MODULE = 'FeatureManager';
+
+type Features = ExtensionSettings['features'];
+export type FeatureKey = keyof Features;
+
+interface FeatureModule {
+  init: () => void;
+  destroy: () => void;
+}
+
+/** In start order — the live announcer first so other modules can announce */
+const FEATURE_MODULES: Record<FeatureKey, FeatureModule> = {
+  liveAnnouncer: { init: initLiveAnnouncer, destroy: destroyLiveAnnouncer },
+  contentEditableEnhance: { init: initTextboxEnhancer, destroy: destroyTextboxEnhancer },
+  sidebarTree: { init: initTreeEnhancer, destroy: destroyTreeEnhancer },
+  blockNavigation: { init: initBlockFocusManager, destroy: destroyBlockFocusManager },
+  dbTableGrid: { init: scanAndEnhanceTables, destroy: destroyTableEnhancer },
+  searchDialog: { init: initSearchEnhancer, destroy: destroySearchEnhancer },
+  comments: { init: initCommentEnhancer, destroy: destroyCommentEnhancer },
+};
+
+/** Last applied value per feature; missing = never applied */
+let applied: Partial<Features> = {};
+
+/**
+ * Start newly enabled features and stop newly disabled ones.
+ * On the first call every feature is applied, so modules that are on by
+ * default (e.g. textbox labels) are switched off when their flag is false.
+ */
+export function applyFeatures(features: Features): void {
+  for (const [key, module] of Object.entries(FEATURE_MODULES) as [FeatureKey, FeatureModule][]) {
+    const enabled = features[key];
+    if (applied[key] === enabled) continue;
+
+    if (enabled) {
+      module.init();
+    } else {
+      module.destroy();
+    }
+    applied[key] = enabled;
+    logDebug(MODULE, `${key}: ${enabled ? 'on' : 'off'}`);
+  }
+}
+
+/**
+ * Stop every running feature (extension disabled / teardown).
+ */
+export function destroyFeatures(): void {
+  const keys = Object.keys(FEATURE_MODULES) as FeatureKey[];
+  for (const key of keys.reverse()) {
+    if (applied[key]) FEATURE_MODULES[key].destroy();
+  }
+  applied = {};
+}
+
+export function isFeatureActive(key: FeatureKey): boolean {
+  return applied[key] === true;
+}
@@ -6,6 +6,7 @@
  */
 
 import { logDebug } from '../shared/logger';
+import { t } from '../shared/i18n';
 import { SIDEBAR_NAV, MAIN_FRAME, HEADER, TREE_ITEM } from './selectors';
 import { announce } from './live-announcer';
 import { enterNavigateMode } from './block-focus-manager';
@@ -28,7 +29,7 @@ export function restoreFocus(): void {
 export function focusSidebar(): void {
   const sidebar = document.querySelector(SIDEBAR_NAV) as HTMLElement | null;
   if (!sidebar) {
-    announce('サイドバーが見つかりません');
+    announce(t('sidebarNotFound'), { source: MODULE });
     return;
   }
 
@@ -38,10 +39,10 @@ export function focusSidebar(): void {
 
   if (activeItem) {
     activeItem.focus();
-    announce('サイドバー');
+    announce(t('sidebar'), { source: MODULE });
   } else {
     sidebar.focus();
-    announce('サイドバー');
+    announce(t('sidebar'), { source: MODULE });
   }
 
   logDebug(MODULE, 'Focused sidebar');
@@ -50,7 +51,7 @@ export function focusSidebar(): void {
 export function focusMainContent(): void {
   const main = document.querySelector(MAIN_FRAME) as HTMLElement | null;
   if (!main) {
-    announce('メインコンテンツが見つかりません');
+    announce(t('mainNotFound'), { source: MODULE });
     return;
   }
 
@@ -62,7 +63,7 @@ export function focusMainContent(): void {
 export function focusHeader(): void {
   const header = document.querySelector(HEADER) as HTMLElement | null;
   if (!header) {
-    announce('ヘッダーが見つかりません');
+    announce(t('headerNotFound'), { source: MODULE });
     return;
   }
 
@@ -77,6 +78,6 @@ export function focusHeader(): void {
     header.focus();
   }
 
-  announce('ヘッダー');
+  announce(t('header'), { source: MODULE });
   logDebug(MODULE, 'Focused header');
 }
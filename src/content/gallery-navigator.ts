@@ -0,0 +1,340 @@
+/**
+ * Gallery View Layout and Navigation
+ *
+ * Notion lays gallery cards out in a CSS grid whose column count follows
+ * the window width, with every card a direct child of one container.
+ * layoutGalleryRows() reads the laid-out column count (cards sharing the
+ * first card's top edge) and groups the cards into role="row" elements
+ * through aria-owns, so the gallery is a valid grid without moving
+ * Notion's nodes. The rows live in an extension-owned holder at the end of
+ * <body>, owned by the gallery in turn, so nothing is added inside
+ * Notion's React tree.
+ *
+ * Gallery mode (Alt+Shift+D on a gallery) moves the way the cards look:
+ * - ←/→: previous/next card in the row; ↑/↓: same column, adjacent row
+ * - Home/End: first/last card of the row; Ctrl+Home/End: first/last card
+ * - Enter: open the card; focus returns to it when its page is closed
+ * - Escape: leave gallery mode
+ */
+
+import { EXTENSION_ATTR } from '../shared/constants';
+import { logDebug } from '../shared/logger';
+import { t } from '../shared/i18n';
+import { DB_COLLECTION_VIEW, DB_GALLERY_VIEW, SIDE_PEEK, MODAL_OVERLAY } from './selectors';
+import { announce } from './live-announcer';
+import { playEarcon } from './earcons';
+import { formatGalleryCard } from './announcement-formatter';
+import { getGridCommand } from './sr-profile';
+import { openLinkedSource } from './db-source';
+import { protect } from './dom-events';
+
+const MODULE = 'GalleryNavigator';
+
+const CARD_SELECTOR = '.notion-collection-item';
+/** Where a card opens: side peek, or centre peek / full-page dialog */
+const CARD_PAGE_SELECTOR = `${SIDE_PEEK}, ${MODAL_OVERLAY}`;
+const ROWS_ATTR_VALUE = 'gallery-rows';
+/** Cards whose top edges differ by less than this share a row (px) */
+const ROW_TOLERANCE = 1;
+const RESIZE_DEBOUNCE_MS = 200;
+/** A card page left open longer than this is taken as left for good (ms) */
+const RETURN_WATCH_MS = 5 * 60_000;
+
+let galleryView: HTMLElement | null = null;
+/** Index of the focused card in document order */
+let currentIndex = 0;
+let nextCardId = 0;
+let nextRowsId = 0;
+let resizeTimer: ReturnType<typeof setTimeout> | null = null;
+let returnObserver: MutationObserver | null = null;
+let returnTimer: ReturnType<typeof setTimeout> | null = null;
+
+// ─── Layout ──────────────────────────────────────────────────
+
+function getCards(view: HTMLElement): HTMLElement[] {
+  return Array.from(view.querySelectorAll<HTMLElement>(CARD_SELECTOR));
+}
+
+/** Number of cards on the first laid-out row */
+function countColumns(cards: HTMLElement[]): number {
+  if (cards.length === 0) return 1;
+  const top = cards[0].getBoundingClientRect().top;
+  const nextRow = cards.findIndex((card) => Math.abs(card.getBoundingClientRect().top - top) > ROW_TOLERANCE);
+  return nextRow < 0 ? cards.length : nextRow;
+}
+
+/**
+ * Title and property values of a card, in reading order. Notion only
+ * renders the properties that are set to show on the card.
+ */
+function getCardTexts(card: HTMLElement): { title: string; properties: string[] } {
+  const texts: string[] = [];
+  const walker = document.createTreeWalker(card, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const text = node.textContent?.replace(/\s+/g, ' ').trim();
+    if (!text || node.parentElement?.closest('[aria-hidden="true"]')) continue;
+    if (texts[texts.length - 1] !== text) texts.push(text);
+  }
+  const [title = '', ...properties] = texts;
+  return { title, properties };
+}
+
+/** Holders whose gallery is gone, e.g. after Notion re-rendered the view */
+function removeOrphanedRows(): void {
+  for (const rows of document.querySelectorAll(`[${EXTENSION_ATTR}="${ROWS_ATTR_VALUE}"]`)) {
+    if (!document.querySelector(`[aria-owns="${rows.id}"]`)) rows.remove();
+  }
+}
+
+/** Holder of the gallery's rows, created on first use */
+function getRowsHolder(view: HTMLElement): HTMLElement {
+  const owned = view.getAttribute('aria-owns');
+  const existing = owned ? document.getElementById(owned) : null;
+  if (existing) return existing;
+
+  removeOrphanedRows();
+  const rows = document.createElement('div');
+  rows.id = `an-gallery-rows-${++nextRowsId}`;
+  rows.setAttribute(EXTENSION_ATTR, ROWS_ATTR_VALUE);
+  Object.assign(rows.style, { position: 'absolute', width: '0', height: '0', overflow: 'hidden' });
+  document.body.appendChild(rows);
+  view.setAttribute('aria-owns', rows.id);
+  return rows;
+}
+
+/**
+ * Group the gallery's cards into role="row" elements matching the current
+ * layout. Returns the column count. The rows are empty and hidden; the
+ * cards stay where Notion put them.
+ */
+export function layoutGalleryRows(view: HTMLElement): number {
+  const cards = getCards(view);
+  const columns = countColumns(cards);
+
+  cards.forEach((card) => {
+    if (!card.id) card.id = `an-gallery-card-${++nextCardId}`;
+  });
+  const signature = `${columns}:${cards.map((card) => card.id).join(' ')}`;
+  const rows = getRowsHolder(view);
+  if (rows.dataset.layout === signature) return columns;
+
+  rows.dataset.layout = signature;
+  rows.replaceChildren();
+
+  const rowCount = Math.ceil(cards.length / columns);
+  for (let r = 0; r < rowCount; r++) {
+    const rowCards = cards.slice(r * columns, (r + 1) * columns);
+    const row = document.createElement('div');
+    row.setAttribute('role', 'row');
+    row.setAttribute('aria-rowindex', String(r + 1));
+    row.setAttribute('aria-owns', rowCards.map((card) => card.id).join(' '));
+    rows.appendChild(row);
+
+    rowCards.forEach((card, c) => {
+      card.setAttribute('role', 'gridcell');
+      card.setAttribute('aria-colindex', String(c + 1));
+      card.setAttribute('tabindex', '-1');
+      const { title, properties } = getCardTexts(card);
+      if (title) card.setAttribute('aria-label', [title, ...properties].join(', '));
+      protect(card);
+    });
+  }
+
+  view.setAttribute('aria-rowcount', String(rowCount));
+  view.setAttribute('aria-colcount', String(columns));
+  logDebug(MODULE, `Gallery laid out: ${rowCount} rows × ${columns} columns`);
+  return columns;
+}
+
+// ─── Navigation ──────────────────────────────────────────────
+
+function focusCard(view: HTMLElement, index: number, interrupt: boolean): string {
+  const cards = getCards(view);
+  const columns = layoutGalleryRows(view);
+  currentIndex = index;
+  const card = cards[index];
+  card.focus();
+  const { title, properties } = getCardTexts(card);
+  const message = formatGalleryCard(
+    title,
+    properties,
+    Math.floor(index / columns),
+    index % columns,
+    Math.ceil(cards.length / columns),
+    columns,
+  );
+  if (interrupt) announce(message, { interrupt: true, source: MODULE });
+  return message;
+}
+
+function moveTo(view: HTMLElement, index: number): void {
+  if (index < 0 || index >= getCards(view).length || index === currentIndex) {
+    playEarcon('boundary');
+    return;
+  }
+  focusCard(view, index, true);
+}
+
+function handleGalleryKeydown(event: KeyboardEvent): void {
+  const view = galleryView;
+  if (!view) return;
+
+  const plain = !event.ctrlKey && !event.altKey && !event.metaKey && !event.shiftKey;
+  if (plain && event.key === 'Enter') {
+    event.preventDefault();
+    event.stopPropagation();
+    openCard(view);
+    return;
+  }
+  if (plain && (event.key === 's' || event.key === 'S')) {
+    event.preventDefault();
+    event.stopPropagation();
+    if (openLinkedSource(view)) destroyGalleryNavigator();
+    return;
+  }
+
+  const command = getGridCommand(event);
+  if (!command) return;
+
+  event.preventDefault();
+  event.stopPropagation();
+
+  const count = getCards(view).length;
+  const columns = layoutGalleryRows(view);
+  const col = currentIndex % columns;
+  const rowStart = currentIndex - col;
+  const rowEnd = Math.min(rowStart + columns, count) - 1;
+  switch (command) {
+    case 'right': moveTo(view, currentIndex < rowEnd ? currentIndex + 1 : -1); break;
+    case 'left': moveTo(view, col > 0 ? currentIndex - 1 : -1); break;
+    // A shorter last row: land on its last card
+    case 'down': moveTo(view, rowEnd + 1 < count ? Math.min(currentIndex + columns, count - 1) : -1); break;
+    case 'up': moveTo(view, currentIndex - columns); break;
+    case 'rowStart': moveTo(view, rowStart); break;
+    case 'rowEnd': moveTo(view, rowEnd); break;
+    case 'tableStart': moveTo(view, 0); break;
+    case 'tableEnd': moveTo(view, count - 1); break;
+    case 'exit': exitGalleryMode(); break;
+  }
+}
+
+// ─── Opening Cards ───────────────────────────────────────────
+
+function stopReturnWatch(): void {
+  returnObserver?.disconnect();
+  returnObserver = null;
+  if (returnTimer) clearTimeout(returnTimer);
+  returnTimer = null;
+}
+
+function findCardById(id: string): HTMLElement | null {
+  const cards = document.querySelectorAll<HTMLElement>(`${DB_GALLERY_VIEW} ${CARD_SELECTOR}`);
+  return Array.from(cards).find((card) => (card.getAttribute('data-block-id') ?? card.id) === id) ?? null;
+}
+
+/**
+ * Once the card's page is closed (peek or dialog gone, or the gallery
+ * back after a full-page visit), focus the card again. The watch ends with
+ * gallery mode, or after RETURN_WATCH_MS.
+ */
+function watchForReturn(view: HTMLElement, card: HTMLElement): void {
+  stopReturnWatch();
+  const id = card.getAttribute('data-block-id') ?? card.id;
+  let away = false;
+
+  returnObserver = new MutationObserver(() => {
+    if (document.querySelector(CARD_PAGE_SELECTOR) || (!view.isConnected && !findCardById(id))) {
+      away = true;
+      return;
+    }
+    if (!away) return;
+
+    stopReturnWatch();
+    const returned = findCardById(id);
+    const returnedView = returned?.closest<HTMLElement>(DB_GALLERY_VIEW);
+    if (!returned || !returnedView) return;
+    if (returnedView !== galleryView) bindGallery(returnedView);
+    focusCard(returnedView, getCards(returnedView).indexOf(returned), true);
+    logDebug(MODULE, 'Focus returned to the opened card');
+  });
+  returnObserver.observe(document.body, { childList: true, subtree: true });
+  returnTimer = setTimeout(stopReturnWatch, RETURN_WATCH_MS);
+}
+
+function openCard(view: HTMLElement): void {
+  const card = getCards(view)[currentIndex];
+  if (!card) return;
+  watchForReturn(view, card);
+  (card.querySelector<HTMLElement>('a[href]') ?? card).click();
+  announce(t('pageOpened', { title: getCardTexts(card).title || t('empty') }), { source: MODULE });
+}
+
+// ─── Public API ──────────────────────────────────────────────
+
+function handleResize(): void {
+  if (resizeTimer) clearTimeout(resizeTimer);
+  resizeTimer = setTimeout(() => {
+    resizeTimer = null;
+    if (galleryView?.isConnected) layoutGalleryRows(galleryView);
+  }, RESIZE_DEBOUNCE_MS);
+}
+
+function bindGallery(view: HTMLElement): void {
+  galleryView?.removeEventListener('keydown', handleGalleryKeydown, true);
+  galleryView = view;
+  view.addEventListener('keydown', handleGalleryKeydown, true);
+}
+
+/**
+ * Enter gallery mode on `view`, starting at the focused card or the first.
+ */
+export function enterGalleryMode(view: HTMLElement): void {
+  const cards = getCards(view);
+  if (cards.length === 0) {
+    announce(t('galleryEmpty'), { source: MODULE });
+    return;
+  }
+
+  destroyGalleryNavigator();
+  bindGallery(view);
+  window.addEventListener('resize', handleResize);
+
+  const activeCard = (document.activeElement as HTMLElement | null)?.closest<HTMLElement>(CARD_SELECTOR);
+  const start = activeCard ? Math.max(cards.indexOf(activeCard), 0) : 0;
+  const position = focusCard(view, start, false);
+  playEarcon('gridModeStart');
+  announce(t('galleryModeStart', { position }), { source: MODULE });
+  logDebug(MODULE, `Gallery mode entered: ${cards.length} cards`);
+}
+
+export function exitGalleryMode(): void {
+  const view = galleryView;
+  if (!view) return;
+  destroyGalleryNavigator();
+  (view.closest<HTMLElement>(DB_COLLECTION_VIEW) ?? view).focus();
+  playEarcon('gridModeEnd');
+  announce(t('galleryModeEnd'), { source: MODULE });
+  logDebug(MODULE, 'Gallery mode exited');
+}
+
+export function isGalleryModeActive(): boolean {
+  return galleryView !== null;
+}
+
+/** Remove the row holders of every gallery, e.g. when the extension is disabled */
+export function removeGalleryRows(): void {
+  for (const rows of document.querySelectorAll(`[${EXTENSION_ATTR}="${ROWS_ATTR_VALUE}"]`)) {
+    document.querySelector(`[aria-owns="${rows.id}"]`)?.removeAttribute('aria-owns');
+    rows.remove();
+  }
+}
+
+export function destroyGalleryNavigator(): void {
+  galleryView?.removeEventListener('keydown', handleGalleryKeydown, true);
+  galleryView = null;
+  currentIndex = 0;
+  window.removeEventListener('resize', handleResize);
+  if (resizeTimer) clearTimeout(resizeTimer);
+  resizeTimer = null;
+  stopReturnWatch();
+}
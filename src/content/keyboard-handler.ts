@@ -6,17 +6,23 @@
  */
 
 import { logDebug } from '../shared/logger';
+import { t, type MessageKey } from '../shared/i18n';
 import { focusSidebar, focusMainContent, focusHeader } from './focus-manager';
 import { announceCurrentBlock, announceHeadingOutline } from './block-navigator';
 import {
   navigateNext, navigatePrev,
   navigateToNextHeading, navigateToPrevHeading, navigateToNextHeadingLevel,
   navigateToFirst, navigateToLast,
+  navigateToParent, navigateToFirstChild, navigateToNextSibling, navigateToPrevSibling,
 } from './block-focus-manager';
-import { announce } from './live-announcer';
+import { announce, repeatLastAnnouncement, reviewAnnouncement } from './live-announcer';
 import { enterGridMode } from './table-enhancer';
+import { openElementsList } from './elements-list';
+import { openAnnouncementHistory } from './announcement-history';
 import type { ExtensionSettings } from '../shared/constants';
 
+type FeatureKey = keyof ExtensionSettings['features'];
+
 const MODULE = 'KeyboardHandler';
 
 type ShortcutAction = () => void;
@@ -24,7 +30,7 @@ type ShortcutAction = () => void;
 interface ShortcutBinding {
   key: string;
   action: ShortcutAction;
-  description: string;
+  description: MessageKey;
 }
 
 const bindings: ShortcutBinding[] = [];
@@ -32,30 +38,48 @@ const bindings: ShortcutBinding[] = [];
 function buildBindings(shortcuts: Record<string, string>): void {
   bindings.length = 0;
 
-  const actionMap: Record<string, { action: ShortcutAction; description: string }> = {
-    focusSidebar: { action: focusSidebar, description: 'サイドバーにフォーカス移動' },
-    focusMain: { action: focusMainContent, description: 'メインコンテンツにフォーカス移動' },
-    focusHeader: { action: focusHeader, description: 'ヘッダーにフォーカス移動' },
-    announceBlock: { action: announceCurrentBlock, description: '現在のブロック情報を読み上げ' },
-    headingOutline: { action: announceHeadingOutline, description: '見出し構造を読み上げ' },
-    nextBlock: { action: navigateNext, description: '次のブロックへ移動' },
-    prevBlock: { action: navigatePrev, description: '前のブロックへ移動' },
-    nextHeading: { action: navigateToNextHeading, description: '次の見出しへジャンプ' },
-    prevHeading: { action: navigateToPrevHeading, description: '前の見出しへジャンプ' },
-    nextH1: { action: () => navigateToNextHeadingLevel(1), description: '次の見出し1へジャンプ' },
-    nextH2: { action: () => navigateToNextHeadingLevel(2), description: '次の見出し2へジャンプ' },
-    nextH3: { action: () => navigateToNextHeadingLevel(3), description: '次の見出し3へジャンプ' },
-    firstBlock: { action: navigateToFirst, description: '最初のブロックへ移動' },
-    lastBlock: { action: navigateToLast, description: '最後のブロックへ移動' },
-    dbGridMode: { action: enterGridMode, description: 'DBグリッドモード' },
-    blockActionMenu: { action: openBlockActionMenu, description: 'ブロック操作メニュー' },
-    landmarkList: { action: announceLandmarks, description: 'ランドマーク一覧' },
-    help: { action: announceHelp, description: 'ヘルプ表示' },
+  /** `feature`: the shortcut is left to Notion while that feature is off */
+  const actionMap: Record<string, { action: ShortcutAction; description: MessageKey; feature?: FeatureKey }> = {
+    focusSidebar: { action: focusSidebar, description: 'shortcutFocusSidebar' },
+    focusMain: { action: focusMainContent, description: 'shortcutFocusMain' },
+    focusHeader: { action: focusHeader, description: 'shortcutFocusHeader' },
+    announceBlock: { action: announceCurrentBlock, description: 'shortcutAnnounceBlock' },
+    headingOutline: { action: announceHeadingOutline, description: 'shortcutHeadingOutline' },
+    nextBlock: { action: navigateNext, description: 'shortcutNextBlock', feature: 'blockNavigation' },
+    prevBlock: { action: navigatePrev, description: 'shortcutPrevBlock', feature: 'blockNavigation' },
+    nextHeading: { action: navigateToNextHeading, description: 'shortcutNextHeading', feature: 'blockNavigation' },
+    prevHeading: { action: navigateToPrevHeading, description: 'shortcutPrevHeading', feature: 'blockNavigation' },
+    nextH1: { action: () => navigateToNextHeadingLevel(1), description: 'shortcutNextH1', feature: 'blockNavigation' },
+    nextH2: { action: () => navigateToNextHeadingLevel(2), description: 'shortcutNextH2', feature: 'blockNavigation' },
+    nextH3: { action: () => navigateToNextHeadingLevel(3), description: 'shortcutNextH3', feature: 'blockNavigation' },
+    firstBlock: { action: navigateToFirst, description: 'shortcutFirstBlock', feature: 'blockNavigation' },
+    lastBlock: { action: navigateToLast, description: 'shortcutLastBlock', feature: 'blockNavigation' },
+    parentBlock: { action: navigateToParent, description: 'shortcutParentBlock', feature: 'blockNavigation' },
+    firstChildBlock: { action: navigateToFirstChild, description: 'shortcutFirstChildBlock', feature: 'blockNavigation' },
+    nextSiblingBlock: { action: navigateToNextSibling, description: 'shortcutNextSiblingBlock', feature: 'blockNavigation' },
+    prevSiblingBlock: { action: navigateToPrevSibling, description: 'shortcutPrevSiblingBlock', feature: 'blockNavigation' },
+    dbGridMode: { action: enterGridMode, description: 'shortcutDbGridMode', feature: 'dbTableGrid' },
+    blockActionMenu: { action: openBlockActionMenu, description: 'shortcutBlockActionMenu' },
+    landmarkList: { action: announceLandmarks, description: 'shortcutLandmarkList' },
+    elementsList: { action: openElementsList, description: 'shortcutElementsList', feature: 'blockNavigation' },
+    repeatLastAnnouncement: {
+      action: repeatLastAnnouncement, description: 'shortcutRepeatLastAnnouncement', feature: 'liveAnnouncer',
+    },
+    prevAnnouncement: {
+      action: () => reviewAnnouncement(-1), description: 'shortcutPrevAnnouncement', feature: 'liveAnnouncer',
+    },
+    nextAnnouncement: {
+      action: () => reviewAnnouncement(1), description: 'shortcutNextAnnouncement', feature: 'liveAnnouncer',
+    },
+    announcementHistory: {
+      action: openAnnouncementHistory, description: 'shortcutAnnouncementHistory', feature: 'liveAnnouncer',
+    },
+    help: { action: announceHelp, description: 'shortcutHelp' },
   };
 
   for (const [name, keyCombo] of Object.entries(shortcuts)) {
     const mapping = actionMap[name];
-    if (mapping) {
+    if (mapping && (!mapping.feature || currentFeatures[mapping.feature])) {
       bindings.push({
         key: normalizeKeyCombo(keyCombo),
         action: mapping.action,
@@ -141,7 +165,7 @@ function openBlockActionMenu(): void {
   const block = active?.closest('.notion-selectable[data-block-id]') as HTMLElement | null;
 
   if (!block) {
-    announce('ブロックが選択されていません');
+    announce(t('noBlockSelected'), { source: MODULE });
     return;
   }
 
@@ -161,44 +185,46 @@ function announceLandmarks(): void {
   const landmarks: string[] = [];
 
   if (document.querySelector('nav.notion-sidebar-container')) {
-    landmarks.push('サイドバー ナビゲーション');
+    landmarks.push(t('landmarkSidebar'));
   }
   if (document.querySelector('main.notion-frame')) {
-    landmarks.push('メインコンテンツ');
+    landmarks.push(t('landmarkMain'));
   }
   if (document.querySelector('.notion-topbar, header')) {
-    landmarks.push('ヘッダー');
+    landmarks.push(t('header'));
   }
   if (document.querySelector('.notion-peek-renderer')) {
-    landmarks.push('サイドピーク');
+    landmarks.push(t('sidePeek'));
   }
 
   if (landmarks.length === 0) {
-    announce('ランドマークが見つかりません');
+    announce(t('noLandmarks'), { source: MODULE });
   } else {
-    announce(`ランドマーク: ${landmarks.join(', ')}`);
+    announce(t('landmarks', { landmarks: landmarks.join(', ') }), { source: MODULE });
   }
 }
 
 function announceHelp(): void {
-  const helpLines: string[] = ['Accessible Notion ショートカット:'];
+  const helpLines: string[] = [t('helpTitle')];
   for (const binding of bindings) {
     const original = Object.entries(currentShortcuts).find(
       ([, v]) => normalizeKeyCombo(v) === binding.key,
     );
     const display = original ? original[1] : binding.key;
-    helpLines.push(`${display}: ${binding.description}`);
+    helpLines.push(`${display}: ${t(binding.description)}`);
   }
-  announce(helpLines.join('. '));
+  announce(helpLines.join('. '), { source: MODULE });
 }
 
 let currentShortcuts: Record<string, string> = {};
+let currentFeatures: Partial<ExtensionSettings['features']> = {};
 
 /**
  * Initialize the keyboard handler with settings.
  */
 export function initKeyboardHandler(settings: ExtensionSettings): void {
   currentShortcuts = { ...settings.shortcuts };
+  currentFeatures = { ...settings.features };
   buildBindings(currentShortcuts);
 
   document.addEventListener('keydown', handleKeydown, true);
@@ -213,6 +239,15 @@ export function updateShortcuts(shortcuts: Record<string, string>): void {
   buildBindings(currentShortcuts);
 }
 
+/**
+ * Update feature flags when settings change. Shortcuts of disabled
+ * features are unbound so the keys reach Notion again.
+ */
+export function updateFeatures(features: ExtensionSettings['features']): void {
+  currentFeatures = { ...features };
+  buildBindings(currentShortcuts);
+}
+
 export function destroyKeyboardHandler(): void {
   document.removeEventListener('keydown', handleKeydown, true);
   bindings.length = 0;
@@ -3,16 +3,75 @@
  *
  * Provides aria-live regions for screen reader announcements.
  * Polite region for navigation feedback, assertive for errors.
+ *
+ * Spoken messages are also kept in a small history so a missed one can be
+ * repeated or reviewed (Alt+Shift+R / Z / X, panel on Alt+Shift+V).
  */
 
 import { EXTENSION_ATTR, LIVE_REGION_ATTR } from '../shared/constants';
 import { logDebug } from '../shared/logger';
+import { t } from '../shared/i18n';
+import { getProfile } from './sr-profile';
 
 const MODULE = 'LiveAnnouncer';
 
+/** Minimum time a message stays in the region before the next queued one */
+const MIN_DWELL_MS = 1000;
+/** Stand-in for a frame in background tabs, where rAF does not run (ms) */
+const FRAME_FALLBACK_MS = 100;
+/** Announcements kept for repeat / review */
+const HISTORY_SIZE = 50;
+
+export type AnnouncePriority = 'polite' | 'assertive';
+
+export interface AnnounceOptions {
+  /** 'polite' (default) or 'assertive' — assertive messages jump the queue */
+  priority?: AnnouncePriority;
+  /** Drop everything queued and speak now (navigation keys) */
+  interrupt?: boolean;
+  /** Module that produced the message, shown in the history */
+  source?: string;
+  /** false = speak without adding to the history (repeats, reviews) */
+  history?: boolean;
+}
+
+/** A message as it was injected into a live region */
+export interface AnnouncementRecord {
+  message: string;
+  priority: AnnouncePriority;
+  /** Date.now() at injection */
+  time: number;
+  source: string;
+}
+
+interface QueuedAnnouncement {
+  message: string;
+  priority: AnnouncePriority;
+  source: string;
+  history: boolean;
+}
+
 let politeRegion: HTMLElement | null = null;
 let assertiveRegion: HTMLElement | null = null;
-let clearTimer: ReturnType<typeof setTimeout> | null = null;
+const clearTimers = new Map<HTMLElement, ReturnType<typeof setTimeout>>();
+
+let queue: QueuedAnnouncement[] = [];
+/** Message currently being injected or dwelling in its region */
+let current: QueuedAnnouncement | null = null;
+/** When `current` may be replaced; Infinity until it has been injected */
+let currentUntil = 0;
+let dwellTimer: ReturnType<typeof setTimeout> | null = null;
+/** Bumped on every speak so a superseded pending injection is dropped */
+let speakId = 0;
+
+let recording: AnnouncementRecord[] | null = null;
+
+/** Ring buffer: `historyCount` entries ending just before `historyNext` */
+let historyBuffer: AnnouncementRecord[] = [];
+let historyNext = 0;
+let historyCount = 0;
+/** Position of the review cursor in getAnnouncementHistory(); count = past the newest */
+let reviewIndex = 0;
 
 function createRegion(politeness: 'polite' | 'assertive'): HTMLElement {
   const el = document.createElement('div');
@@ -47,36 +106,203 @@ export function initLiveAnnouncer(): void {
   logDebug(MODULE, 'Live announcer regions injected');
 }
 
+// ─── Queue ───────────────────────────────────────────────────
+
+function regionFor(priority: AnnouncePriority): HTMLElement | null {
+  return priority === 'assertive' ? assertiveRegion : politeRegion;
+}
+
+function speak(item: QueuedAnnouncement): void {
+  const region = regionFor(item.priority);
+  if (!region) return;
+
+  const { liveRegion } = getProfile();
+  const id = ++speakId;
+  current = item;
+  currentUntil = Infinity;
+
+  // Clear previous content first so same-text announcements re-trigger
+  region.textContent = '';
+  const pendingClear = clearTimers.get(region);
+  if (pendingClear) clearTimeout(pendingClear);
+
+  let injected = false;
+  const inject = () => {
+    if (id !== speakId || injected) return;
+    injected = true;
+    if (liveRegion.strategy === 'replace-node') {
+      const node = document.createElement('div');
+      node.textContent = item.message;
+      region.replaceChildren(node);
+    } else {
+      region.textContent = item.message;
+    }
+    const record = { message: item.message, priority: item.priority, time: Date.now(), source: item.source };
+    recording?.push(record);
+    if (item.history) addToHistory(record);
+    logDebug(MODULE, `Announced (${item.priority}):`, item.message);
+
+    currentUntil = Date.now() + MIN_DWELL_MS;
+    pump();
+  };
+
+  // Use rAF (or the profile's delay) so the empty state is processed first.
+  // Whichever of rAF and the fallback timer comes first injects.
+  if (liveRegion.injectDelay > 0) {
+    setTimeout(inject, liveRegion.injectDelay);
+  } else {
+    requestAnimationFrame(inject);
+    setTimeout(inject, FRAME_FALLBACK_MS);
+  }
+
+  // Clear later to allow re-announcement of same text
+  clearTimers.set(region, setTimeout(() => {
+    region.textContent = '';
+    clearTimers.delete(region);
+  }, liveRegion.injectDelay + liveRegion.clearAfter));
+}
+
+/**
+ * Speak the next queued message once the current one has dwelt long enough.
+ */
+function pump(): void {
+  if (dwellTimer || queue.length === 0) return;
+  const wait = currentUntil - Date.now();
+  if (wait === Infinity) return; // still injecting; inject() pumps again
+  if (wait > 0) {
+    dwellTimer = setTimeout(() => {
+      dwellTimer = null;
+      pump();
+    }, wait);
+    return;
+  }
+  speak(queue.shift()!);
+}
+
+function flushQueue(): void {
+  queue = [];
+  if (dwellTimer) clearTimeout(dwellTimer);
+  dwellTimer = null;
+}
+
 /**
  * Announce a message to screen readers via aria-live region.
+ *
+ * Messages are queued and each stays in its region for at least
+ * MIN_DWELL_MS, so quick successive calls no longer overwrite each other.
+ * Assertive messages go ahead of queued polite ones; a message identical
+ * to one still waiting (or still being injected) is coalesced into it.
+ * `interrupt` drops the queue and speaks immediately — for navigation
+ * keys, where only the newest position matters.
+ *
  * @param message Text to announce
- * @param priority 'polite' (default) or 'assertive'
+ * @param options 'polite' (default), 'assertive', or AnnounceOptions
  */
-export function announce(message: string, priority: 'polite' | 'assertive' = 'polite'): void {
-  const region = priority === 'assertive' ? assertiveRegion : politeRegion;
-  if (!region) {
+export function announce(message: string, options: AnnouncePriority | AnnounceOptions = 'polite'): void {
+  const { priority = 'polite', interrupt = false, source = '', history = true } =
+    typeof options === 'string' ? { priority: options } : options;
+
+  if (!regionFor(priority)) {
     logDebug(MODULE, 'Live region not initialized, skipping announcement:', message);
     return;
   }
 
-  // Clear previous content first so same-text announcements re-trigger
-  region.textContent = '';
+  const item = { message, priority, source, history };
+  if (interrupt) {
+    flushQueue();
+    speak(item);
+    return;
+  }
+
+  const injecting = currentUntil === Infinity && current?.message === message;
+  if (injecting || queue.some((queued) => queued.message === message)) {
+    logDebug(MODULE, 'Coalesced duplicate announcement:', message);
+    return;
+  }
 
-  if (clearTimer) {
-    clearTimeout(clearTimer);
+  if (priority === 'assertive') {
+    const firstPolite = queue.findIndex((queued) => queued.priority === 'polite');
+    queue.splice(firstPolite < 0 ? queue.length : firstPolite, 0, item);
+  } else {
+    queue.push(item);
   }
+  pump();
+}
 
-  // Use rAF to ensure the empty state is processed by the browser
-  requestAnimationFrame(() => {
-    region.textContent = message;
-    logDebug(MODULE, `Announced (${priority}):`, message);
-  });
+// ─── History ─────────────────────────────────────────────────
+
+function addToHistory(record: AnnouncementRecord): void {
+  historyBuffer[historyNext] = record;
+  historyNext = (historyNext + 1) % HISTORY_SIZE;
+  historyCount = Math.min(historyCount + 1, HISTORY_SIZE);
+  reviewIndex = historyCount;
+}
+
+/**
+ * Spoken announcements, oldest first (at most HISTORY_SIZE).
+ */
+export function getAnnouncementHistory(): AnnouncementRecord[] {
+  const start = (historyNext - historyCount + HISTORY_SIZE) % HISTORY_SIZE;
+  return Array.from({ length: historyCount }, (_, i) => historyBuffer[(start + i) % HISTORY_SIZE]);
+}
+
+/**
+ * Speak the most recent announcement again.
+ */
+export function repeatLastAnnouncement(): void {
+  const history = getAnnouncementHistory();
+  const last = history[history.length - 1];
+  announce(last ? last.message : t('historyEmpty'), { interrupt: true, source: MODULE, history: false });
+  reviewIndex = history.length;
+}
+
+/**
+ * Step the review cursor through the history: -1 = older, 1 = newer.
+ * Reviewing starts from the newest message.
+ */
+export function reviewAnnouncement(direction: 1 | -1): void {
+  const history = getAnnouncementHistory();
+  const speak = (message: string) => announce(message, { interrupt: true, source: MODULE, history: false });
+  if (history.length === 0) {
+    speak(t('historyEmpty'));
+    return;
+  }
+
+  const target = reviewIndex + direction;
+  if (target < 0) {
+    speak(t('historyOldest'));
+    return;
+  }
+  if (target >= history.length) {
+    reviewIndex = history.length;
+    speak(t('historyNewest'));
+    return;
+  }
+  reviewIndex = target;
+  speak(t('historyItem', { index: target + 1, total: history.length, message: history[target].message }));
+}
+
+export function clearAnnouncementHistory(): void {
+  historyBuffer = [];
+  historyNext = 0;
+  historyCount = 0;
+  reviewIndex = 0;
+}
+
+// ─── Recording ───────────────────────────────────────────────
+
+/**
+ * Start recording what is injected into the live regions. The returned
+ * array fills as messages are spoken; used by tests to assert exactly
+ * what a screen reader would hear, and when.
+ */
+export function recordAnnouncements(): readonly AnnouncementRecord[] {
+  recording = [];
+  return recording;
+}
 
-  // Clear after 5s to allow re-announcement of same text
-  clearTimer = setTimeout(() => {
-    if (region) region.textContent = '';
-    clearTimer = null;
-  }, 5000);
+export function stopRecordingAnnouncements(): void {
+  recording = null;
 }
 
 export function destroyLiveAnnouncer(): void {
@@ -84,5 +310,11 @@ export function destroyLiveAnnouncer(): void {
   assertiveRegion?.remove();
   politeRegion = null;
   assertiveRegion = null;
-  if (clearTimer) clearTimeout(clearTimer);
+  for (const timer of clearTimers.values()) clearTimeout(timer);
+  clearTimers.clear();
+  flushQueue();
+  current = null;
+  currentUntil = 0;
+  speakId++;
+  clearAnnouncementHistory();
 }
@@ -6,28 +6,50 @@
  * in sync with Notion's dynamic SPA updates.
  */
 
-import { DEFAULT_SETTINGS, EXTENSION_ATTR, type ExtensionSettings } from '../shared/constants';
+import { DEFAULT_SETTINGS, EXTENSION_ATTR, OWN_LABEL_ATTR, type ExtensionSettings } from '../shared/constants';
 import { logDebug, logError, logInfo, setDebugMode } from '../shared/logger';
+import { t, setLocale, resolveLocale, type MessageKey } from '../shared/i18n';
 import { loadSettings, onSettingsChanged } from '../shared/storage';
 
-import { initLiveAnnouncer, announce, destroyLiveAnnouncer } from './live-announcer';
-import { scanAndEnhance, enhanceBlock, enhanceTextbox, enhanceImage, enhanceInlineLinks } from './aria-injector';
-import { initTreeEnhancer, enhanceTreeItems, destroyTreeEnhancer } from './tree-enhancer';
+import { announce } from './live-announcer';
+import { setVerbosity } from './announcement-formatter';
+import { setScreenReader } from './sr-profile';
+import {
+  scanAndEnhance,
+  enhanceBlock,
+  enhanceTextbox,
+  enhanceImage,
+  enhanceInlineLinks,
+  clearLists,
+} from './aria-injector';
+import { enhanceTreeItems } from './tree-enhancer';
 import { resetBlockNavigation } from './block-navigator';
-import { initKeyboardHandler, updateShortcuts, destroyKeyboardHandler } from './keyboard-handler';
-import { initBlockFocusManager, destroyBlockFocusManager, resetBlockFocusManager } from './block-focus-manager';
+import { initKeyboardHandler, updateShortcuts, updateFeatures, destroyKeyboardHandler } from './keyboard-handler';
+import { resetBlockFocusManager, setQuickKeys } from './block-focus-manager';
+import { setEarconSettings, destroyEarcons } from './earcons';
+import { setBrailleLabels } from './braille';
+import { closeElementsList } from './elements-list';
+import { closeAnnouncementHistory } from './announcement-history';
+import { invalidateBlocksOnMutation } from './block-model';
 import { focusMainContent } from './focus-manager';
-import { scanAndEnhanceTables, destroyTableEnhancer } from './table-enhancer';
-import { initSearchEnhancer, destroySearchEnhancer } from './search-enhancer';
-import { initCommentEnhancer, destroyCommentEnhancer } from './comment-enhancer';
+import { scanAndEnhanceTables, relabelTableView } from './table-enhancer';
+import { onSourcePageResolved } from './db-source';
 import { initModalEnhancer, destroyModalEnhancer } from './modal-enhancer';
 import { initPopupEnhancer, destroyPopupEnhancer } from './popup-enhancer';
+import { applyFeatures, destroyFeatures, isFeatureActive } from './feature-manager';
 import { BLOCK_SELECTABLE, TEXTBOX, SIDEBAR_NAV, TREE_ITEM, MAIN_FRAME } from './selectors';
+import { protect } from './dom-events';
 
 const MODULE = 'Main';
+/** Side peek already enhanced; cleared on teardown so re-init relabels it */
+const PEEK_ATTR = `${EXTENSION_ATTR}-peek`;
 
 let settings: ExtensionSettings = { ...DEFAULT_SETTINGS };
 let mainObserver: MutationObserver | null = null;
+let observerDebounce: ReturnType<typeof setTimeout> | null = null;
+let navigationTimer: ReturnType<typeof setInterval> | null = null;
+/** Late re-scans after init; cleared on teardown */
+let rescanTimers: ReturnType<typeof setTimeout>[] = [];
 let lastUrl = location.href;
 
 /** Flag set when Enter is pressed on a sidebar treeitem, cleared after page change */
@@ -55,6 +77,12 @@ async function init(): Promise<void> {
   try {
     settings = await loadSettings();
     setDebugMode(settings.debugMode);
+    setVerbosity(settings.verbosity);
+    setScreenReader(settings.screenReader);
+    setQuickKeys(settings.quickKeys);
+    setEarconSettings(settings.earcons);
+    setBrailleLabels(settings.braille);
+    setLocale(resolveLocale(settings.language));
 
     logInfo(MODULE, `Accessible Notion v0.1.0 starting (SR: ${settings.screenReader})`);
 
@@ -63,37 +91,16 @@ async function init(): Promise<void> {
       return;
     }
 
-    // 1. Live announcer (needed by all other modules)
-    initLiveAnnouncer();
-
-    // 2. ARIA injection pass
-    scanAndEnhance();
-
-    // 3. Sidebar tree (F-01)
-    if (settings.features.sidebarTree) {
-      initTreeEnhancer();
-    }
-
-    // 4. Keyboard shortcuts
+    // 1. Keyboard shortcuts (registered before feature key handlers so
+    //    Alt+Shift shortcuts take precedence)
     initKeyboardHandler(settings);
 
-    // 4.5. Block focus manager (Navigate/Edit mode for arrow key navigation)
-    initBlockFocusManager();
-
-    // 5. DB table enhancement (F-04)
-    if (settings.features.dbTableGrid) {
-      scanAndEnhanceTables();
-    }
-
-    // 6. Search dialog (F-06)
-    if (settings.features.searchDialog) {
-      initSearchEnhancer();
-    }
+    // 2. Feature modules: live announcer, textboxes, sidebar tree (F-01),
+    //    block navigation, DB tables (F-04), search (F-06), comments (F-07)
+    applyFeatures(settings.features);
 
-    // 7. Comments (F-07)
-    if (settings.features.comments) {
-      initCommentEnhancer();
-    }
+    // 3. ARIA injection pass
+    scanAndEnhance();
 
     // 8. Modal / dialog enhancement
     initModalEnhancer();
@@ -117,25 +124,24 @@ async function init(): Promise<void> {
     // 14. Start DOM observer for ongoing changes
     startObserver();
 
-    // 15. Settings change listener
-    onSettingsChanged(handleSettingsChange);
-
-    // 16. SPA navigation detection
+    // 15. SPA navigation detection
     startNavigationDetection();
 
-    // 17. Sidebar Enter key detection for auto-focus after page navigation
+    // 16. Sidebar Enter key detection for auto-focus after page navigation
     startSidebarEnterDetection();
 
     logInfo(MODULE, 'Initialization complete');
-    announce('Accessible Notion が有効です');
+    announce(t('extensionEnabled'), { source: MODULE });
 
     // Re-scan after delays to catch late-rendered content
-    setTimeout(() => scanAndEnhance(), 2000);
-    setTimeout(() => {
-      scanAndEnhance();
-      if (settings.features.sidebarTree) enhanceTreeItems();
-      if (settings.features.dbTableGrid) scanAndEnhanceTables();
-    }, 5000);
+    rescanTimers = [
+      setTimeout(() => scanAndEnhance(), 2000),
+      setTimeout(() => {
+        scanAndEnhance();
+        if (isFeatureActive('sidebarTree')) enhanceTreeItems();
+        if (isFeatureActive('dbTableGrid')) scanAndEnhanceTables();
+      }, 5000),
+    ];
 
   } catch (error) {
     logError(MODULE, 'Initialization failed:', error);
@@ -148,12 +154,14 @@ async function init(): Promise<void> {
 function startObserver(): void {
   if (mainObserver) return;
 
-  let debounceTimer: ReturnType<typeof setTimeout> | null = null;
-
   mainObserver = new MutationObserver((mutations) => {
+    // Not debounced: a key press right after a block change must see the new list
+    invalidateBlocksOnMutation(mutations);
+
     // Debounce to batch rapid DOM changes
-    if (debounceTimer) clearTimeout(debounceTimer);
-    debounceTimer = setTimeout(() => {
+    if (observerDebounce) clearTimeout(observerDebounce);
+    observerDebounce = setTimeout(() => {
+      observerDebounce = null;
       processNewNodes(mutations);
     }, 150);
   });
@@ -201,7 +209,7 @@ function processNewNodes(mutations: MutationRecord[]): void {
         for (const img of imgs) enhanceImage(img);
 
         // Tree items
-        if (node.matches(TREE_ITEM) || node.querySelector(TREE_ITEM)) {
+        if (isFeatureActive('sidebarTree') && (node.matches(TREE_ITEM) || node.querySelector(TREE_ITEM))) {
           enhanceTreeItems();
         }
       }
@@ -234,8 +242,9 @@ function processNewNodes(mutations: MutationRecord[]): void {
  * Detect SPA navigation (URL changes without page reload).
  */
 function startNavigationDetection(): void {
+  if (navigationTimer) return;
   // Use a simple polling approach since Notion doesn't fire popstate reliably
-  setInterval(() => {
+  navigationTimer = setInterval(() => {
     if (location.href !== lastUrl) {
       logDebug(MODULE, `Navigation detected: ${lastUrl} → ${location.href}`);
       lastUrl = location.href;
@@ -250,14 +259,17 @@ function startNavigationDetection(): void {
  * should focus move to the main content after navigation.
  */
 function startSidebarEnterDetection(): void {
-  document.addEventListener('keydown', (e) => {
-    if (e.key !== 'Enter') return;
-    const target = e.target as HTMLElement | null;
-    if (!target?.closest(SIDEBAR_NAV)) return;
-    if (!target.closest(TREE_ITEM) && !target.matches(TREE_ITEM)) return;
-    sidebarNavigationPending = true;
-    logDebug(MODULE, 'Sidebar Enter detected — will auto-focus main content after navigation');
-  }, true);
+  document.removeEventListener('keydown', handleSidebarEnter, true);
+  document.addEventListener('keydown', handleSidebarEnter, true);
+}
+
+function handleSidebarEnter(e: KeyboardEvent): void {
+  if (e.key !== 'Enter') return;
+  const target = e.target as HTMLElement | null;
+  if (!target?.closest(SIDEBAR_NAV)) return;
+  if (!target.closest(TREE_ITEM) && !target.matches(TREE_ITEM)) return;
+  sidebarNavigationPending = true;
+  logDebug(MODULE, 'Sidebar Enter detected — will auto-focus main content after navigation');
 }
 
 function handlePageChange(): void {
@@ -266,20 +278,21 @@ function handlePageChange(): void {
   sidebarNavigationPending = false;
 
   // Announce loading state for screen readers
-  announce('ページを読み込み中…');
+  announce(t('pageLoading'), { source: MODULE });
 
   // Re-run enhancement on page change
   resetBlockNavigation();
   resetBlockFocusManager();
+  closeElementsList();
 
   // Small delay to let Notion finish rendering
   setTimeout(() => {
     scanAndEnhance();
 
-    if (settings.features.sidebarTree) {
+    if (isFeatureActive('sidebarTree')) {
       enhanceTreeItems();
     }
-    if (settings.features.dbTableGrid) {
+    if (isFeatureActive('dbTableGrid')) {
       scanAndEnhanceTables();
     }
 
@@ -293,7 +306,7 @@ function handlePageChange(): void {
     const titleEl = document.querySelector('.notion-page-block h1, [class*="page-title"]');
     const title = titleEl?.textContent?.trim();
     if (title) {
-      announce(`${title} を開きました`);
+      announce(t('pageOpened', { title }), { source: MODULE });
     }
 
     // Auto-focus main content only when user explicitly pressed Enter
@@ -306,8 +319,15 @@ function handlePageChange(): void {
 
 function handleSettingsChange(newSettings: ExtensionSettings): void {
   const prevEnabled = settings.enabled;
+  const prevLanguage = settings.language;
+  const prevBraille = settings.braille;
   settings = newSettings;
   setDebugMode(settings.debugMode);
+  setVerbosity(settings.verbosity);
+  setScreenReader(settings.screenReader);
+  setQuickKeys(settings.quickKeys);
+  setEarconSettings(settings.earcons);
+  setBrailleLabels(settings.braille);
 
   if (!settings.enabled && prevEnabled) {
     // Disable — tear down everything
@@ -321,24 +341,50 @@ function handleSettingsChange(newSettings: ExtensionSettings): void {
     return;
   }
 
+  if (settings.enabled && (settings.language !== prevLanguage || settings.braille !== prevBraille)) {
+    // Injected labels are written once per element — rebuild them in the new language / braille mode
+    teardown();
+    init();
+    return;
+  }
+
+  if (!settings.enabled) return;
+
+  // Start/stop modules whose feature flag changed
+  applyFeatures(settings.features);
+  updateFeatures(settings.features);
+
   // Update shortcuts
   updateShortcuts(settings.shortcuts);
 
   logDebug(MODULE, 'Settings updated');
 }
 
+/** Name the source page in a linked view's labels once it is known */
+function handleSourcePageResolved(block: Element): void {
+  if (!settings.enabled) return;
+  enhanceBlock(block);
+  if (isFeatureActive('dbTableGrid') && block instanceof HTMLElement) relabelTableView(block);
+}
+
 function teardown(): void {
   mainObserver?.disconnect();
   mainObserver = null;
-  destroyTreeEnhancer();
+  if (observerDebounce) clearTimeout(observerDebounce);
+  observerDebounce = null;
+  if (navigationTimer) clearInterval(navigationTimer);
+  navigationTimer = null;
+  rescanTimers.forEach(clearTimeout);
+  rescanTimers = [];
+  document.removeEventListener('keydown', handleSidebarEnter, true);
+
   destroyKeyboardHandler();
-  destroyBlockFocusManager();
-  destroyTableEnhancer();
-  destroySearchEnhancer();
-  destroyCommentEnhancer();
+  closeElementsList();
+  closeAnnouncementHistory();
+  destroyEarcons();
   destroyModalEnhancer();
   destroyPopupEnhancer();
-  destroyLiveAnnouncer();
+  destroyFeatures();
 
   // Remove skip nav link
   document.getElementById('an-skip-nav')?.remove();
@@ -348,21 +394,22 @@ function teardown(): void {
   for (const el of enhanced) {
     el.removeAttribute(EXTENSION_ATTR);
   }
+  for (const el of document.querySelectorAll(`[${PEEK_ATTR}]`)) {
+    el.removeAttribute(PEEK_ATTR);
+  }
+  clearLists();
 
   logInfo(MODULE, 'Extension disabled and cleaned up');
 }
 
-/** Request DOMLock protection for an element's ARIA attributes */
-function protect(el: Element): void {
-  el.dispatchEvent(new CustomEvent('accessible-notion-protect', { bubbles: false }));
-}
-
 // ─── Skip navigation & main landmark ─────────────────────────
 function enhanceMainLandmarks(): void {
   // Ensure main frame has role="main"
+  // Labels marked as ours are rewritten, so a language change reaches them
   const mainFrame = document.querySelector<HTMLElement>('main.notion-frame');
-  if (mainFrame && !mainFrame.getAttribute('aria-label')) {
-    mainFrame.setAttribute('aria-label', 'メインコンテンツ');
+  if (mainFrame && (!mainFrame.getAttribute('aria-label') || mainFrame.hasAttribute(OWN_LABEL_ATTR))) {
+    mainFrame.setAttribute('aria-label', t('landmarkMain'));
+    mainFrame.setAttribute(OWN_LABEL_ATTR, '');
     protect(mainFrame);
   }
 
@@ -371,7 +418,7 @@ function enhanceMainLandmarks(): void {
     const skipLink = document.createElement('a');
     skipLink.id = 'an-skip-nav';
     skipLink.href = '#';
-    skipLink.textContent = 'メインコンテンツにスキップ';
+    skipLink.textContent = t('skipToMain');
     skipLink.setAttribute('style',
       'position:fixed;top:-100px;left:0;z-index:100000;' +
       'background:#2383e2;color:#fff;padding:8px 16px;font-size:14px;' +
@@ -393,9 +440,10 @@ function enhanceMainLandmarks(): void {
 
   // Enhance page content area with region role
   const pageContent = document.querySelector<HTMLElement>('.notion-page-content');
-  if (pageContent && !pageContent.getAttribute('role')) {
+  if (pageContent && (!pageContent.getAttribute('role') || pageContent.hasAttribute(OWN_LABEL_ATTR))) {
     pageContent.setAttribute('role', 'region');
-    pageContent.setAttribute('aria-label', 'ページコンテンツ');
+    pageContent.setAttribute('aria-label', t('pageContent'));
+    pageContent.setAttribute(OWN_LABEL_ATTR, '');
     protect(pageContent);
   }
 }
@@ -403,10 +451,10 @@ function enhanceMainLandmarks(): void {
 // ─── Side peek (page preview) enhancement ────────────────────
 function enhanceSidePeek(): void {
   const peek = document.querySelector<HTMLElement>('.notion-peek-renderer');
-  if (!peek || peek.hasAttribute(EXTENSION_ATTR + '-peek')) return;
+  if (!peek || peek.hasAttribute(PEEK_ATTR)) return;
 
   peek.setAttribute('role', 'complementary');
-  peek.setAttribute('aria-label', 'サイドピーク');
+  peek.setAttribute('aria-label', t('sidePeek'));
 
   // Try to find the page title within the peek
   const title = peek.querySelector<HTMLElement>(
@@ -414,7 +462,7 @@ function enhanceSidePeek(): void {
   );
   const titleText = title?.textContent?.trim();
   if (titleText) {
-    peek.setAttribute('aria-label', `サイドピーク: ${titleText}`);
+    peek.setAttribute('aria-label', t('sidePeekTitle', { title: titleText }));
   }
 
   // Make the peek region focusable
@@ -424,11 +472,12 @@ function enhanceSidePeek(): void {
 
   // Enhance close button
   const closeBtn = peek.querySelector<HTMLElement>('[class*="close"], [aria-label*="Close"]');
-  if (closeBtn && !closeBtn.getAttribute('aria-label')) {
-    closeBtn.setAttribute('aria-label', '閉じる');
+  if (closeBtn && (!closeBtn.getAttribute('aria-label') || closeBtn.hasAttribute(OWN_LABEL_ATTR))) {
+    closeBtn.setAttribute('aria-label', t('close'));
+    closeBtn.setAttribute(OWN_LABEL_ATTR, '');
   }
 
-  peek.setAttribute(EXTENSION_ATTR + '-peek', 'true');
+  peek.setAttribute(PEEK_ATTR, 'true');
   protect(peek);
   logDebug(MODULE, 'Side peek enhanced:', titleText ?? 'untitled');
 }
@@ -437,9 +486,10 @@ function enhanceSidePeek(): void {
 function enhanceTopbar(): void {
   // Add banner role to topbar
   const topbar = document.querySelector<HTMLElement>('.notion-topbar');
-  if (topbar && !topbar.getAttribute('role')) {
+  if (topbar && (!topbar.getAttribute('role') || topbar.hasAttribute(OWN_LABEL_ATTR))) {
     topbar.setAttribute('role', 'banner');
-    topbar.setAttribute('aria-label', 'ページヘッダー');
+    topbar.setAttribute('aria-label', t('pageHeader'));
+    topbar.setAttribute(OWN_LABEL_ATTR, '');
     protect(topbar);
     logDebug(MODULE, 'Topbar enhanced with role=banner');
   }
@@ -447,9 +497,10 @@ function enhanceTopbar(): void {
   // Add breadcrumb navigation semantics
   const breadcrumb = document.querySelector<HTMLElement>('.shadow-cursor-breadcrumb, .notion-topbar-breadcrumb');
   if (breadcrumb) {
-    if (!breadcrumb.getAttribute('role')) {
+    if (!breadcrumb.getAttribute('role') || breadcrumb.hasAttribute(OWN_LABEL_ATTR)) {
       breadcrumb.setAttribute('role', 'navigation');
-      breadcrumb.setAttribute('aria-label', 'パンくずリスト');
+      breadcrumb.setAttribute('aria-label', t('breadcrumb'));
+      breadcrumb.setAttribute(OWN_LABEL_ATTR, '');
       protect(breadcrumb);
     }
 
@@ -487,7 +538,7 @@ function enhanceTopbarButtons(topbar: HTMLElement): void {
 
     // "N日前 編集" / "N分前 編集" / "N時間前 編集" — last edited info
     if (/\d+[日時分秒]前\s*編集|ago\s*edited/i.test(text)) {
-      btn.setAttribute('aria-label', `最終更新: ${text}`);
+      btn.setAttribute('aria-label', t('lastEdited', { text }));
       protect(btn);
     }
   }
@@ -553,11 +604,11 @@ function enhanceDBToolbarButtons(): void {
 
       // "新規" button
       if (text === '新規' || text === 'New') {
-        btn.setAttribute('aria-label', '新規ページを作成');
+        btn.setAttribute('aria-label', t('newPage'));
       }
       // "他N件" button (more views)
       else if (/^他\d+件$/.test(text) || /^\+\d+/.test(text)) {
-        btn.setAttribute('aria-label', `${text} — 他のビューを表示`);
+        btn.setAttribute('aria-label', t('moreViews', { text }));
       }
     }
   }
@@ -647,13 +698,13 @@ function enhanceHomePage(): void {
   }
 
   // Label icon-only buttons (carousel arrows, expand, add)
-  const svgButtonLabels: Record<string, string> = {
-    arrowChevronLeftSmall: '前へスクロール',
-    arrowChevronRightSmall: '次へスクロール',
-    arrowChevronSingleLeftFillSmall: '前へスクロール',
-    arrowChevronSingleRightFillSmall: '次へスクロール',
-    arrowDiagonalUpRightSmall: '開く',
-    plusFillSmall: '追加',
+  const svgButtonLabels: Record<string, MessageKey> = {
+    arrowChevronLeftSmall: 'scrollPrev',
+    arrowChevronRightSmall: 'scrollNext',
+    arrowChevronSingleLeftFillSmall: 'scrollPrev',
+    arrowChevronSingleRightFillSmall: 'scrollNext',
+    arrowDiagonalUpRightSmall: 'open',
+    plusFillSmall: 'add',
   };
   const iconBtns = mainFrame.querySelectorAll<HTMLElement>('[role="button"]');
   for (const btn of iconBtns) {
@@ -664,7 +715,7 @@ function enhanceHomePage(): void {
     const cls = svg.getAttribute('class') ?? '';
     for (const token of cls.split(/\s+/)) {
       if (token in svgButtonLabels) {
-        btn.setAttribute('aria-label', svgButtonLabels[token]);
+        btn.setAttribute('aria-label', t(svgButtonLabels[token]));
         break;
       }
     }
@@ -695,7 +746,7 @@ function enhanceInboxPanel(): void {
     if (!headerEl) continue;
 
     // Found the inbox panel
-    region.setAttribute('aria-label', '受信トレイ');
+    region.setAttribute('aria-label', t('inbox'));
     protect(region);
 
     // Make the header a proper heading
@@ -746,10 +797,7 @@ function selectorHealthCheck(): void {
   }
 
   if (failures > 0) {
-    announce(
-      'Accessible Notion: 一部の機能が動作していません。Notion の更新により互換性の問題が発生した可能性があります',
-      'assertive',
-    );
+    announce(t('selectorHealthFailed'), { priority: 'assertive', source: MODULE });
   }
 }
 
@@ -774,5 +822,9 @@ function selectorHealthCheck(): void {
 
   await waitForApp();
   selectorHealthCheck();
+  // Registered once here (not in init) so re-enabling after teardown works
+  // and repeated init() calls don't stack listeners
+  onSettingsChanged(handleSettingsChange);
+  onSourcePageResolved(handleSourcePageResolved);
   await init();
 })();
@@ -0,0 +1,112 @@
+/**
+ * Modal Dialog Shell
+ *
+ * The parts the extension's own modal dialogs (announcement history,
+ * elements list) share: the dialog root and its title, the styles, a
+ * focus trap that cycles Tab through the dialog's tab stops, Escape to
+ * close, and focus restored to where it was when the dialog closes.
+ * Each dialog keeps its own content and arrow-key handling.
+ */
+
+import { EXTENSION_ATTR } from '../shared/constants';
+
+const STYLE_ID = 'an-modal-dialog-styles';
+const MODAL_ATTR = `${EXTENSION_ATTR}-modal`;
+
+/** Open dialogs, with where focus was before each opened */
+const openDialogs = new Map<HTMLElement, HTMLElement | null>();
+
+// ─── Styles ──────────────────────────────────────────────────
+
+function injectStyles(): void {
+  if (document.getElementById(STYLE_ID)) return;
+  const style = document.createElement('style');
+  style.id = STYLE_ID;
+  style.setAttribute(EXTENSION_ATTR, 'modal-dialog-styles');
+  style.textContent = `
+    [${MODAL_ATTR}] {
+      position: fixed; top: 10vh; left: 50%; transform: translateX(-50%);
+      width: min(560px, 90vw); max-height: 70vh; overflow: auto;
+      padding: 16px; z-index: 2147483647;
+      background: #fff; color: #37352f;
+      border: 2px solid #2383e2; border-radius: 6px;
+      box-shadow: 0 8px 24px rgba(0, 0, 0, 0.25);
+    }
+    [${MODAL_ATTR}] li:focus { background: #2383e2; color: #fff; outline: none; }
+    [${MODAL_ATTR}] [role="tab"][aria-selected="true"] { font-weight: bold; text-decoration: underline; }
+    [${MODAL_ATTR}] [aria-selected="true"]:not([role="tab"]) { background: #2383e2; color: #fff; }
+  `;
+  document.head.appendChild(style);
+}
+
+// ─── Keyboard ────────────────────────────────────────────────
+
+/** Elements of `root` in the Tab order: roving items count by their current stop */
+function getTabStops(root: HTMLElement): HTMLElement[] {
+  return Array.from(root.querySelectorAll<HTMLElement>('button, input, [tabindex]'))
+    .filter((el) => el.tabIndex >= 0 && !el.hidden);
+}
+
+function trapFocus(root: HTMLElement, e: KeyboardEvent): void {
+  e.preventDefault();
+  e.stopPropagation();
+  const stops = getTabStops(root);
+  if (stops.length === 0) return;
+  const current = stops.indexOf(e.target as HTMLElement);
+  const step = e.shiftKey ? -1 : 1;
+  stops[(current + step + stops.length) % stops.length].focus();
+}
+
+// ─── Public API ──────────────────────────────────────────────
+
+/**
+ * Dialog root `id`, labelled by its `title` heading (`${id}-title`).
+ * `owner` is the dialog's name in the extension attribute.
+ */
+export function createModalDialog(id: string, title: string, owner: string): HTMLElement {
+  const root = document.createElement('div');
+  root.id = id;
+  root.setAttribute('role', 'dialog');
+  root.setAttribute('aria-modal', 'true');
+  root.setAttribute('aria-labelledby', `${id}-title`);
+  root.setAttribute(EXTENSION_ATTR, owner);
+  root.setAttribute(MODAL_ATTR, '');
+
+  const heading = document.createElement('h2');
+  heading.id = `${id}-title`;
+  heading.textContent = title;
+  root.appendChild(heading);
+  return root;
+}
+
+/**
+ * Show `root` with Tab trapped inside it. Escape calls `onClose`, which
+ * is expected to end in closeModalDialog(). The caller focuses the
+ * dialog's first control.
+ */
+export function openModalDialog(root: HTMLElement, onClose: () => void): void {
+  openDialogs.set(root, document.activeElement as HTMLElement | null);
+  injectStyles();
+  root.addEventListener('keydown', (e) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      onClose();
+    } else if (e.key === 'Tab') {
+      trapFocus(root, e);
+    }
+  });
+  document.body.appendChild(root);
+}
+
+/**
+ * Remove `root` and return focus to where it was before it opened.
+ */
+export function closeModalDialog(root: HTMLElement): void {
+  if (!openDialogs.has(root)) return;
+  const previousFocus = openDialogs.get(root);
+  openDialogs.delete(root);
+  root.remove();
+  if (openDialogs.size === 0) document.getElementById(STYLE_ID)?.remove();
+  if (previousFocus?.isConnected) previousFocus.focus();
+}
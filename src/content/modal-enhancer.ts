@@ -8,18 +8,16 @@
 
 import { EXTENSION_ATTR } from '../shared/constants';
 import { logDebug } from '../shared/logger';
+import { t } from '../shared/i18n';
 import { saveFocus, restoreFocus } from './focus-manager';
 import { announce } from './live-announcer';
+import { playEarcon } from './earcons';
+import { protect } from './dom-events';
 
 const MODULE = 'ModalEnhancer';
 
 let observer: MutationObserver | null = null;
 
-/** Request DOMLock protection for an element's ARIA attributes */
-function protect(el: Element): void {
-  el.dispatchEvent(new CustomEvent('accessible-notion-protect', { bubbles: false }));
-}
-
 /** Selector for focusable elements within a dialog */
 const FOCUSABLE_SELECTOR = [
   'a[href]',
@@ -147,15 +145,15 @@ function detectDialogType(dialog: HTMLElement): string {
  */
 function getDialogLabel(type: string): string {
   switch (type) {
-    case 'share': return '共有';
-    case 'settings': return '設定';
-    case 'trash': return 'ゴミ箱';
-    case 'import-export': return 'インポート/エクスポート';
-    case 'template': return 'テンプレート';
-    case 'date-picker': return '日付選択';
-    case 'properties': return 'プロパティ設定';
-    case 'move-to': return '移動先を選択';
-    case 'icon-picker': return 'アイコン選択';
+    case 'share': return t('share');
+    case 'settings': return t('settings');
+    case 'trash': return t('trash');
+    case 'import-export': return t('importExport');
+    case 'template': return t('templates');
+    case 'date-picker': return t('datePicker');
+    case 'properties': return t('propertySettings');
+    case 'move-to': return t('moveToPicker');
+    case 'icon-picker': return t('iconPicker');
     default: return '';
   }
 }
@@ -196,7 +194,7 @@ function enhanceShareDialog(dialog: HTMLElement): void {
     if (!input.getAttribute('aria-label')) {
       const placeholder = input.getAttribute('placeholder') ?? '';
       if (placeholder.includes('メール') || placeholder.includes('email') || placeholder.includes('ユーザー')) {
-        input.setAttribute('aria-label', 'ユーザーまたはメールを追加');
+        input.setAttribute('aria-label', t('addPeople'));
       } else if (placeholder) {
         input.setAttribute('aria-label', placeholder);
       }
@@ -208,7 +206,7 @@ function enhanceShareDialog(dialog: HTMLElement): void {
   dropdowns.forEach((btn) => {
     const text = btn.textContent?.trim() ?? '';
     if ((text.includes('編集') || text.includes('閲覧') || text.includes('フルアクセス') || text.includes('can edit') || text.includes('can view')) && !btn.getAttribute('aria-label')) {
-      btn.setAttribute('aria-label', `アクセス権限: ${text}`);
+      btn.setAttribute('aria-label', t('accessLevel', { text }));
       btn.setAttribute('aria-haspopup', 'listbox');
     }
   });
@@ -255,7 +253,7 @@ function applySettingsEnhancements(dialog: HTMLElement): void {
   const tablist = dialog.querySelector<HTMLElement>('[role="tablist"]');
   logDebug(MODULE, 'Settings tablist found:', !!tablist, 'label:', tablist?.getAttribute('aria-label'));
   if (tablist && !tablist.getAttribute('aria-label')) {
-    tablist.setAttribute('aria-label', '設定カテゴリ');
+    tablist.setAttribute('aria-label', t('settingsCategories'));
     protect(tablist);
     logDebug(MODULE, 'Settings tablist labeled');
   }
@@ -355,7 +353,7 @@ function applySettingsEnhancements(dialog: HTMLElement): void {
     return !text && b.querySelector('svg');
   });
   if (closeBtn && !closeBtn.getAttribute('aria-label')) {
-    closeBtn.setAttribute('aria-label', '閉じる');
+    closeBtn.setAttribute('aria-label', t('close'));
     protect(closeBtn);
   }
 
@@ -364,12 +362,12 @@ function applySettingsEnhancements(dialog: HTMLElement): void {
 
 function enhanceTrashDialog(dialog: HTMLElement): void {
   // Fix label (Notion sets aria-label="検索" by default)
-  dialog.setAttribute('aria-label', 'ゴミ箱');
+  dialog.setAttribute('aria-label', t('trash'));
 
   // Label search input
   const searchInput = dialog.querySelector<HTMLInputElement>('input');
   if (searchInput && !searchInput.getAttribute('aria-label')) {
-    searchInput.setAttribute('aria-label', searchInput.getAttribute('placeholder') ?? 'ゴミ箱の中を検索');
+    searchInput.setAttribute('aria-label', searchInput.getAttribute('placeholder') ?? t('searchTrash'));
   }
 
   // Label filter dropdown buttons (最終更新者, 場所, チームスペース)
@@ -378,7 +376,7 @@ function enhanceTrashDialog(dialog: HTMLElement): void {
     if (btn.getAttribute('aria-label')) continue;
     const text = btn.textContent?.trim();
     if (text) {
-      btn.setAttribute('aria-label', `フィルター: ${text}`);
+      btn.setAttribute('aria-label', t('filterLabel', { text }));
     }
   }
 
@@ -386,7 +384,7 @@ function enhanceTrashDialog(dialog: HTMLElement): void {
   const scroller = dialog.querySelector<HTMLElement>('.notion-scroller');
   if (scroller && !scroller.getAttribute('aria-label')) {
     scroller.setAttribute('role', 'list');
-    scroller.setAttribute('aria-label', 'ゴミ箱のページ一覧');
+    scroller.setAttribute('aria-label', t('trashPages'));
   }
 
   logDebug(MODULE, 'Enhanced trash dialog');
@@ -452,14 +450,14 @@ function enhanceDatePicker(dialog: HTMLElement): void {
   // Label the date input
   const dateInput = dialog.querySelector<HTMLInputElement>('input');
   if (dateInput && !dateInput.getAttribute('aria-label')) {
-    dateInput.setAttribute('aria-label', '日付を入力');
+    dateInput.setAttribute('aria-label', t('enterDate'));
   }
 
   // Date picker has a calendar grid, today button, month navigation
   const calGrid = dialog.querySelector<HTMLElement>('.notion-calendar, [class*="calendar-view"], table, [role="grid"]');
   if (calGrid && !calGrid.getAttribute('aria-label')) {
     if (!calGrid.getAttribute('role')) calGrid.setAttribute('role', 'grid');
-    calGrid.setAttribute('aria-label', 'カレンダー');
+    calGrid.setAttribute('aria-label', t('calendar'));
   }
 
   // Navigation buttons (prev/next month, today)
@@ -468,17 +466,17 @@ function enhanceDatePicker(dialog: HTMLElement): void {
     const text = btn.textContent?.trim() ?? '';
     if (!btn.getAttribute('aria-label')) {
       if (text === '今日' || text === 'Today') {
-        btn.setAttribute('aria-label', '今日');
+        btn.setAttribute('aria-label', t('today'));
       } else if (text === '明日' || text === 'Tomorrow') {
-        btn.setAttribute('aria-label', '明日');
+        btn.setAttribute('aria-label', t('tomorrow'));
       } else if (text === '昨日' || text === 'Yesterday') {
-        btn.setAttribute('aria-label', '昨日');
+        btn.setAttribute('aria-label', t('yesterday'));
       } else if (text === '<' || text === '‹' || text === '＜') {
-        btn.setAttribute('aria-label', '前の月');
+        btn.setAttribute('aria-label', t('prevMonth'));
       } else if (text === '>' || text === '›' || text === '＞') {
-        btn.setAttribute('aria-label', '次の月');
+        btn.setAttribute('aria-label', t('nextMonth'));
       } else if (text === 'クリア' || text === 'Clear') {
-        btn.setAttribute('aria-label', '日付をクリア');
+        btn.setAttribute('aria-label', t('clearDate'));
       }
     }
   });
@@ -489,12 +487,12 @@ function enhanceDatePicker(dialog: HTMLElement): void {
 }
 
 function enhanceMoveToDialog(dialog: HTMLElement): void {
-  dialog.setAttribute('aria-label', '移動先を選択');
+  dialog.setAttribute('aria-label', t('moveToPicker'));
 
   // Label the search input
   const input = dialog.querySelector<HTMLInputElement>('input');
   if (input && !input.getAttribute('aria-label')) {
-    input.setAttribute('aria-label', input.getAttribute('placeholder') ?? '移動先を検索');
+    input.setAttribute('aria-label', input.getAttribute('placeholder') ?? t('searchMoveTarget'));
   }
 
   // Label section headers ("おすすめ", "チームスペース") as headings
@@ -514,7 +512,7 @@ function enhanceMoveToDialog(dialog: HTMLElement): void {
   const scroller = dialog.querySelector<HTMLElement>('.notion-scroller');
   if (scroller && !scroller.getAttribute('role')) {
     scroller.setAttribute('role', 'tree');
-    scroller.setAttribute('aria-label', '移動先のページ一覧');
+    scroller.setAttribute('aria-label', t('moveTargets'));
   }
 
   logDebug(MODULE, 'Enhanced move-to dialog');
@@ -524,13 +522,13 @@ function enhanceIconPickerDialog(dialog: HTMLElement): void {
   // Label tablist
   const tablist = dialog.querySelector<HTMLElement>('[role="tablist"]');
   if (tablist && !tablist.getAttribute('aria-label')) {
-    tablist.setAttribute('aria-label', 'アイコンタイプ');
+    tablist.setAttribute('aria-label', t('iconTypes'));
   }
 
   // Label search input
   const input = dialog.querySelector<HTMLInputElement>('input');
   if (input && !input.getAttribute('aria-label')) {
-    input.setAttribute('aria-label', input.getAttribute('placeholder') ?? 'アイコンを検索');
+    input.setAttribute('aria-label', input.getAttribute('placeholder') ?? t('searchIcons'));
   }
 
   logDebug(MODULE, 'Enhanced icon picker dialog');
@@ -558,7 +556,7 @@ function enhanceDialog(dialog: HTMLElement): void {
       // No title element found — use type detection as fallback
       const dialogType = detectDialogType(dialog);
       const specificLabel = getDialogLabel(dialogType);
-      dialog.setAttribute('aria-label', specificLabel || 'ダイアログ');
+      dialog.setAttribute('aria-label', specificLabel || t('dialog'));
     }
   }
 
@@ -603,8 +601,9 @@ function enhanceDialog(dialog: HTMLElement): void {
   }, 100);
 
   // Announce dialog
-  const label = dialog.getAttribute('aria-label') ?? 'ダイアログ';
-  announce(`${label} ダイアログ`);
+  const label = dialog.getAttribute('aria-label') ?? t('dialog');
+  playEarcon('dialogOpen');
+  announce(t('dialogOpened', { label }), { source: MODULE });
 
   dialog.setAttribute(EXTENSION_ATTR + '-modal', 'true');
   logDebug(MODULE, 'Dialog enhanced:', label);
@@ -628,7 +627,7 @@ function enhanceToast(toast: HTMLElement): void {
   const text = toast.textContent?.trim() ?? '';
   if (text) {
     // Notion already has aria-live regions, but we announce via our own as backup
-    announce(text);
+    announce(text, { source: MODULE });
   }
 
   toast.setAttribute(EXTENSION_ATTR + '-toast', 'true');
@@ -21,7 +21,9 @@
 
 import { EXTENSION_ATTR } from '../shared/constants';
 import { logDebug } from '../shared/logger';
+import { t, type MessageKey } from '../shared/i18n';
 import { announce } from './live-announcer';
+import { playEarcon } from './earcons';
 
 const MODULE = 'PopupEnhancer';
 
@@ -113,17 +115,17 @@ function detectPopupType(dialog: HTMLElement): PopupType {
  */
 function getPopupLabel(type: PopupType): string {
   switch (type) {
-    case 'slash-command': return 'スラッシュコマンド';
-    case 'mention': return 'メンション';
-    case 'turn-into': return 'ブロックタイプ変更';
-    case 'color-picker': return 'カラーピッカー';
-    case 'block-action': return 'ブロック操作';
-    case 'page-options': return 'ページ設定';
+    case 'slash-command': return t('slashCommands');
+    case 'mention': return t('mentionMenu');
+    case 'turn-into': return t('turnInto');
+    case 'color-picker': return t('colorPicker');
+    case 'block-action': return t('blockActions');
+    case 'page-options': return t('pageOptions');
     case 'ai-panel': return 'Notion AI';
-    case 'property-editor': return 'プロパティ編集';
-    case 'link-preview': return 'リンクプレビュー';
-    case 'emoji-picker': return '絵文字ピッカー';
-    case 'generic': return 'メニュー';
+    case 'property-editor': return t('propertyEditor');
+    case 'link-preview': return t('linkPreview');
+    case 'emoji-picker': return t('emojiPicker');
+    case 'generic': return t('menu');
   }
 }
 
@@ -155,7 +157,8 @@ function enhanceListboxPopup(dialog: HTMLElement, type: PopupType): void {
 
   // Announce popup
   const options = listbox.querySelectorAll('[role="option"]');
-  announce(`${label} ${options.length}件`);
+  playEarcon('popupOpen');
+  announce(t('popupOpened', { label, count: options.length }), { source: MODULE });
 
   logDebug(MODULE, `Enhanced ${type} popup: ${options.length} options`);
 }
@@ -293,7 +296,7 @@ function startHighlightSync(dialog: HTMLElement, listbox: HTMLElement): void {
         const label = highlightedOpt.getAttribute('aria-label')
           ?? highlightedOpt.textContent?.trim() ?? '';
         if (label) {
-          announce(label);
+          announce(label, { source: MODULE });
         }
       }
     }
@@ -315,7 +318,7 @@ function stopHighlightSync(): void {
  * Enhance a block action menu (⋮ menu with options like Delete, Duplicate, etc.)
  */
 function enhanceBlockActionMenu(dialog: HTMLElement): void {
-  dialog.setAttribute('aria-label', 'ブロック操作');
+  dialog.setAttribute('aria-label', t('blockActions'));
 
   const menuItems = dialog.querySelectorAll<HTMLElement>('[role="menuitem"]');
   menuItems.forEach((item) => {
@@ -327,7 +330,8 @@ function enhanceBlockActionMenu(dialog: HTMLElement): void {
     }
   });
 
-  announce(`ブロック操作 ${menuItems.length}件`);
+  playEarcon('popupOpen');
+  announce(t('popupOpened', { label: t('blockActions'), count: menuItems.length }), { source: MODULE });
   logDebug(MODULE, `Enhanced block action menu: ${menuItems.length} items`);
 }
 
@@ -337,11 +341,11 @@ function enhanceBlockActionMenu(dialog: HTMLElement): void {
  * toggle switches (font size, margins, page lock), and more.
  */
 function enhancePageOptionsMenu(dialog: HTMLElement): void {
-  dialog.setAttribute('aria-label', 'ページ設定');
+  dialog.setAttribute('aria-label', t('pageOptions'));
 
   const listbox = dialog.querySelector<HTMLElement>('[role="listbox"]');
   if (listbox) {
-    listbox.setAttribute('aria-label', 'ページアクション');
+    listbox.setAttribute('aria-label', t('pageActions'));
     enhanceOptions(listbox);
     startHighlightSync(dialog, listbox);
   }
@@ -353,10 +357,11 @@ function enhancePageOptionsMenu(dialog: HTMLElement): void {
   const searchInput = dialog.querySelector<HTMLInputElement>('input');
   if (searchInput && !searchInput.getAttribute('aria-label')) {
     const placeholder = searchInput.getAttribute('placeholder') ?? '';
-    searchInput.setAttribute('aria-label', placeholder || 'アクションを検索');
+    searchInput.setAttribute('aria-label', placeholder || t('searchActions'));
   }
 
-  announce('ページ設定');
+  playEarcon('popupOpen');
+  announce(t('pageOptions'), { source: MODULE });
   logDebug(MODULE, 'Enhanced page options menu');
 }
 
@@ -405,11 +410,11 @@ function enhanceSwitchesInPopup(container: HTMLElement): void {
  * Enhance a color picker popup.
  */
 function enhanceColorPicker(dialog: HTMLElement): void {
-  dialog.setAttribute('aria-label', 'カラーピッカー');
+  dialog.setAttribute('aria-label', t('colorPicker'));
 
   const listbox = dialog.querySelector<HTMLElement>('[role="listbox"]');
   if (listbox) {
-    listbox.setAttribute('aria-label', 'カラーオプション');
+    listbox.setAttribute('aria-label', t('colorOptions'));
 
     // Enhance options with color names
     const options = listbox.querySelectorAll<HTMLElement>('[role="option"]');
@@ -425,7 +430,8 @@ function enhanceColorPicker(dialog: HTMLElement): void {
     startHighlightSync(dialog, listbox);
   }
 
-  announce(`カラーピッカー`);
+  playEarcon('popupOpen');
+  announce(t('colorPicker'), { source: MODULE });
   logDebug(MODULE, 'Enhanced color picker');
 }
 
@@ -484,7 +490,7 @@ function enhancePopup(dialog: HTMLElement): void {
 function enhanceGenericPopup(dialog: HTMLElement): void {
   // Only override if still the default label from modal-enhancer
   const currentLabel = dialog.getAttribute('aria-label');
-  if (currentLabel === 'ダイアログ') {
+  if (currentLabel === t('dialog')) {
     // Try to infer label from content
     const heading = dialog.querySelector('h1, h2, h3, [class*="title"]');
     const headingText = heading?.textContent?.trim();
@@ -530,27 +536,30 @@ function reEnhanceActivePopup(): void {
  * Based on observed DOM: each toolbar button contains an SVG whose class name
  * uniquely identifies the action.
  */
-const SVG_CLASS_LABELS: Record<string, string> = {
-  magicWand:                  'AIで文章を改善する',
-  commentFilled:              'コメント',
-  commentPencil:              '提案を編集',
-  emojiFacePlus:              'リアクション',
-  textBoldSmall:              '太字 (Ctrl+B)',
-  textItalicSmall:            'イタリック (Ctrl+I)',
-  textUnderlineSmall:         '下線 (Ctrl+U)',
-  textStrikethroughSmall:     '取り消し線 (Ctrl+Shift+S)',
-  codeSmall:                  'コード (Ctrl+E)',
-  squareRootSmall:            '数式',
-  linkSmall:                  'リンク (Ctrl+K)',
-  ellipsisSmall:              'その他のオプション',
+const SVG_CLASS_LABELS: Record<string, MessageKey | ''> = {
+  magicWand:                  'improveWriting',
+  commentFilled:              'comment',
+  commentPencil:              'editSuggestion',
+  emojiFacePlus:              'reaction',
+  textBoldSmall:              'toolbarBold',
+  textItalicSmall:            'toolbarItalic',
+  textUnderlineSmall:         'toolbarUnderline',
+  textStrikethroughSmall:     'toolbarStrikethrough',
+  codeSmall:                  'toolbarCode',
+  squareRootSmall:            'equation',
+  linkSmall:                  'toolbarLink',
+  ellipsisSmall:              'moreOptions',
   arrowChevronSingleDownSmall: '',  // dropdown indicator — label comes from text content
 };
 
 /** Text content → aria-label for text-based toolbar buttons */
-const TOOLBAR_TEXT_LABELS: Record<string, string> = {
-  '文章を改善する': 'AIで文章を改善する',
-  'AIに依頼':       'AIに依頼',
-  'コメント':       'コメント',
+const TOOLBAR_TEXT_LABELS: Record<string, MessageKey> = {
+  '文章を改善する':  'improveWriting',
+  'Improve writing': 'improveWriting',
+  'AIに依頼':        'askAi',
+  'Ask AI':          'askAi',
+  'コメント':        'comment',
+  'Comment':         'comment',
 };
 
 /**
@@ -564,7 +573,7 @@ function enhanceInlineToolbar(toolbar: HTMLElement): void {
   if (toolbar.hasAttribute(POPUP_MARKER)) return;
 
   toolbar.setAttribute('role', 'toolbar');
-  toolbar.setAttribute('aria-label', 'テキスト書式設定ツールバー');
+  toolbar.setAttribute('aria-label', t('formattingToolbar'));
 
   // Find ALL role="button" elements in the toolbar (they can be at any nesting depth)
   const buttons = toolbar.querySelectorAll<HTMLElement>('[role="button"]');
@@ -592,16 +601,16 @@ function enhanceInlineToolbar(toolbar: HTMLElement): void {
 
     // 2) Text-based matching for labeled buttons
     if (text && TOOLBAR_TEXT_LABELS[text]) {
-      btn.setAttribute('aria-label', TOOLBAR_TEXT_LABELS[text]);
+      btn.setAttribute('aria-label', t(TOOLBAR_TEXT_LABELS[text]));
       continue;
     }
 
     // 3) Dropdown with text (e.g. "テキスト" block type selector, "A" color picker)
     if (btn.getAttribute('aria-haspopup') === 'dialog' && text) {
       if (text === 'A' || (text.length <= 2 && text.includes('A'))) {
-        btn.setAttribute('aria-label', 'テキストカラー');
+        btn.setAttribute('aria-label', t('textColor'));
       } else {
-        btn.setAttribute('aria-label', `ブロックタイプ: ${text}`);
+        btn.setAttribute('aria-label', t('blockTypeButton', { text }));
       }
       continue;
     }
@@ -626,7 +635,7 @@ function getSvgLabel(svg: SVGElement): string | null {
   for (const token of cls.split(/\s+/)) {
     if (token in SVG_CLASS_LABELS) {
       const label = SVG_CLASS_LABELS[token];
-      return label || null;  // empty string means "skip — use text instead"
+      return label ? t(label) : null;  // empty string means "skip — use text instead"
     }
   }
   return null;
@@ -657,7 +666,7 @@ function enhanceAIPanel(dialog: HTMLElement): void {
   inputs.forEach((input) => {
     if (!input.getAttribute('aria-label')) {
       const placeholder = input.getAttribute('placeholder') ?? '';
-      input.setAttribute('aria-label', placeholder || 'AIへの指示を入力');
+      input.setAttribute('aria-label', placeholder || t('aiPrompt'));
     }
   });
 
@@ -665,7 +674,7 @@ function enhanceAIPanel(dialog: HTMLElement): void {
   const contentArea = dialog.querySelector<HTMLElement>('[class*="ai-response"], [class*="ai-content"]');
   if (contentArea && !contentArea.getAttribute('role')) {
     contentArea.setAttribute('role', 'region');
-    contentArea.setAttribute('aria-label', 'AI生成コンテンツ');
+    contentArea.setAttribute('aria-label', t('aiContent'));
     contentArea.setAttribute('aria-live', 'polite');
   }
 
@@ -675,7 +684,8 @@ function enhanceAIPanel(dialog: HTMLElement): void {
     startHighlightSync(dialog, listbox);
   }
 
-  announce('Notion AI');
+  playEarcon('popupOpen');
+  announce('Notion AI', { source: MODULE });
   logDebug(MODULE, 'Enhanced AI panel');
 }
 
@@ -684,13 +694,13 @@ function enhanceAIPanel(dialog: HTMLElement): void {
  * Enhance property editor popups (DB column config, cell editor, etc.)
  */
 function enhancePropertyEditor(dialog: HTMLElement): void {
-  dialog.setAttribute('aria-label', 'プロパティ編集');
+  dialog.setAttribute('aria-label', t('propertyEditor'));
 
   // Property name input
   const nameInput = dialog.querySelector<HTMLElement>('input[type="text"], [contenteditable="true"]');
   if (nameInput && !nameInput.getAttribute('aria-label')) {
     const placeholder = nameInput.getAttribute('placeholder') ?? '';
-    nameInput.setAttribute('aria-label', placeholder || 'プロパティ名');
+    nameInput.setAttribute('aria-label', placeholder || t('propertyName'));
   }
 
   // Property type selector
@@ -698,7 +708,7 @@ function enhancePropertyEditor(dialog: HTMLElement): void {
   if (typeSelector && !typeSelector.getAttribute('aria-label')) {
     const text = typeSelector.textContent?.trim() ?? '';
     if (text) {
-      typeSelector.setAttribute('aria-label', `プロパティタイプ: ${text}`);
+      typeSelector.setAttribute('aria-label', t('propertyType', { text }));
     }
   }
 
@@ -729,7 +739,8 @@ function enhancePropertyEditor(dialog: HTMLElement): void {
     startHighlightSync(dialog, listbox);
   }
 
-  announce('プロパティ編集');
+  playEarcon('popupOpen');
+  announce(t('propertyEditor'), { source: MODULE });
   logDebug(MODULE, 'Enhanced property editor');
 }
 
@@ -738,12 +749,12 @@ function enhancePropertyEditor(dialog: HTMLElement): void {
  * Enhance the emoji picker popup.
  */
 function enhanceEmojiPicker(dialog: HTMLElement): void {
-  dialog.setAttribute('aria-label', '絵文字ピッカー');
+  dialog.setAttribute('aria-label', t('emojiPicker'));
 
   // Search input
   const searchInput = dialog.querySelector<HTMLElement>('input');
   if (searchInput && !searchInput.getAttribute('aria-label')) {
-    searchInput.setAttribute('aria-label', '絵文字を検索');
+    searchInput.setAttribute('aria-label', t('searchEmoji'));
   }
 
   // Emoji category tabs
@@ -769,7 +780,8 @@ function enhanceEmojiPicker(dialog: HTMLElement): void {
     }
   });
 
-  announce('絵文字ピッカー');
+  playEarcon('popupOpen');
+  announce(t('emojiPicker'), { source: MODULE });
   logDebug(MODULE, 'Enhanced emoji picker');
 }
 
@@ -782,12 +794,12 @@ function enhanceLinkPreview(dialog: HTMLElement): void {
   const titleText = title?.textContent?.trim() ?? '';
   const url = dialog.querySelector<HTMLAnchorElement>('a[href]')?.href ?? '';
 
-  let label = 'リンクプレビュー';
+  let label = t('linkPreview');
   if (titleText) {
-    label = `リンクプレビュー: ${titleText}`;
+    label = t('linkPreviewTitle', { title: titleText });
   } else if (url) {
     try {
-      label = `リンクプレビュー: ${new URL(url).hostname}`;
+      label = t('linkPreviewTitle', { title: new URL(url).hostname });
     } catch { /* ignore */ }
   }
 
@@ -811,7 +823,7 @@ function enhanceFilterSortPopup(dialog: HTMLElement): void {
 
   if (!isFilter && !isSort) return;
 
-  const label = isFilter ? 'フィルター設定' : '並べ替え設定';
+  const label = isFilter ? t('filterSettings') : t('sortSettings');
   dialog.setAttribute('aria-label', label);
 
   // Enhance select/dropdown controls within the filter
@@ -831,7 +843,7 @@ function enhanceFilterSortPopup(dialog: HTMLElement): void {
       if (placeholder) {
         input.setAttribute('aria-label', placeholder);
       } else {
-        input.setAttribute('aria-label', 'フィルター値');
+        input.setAttribute('aria-label', t('filterValue'));
       }
     }
   });
@@ -845,7 +857,7 @@ function enhanceFilterSortPopup(dialog: HTMLElement): void {
         // Check if it looks like a close/remove button
         const rect = btn.getBoundingClientRect();
         if (rect.width < 30 && rect.height < 30) {
-          btn.setAttribute('aria-label', 'フィルターを削除');
+          btn.setAttribute('aria-label', t('removeFilter'));
         }
       }
     }
@@ -868,7 +880,7 @@ export function initPopupEnhancer(): void {
           setTimeout(() => enhanceInlineToolbar(node), 50);
         }
         const toolbars = node.querySelectorAll<HTMLElement>('.notion-text-action-menu');
-        toolbars.forEach((t) => setTimeout(() => enhanceInlineToolbar(t), 50));
+        toolbars.forEach((tb) => setTimeout(() => enhanceInlineToolbar(tb), 50));
 
         // Dialogs
         if (node.matches('[role="dialog"]')) {
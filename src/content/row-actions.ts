@@ -0,0 +1,101 @@
+/**
+ * Grid Row Actions
+ *
+ * Insert, duplicate and delete database rows from table grid mode.
+ * Notion offers these only while the pointer is over a row: a "+" button
+ * in the row's gutter adds a row below it, and the drag handle next to it
+ * opens a menu with Duplicate and Delete. The row is hovered so they
+ * render, the button or menu item is clicked, and the caller is told once
+ * Notion has had time to update the rows. Without a "+" button the "New"
+ * button under the table adds the row at the end instead.
+ */
+
+import { logDebug } from '../shared/logger';
+import { DB_ROW_ADD, DB_ROW_HANDLE, DB_CELL_POPUP } from './selectors';
+import { hover } from './dom-events';
+
+const MODULE = 'RowActions';
+
+/** Time for Notion to open the menu or update the rows (ms) */
+const RENDER_MS = 100;
+const NEW_ROW_TEXT = /^(新規|New)$/;
+const DUPLICATE_TEXT = /^(複製|Duplicate)/;
+const DELETE_TEXT = /^(削除|Delete)/;
+
+/** `done` is false when Notion offered no way to do the action */
+export type RowActionCallback = (done: boolean) => void;
+
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+function findNewRowButton(scope: HTMLElement): HTMLElement | null {
+  const buttons = scope.querySelectorAll<HTMLElement>('[role="button"]');
+  return Array.from(buttons).find((button) => NEW_ROW_TEXT.test(button.textContent?.trim() ?? '')) ?? null;
+}
+
+function afterRender(callback: () => void): void {
+  if (timer) clearTimeout(timer);
+  timer = setTimeout(() => {
+    timer = null;
+    callback();
+  }, RENDER_MS);
+}
+
+/**
+ * Add a row below `row`, or at the end of the table in `scope` when the
+ * row has no "+" button.
+ */
+export function insertRow(row: HTMLElement, scope: HTMLElement, onDone: RowActionCallback): void {
+  hover(row);
+  const button = row.querySelector<HTMLElement>(DB_ROW_ADD) ?? findNewRowButton(scope);
+  if (!button) {
+    onDone(false);
+    return;
+  }
+  button.click();
+  logDebug(MODULE, 'Insert row clicked');
+  afterRender(() => onDone(true));
+}
+
+/** Open the row's drag handle menu and click the item matching `label` */
+function runMenuItem(row: HTMLElement, label: RegExp, onDone: RowActionCallback): void {
+  hover(row);
+  const handle = row.querySelector<HTMLElement>(DB_ROW_HANDLE);
+  if (!handle) {
+    onDone(false);
+    return;
+  }
+  handle.click();
+
+  afterRender(() => {
+    const menu = document.querySelector<HTMLElement>(DB_CELL_POPUP);
+    const items = menu?.querySelectorAll<HTMLElement>('[role="menuitem"]') ?? [];
+    const item = Array.from(items).find((el) => label.test(el.textContent?.trim() ?? ''));
+    if (!item) {
+      // Leave no menu open behind the grid
+      menu?.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+      onDone(false);
+      return;
+    }
+    item.click();
+    logDebug(MODULE, `Row menu item clicked: ${item.textContent?.trim()}`);
+    afterRender(() => onDone(true));
+  });
+}
+
+export function duplicateRow(row: HTMLElement, onDone: RowActionCallback): void {
+  runMenuItem(row, DUPLICATE_TEXT, onDone);
+}
+
+export function deleteRow(row: HTMLElement, onDone: RowActionCallback): void {
+  runMenuItem(row, DELETE_TEXT, onDone);
+}
+
+/** True while an action waits for Notion */
+export function isRowActionPending(): boolean {
+  return timer !== null;
+}
+
+export function destroyRowActions(): void {
+  if (timer) clearTimeout(timer);
+  timer = null;
+}
@@ -13,6 +13,7 @@
 
 import { EXTENSION_ATTR } from '../shared/constants';
 import { logDebug } from '../shared/logger';
+import { t } from '../shared/i18n';
 import { announce } from './live-announcer';
 
 const MODULE = 'SearchEnhancer';
@@ -76,7 +77,7 @@ function setActiveResult(dialog: HTMLElement, items: HTMLElement[], index: numbe
   // Announce the item
   const label = active.getAttribute('aria-label') ?? active.textContent?.trim() ?? '';
   if (label) {
-    announce(`${label} (${index + 1}/${items.length})`);
+    announce(`${label} (${index + 1}/${items.length})`, { source: MODULE });
   }
 }
 
@@ -107,7 +108,7 @@ function enhanceSearchDialog(dialog: HTMLElement): void {
   if (dialog.hasAttribute(EXTENSION_ATTR)) return;
 
   // Always set label — overrides modal-enhancer's generic label
-  dialog.setAttribute('aria-label', '検索');
+  dialog.setAttribute('aria-label', t('search'));
 
   // Find the results container and enhance it
   enhanceResults(dialog);
@@ -125,7 +126,7 @@ function enhanceResults(dialog: HTMLElement): void {
 
   if (resultsList && !resultsList.getAttribute('role')) {
     resultsList.setAttribute('role', 'listbox');
-    resultsList.setAttribute('aria-label', '検索結果');
+    resultsList.setAttribute('aria-label', t('searchResults'));
   }
 
   // Each result item
@@ -169,10 +170,10 @@ function enhanceResults(dialog: HTMLElement): void {
   // Announce result count if changed
   if (count !== lastResultCount && count > 0) {
     lastResultCount = count;
-    announce(`${count}件の結果`);
+    announce(t('resultCount', { count }), { source: MODULE });
   } else if (count === 0 && lastResultCount !== 0) {
     lastResultCount = 0;
-    announce('結果が見つかりません');
+    announce(t('noResults'), { source: MODULE });
   }
 }
 
@@ -211,7 +212,7 @@ function attachKeyboardNavigation(dialog: HTMLElement): void {
         if (activeIndex >= 0 && activeIndex < items.length) {
           const label = items[activeIndex].getAttribute('aria-label') ?? '';
           if (label) {
-            announce(`${label} を開きます`);
+            announce(t('opening', { title: label }), { source: MODULE });
           }
         }
         break;
@@ -266,6 +267,7 @@ function isSearchDialog(dialog: HTMLElement): boolean {
  * Watch for search dialog opening/closing and result updates.
  */
 export function initSearchEnhancer(): void {
+  if (observer) return;
   observer = new MutationObserver((mutations) => {
     for (const mutation of mutations) {
       for (const node of mutation.addedNodes) {
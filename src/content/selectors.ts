@@ -5,6 +5,8 @@
  * When Notion changes its DOM, only this file needs to be updated.
  */
 
+import { getLocale } from '../shared/i18n';
+
 // ─── Landmarks ───────────────────────────────────────────────
 export const SIDEBAR_NAV = 'nav.notion-sidebar-container';
 export const MAIN_FRAME = 'main.notion-frame';
@@ -24,44 +26,47 @@ export const BLOCK_SELECTABLE = 'div.notion-selectable[data-block-id]';
 
 /** Map of Notion block CSS class suffix → human-readable type */
 export const BLOCK_TYPE_MAP: Record<string, BlockTypeInfo> = {
-  'text-block':          { role: 'group', description: 'テキストブロック', descriptionEn: 'Text block' },
-  'header-block':        { role: 'heading', description: '見出し1', descriptionEn: 'Heading 1', ariaLevel: 1 },
-  'sub_header-block':    { role: 'heading', description: '見出し2', descriptionEn: 'Heading 2', ariaLevel: 2 },
-  'sub_sub_header-block':{ role: 'heading', description: '見出し3', descriptionEn: 'Heading 3', ariaLevel: 3 },
-  'bulleted_list-block': { role: 'listitem', description: '箇条書き', descriptionEn: 'Bulleted list item' },
-  'numbered_list-block': { role: 'listitem', description: '番号付きリスト', descriptionEn: 'Numbered list item' },
-  'to_do-block':         { role: 'checkbox', description: 'チェックボックス', descriptionEn: 'To-do checkbox' },
-  'toggle-block':        { role: 'button', description: 'トグル', descriptionEn: 'Toggle' },
-  'callout-block':       { role: 'note', description: 'コールアウトブロック', descriptionEn: 'Callout block' },
-  'quote-block':         { role: 'blockquote', description: '引用', descriptionEn: 'Quote' },
-  'code-block':          { role: 'code', description: 'コード', descriptionEn: 'Code block' },
-  'image-block':         { role: 'figure', description: '画像ブロック', descriptionEn: 'Image block' },
-  'video-block':         { role: 'figure', description: '動画ブロック', descriptionEn: 'Video block' },
-  'embed-block':         { role: 'figure', description: '埋め込みブロック', descriptionEn: 'Embed block' },
-  'bookmark-block':      { role: 'group', description: 'ブックマークブロック', descriptionEn: 'Bookmark block' },
-  'divider-block':       { role: 'separator', description: '区切り線', descriptionEn: 'Divider' },
-  'page-block':          { role: 'link', description: 'ページリンク', descriptionEn: 'Page link' },
-  'column_list-block':   { role: 'group', description: 'カラムレイアウト', descriptionEn: 'Column layout' },
-  'column-block':        { role: 'group', description: 'カラム', descriptionEn: 'Column' },
-  'table-block':         { role: 'table', description: 'シンプルテーブル', descriptionEn: 'Simple table' },
-  'table_row-block':     { role: 'row', description: 'テーブル行', descriptionEn: 'Table row' },
-  'collection_view-block': { role: 'region', description: 'データベース', descriptionEn: 'Database' },
-  'collection_view_page-block': { role: 'region', description: 'データベースページ', descriptionEn: 'Database page' },
-  'equation-block':      { role: 'math', description: '数式ブロック', descriptionEn: 'Equation block' },
-  'file-block':          { role: 'group', description: 'ファイルブロック', descriptionEn: 'File block' },
-  'pdf-block':           { role: 'figure', description: 'PDFブロック', descriptionEn: 'PDF block' },
-  'audio-block':         { role: 'group', description: 'オーディオブロック', descriptionEn: 'Audio block' },
-  'synced_block-block':  { role: 'group', description: '同期ブロック', descriptionEn: 'Synced block' },
-  'table_of_contents-block': { role: 'navigation', description: '目次', descriptionEn: 'Table of contents' },
-  'breadcrumb-block':    { role: 'navigation', description: 'パンくずリスト', descriptionEn: 'Breadcrumb' },
-  'alias-block':         { role: 'link', description: 'ページリンク', descriptionEn: 'Page link' },
-  'button-block':        { role: 'button', description: 'ボタン', descriptionEn: 'Button' },
+  'text-block':          { role: 'group', description: 'テキストブロック', descriptionEn: 'Text block', braille: '文', brailleEn: 'txt' },
+  'header-block':        { role: 'heading', description: '見出し1', descriptionEn: 'Heading 1', braille: 'h1', brailleEn: 'h1', ariaLevel: 1 },
+  'sub_header-block':    { role: 'heading', description: '見出し2', descriptionEn: 'Heading 2', braille: 'h2', brailleEn: 'h2', ariaLevel: 2 },
+  'sub_sub_header-block':{ role: 'heading', description: '見出し3', descriptionEn: 'Heading 3', braille: 'h3', brailleEn: 'h3', ariaLevel: 3 },
+  'bulleted_list-block': { role: 'listitem', description: '箇条書き', descriptionEn: 'Bulleted list item', braille: '箇条', brailleEn: 'lst' },
+  'numbered_list-block': { role: 'listitem', description: '番号付きリスト', descriptionEn: 'Numbered list item', braille: '番号', brailleEn: 'nlst' },
+  'to_do-block':         { role: 'checkbox', description: 'チェックボックス', descriptionEn: 'To-do checkbox', braille: 'チェック', brailleEn: 'chk' },
+  'toggle-block':        { role: 'button', description: 'トグル', descriptionEn: 'Toggle', braille: 'トグル', brailleEn: 'tgl' },
+  'callout-block':       { role: 'note', description: 'コールアウトブロック', descriptionEn: 'Callout block', braille: '注記', brailleEn: 'cllt' },
+  'quote-block':         { role: 'blockquote', description: '引用', descriptionEn: 'Quote', braille: '引用', brailleEn: 'qt' },
+  'code-block':          { role: 'code', description: 'コード', descriptionEn: 'Code block', braille: 'コード', brailleEn: 'code' },
+  'image-block':         { role: 'figure', description: '画像ブロック', descriptionEn: 'Image block', braille: '画像', brailleEn: 'img' },
+  'video-block':         { role: 'figure', description: '動画ブロック', descriptionEn: 'Video block', braille: '動画', brailleEn: 'vid' },
+  'embed-block':         { role: 'figure', description: '埋め込みブロック', descriptionEn: 'Embed block', braille: '埋込', brailleEn: 'emb' },
+  'bookmark-block':      { role: 'group', description: 'ブックマークブロック', descriptionEn: 'Bookmark block', braille: 'ブクマ', brailleEn: 'bkm' },
+  'divider-block':       { role: 'separator', description: '区切り線', descriptionEn: 'Divider', braille: '区切', brailleEn: '---' },
+  'page-block':          { role: 'link', description: 'ページリンク', descriptionEn: 'Page link', braille: '頁', brailleEn: 'pg' },
+  'column_list-block':   { role: 'group', description: 'カラムレイアウト', descriptionEn: 'Column layout', braille: '段組', brailleEn: 'cols' },
+  'column-block':        { role: 'group', description: 'カラム', descriptionEn: 'Column', braille: '段', brailleEn: 'col' },
+  'table-block':         { role: 'table', description: 'シンプルテーブル', descriptionEn: 'Simple table', braille: '表', brailleEn: 'tbl' },
+  'table_row-block':     { role: 'row', description: 'テーブル行', descriptionEn: 'Table row', braille: '行', brailleEn: 'row' },
+  'collection_view-block': { role: 'region', description: 'データベース', descriptionEn: 'Database', braille: 'DB', brailleEn: 'db' },
+  'collection_view_page-block': { role: 'region', description: 'データベースページ', descriptionEn: 'Database page', braille: 'DB頁', brailleEn: 'dbpg' },
+  'equation-block':      { role: 'math', description: '数式ブロック', descriptionEn: 'Equation block', braille: '数式', brailleEn: 'eq' },
+  'file-block':          { role: 'group', description: 'ファイルブロック', descriptionEn: 'File block', braille: 'ファイル', brailleEn: 'file' },
+  'pdf-block':           { role: 'figure', description: 'PDFブロック', descriptionEn: 'PDF block', braille: 'PDF', brailleEn: 'pdf' },
+  'audio-block':         { role: 'group', description: 'オーディオブロック', descriptionEn: 'Audio block', braille: '音声', brailleEn: 'aud' },
+  'synced_block-block':  { role: 'group', description: '同期ブロック', descriptionEn: 'Synced block', braille: '同期', brailleEn: 'sync' },
+  'table_of_contents-block': { role: 'navigation', description: '目次', descriptionEn: 'Table of contents', braille: '目次', brailleEn: 'toc' },
+  'breadcrumb-block':    { role: 'navigation', description: 'パンくずリスト', descriptionEn: 'Breadcrumb', braille: 'パンくず', brailleEn: 'bc' },
+  'alias-block':         { role: 'link', description: 'ページリンク', descriptionEn: 'Page link', braille: '頁', brailleEn: 'pg' },
+  'button-block':        { role: 'button', description: 'ボタン', descriptionEn: 'Button', braille: 'ボタン', brailleEn: 'btn' },
 };
 
 export interface BlockTypeInfo {
   role: string;
   description: string;
   descriptionEn: string;
+  /** Abbreviated type for braille displays (aria-brailleroledescription) */
+  braille: string;
+  brailleEn: string;
   ariaLevel?: number;
 }
 
@@ -77,6 +82,31 @@ export const DB_CALENDAR_VIEW = '.notion-calendar-view';
 export const DB_GALLERY_VIEW = '.notion-gallery-view';
 export const DB_LIST_VIEW = '.notion-list-view';
 export const DB_TIMELINE_VIEW = '.notion-timeline-view';
+export const DB_CALENDAR_DAY = '.notion-calendar-view-day';
+export const DB_CALENDAR_DAY_NUMBER = '[class*="day-number"], [class*="date"]';
+/** "2026年10月" / "October 2026" in the calendar toolbar */
+export const DB_CALENDAR_MONTH_LABEL = '[class*="calendar-view-header"], [class*="calendar-header"]';
+export const DB_CALENDAR_PREV_MONTH = '[aria-label="Previous month"], [aria-label="前月"], [aria-label="前の月"]';
+export const DB_CALENDAR_NEXT_MONTH = '[aria-label="Next month"], [aria-label="翌月"], [aria-label="次の月"]';
+/** Month labels and day ticks along the top of the timeline */
+export const DB_TIMELINE_MONTH_LABEL = '[class*="timeline-header"] [class*="month"]';
+export const DB_TIMELINE_DAY_MARK = '[class*="timeline-header"] [class*="day"]';
+/** "+" button Notion reveals when the pointer is over a day */
+export const DB_CALENDAR_ADD_EVENT = '[aria-label="New"], [aria-label="新規"], [class*="calendar-view-day-add"]';
+/** Property type icons in table column headers */
+export const DB_CHECKBOX_PROPERTY = 'svg[class*="typesCheckbox"]';
+export const DB_SELECT_PROPERTY = 'svg[class*="typesSelect"], svg[class*="typesMultipleSelect"], svg[class*="typesStatus"]';
+export const DB_CELL_CHECKBOX = '[role="checkbox"], input[type="checkbox"]';
+/** Editor Notion opens for a table cell: in the cell itself or in a popup */
+export const DB_CELL_EDITOR = '[contenteditable="true"], input, textarea';
+export const DB_CELL_POPUP = '.notion-overlay-container [role="dialog"]';
+/** Buttons Notion reveals in a table row's gutter while the pointer is over the row */
+export const DB_ROW_ADD = '[aria-label="Add below"], [aria-label="下に追加"], [class*="row-add"]';
+export const DB_ROW_HANDLE = '[aria-label="Drag"], [aria-label="ドラッグ"], [class*="drag-handle"]';
+/** Rule pills under the view tabs, one per active sort / filter */
+export const DB_SORT_RULE = '[class*="sort-rule"]';
+export const DB_FILTER_RULE = '[class*="filter-rule"]';
+export const DB_SORT_DESCENDING = 'svg[class*="arrowDown"], svg[class*="sortDown"]';
 
 // ─── Toggle / Disclosure ─────────────────────────────────────
 export const TOGGLE_BLOCK = '.notion-selectable.notion-toggle-block';
@@ -89,6 +119,8 @@ export const SEARCH_INPUT = '.notion-search-input input, [role="dialog"] input[t
 // ─── Comments ────────────────────────────────────────────────
 export const SIDE_PEEK = '.notion-peek-renderer';
 export const COMMENT_THREAD = '.notion-comment-thread';
+/** Discussion attached to a block in the page body */
+export const BLOCK_DISCUSSION = `${COMMENT_THREAD}, [class*="discussion"]`;
 
 // ─── Modals ──────────────────────────────────────────────────
 export const MODAL_OVERLAY = '.notion-overlay-container [role="dialog"]';
@@ -105,6 +137,7 @@ export const SETTINGS_TABLIST = '[role="dialog"] [role="tablist"]';
 export const SETTINGS_TAB = '[role="dialog"] [role="tab"]';
 
 // ─── Misc ────────────────────────────────────────────────────
+export const SCROLLER = '.notion-scroller';
 export const TOPBAR_BREADCRUMB = '.shadow-cursor-breadcrumb, .notion-topbar-breadcrumb';
 export const HOVER_ONLY_CONTROLS = '.notion-selectable > [style*="opacity: 0"], .notion-block-handle';
 
@@ -131,6 +164,69 @@ export function detectBlockType(element: Element): string | null {
   return null;
 }
 
+/** Block types that form a list when consecutive blocks share the type */
+export const LIST_BLOCK_TYPES = new Set(['bulleted_list-block', 'numbered_list-block', 'to_do-block']);
+
+export interface ListInfo {
+  /** List block type shared by every item */
+  type: string;
+  /** First item — identifies the list */
+  first: Element;
+  /** 0-based position of the item */
+  index: number;
+  total: number;
+  /** 1 = top-level list, +1 per enclosing list item */
+  level: number;
+}
+
+/**
+ * Virtual list a list block belongs to: the run of consecutive sibling
+ * blocks of the same list type. Null for non-list blocks.
+ */
+export function getListInfo(block: Element): ListInfo | null {
+  const type = detectBlockType(block);
+  if (!type || !LIST_BLOCK_TYPES.has(type)) return null;
+
+  const isSameList = (el: Element | null): el is Element =>
+    !!el && el.matches(BLOCK_SELECTABLE) && detectBlockType(el) === type;
+
+  let first: Element = block;
+  while (isSameList(first.previousElementSibling)) first = first.previousElementSibling;
+
+  let index = 0;
+  let total = 0;
+  for (let el: Element | null = first; isSameList(el); el = el.nextElementSibling) {
+    if (el === block) index = total;
+    total++;
+  }
+
+  let level = 1;
+  for (
+    let el = block.parentElement?.closest(BLOCK_SELECTABLE);
+    el;
+    el = el.parentElement?.closest(BLOCK_SELECTABLE)
+  ) {
+    const ancestorType = detectBlockType(el);
+    if (ancestorType && LIST_BLOCK_TYPES.has(ancestorType)) level++;
+  }
+
+  return { type, first, index, total, level };
+}
+
+/**
+ * Block type description in the current UI language.
+ */
+export function getBlockDescription(info: BlockTypeInfo): string {
+  return getLocale() === 'en' ? info.descriptionEn : info.description;
+}
+
+/**
+ * Abbreviated block type for braille, in the current language.
+ */
+export function getBlockBrailleDescription(info: BlockTypeInfo): string {
+  return getLocale() === 'en' ? info.brailleEn : info.braille;
+}
+
 /**
  * Get the text content of a block, truncated.
  */
@@ -0,0 +1,120 @@
+/**
+ * Screen Reader Profiles
+ *
+ * Per-reader behavior selected by `settings.screenReader`
+ * (DOCUMENTATION.md §3.3). NVDA is the reference implementation;
+ * the other profiles only override what breaks with that reader.
+ *
+ * - liveRegion: how live-announcer clears and re-injects text
+ * - blockFocus: virtual highlight or real DOM focus in block-focus-manager
+ * - grid: which keys table-enhancer's grid mode intercepts
+ */
+
+import type { ExtensionSettings } from '../shared/constants';
+
+type ScreenReader = ExtensionSettings['screenReader'];
+
+export interface ScreenReaderProfile {
+  liveRegion: {
+    /**
+     * 'clear': empty the region, then set its text.
+     * 'replace-node': empty the region, then insert a fresh child node —
+     * VoiceOver ignores repeated text changes on the same node.
+     */
+    strategy: 'clear' | 'replace-node';
+    /** Delay before injecting new text (ms). 0 = next animation frame */
+    injectDelay: number;
+    /** Clear the region after this long so identical text re-announces (ms) */
+    clearAfter: number;
+  };
+  /**
+   * 'virtual': CSS highlight only (keeps NVDA/JAWS in focus mode inside
+   * contenteditable). 'dom': also move DOM focus to the block, because
+   * the VoiceOver cursor follows focus rather than live regions.
+   */
+  blockFocus: 'virtual' | 'dom';
+  grid: {
+    /** Leave Ctrl+Alt combos to the reader (VoiceOver's VO keys) */
+    passThroughCtrlAlt: boolean;
+    /** Treat Cmd+Arrow as Home/End (Mac keyboards have no Home/End) */
+    metaArrowsAsHomeEnd: boolean;
+  };
+}
+
+const NVDA_PROFILE: ScreenReaderProfile = {
+  liveRegion: { strategy: 'clear', injectDelay: 0, clearAfter: 5000 },
+  blockFocus: 'virtual',
+  grid: { passThroughCtrlAlt: false, metaArrowsAsHomeEnd: false },
+};
+
+const PROFILES: Record<ScreenReader, ScreenReaderProfile> = {
+  nvda: NVDA_PROFILE,
+  // JAWS drops a live region update made in the same frame as the clear
+  jaws: {
+    ...NVDA_PROFILE,
+    liveRegion: { strategy: 'clear', injectDelay: 100, clearAfter: 5000 },
+  },
+  voiceover: {
+    liveRegion: { strategy: 'replace-node', injectDelay: 150, clearAfter: 5000 },
+    blockFocus: 'dom',
+    grid: { passThroughCtrlAlt: true, metaArrowsAsHomeEnd: true },
+  },
+  other: NVDA_PROFILE,
+};
+
+let activeReader: ScreenReader = 'nvda';
+
+export function setScreenReader(reader: ScreenReader): void {
+  activeReader = PROFILES[reader] ? reader : 'nvda';
+}
+
+export function getScreenReader(): ScreenReader {
+  return activeReader;
+}
+
+export function getProfile(): ScreenReaderProfile {
+  return PROFILES[activeReader];
+}
+
+// ─── Grid Keys ───────────────────────────────────────────────
+
+export type GridCommand =
+  | 'right' | 'left' | 'down' | 'up'
+  | 'rowStart' | 'rowEnd' | 'tableStart' | 'tableEnd'
+  | 'exit';
+
+const ARROW_COMMANDS: Record<string, GridCommand> = {
+  ArrowRight: 'right',
+  ArrowLeft: 'left',
+  ArrowDown: 'down',
+  ArrowUp: 'up',
+};
+
+/**
+ * Map a keydown in grid mode to a grid command for the active profile.
+ * Returns null when the key should reach the page (or the screen reader).
+ */
+export function getGridCommand(event: KeyboardEvent): GridCommand | null {
+  const { grid } = getProfile();
+
+  if (grid.passThroughCtrlAlt && event.ctrlKey && event.altKey) return null;
+
+  if (grid.metaArrowsAsHomeEnd && event.metaKey) {
+    switch (event.key) {
+      case 'ArrowLeft': return 'rowStart';
+      case 'ArrowRight': return 'rowEnd';
+      case 'ArrowUp': return 'tableStart';
+      case 'ArrowDown': return 'tableEnd';
+    }
+  }
+
+  const arrow = ARROW_COMMANDS[event.key];
+  if (arrow) return arrow;
+
+  switch (event.key) {
+    case 'Home': return event.ctrlKey ? 'tableStart' : 'rowStart';
+    case 'End': return event.ctrlKey ? 'tableEnd' : 'rowEnd';
+    case 'Escape': return 'exit';
+  }
+  return null;
+}
@@ -2,36 +2,124 @@
  * F-04: Database View Enhancement
  *
  * Injects ARIA semantics into Notion's database views:
- * - Table view: grid/row/gridcell with arrow-key navigation
- * - Board view: labeled groups with card navigation
+ * - Table view: grid/row/gridcell with arrow-key navigation, cell editing (cell-editor)
+ *   and row insertion, duplication and deletion (row-actions);
+ *   rows are numbered among all loaded rows, not just the rendered ones (virtual-rows)
+ * - Board view: labeled groups with card navigation (board-navigator)
  * - List view: list/listitem roles
- * - Gallery view: grid with card roles
- * - Calendar view: labeled grid
- * - Timeline view: labeled region
- * - View tabs: tablist/tab roles with aria-selected
+ * - Gallery view: grid split into laid-out rows, with card navigation (gallery-navigator)
+ * - Calendar view: labeled grid with date navigation (calendar-navigator)
+ * - Timeline view: items labeled with their date ranges, in start-date order (timeline-navigator)
+ * - View tabs: tablist/tab roles with aria-selected, per database including nested ones
+ * - Linked views: the grid label names the source page, and grid mode can open it (db-source)
  */
 
-import { EXTENSION_ATTR } from '../shared/constants';
+import { EXTENSION_ATTR, OWN_LABEL_ATTR } from '../shared/constants';
 import { logDebug } from '../shared/logger';
-import { DB_COLLECTION_VIEW, DB_TABLE_VIEW } from './selectors';
+import { t, type MessageKey } from '../shared/i18n';
+import {
+  DB_COLLECTION_VIEW,
+  DB_TABLE_VIEW,
+  DB_BOARD_VIEW,
+  DB_CALENDAR_VIEW,
+  DB_GALLERY_VIEW,
+  DB_TIMELINE_VIEW,
+  DB_CALENDAR_DAY,
+  DB_CALENDAR_DAY_NUMBER,
+} from './selectors';
 import { announce } from './live-announcer';
-
-/** Request DOMLock protection for an element's ARIA attributes */
-function protect(el: Element): void {
-  el.dispatchEvent(new CustomEvent('accessible-notion-protect', { bubbles: false }));
-}
+import { playEarcon } from './earcons';
+import { setBrailleLabel, formatBrailleCell } from './braille';
+import { formatGridCell, formatGridRow, formatGridColumn, formatColumnHeader } from './announcement-formatter';
+import { getGridCommand } from './sr-profile';
+import { enterBoardMode, exitBoardMode, isBoardModeActive, destroyBoardNavigator } from './board-navigator';
+import {
+  enterCalendarMode,
+  exitCalendarMode,
+  isCalendarModeActive,
+  destroyCalendarNavigator,
+} from './calendar-navigator';
+import {
+  layoutGalleryRows,
+  enterGalleryMode,
+  exitGalleryMode,
+  isGalleryModeActive,
+  destroyGalleryNavigator,
+  removeGalleryRows,
+} from './gallery-navigator';
+import {
+  labelTimelineItems,
+  enterTimelineMode,
+  exitTimelineMode,
+  isTimelineModeActive,
+  destroyTimelineNavigator,
+} from './timeline-navigator';
+import {
+  getCellKind,
+  getCellValue,
+  openCellEditor,
+  openColumnMenu,
+  toggleCheckboxCell,
+  isCellEditing,
+  destroyCellEditor,
+} from './cell-editor';
+import {
+  getPropertyType,
+  readViewRules,
+  getSortDirection,
+  formatSortDirection,
+  describeViewRules,
+  type ViewRules,
+} from './column-info';
+import { measureRows, findLoadMoreButton, scrollByRows, type RowWindow } from './virtual-rows';
+import { insertRow, duplicateRow, deleteRow, isRowActionPending, destroyRowActions } from './row-actions';
+import { getLinkedSource, describeLinkedSource, openLinkedSource } from './db-source';
+import { protect } from './dom-events';
 
 const MODULE = 'TableEnhancer';
 
-let gridModeActive = false;
-let currentRow = 0;
-let currentCol = 0;
+/** currentRow of the header row; data rows count from 0 */
+const HEADER_ROW = -1;
+/** Time for Notion to render rows after a scroll (ms) */
+const ROW_RENDER_MS = 100;
+/** Time for Notion to fetch the next page of rows (ms) */
+const LOAD_MORE_MS = 500;
+
+/**
+ * Grid state of one table. It outlives grid mode, so the cursor is where
+ * the user left it when they come back to the table.
+ */
+interface TableGrid {
+  /** Collection view holding the keydown listener while active */
+  container: HTMLElement;
+  active: boolean;
+  /** Absolute index among all loaded rows */
+  currentRow: number;
+  currentCol: number;
+  /** Block id of the current row, which outlives Notion's re-renders */
+  currentRowId: string | null;
+  /** Columns spoken on every row change */
+  rowHeaders: Set<string>;
+  /** Row a first Delete press asked to delete; the next key confirms or cancels */
+  deleteRowId: string | null;
+  /** Re-enhances rows added by virtual scroll */
+  bodyObserver: MutationObserver | null;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/** Grids of the tables on the page, keyed by collection view block id */
+const grids = new Map<string, TableGrid>();
 
 interface TableInfo {
   container: HTMLElement;
   headerRow: HTMLElement | null;
   headerCells: HTMLElement[];
+  /** Rendered data rows only */
   dataRows: HTMLElement[];
+  /** Where the rendered rows sit among all loaded rows */
+  rowWindow: RowWindow;
+  /** A "Load more" button follows the last loaded row */
+  hasMore: boolean;
   getRowCells: (row: HTMLElement) => HTMLElement[];
 }
 
@@ -80,6 +168,8 @@ function parseTableView(container: HTMLElement): TableInfo | null {
     headerRow,
     headerCells,
     dataRows,
+    rowWindow: measureRows(dataRows),
+    hasMore: !!findLoadMoreButton(tableView.closest<HTMLElement>(DB_COLLECTION_VIEW) ?? tableView),
     getRowCells(row: HTMLElement): HTMLElement[] {
       const tvRow = row.querySelector('.notion-table-view-row') as HTMLElement | null;
       if (!tvRow) return [];
@@ -110,16 +200,10 @@ export function enhanceTableView(container: HTMLElement): void {
   // Set grid role on the actual .notion-table-view element
   const gridEl = info.container;
   gridEl.setAttribute('role', 'grid');
-  gridEl.setAttribute('aria-roledescription', 'データベーステーブル');
-  gridEl.setAttribute('aria-rowcount', String(info.dataRows.length + 1)); // +1 for header
+  gridEl.setAttribute('aria-roledescription', t('dbTable'));
+  gridEl.setAttribute('aria-rowcount', getRowCountAttr(info));
   gridEl.setAttribute('aria-colcount', String(info.headerCells.length));
 
-  // Get DB name from the parent collection_view block
-  const cvBlock = gridEl.closest('.notion-collection_view-block');
-  const dbLabel = cvBlock?.getAttribute('aria-label') ?? '';
-  const dbName = dbLabel.replace(/^データベース(ページ)?:\s*/, '').trim() || 'データベース';
-  gridEl.setAttribute('aria-label', `${dbName} テーブル ${info.dataRows.length}行 ${info.headerCells.length}列`);
-
   // Header row
   if (info.headerRow) {
     info.headerRow.setAttribute('role', 'row');
@@ -128,16 +212,20 @@ export function enhanceTableView(container: HTMLElement): void {
     info.headerCells.forEach((cell, i) => {
       cell.setAttribute('role', 'columnheader');
       cell.setAttribute('aria-colindex', String(i + 1));
-      if (!cell.getAttribute('aria-label')) {
-        cell.setAttribute('aria-label', cell.textContent?.trim() ?? `列${i + 1}`);
+      cell.setAttribute('tabindex', '-1');
+      // Rewrite our own label so a language change reaches it
+      if (!cell.getAttribute('aria-label') || cell.hasAttribute(OWN_LABEL_ATTR)) {
+        cell.setAttribute('aria-label', getColumnName(info, i));
+        cell.setAttribute(OWN_LABEL_ATTR, '');
       }
     });
   }
+  applyViewRules(info);
 
   // Data rows
   info.dataRows.forEach((row, rowIdx) => {
     row.setAttribute('role', 'row');
-    row.setAttribute('aria-rowindex', String(rowIdx + 2)); // 1-based, header is row 1
+    row.setAttribute('aria-rowindex', String(info.rowWindow.first + rowIdx + 2)); // 1-based, header is row 1
 
     const cells = info.getRowCells(row);
     cells.forEach((cell, colIdx) => {
@@ -146,9 +234,10 @@ export function enhanceTableView(container: HTMLElement): void {
       cell.setAttribute('tabindex', '-1');
 
       // Build label: "columnName: value"
-      const colName = info.headerCells[colIdx]?.textContent?.trim() ?? `列${colIdx + 1}`;
-      const value = cell.textContent?.trim() ?? '';
-      cell.setAttribute('aria-label', `${colName}: ${value || '空'}`);
+      const colName = getColumnName(info, colIdx);
+      const value = getCellValue(cell);
+      cell.setAttribute('aria-label', `${colName}: ${value || t('empty')}`);
+      setBrailleLabel(cell, formatBrailleCell(colName, value));
     });
   });
 
@@ -165,7 +254,86 @@ export function enhanceTableView(container: HTMLElement): void {
     info.getRowCells(row).forEach((c) => protect(c));
   });
 
-  logDebug(MODULE, `Enhanced table: ${info.dataRows.length} rows, ${info.headerCells.length} cols`);
+  logDebug(MODULE, `Enhanced table: ${info.rowWindow.total} rows, ${info.headerCells.length} cols`);
+}
+
+/** Rendered data row at absolute index `index`, if any */
+function getRow(info: TableInfo, index: number): HTMLElement | undefined {
+  return index >= info.rowWindow.first ? info.dataRows[index - info.rowWindow.first] : undefined;
+}
+
+/** Grid of the table in `container`, created on first use */
+function getGrid(container: HTMLElement): TableGrid {
+  const id = container.getAttribute('data-block-id') ?? '';
+  let grid = grids.get(id);
+  if (!grid) {
+    grid = {
+      container,
+      active: false,
+      currentRow: 0,
+      currentCol: 0,
+      currentRowId: null,
+      rowHeaders: new Set(),
+      deleteRowId: null,
+      bodyObserver: null,
+      retryTimer: null,
+    };
+    grids.set(id, grid);
+  }
+  // Notion can replace the block element and keep its id
+  if (grid.container !== container) {
+    if (grid.active) {
+      grid.container.removeEventListener('keydown', handleGridKeydown, true);
+      container.addEventListener('keydown', handleGridKeydown, true);
+    }
+    grid.container = container;
+  }
+  return grid;
+}
+
+/** Header plus loaded rows; -1 (unknown) while more rows can be loaded */
+function getRowCountAttr(info: TableInfo): string {
+  return info.hasMore ? '-1' : String(info.rowWindow.total + 1);
+}
+
+function getColumnName(info: TableInfo, col: number): string {
+  return info.headerCells[col]?.textContent?.trim() || t('columnN', { index: col + 1 });
+}
+
+/**
+ * Mirror the view's sorts and filters: aria-sort on the column of the
+ * primary sort, and a summary in the grid label.
+ */
+function applyViewRules(info: TableInfo): ViewRules {
+  const names = info.headerCells.map((_, i) => getColumnName(info, i));
+  const rules = readViewRules(info.container.closest<HTMLElement>(DB_COLLECTION_VIEW) ?? info.container, names);
+
+  // aria-sort belongs on one header at a time
+  const primary = rules.sorts[0];
+  info.headerCells.forEach((cell, i) => {
+    if (primary?.column === names[i]) cell.setAttribute('aria-sort', primary.direction);
+    else cell.removeAttribute('aria-sort');
+  });
+
+  const label = t('dbTableLabel', {
+    name: getDbName(info.container),
+    rows: info.hasMore ? `${info.rowWindow.total}+` : info.rowWindow.total,
+    cols: info.headerCells.length,
+  });
+  const source = getLinkedSource(info.container.closest(DB_COLLECTION_VIEW) ?? info.container);
+  const parts = [label, source && describeLinkedSource(source), describeViewRules(rules)];
+  info.container.setAttribute('aria-label', parts.filter(Boolean).join(', '));
+  return rules;
+}
+
+/**
+ * Rewrite the grid label of the table view in `block`, e.g. once the page
+ * its linked source lives on is known.
+ */
+export function relabelTableView(block: HTMLElement): void {
+  if (block.getAttribute(EXTENSION_ATTR) !== 'table') return;
+  const info = parseTableView(block);
+  if (info) applyViewRules(info);
 }
 
 /**
@@ -176,22 +344,26 @@ function reEnhanceVisibleRows(container: HTMLElement): void {
   const info = parseTableView(container);
   if (!info) return;
 
+  // Rows also move when the view's sort changes
+  applyViewRules(info);
+
   let newRows = 0;
   info.dataRows.forEach((row, rowIdx) => {
-    // Only process rows not yet enhanced
+    // Positions shift as the window scrolls; only new rows need labels
+    row.setAttribute('aria-rowindex', String(info.rowWindow.first + rowIdx + 2));
     if (row.getAttribute('role') === 'row') return;
 
     row.setAttribute('role', 'row');
-    row.setAttribute('aria-rowindex', String(rowIdx + 2));
 
     const cells = info.getRowCells(row);
     cells.forEach((cell, colIdx) => {
       cell.setAttribute('role', 'gridcell');
       cell.setAttribute('aria-colindex', String(colIdx + 1));
       cell.setAttribute('tabindex', '-1');
-      const colName = info.headerCells[colIdx]?.textContent?.trim() ?? `列${colIdx + 1}`;
-      const value = cell.textContent?.trim() ?? '';
-      cell.setAttribute('aria-label', `${colName}: ${value || '空'}`);
+      const colName = getColumnName(info, colIdx);
+      const value = getCellValue(cell);
+      cell.setAttribute('aria-label', `${colName}: ${value || t('empty')}`);
+      setBrailleLabel(cell, formatBrailleCell(colName, value));
     });
 
     protect(row);
@@ -199,15 +371,12 @@ function reEnhanceVisibleRows(container: HTMLElement): void {
     newRows++;
   });
 
-  // Update total row count
+  info.container.setAttribute('aria-rowcount', getRowCountAttr(info));
   if (newRows > 0) {
-    container.setAttribute('aria-rowcount', String(info.dataRows.length + 1));
     logDebug(MODULE, `Virtual scroll: enhanced ${newRows} new rows`);
   }
 }
 
-let tableBodyObserver: MutationObserver | null = null;
-
 /**
  * Set up a MutationObserver on the table body to detect virtual scroll row changes.
  */
@@ -228,9 +397,10 @@ function watchVirtualScroll(container: HTMLElement): void {
 
   vsObserver.observe(bodyContainer, { childList: true, subtree: true });
 
-  // Store reference for cleanup
-  if (tableBodyObserver) tableBodyObserver.disconnect();
-  tableBodyObserver = vsObserver;
+  // One observer per table, replaced on each scan
+  const grid = getGrid(container);
+  grid.bodyObserver?.disconnect();
+  grid.bodyObserver = vsObserver;
 }
 
 /**
@@ -238,17 +408,20 @@ function watchVirtualScroll(container: HTMLElement): void {
  * Notion renders view tabs as .notion-collection-view-tab-button elements.
  */
 function enhanceViewTabs(container: HTMLElement): void {
-  // Only process top-level collection_view blocks (skip nested ones)
-  if (container.parentElement?.closest('.notion-collection_view-block')) return;
+  // Nested databases have tabs of their own; take only this one's
+  const own = (el: Element): boolean => el.closest(DB_COLLECTION_VIEW) === container;
 
   // Notion already provides role="tablist" and role="tab" — we just add labels
-  const existingTablist = container.querySelector<HTMLElement>('[role="tablist"]');
+  const existingTablist = Array.from(container.querySelectorAll<HTMLElement>('[role="tablist"]')).find(own);
   if (existingTablist && !existingTablist.getAttribute('aria-label')) {
-    existingTablist.setAttribute('aria-label', 'データベースビュー');
+    const name = getDbLabelName(container);
+    existingTablist.setAttribute('aria-label', name ? t('dbViewsOf', { name }) : t('dbViews'));
   }
 
   // Enhance individual tab buttons with labels
-  const tabButtons = container.querySelectorAll<HTMLElement>('.notion-collection-view-tab-button');
+  const tabButtons = Array.from(
+    container.querySelectorAll<HTMLElement>('.notion-collection-view-tab-button'),
+  ).filter(own);
   tabButtons.forEach((tabBtn) => {
     const tabEl = tabBtn.querySelector<HTMLElement>('[role="tab"]') ?? tabBtn;
     const text = tabBtn.textContent?.trim();
@@ -262,6 +435,24 @@ function enhanceViewTabs(container: HTMLElement): void {
   }
 }
 
+/**
+ * Database name from the collection_view block label set by aria-injector
+ * ("データベース: 名前" / "Database: Name").
+ */
+function getDbName(view: Element): string {
+  const cvBlock = view.closest('.notion-collection_view-block');
+  return (cvBlock && getDbLabelName(cvBlock)) || t('database');
+}
+
+/** Name in a collection_view block's label; '' when it has none */
+function getDbLabelName(cvBlock: Element): string {
+  // A linked view's label goes on to name its source
+  const source = getLinkedSource(cvBlock);
+  if (source) return source.title;
+  const dbLabel = cvBlock.getAttribute('aria-label') ?? '';
+  return dbLabel.replace(/^(データベース(ページ)?|Database( page)?)(:\s*|$)/, '').trim();
+}
+
 /**
  * Enhance a board (kanban) view.
  */
@@ -271,7 +462,7 @@ function enhanceBoardView(container: HTMLElement): void {
   if (boardView.getAttribute(EXTENSION_ATTR) === 'board') return;
 
   boardView.setAttribute('role', 'region');
-  boardView.setAttribute('aria-roledescription', 'カンバンボード');
+  boardView.setAttribute('aria-roledescription', t('boardRole'));
 
   // Find board groups (columns)
   const groups = boardView.querySelectorAll<HTMLElement>('.notion-board-group');
@@ -280,7 +471,7 @@ function enhanceBoardView(container: HTMLElement): void {
 
     // Group header is typically the first child
     const header = group.querySelector<HTMLElement>('.notion-board-group-header, [class*="board-group-header"]');
-    const headerText = header?.textContent?.trim() ?? `グループ${idx + 1}`;
+    const headerText = header?.textContent?.trim() ?? t('groupN', { index: idx + 1 });
     group.setAttribute('aria-label', `${headerText}`);
 
     // Cards within the group
@@ -295,10 +486,8 @@ function enhanceBoardView(container: HTMLElement): void {
     });
   });
 
-  const cvBlock = boardView.closest('.notion-collection_view-block');
-  const dbLabel = cvBlock?.getAttribute('aria-label') ?? '';
-  const dbName = dbLabel.replace(/^データベース(ページ)?:\s*/, '').trim() || 'データベース';
-  boardView.setAttribute('aria-label', `${dbName} ボードビュー ${groups.length}グループ`);
+  const dbName = getDbName(boardView);
+  boardView.setAttribute('aria-label', t('boardLabel', { name: dbName, count: groups.length }));
 
   boardView.setAttribute(EXTENSION_ATTR, 'board');
   logDebug(MODULE, `Enhanced board view: ${groups.length} groups`);
@@ -313,7 +502,7 @@ function enhanceListView(container: HTMLElement): void {
   if (listView.getAttribute(EXTENSION_ATTR) === 'list') return;
 
   listView.setAttribute('role', 'list');
-  listView.setAttribute('aria-roledescription', 'データベースリスト');
+  listView.setAttribute('aria-roledescription', t('listRole'));
 
   const items = listView.querySelectorAll<HTMLElement>('.notion-collection-item');
   items.forEach((item, idx) => {
@@ -325,10 +514,8 @@ function enhanceListView(container: HTMLElement): void {
     }
   });
 
-  const cvBlock = listView.closest('.notion-collection_view-block');
-  const dbLabel = cvBlock?.getAttribute('aria-label') ?? '';
-  const dbName = dbLabel.replace(/^データベース(ページ)?:\s*/, '').trim() || 'データベース';
-  listView.setAttribute('aria-label', `${dbName} リストビュー ${items.length}件`);
+  const dbName = getDbName(listView);
+  listView.setAttribute('aria-label', t('listLabel', { name: dbName, count: items.length }));
 
   listView.setAttribute(EXTENSION_ATTR, 'list');
   logDebug(MODULE, `Enhanced list view: ${items.length} items`);
@@ -343,22 +530,14 @@ function enhanceGalleryView(container: HTMLElement): void {
   if (galleryView.getAttribute(EXTENSION_ATTR) === 'gallery') return;
 
   galleryView.setAttribute('role', 'grid');
-  galleryView.setAttribute('aria-roledescription', 'ギャラリー');
+  galleryView.setAttribute('aria-roledescription', t('galleryRole'));
 
+  // Cards have no row elements of their own; group them by layout
+  layoutGalleryRows(galleryView);
   const cards = galleryView.querySelectorAll<HTMLElement>('.notion-collection-item');
-  cards.forEach((card) => {
-    card.setAttribute('role', 'gridcell');
-    card.setAttribute('tabindex', '-1');
-    const text = card.textContent?.trim()?.substring(0, 50) ?? '';
-    if (text && !card.getAttribute('aria-label')) {
-      card.setAttribute('aria-label', text);
-    }
-  });
 
-  const cvBlock = galleryView.closest('.notion-collection_view-block');
-  const dbLabel = cvBlock?.getAttribute('aria-label') ?? '';
-  const dbName = dbLabel.replace(/^データベース(ページ)?:\s*/, '').trim() || 'データベース';
-  galleryView.setAttribute('aria-label', `${dbName} ギャラリービュー ${cards.length}件`);
+  const dbName = getDbName(galleryView);
+  galleryView.setAttribute('aria-label', t('galleryLabel', { name: dbName, count: cards.length }));
 
   galleryView.setAttribute(EXTENSION_ATTR, 'gallery');
   logDebug(MODULE, `Enhanced gallery view: ${cards.length} cards`);
@@ -373,24 +552,22 @@ function enhanceCalendarView(container: HTMLElement): void {
   if (calView.getAttribute(EXTENSION_ATTR) === 'calendar') return;
 
   calView.setAttribute('role', 'grid');
-  calView.setAttribute('aria-roledescription', 'カレンダー');
+  calView.setAttribute('aria-roledescription', t('calendarRole'));
 
-  const cvBlock = calView.closest('.notion-collection_view-block');
-  const dbLabel = cvBlock?.getAttribute('aria-label') ?? '';
-  const dbName = dbLabel.replace(/^データベース(ページ)?:\s*/, '').trim() || 'データベース';
-  calView.setAttribute('aria-label', `${dbName} カレンダービュー`);
+  const dbName = getDbName(calView);
+  calView.setAttribute('aria-label', t('calendarLabel', { name: dbName }));
 
   // Calendar day cells
-  const dayCells = calView.querySelectorAll<HTMLElement>('.notion-calendar-view-day');
+  const dayCells = calView.querySelectorAll<HTMLElement>(DB_CALENDAR_DAY);
   dayCells.forEach((cell) => {
     cell.setAttribute('role', 'gridcell');
     cell.setAttribute('tabindex', '-1');
     // Try to extract date label
-    const dateLabel = cell.querySelector<HTMLElement>('[class*="day-number"], [class*="date"]');
+    const dateLabel = cell.querySelector<HTMLElement>(DB_CALENDAR_DAY_NUMBER);
     const dateText = dateLabel?.textContent?.trim() ?? '';
     const items = cell.querySelectorAll('.notion-collection-item');
     if (dateText) {
-      cell.setAttribute('aria-label', `${dateText}日 ${items.length}件`);
+      cell.setAttribute('aria-label', t('calendarDay', { day: dateText, count: items.length }));
     }
   });
 
@@ -407,18 +584,18 @@ function enhanceTimelineView(container: HTMLElement): void {
   if (tlView.getAttribute(EXTENSION_ATTR) === 'timeline') return;
 
   tlView.setAttribute('role', 'region');
-  tlView.setAttribute('aria-roledescription', 'タイムライン');
+  tlView.setAttribute('aria-roledescription', t('timelineRole'));
 
-  const cvBlock = tlView.closest('.notion-collection_view-block');
-  const dbLabel = cvBlock?.getAttribute('aria-label') ?? '';
-  const dbName = dbLabel.replace(/^データベース(ページ)?:\s*/, '').trim() || 'データベース';
-  tlView.setAttribute('aria-label', `${dbName} タイムラインビュー`);
+  const dbName = getDbName(tlView);
+  tlView.setAttribute('aria-label', t('timelineLabel', { name: dbName }));
 
   const items = tlView.querySelectorAll<HTMLElement>('.notion-collection-item');
   items.forEach((item) => {
     item.setAttribute('role', 'article');
     item.setAttribute('tabindex', '-1');
   });
+  // Dates are only shown by bar position; read them back from the scale
+  labelTimelineItems(tlView);
 
   tlView.setAttribute(EXTENSION_ATTR, 'timeline');
   logDebug(MODULE, `Enhanced timeline view: ${items.length} items`);
@@ -475,135 +652,537 @@ export function scanAndEnhanceTables(): void {
     enhanceViewTabs(view);
     enhanceActiveView(view);
   }
+
+  // Tables that left the page take their observers with them
+  for (const [id, grid] of grids) {
+    if (grid.container.isConnected) continue;
+    stopGrid(grid);
+    grid.bodyObserver?.disconnect();
+    grids.delete(id);
+  }
+}
+
+/**
+ * Leave the database mode that is on, so Alt+Shift+D toggles it. A table
+ * grid is left only from inside its table; elsewhere the shortcut moves
+ * grid mode to the focused table.
+ */
+function leaveActiveMode(active: HTMLElement | null): boolean {
+  if (isBoardModeActive()) exitBoardMode();
+  else if (isCalendarModeActive()) exitCalendarMode();
+  else if (isGalleryModeActive()) exitGalleryMode();
+  else if (isTimelineModeActive()) exitTimelineMode();
+  else {
+    const grid = [...grids.values()].find((g) => g.active && !!active && g.container.contains(active));
+    if (!grid) return false;
+    exitGridMode(grid);
+  }
+  return true;
 }
 
 /**
- * Enter grid navigation mode for the nearest table.
+ * Enter grid navigation mode for the nearest table, or the board, calendar,
+ * gallery or timeline mode when the database shows one of those views.
+ * Leaves the mode instead when one is on.
  */
 export function enterGridMode(): void {
   const active = document.activeElement as HTMLElement | null;
+  if (leaveActiveMode(active)) return;
   const tableContainer = active?.closest(DB_COLLECTION_VIEW) as HTMLElement
     ?? document.querySelector(DB_COLLECTION_VIEW) as HTMLElement;
 
   if (!tableContainer) {
-    announce('データベーステーブルが見つかりません');
+    announce(t('noDbTable'), { source: MODULE });
+    return;
+  }
+
+  const boardView = tableContainer.querySelector<HTMLElement>(DB_BOARD_VIEW);
+  if (boardView) {
+    enterBoardMode(boardView);
+    return;
+  }
+  const calendarView = tableContainer.querySelector<HTMLElement>(DB_CALENDAR_VIEW);
+  if (calendarView) {
+    enterCalendarMode(calendarView);
+    return;
+  }
+  const galleryView = tableContainer.querySelector<HTMLElement>(DB_GALLERY_VIEW);
+  if (galleryView) {
+    enterGalleryMode(galleryView);
+    return;
+  }
+  const timelineView = tableContainer.querySelector<HTMLElement>(DB_TIMELINE_VIEW);
+  if (timelineView) {
+    enterTimelineMode(timelineView);
     return;
   }
 
   const info = parseTableView(tableContainer);
   if (!info || info.dataRows.length === 0) {
-    announce('テーブルにデータがありません');
+    announce(t('tableEmpty'), { source: MODULE });
     return;
   }
 
-  gridModeActive = true;
-  currentRow = 0;
-  currentCol = 0;
-
-  // Focus first cell of first data row
-  const firstRowCells = info.getRowCells(info.dataRows[0]);
-  if (firstRowCells.length > 0) {
-    firstRowCells[0].focus();
-    announce(`グリッドモード開始: ${firstRowCells[0].getAttribute('aria-label') ?? ''}`);
+  // Grid mode is on in one table at a time
+  for (const other of grids.values()) {
+    if (other.active) stopGrid(other);
   }
-
-  // Attach grid keyboard handler
+  const grid = getGrid(tableContainer);
+  grid.active = true;
   tableContainer.addEventListener('keydown', handleGridKeydown, true);
+
+  const cell = getStartCell(grid, info);
+  if (cell) {
+    cell.focus();
+    playEarcon('gridModeStart');
+    announce(t('gridModeStart', { cell: cell.getAttribute('aria-label') ?? '' }), { source: MODULE });
+  }
   logDebug(MODULE, 'Grid mode entered');
 }
 
+/**
+ * Cell to enter grid mode on: where the user left this table if that
+ * cell is still rendered, otherwise the first cell of the first rendered row.
+ */
+function getStartCell(grid: TableGrid, info: TableInfo): HTMLElement | undefined {
+  if (grid.currentRow === HEADER_ROW && info.headerCells[grid.currentCol]) {
+    return info.headerCells[grid.currentCol];
+  }
+  syncCurrentRow(grid, info);
+  const row = getRow(info, grid.currentRow);
+  const cell = row?.getAttribute('data-block-id') === grid.currentRowId
+    ? info.getRowCells(row!)[grid.currentCol]
+    : undefined;
+  if (cell) return cell;
+
+  grid.currentRow = info.rowWindow.first;
+  grid.currentRowId = info.dataRows[0].getAttribute('data-block-id');
+  grid.currentCol = 0;
+  return info.getRowCells(info.dataRows[0])[0];
+}
+
 function handleGridKeydown(event: KeyboardEvent): void {
-  if (!gridModeActive) return;
+  // Keys belong to Notion's editor until it closes, and wait for row actions
+  if (isCellEditing() || isRowActionPending()) return;
 
-  const target = event.target as HTMLElement;
-  const container = target.closest(DB_COLLECTION_VIEW) as HTMLElement;
-  if (!container) return;
+  const grid = getGrid(event.currentTarget as HTMLElement);
+  if (!grid.active) return;
 
-  const info = parseTableView(container);
+  const info = parseTableView(grid.container);
   if (!info) return;
-
-  switch (event.key) {
-    case 'ArrowRight': {
-      event.preventDefault();
-      event.stopPropagation();
-      moveTo(info, currentRow, currentCol + 1);
-      break;
+  syncCurrentRow(grid, info);
+  const deleteRowId = grid.deleteRowId;
+  grid.deleteRowId = null;
+
+  const plain = !event.ctrlKey && !event.altKey && !event.metaKey && !event.shiftKey;
+  if (plain) {
+    let handled = true;
+    switch (event.key) {
+      case 'Enter':
+      case 'F2': handled = editCell(grid, info, false); break;
+      case ' ': handled = editCell(grid, info, true); break;
+      case 'r':
+      case 'R': readRow(grid, info); break;
+      case 'c':
+      case 'C': readColumn(grid, info); break;
+      case 'h':
+      case 'H': toggleRowHeader(grid, info); break;
+      case 'n':
+      case 'N': runRowAction(grid, info, 'insert'); break;
+      case 'd':
+      case 'D': runRowAction(grid, info, 'duplicate'); break;
+      case 'Delete': confirmDelete(grid, info, deleteRowId); break;
+      case 's':
+      case 'S': openSource(grid); break;
+      default: handled = false;
     }
-    case 'ArrowLeft': {
+    if (handled) {
       event.preventDefault();
       event.stopPropagation();
-      moveTo(info, currentRow, currentCol - 1);
-      break;
-    }
-    case 'ArrowDown': {
-      event.preventDefault();
-      event.stopPropagation();
-      moveTo(info, currentRow + 1, currentCol);
-      break;
-    }
-    case 'ArrowUp': {
-      event.preventDefault();
-      event.stopPropagation();
-      moveTo(info, currentRow - 1, currentCol);
-      break;
-    }
-    case 'Home': {
-      event.preventDefault();
-      event.stopPropagation();
-      if (event.ctrlKey) {
-        moveTo(info, 0, 0);
-      } else {
-        moveTo(info, currentRow, 0);
-      }
-      break;
-    }
-    case 'End': {
-      event.preventDefault();
-      event.stopPropagation();
-      const lastCol = info.headerCells.length - 1;
-      if (event.ctrlKey) {
-        moveTo(info, info.dataRows.length - 1, lastCol);
-      } else {
-        moveTo(info, currentRow, lastCol);
-      }
-      break;
-    }
-    case 'Escape': {
-      event.preventDefault();
-      event.stopPropagation();
-      exitGridMode(container);
-      break;
+      return;
     }
   }
+
+  const command = getGridCommand(event);
+  if (!command) return;
+
+  event.preventDefault();
+  event.stopPropagation();
+
+  const { currentRow, currentCol } = grid;
+  const lastRow = info.rowWindow.total - 1;
+  const lastCol = info.headerCells.length - 1;
+  switch (command) {
+    case 'right': moveTo(grid, info, currentRow, currentCol + 1); break;
+    case 'left': moveTo(grid, info, currentRow, currentCol - 1); break;
+    case 'down': moveTo(grid, info, currentRow + 1, currentCol); break;
+    case 'up': moveTo(grid, info, currentRow - 1, currentCol); break;
+    case 'rowStart': moveTo(grid, info, currentRow, 0); break;
+    case 'rowEnd': moveTo(grid, info, currentRow, lastCol); break;
+    case 'tableStart': moveTo(grid, info, 0, 0); break;
+    case 'tableEnd': moveTo(grid, info, lastRow, lastCol); break;
+    case 'exit': exitGridMode(grid); break;
+  }
 }
 
-function moveTo(info: TableInfo, row: number, col: number): void {
+/** `note` wraps the announcement, e.g. to say a row was just inserted */
+function moveTo(grid: TableGrid, info: TableInfo, row: number, col: number, note?: MessageKey): void {
   // Clamp
-  if (row < 0 || row >= info.dataRows.length) return;
-  if (col < 0 || col >= info.headerCells.length) return;
+  if (row < HEADER_ROW || col < 0 || col >= info.headerCells.length) {
+    playEarcon('boundary');
+    return;
+  }
+  if (row >= info.rowWindow.total) {
+    if (!(info.hasMore && loadMoreRows(grid, row, col))) playEarcon('boundary');
+    return;
+  }
+  if (row !== HEADER_ROW && !getRow(info, row)) {
+    scrollToRow(grid, info, row, col);
+    return;
+  }
 
-  currentRow = row;
-  currentCol = col;
+  const rowId = getRow(info, row)?.getAttribute('data-block-id') ?? null;
+  // A deleted row's place is taken by another record
+  const rowChanged = row !== grid.currentRow || rowId !== grid.currentRowId;
+  grid.currentRow = row;
+  grid.currentRowId = rowId;
+  grid.currentCol = col;
+
+  if (row === HEADER_ROW) {
+    const rules = applyViewRules(info);
+    info.headerCells[col].focus();
+    const message = describeHeader(info, col, rules);
+    announce(note ? t(note, { cell: message }) : message, { interrupt: true, source: MODULE });
+    return;
+  }
 
-  const cells = info.getRowCells(info.dataRows[row]);
+  const cells = info.getRowCells(getRow(info, row)!);
   const cell = cells[col];
   if (cell) {
     cell.focus();
-    const label = cell.getAttribute('aria-label') ?? '';
-    announce(label);
+    const colName = getColumnName(info, col);
+    const value = getCellValue(cell);
+    let message = formatGridCell(colName, value, row, col, info.rowWindow.total, info.headerCells.length);
+    // Say which record this is before the cell itself
+    const headers = rowChanged ? getRowHeaderIndexes(grid, info, col) : [];
+    if (headers.length > 0) message = `${readCells(info, row, headers).join(', ')}, ${message}`;
+    if (info.hasMore && row === info.rowWindow.total - 1) message += `, ${t('gridMoreRows')}`;
+    announce(note ? t(note, { cell: message }) : message, { interrupt: true, source: MODULE });
   }
 }
 
-function exitGridMode(container: HTMLElement): void {
-  gridModeActive = false;
-  container.removeEventListener('keydown', handleGridKeydown, true);
-  container.focus();
-  announce('グリッドモード終了');
+// ─── Virtual Scroll ──────────────────────────────────────────
+
+/**
+ * Find the current row again by its block id: Notion re-renders and
+ * recycles rows while scrolling, so the index alone can go stale.
+ */
+function syncCurrentRow(grid: TableGrid, info: TableInfo): void {
+  if (grid.currentRow === HEADER_ROW || !grid.currentRowId) return;
+  const index = info.dataRows.findIndex((row) => row.getAttribute('data-block-id') === grid.currentRowId);
+  if (index >= 0) grid.currentRow = info.rowWindow.first + index;
+}
+
+/** Scroll a loaded but unrendered row into Notion's window, then move */
+function scrollToRow(grid: TableGrid, info: TableInfo, row: number, col: number): void {
+  const { first } = info.rowWindow;
+  const last = first + info.dataRows.length - 1;
+  scrollByRows(info.container, info.rowWindow, row < first ? row - first : row - last);
+  retryMove(grid, row, col, ROW_RENDER_MS);
+}
+
+/** Press "Load more" for rows past the loaded ones, then move */
+function loadMoreRows(grid: TableGrid, row: number, col: number): boolean {
+  const button = findLoadMoreButton(grid.container);
+  if (!button) return false;
+  button.click();
+  announce(t('gridLoadingMore'), { interrupt: true, source: MODULE });
+  retryMove(grid, row, col, LOAD_MORE_MS);
+  return true;
+}
+
+/**
+ * Try the move again once Notion has rendered the row; the boundary
+ * sound says it never came.
+ */
+function retryMove(grid: TableGrid, row: number, col: number, delay: number): void {
+  if (grid.retryTimer) clearTimeout(grid.retryTimer);
+  grid.retryTimer = setTimeout(() => {
+    grid.retryTimer = null;
+    if (!grid.active) return;
+    // The rows may render before the virtual scroll watcher has labelled them
+    reEnhanceVisibleRows(grid.container);
+    const info = parseTableView(grid.container);
+    if (!info) return;
+    if (getRow(info, row)) moveTo(grid, info, row, col);
+    else playEarcon('boundary');
+  }, delay);
+}
+
+// ─── Row and Column Reading ──────────────────────────────────
+
+/** Row header columns other than `col`, in table order */
+function getRowHeaderIndexes(grid: TableGrid, info: TableInfo, col: number): number[] {
+  return info.headerCells
+    .map((_, i) => i)
+    .filter((i) => i !== col && grid.rowHeaders.has(getColumnName(info, i)));
+}
+
+/** "column: value" for each of `cols` in data row `row` */
+function readCells(info: TableInfo, row: number, cols: number[]): string[] {
+  const rowEl = getRow(info, row);
+  const cells = rowEl ? info.getRowCells(rowEl) : [];
+  return cols.map((col) => {
+    const value = cells[col] ? getCellValue(cells[col]) : '';
+    return `${getColumnName(info, col)}: ${value || t('empty')}`;
+  });
+}
+
+function readRow(grid: TableGrid, info: TableInfo): void {
+  if (grid.currentRow === HEADER_ROW) {
+    playEarcon('boundary');
+    return;
+  }
+  const cells = readCells(info, grid.currentRow, info.headerCells.map((_, i) => i));
+  announce(formatGridRow(cells, grid.currentRow, info.rowWindow.total), { interrupt: true, source: MODULE });
+}
+
+function readColumn(grid: TableGrid, info: TableInfo): void {
+  const values = info.dataRows.map((row) => {
+    const cell = info.getRowCells(row)[grid.currentCol];
+    return cell ? getCellValue(cell) : '';
+  });
+  // Virtual scroll renders part of the table; the summary says it covers only that part
+  const partial = info.hasMore || values.length < info.rowWindow.total;
+  const total = info.hasMore ? `${info.rowWindow.total}+` : info.rowWindow.total;
+  announce(
+    formatGridColumn(getColumnName(info, grid.currentCol), values, partial ? total : undefined),
+    { interrupt: true, source: MODULE },
+  );
+}
+
+/**
+ * Add the current column to the row header columns, or remove it.
+ */
+function toggleRowHeader(grid: TableGrid, info: TableInfo): void {
+  const columns = grid.rowHeaders;
+  const name = getColumnName(info, grid.currentCol);
+  if (columns.delete(name)) {
+    announce(t('rowHeaderRemoved', { column: name }), { interrupt: true, source: MODULE });
+  } else {
+    columns.add(name);
+    announce(t('rowHeaderAdded', { column: name }), { interrupt: true, source: MODULE });
+  }
+  logDebug(MODULE, `Row header columns: ${[...columns].join(', ') || 'none'}`);
+}
+
+/** Header announcement: name, property type and sort direction */
+function describeHeader(info: TableInfo, col: number, rules: ViewRules): string {
+  const name = getColumnName(info, col);
+  const direction = getSortDirection(rules, name);
+  return formatColumnHeader(
+    name,
+    getPropertyType(info.headerCells[col]),
+    direction && formatSortDirection(direction),
+    col,
+    info.headerCells.length,
+  );
+}
+
+// ─── Cell Editing ────────────────────────────────────────────
+
+/**
+ * Start editing the current cell: Enter/F2 opens Notion's editor (on a
+ * header, the property menu), Space toggles a checkbox. Returns false
+ * when the key has nothing to do here.
+ */
+function editCell(grid: TableGrid, info: TableInfo, spaceKey: boolean): boolean {
+  const { currentRow, currentCol } = grid;
+  if (currentRow === HEADER_ROW) {
+    const header = info.headerCells[currentCol];
+    if (!header || spaceKey) return false;
+    openColumnMenu(header, getColumnName(info, currentCol), () => returnToHeader(grid));
+    return true;
+  }
+
+  const row = getRow(info, currentRow);
+  const cell = row ? info.getRowCells(row)[currentCol] : undefined;
+  if (!row || !cell) return false;
+
+  const header = info.headerCells[currentCol];
+  const kind = getCellKind(header, cell);
+  const rowId = row.getAttribute('data-block-id');
+  if (kind === 'checkbox') {
+    toggleCheckboxCell(cell, () => returnToCell(grid, rowId, false));
+    return true;
+  }
+  if (spaceKey) return false;
+
+  const colName = getColumnName(info, currentCol);
+  openCellEditor(cell, kind, colName, () => returnToCell(grid, rowId, true));
+  return true;
+}
+
+/**
+ * Focus the edited cell again (Notion may have re-rendered its row),
+ * refresh its label and announce the value it now holds.
+ */
+function returnToCell(grid: TableGrid, rowId: string | null, edited: boolean): void {
+  if (!grid.active) return;
+  const info = parseTableView(grid.container);
+  if (!info) return;
+
+  const rowIndex = info.dataRows.findIndex((row) => row.getAttribute('data-block-id') === rowId);
+  if (rowIndex >= 0) grid.currentRow = info.rowWindow.first + rowIndex;
+  const { currentRow, currentCol } = grid;
+  const row = getRow(info, currentRow);
+  const cell = row ? info.getRowCells(row)[currentCol] : undefined;
+  if (!cell) return;
+
+  const colName = getColumnName(info, currentCol);
+  const value = getCellValue(cell);
+  cell.setAttribute('aria-label', `${colName}: ${value || t('empty')}`);
+  setBrailleLabel(cell, formatBrailleCell(colName, value));
+  cell.focus();
+
+  const message = formatGridCell(colName, value, currentRow, currentCol, info.rowWindow.total, info.headerCells.length);
+  announce(edited ? t('cellEditEnd', { cell: message }) : message, { interrupt: true, source: MODULE });
+}
+
+/**
+ * Open the source database of a linked view. Grid mode ends, as Notion
+ * navigates away from the page.
+ */
+function openSource(grid: TableGrid): void {
+  if (openLinkedSource(grid.container)) stopGrid(grid);
+}
+
+// ─── Row Actions ─────────────────────────────────────────────
+
+type RowAction = 'insert' | 'duplicate' | 'delete';
+
+const ROW_ACTION_DONE: Record<RowAction, MessageKey> = {
+  insert: 'rowInserted',
+  duplicate: 'rowDuplicated',
+  delete: 'rowDeleted',
+};
+
+/** Row name for announcements: the value in its first column */
+function getRowTitle(info: TableInfo, row: number): string {
+  const rowEl = getRow(info, row);
+  const cell = rowEl ? info.getRowCells(rowEl)[0] : undefined;
+  return (cell && getCellValue(cell)) || t('empty');
+}
+
+/**
+ * The first Delete says which row would go; a second Delete straight
+ * after deletes it.
+ */
+function confirmDelete(grid: TableGrid, info: TableInfo, armedRowId: string | null): void {
+  if (grid.currentRow === HEADER_ROW) {
+    playEarcon('boundary');
+    return;
+  }
+  if (armedRowId && armedRowId === grid.currentRowId) {
+    runRowAction(grid, info, 'delete');
+    return;
+  }
+  grid.deleteRowId = grid.currentRowId;
+  announce(t('rowDeleteConfirm', { row: getRowTitle(info, grid.currentRow) }), { interrupt: true, source: MODULE });
+}
+
+function runRowAction(grid: TableGrid, info: TableInfo, action: RowAction): void {
+  const row = getRow(info, grid.currentRow);
+  if (grid.currentRow === HEADER_ROW || !row) {
+    playEarcon('boundary');
+    return;
+  }
+
+  const before = new Set(info.dataRows.map((el) => el.getAttribute('data-block-id')));
+  const onDone = (done: boolean): void => {
+    if (done) afterRowAction(grid, action, before);
+    else announce(t('rowActionUnavailable'), { interrupt: true, source: MODULE });
+  };
+  switch (action) {
+    case 'insert': insertRow(row, grid.container, onDone); break;
+    case 'duplicate': duplicateRow(row, onDone); break;
+    case 'delete': deleteRow(row, onDone); break;
+  }
+}
+
+/**
+ * Move to where the action left the table: the new row (its first
+ * column when inserted), or the row that took the deleted row's place.
+ */
+function afterRowAction(grid: TableGrid, action: RowAction, before: Set<string | null>): void {
+  if (!grid.active) return;
+  reEnhanceVisibleRows(grid.container);
+  const info = parseTableView(grid.container);
+  if (!info) return;
+  const note = ROW_ACTION_DONE[action];
+
+  if (action === 'delete') {
+    if (info.dataRows.some((row) => row.getAttribute('data-block-id') === grid.currentRowId)) {
+      announce(t('rowActionUnconfirmed'), { interrupt: true, source: MODULE });
+      return;
+    }
+    // The header is all that is left of an emptied table
+    moveTo(grid, info, Math.min(grid.currentRow, info.rowWindow.total - 1), grid.currentCol, note);
+    return;
+  }
+
+  const index = info.dataRows.findIndex((row) => !before.has(row.getAttribute('data-block-id')));
+  if (index < 0) {
+    announce(t('rowActionUnconfirmed'), { interrupt: true, source: MODULE });
+    return;
+  }
+  moveTo(grid, info, info.rowWindow.first + index, action === 'insert' ? 0 : grid.currentCol, note);
+}
+
+/**
+ * Focus the header again after its menu closed; the sort may have changed.
+ */
+function returnToHeader(grid: TableGrid): void {
+  if (!grid.active) return;
+  const info = parseTableView(grid.container);
+  const header = info?.headerCells[grid.currentCol];
+  if (!info || !header) return;
+
+  const rules = applyViewRules(info);
+  header.focus();
+  announce(describeHeader(info, grid.currentCol, rules), { interrupt: true, source: MODULE });
+}
+
+/** Detach the grid's keys; its cursor stays for the next visit */
+function stopGrid(grid: TableGrid): void {
+  grid.active = false;
+  grid.deleteRowId = null;
+  grid.container.removeEventListener('keydown', handleGridKeydown, true);
+  if (grid.retryTimer) clearTimeout(grid.retryTimer);
+  grid.retryTimer = null;
+}
+
+function exitGridMode(grid: TableGrid): void {
+  stopGrid(grid);
+  destroyCellEditor();
+  destroyRowActions();
+  grid.container.focus();
+  playEarcon('gridModeEnd');
+  announce(t('gridModeEnd'), { source: MODULE });
   logDebug(MODULE, 'Grid mode exited');
 }
 
 export function destroyTableEnhancer(): void {
-  tableBodyObserver?.disconnect();
-  tableBodyObserver = null;
-  gridModeActive = false;
+  for (const grid of grids.values()) {
+    stopGrid(grid);
+    grid.bodyObserver?.disconnect();
+  }
+  grids.clear();
+  destroyCellEditor();
+  destroyRowActions();
+  destroyBoardNavigator();
+  destroyCalendarNavigator();
+  destroyGalleryNavigator();
+  removeGalleryRows();
+  destroyTimelineNavigator();
 }
@@ -0,0 +1,297 @@
+/**
+ * Timeline View Reading and Navigation
+ *
+ * A timeline shows each item's dates only as the position and length of
+ * its bar. The scale is read back from the header (month label plus the
+ * day ticks) so every bar can be turned into a start date, end date and
+ * duration, and items are offered as a chronological list:
+ * "企画、10月19日(月)〜10月23日(金)、5日間".
+ *
+ * Timeline mode (Alt+Shift+D on a timeline):
+ * - ↑/↓: previous/next item by start date; Home/End: first/last item
+ * - Enter: open the item
+ * - Shift+←/→: shift the item's dates by a day; Ctrl+Shift+←/→: by a week
+ * - Escape: leave timeline mode
+ *
+ * Shifting replays a mouse drag of the bar (grabbed in the middle, which
+ * moves it rather than resizing it) and then reads the new dates back.
+ */
+
+import { logDebug } from '../shared/logger';
+import { t } from '../shared/i18n';
+import { DB_COLLECTION_VIEW, DB_TIMELINE_MONTH_LABEL, DB_TIMELINE_DAY_MARK } from './selectors';
+import { announce } from './live-announcer';
+import { playEarcon } from './earcons';
+import { getGridCommand } from './sr-profile';
+import { openLinkedSource } from './db-source';
+import { addDays, daysBetween, parseMonthLabel, formatShortDate } from './dates';
+import { protect, dispatchMouse } from './dom-events';
+
+const MODULE = 'TimelineNavigator';
+
+const ITEM_SELECTOR = '.notion-collection-item';
+const DAYS_PER_WEEK = 7;
+/** Time for Notion to re-render the bar after a drop (ms) */
+const DROP_SETTLE_MS = 500;
+
+interface TimelineScale {
+  /** Date of the leftmost day tick */
+  origin: Date;
+  /** Left edge of that tick (px) */
+  originX: number;
+  pxPerDay: number;
+}
+
+interface TimelineItem {
+  element: HTMLElement;
+  title: string;
+  /** Null when the scale cannot be read */
+  start: Date | null;
+  end: Date | null;
+}
+
+let timelineView: HTMLElement | null = null;
+/** Focused item, kept by element so re-sorting after a shift follows it */
+let currentItem: HTMLElement | null = null;
+let shiftTimer: ReturnType<typeof setTimeout> | null = null;
+
+// ─── Scale ───────────────────────────────────────────────────
+
+/**
+ * Map between x positions and dates, from the first month label and the
+ * day ticks. Tick numbers rise along the scale; a drop starts a new month.
+ */
+function readScale(view: HTMLElement): TimelineScale | null {
+  const scope = view.closest(DB_COLLECTION_VIEW) ?? view;
+  const month = parseMonthLabel(scope.querySelector(DB_TIMELINE_MONTH_LABEL)?.textContent ?? '');
+  if (!month) return null;
+
+  const marks = Array.from(scope.querySelectorAll<HTMLElement>(DB_TIMELINE_DAY_MARK))
+    .map((mark) => ({ day: parseInt(mark.textContent?.trim() ?? '', 10), x: mark.getBoundingClientRect().left }))
+    .filter((mark) => mark.day >= 1 && mark.day <= 31)
+    .sort((a, b) => a.x - b.x);
+  if (marks.length < 2) return null;
+
+  let monthOffset = 0;
+  const dates = marks.map((mark, i) => {
+    if (i > 0 && mark.day <= marks[i - 1].day) monthOffset++;
+    return new Date(month.getFullYear(), month.getMonth() + monthOffset, mark.day);
+  });
+  const days = daysBetween(dates[0], dates[dates.length - 1]);
+  if (days <= 0) return null;
+
+  return {
+    origin: dates[0],
+    originX: marks[0].x,
+    pxPerDay: (marks[marks.length - 1].x - marks[0].x) / days,
+  };
+}
+
+function dateAt(scale: TimelineScale, x: number): Date {
+  return addDays(scale.origin, Math.round((x - scale.originX) / scale.pxPerDay));
+}
+
+/** Timeline items sorted by start (bar position), then top to bottom */
+function readItems(view: HTMLElement): TimelineItem[] {
+  const scale = readScale(view);
+  return Array.from(view.querySelectorAll<HTMLElement>(ITEM_SELECTOR))
+    .map((element) => ({ element, rect: element.getBoundingClientRect() }))
+    .sort((a, b) => a.rect.left - b.rect.left || a.rect.top - b.rect.top)
+    .map(({ element, rect }) => ({
+      element,
+      title: element.textContent?.replace(/\s+/g, ' ').trim().substring(0, 50) || t('empty'),
+      start: scale ? dateAt(scale, rect.left) : null,
+      // The bar ends at the right edge of its last day
+      end: scale ? addDays(dateAt(scale, rect.right), -1) : null,
+    }));
+}
+
+function describeItem(item: TimelineItem): string {
+  if (!item.start || !item.end) return t('timelineItemNoDates', { title: item.title });
+  const days = daysBetween(item.start, item.end) + 1;
+  if (days <= 1) return t('timelineItemOneDay', { title: item.title, date: formatShortDate(item.start) });
+  return t('timelineItem', {
+    title: item.title,
+    start: formatShortDate(item.start),
+    end: formatShortDate(item.end),
+    days,
+  });
+}
+
+/**
+ * Label each item with its date range and its place in start-date order.
+ */
+export function labelTimelineItems(view: HTMLElement): void {
+  const items = readItems(view);
+  items.forEach((item, i) => {
+    item.element.setAttribute('aria-label', describeItem(item));
+    item.element.setAttribute('aria-posinset', String(i + 1));
+    item.element.setAttribute('aria-setsize', String(items.length));
+    protect(item.element);
+  });
+  logDebug(MODULE, `Labeled ${items.length} timeline items`);
+}
+
+// ─── Navigation ──────────────────────────────────────────────
+
+function focusItem(items: TimelineItem[], index: number): string {
+  const item = items[index];
+  currentItem = item.element;
+  if (!item.element.hasAttribute('tabindex')) item.element.setAttribute('tabindex', '-1');
+  item.element.focus();
+  return `${describeItem(item)} (${index + 1}/${items.length})`;
+}
+
+function moveTo(view: HTMLElement, index: number): void {
+  const items = readItems(view);
+  const current = items.findIndex((item) => item.element === currentItem);
+  if (index < 0 || index >= items.length || index === current) {
+    playEarcon('boundary');
+    return;
+  }
+  announce(focusItem(items, index), { interrupt: true, source: MODULE });
+}
+
+function openItem(view: HTMLElement): void {
+  const item = readItems(view).find((i) => i.element === currentItem);
+  if (!item) return;
+  (item.element.querySelector<HTMLElement>('a[href]') ?? item.element).click();
+  announce(t('pageOpened', { title: item.title }), { source: MODULE });
+}
+
+/**
+ * Drag the current item's bar `days` days along the scale.
+ */
+function shiftItem(view: HTMLElement, days: number): void {
+  const scale = readScale(view);
+  const item = readItems(view).find((i) => i.element === currentItem);
+  if (!item) return;
+  if (!scale || !item.start) {
+    announce(t('timelineNoScale'), { source: MODULE });
+    return;
+  }
+
+  const bar = item.element;
+  const rect = bar.getBoundingClientRect();
+  const x = rect.left + rect.width / 2;
+  const y = rect.top + rect.height / 2;
+  const dx = days * scale.pxPerDay;
+  dispatchMouse(bar, 'mousedown', x, y);
+  dispatchMouse(bar, 'mousemove', x + dx / 2, y);
+  dispatchMouse(bar, 'mousemove', x + dx, y);
+  dispatchMouse(bar, 'mouseup', x + dx, y);
+  logDebug(MODULE, `Dragged bar by ${days} days`);
+
+  const blockId = bar.getAttribute('data-block-id');
+  const previousStart = item.start;
+  if (shiftTimer) clearTimeout(shiftTimer);
+  shiftTimer = setTimeout(() => {
+    shiftTimer = null;
+    if (timelineView !== view) return;
+
+    const items = readItems(view);
+    // Notion may re-render the bar as a new element
+    const index = items.findIndex((i) => i.element === bar
+      || (blockId !== null && i.element.getAttribute('data-block-id') === blockId));
+    const shifted = items[index];
+    if (!shifted?.start || daysBetween(previousStart, shifted.start) !== days) {
+      announce(t('timelineShiftFailed', { title: item.title }), { priority: 'assertive', source: MODULE });
+      return;
+    }
+    labelTimelineItems(view);
+    announce(t('timelineShifted', { item: focusItem(items, index) }), { source: MODULE });
+  }, DROP_SETTLE_MS);
+}
+
+function handleTimelineKeydown(event: KeyboardEvent): void {
+  const view = timelineView;
+  if (!view) return;
+
+  const arrow = event.key === 'ArrowLeft' || event.key === 'ArrowRight';
+  if (arrow && event.shiftKey && !event.altKey && !event.metaKey) {
+    event.preventDefault();
+    event.stopPropagation();
+    const step = event.ctrlKey ? DAYS_PER_WEEK : 1;
+    shiftItem(view, event.key === 'ArrowRight' ? step : -step);
+    return;
+  }
+  const plain = !event.ctrlKey && !event.altKey && !event.metaKey && !event.shiftKey;
+  if (plain && event.key === 'Enter') {
+    event.preventDefault();
+    event.stopPropagation();
+    openItem(view);
+    return;
+  }
+  if (plain && (event.key === 's' || event.key === 'S')) {
+    event.preventDefault();
+    event.stopPropagation();
+    if (openLinkedSource(view)) destroyTimelineNavigator();
+    return;
+  }
+
+  const command = getGridCommand(event);
+  // The list is one-dimensional; ←/→ keep scrolling the timeline
+  if (!command || command === 'left' || command === 'right') return;
+
+  event.preventDefault();
+  event.stopPropagation();
+
+  const items = readItems(view);
+  const current = items.findIndex((item) => item.element === currentItem);
+  switch (command) {
+    case 'down': moveTo(view, current + 1); break;
+    case 'up': moveTo(view, current - 1); break;
+    case 'rowStart':
+    case 'tableStart': moveTo(view, 0); break;
+    case 'rowEnd':
+    case 'tableEnd': moveTo(view, items.length - 1); break;
+    case 'exit': exitTimelineMode(); break;
+  }
+}
+
+// ─── Public API ──────────────────────────────────────────────
+
+/**
+ * Enter timeline mode on `view`, starting at the focused item or the one
+ * that starts first.
+ */
+export function enterTimelineMode(view: HTMLElement): void {
+  const items = readItems(view);
+  if (items.length === 0) {
+    announce(t('timelineEmpty'), { source: MODULE });
+    return;
+  }
+
+  destroyTimelineNavigator();
+  timelineView = view;
+  view.addEventListener('keydown', handleTimelineKeydown, true);
+  labelTimelineItems(view);
+
+  const active = (document.activeElement as HTMLElement | null)?.closest<HTMLElement>(ITEM_SELECTOR);
+  const start = Math.max(items.findIndex((item) => item.element === active), 0);
+  playEarcon('gridModeStart');
+  announce(t('timelineModeStart', { position: focusItem(items, start) }), { source: MODULE });
+  logDebug(MODULE, `Timeline mode entered: ${items.length} items`);
+}
+
+export function exitTimelineMode(): void {
+  const view = timelineView;
+  if (!view) return;
+  destroyTimelineNavigator();
+  (view.closest<HTMLElement>(DB_COLLECTION_VIEW) ?? view).focus();
+  playEarcon('gridModeEnd');
+  announce(t('timelineModeEnd'), { source: MODULE });
+  logDebug(MODULE, 'Timeline mode exited');
+}
+
+export function isTimelineModeActive(): boolean {
+  return timelineView !== null;
+}
+
+export function destroyTimelineNavigator(): void {
+  timelineView?.removeEventListener('keydown', handleTimelineKeydown, true);
+  timelineView = null;
+  currentItem = null;
+  if (shiftTimer) clearTimeout(shiftTimer);
+  shiftTimer = null;
+}
@@ -10,12 +10,17 @@
 
 import { EXTENSION_ATTR } from '../shared/constants';
 import { logDebug } from '../shared/logger';
+import { t } from '../shared/i18n';
 import { SIDEBAR_NAV, TREE, TREE_ITEM } from './selectors';
 import { announce } from './live-announcer';
+import { formatTreeItem } from './announcement-formatter';
+import { protect } from './dom-events';
 
 const MODULE = 'TreeEnhancer';
 
 let initialized = false;
+/** Sidebar element the keydown listener is attached to (Notion may re-render it) */
+let sidebarElement: Element | null = null;
 let typeAheadBuffer = '';
 let typeAheadTimer: ReturnType<typeof setTimeout> | null = null;
 const TYPE_AHEAD_TIMEOUT = 500; // ms to wait before clearing buffer
@@ -62,7 +67,7 @@ function getCleanPageName(treeItem: Element): string {
     }
   }
 
-  return 'ページ';
+  return t('page');
 }
 
 /**
@@ -121,7 +126,7 @@ export function enhanceTreeItems(): void {
     }
 
     item.setAttribute(EXTENSION_ATTR, 'tree');
-    item.dispatchEvent(new CustomEvent('accessible-notion-protect', { bubbles: false }));
+    protect(item);
   }
 
   // Ensure at least one item has tabindex="0" for keyboard accessibility
@@ -157,17 +162,7 @@ function focusTreeItem(item: HTMLElement): void {
   item.setAttribute('tabindex', '0');
   item.focus();
 
-  const name = item.getAttribute('aria-label') ?? '';
-  const level = item.getAttribute('aria-level') ?? '1';
-  const expanded = item.getAttribute('aria-expanded');
-  const selected = item.getAttribute('aria-selected') === 'true';
-
-  let announcement = `${name}, レベル${level}`;
-  if (expanded === 'true') announcement += ', 展開';
-  else if (expanded === 'false') announcement += ', 折りたたみ';
-  if (selected) announcement += ', 選択済み';
-
-  announce(announcement);
+  announce(formatTreeItem(item), { interrupt: true, source: MODULE });
 }
 
 /**
@@ -209,7 +204,7 @@ function handleTreeKeydown(event: KeyboardEvent): void {
         // Expand: click the toggle/disclosure button
         const toggle = currentItem.querySelector('[role="button"], button, svg');
         if (toggle) (toggle as HTMLElement).click();
-        announce('展開');
+        announce(t('expanded'), { source: MODULE });
       } else if (expanded === 'true') {
         // Move to first child
         const next = items[currentIndex + 1];
@@ -230,7 +225,7 @@ function handleTreeKeydown(event: KeyboardEvent): void {
         // Collapse
         const toggle = currentItem.querySelector('[role="button"], button, svg');
         if (toggle) (toggle as HTMLElement).click();
-        announce('折りたたみ');
+        announce(t('collapsed'), { source: MODULE });
       } else {
         // Move to parent
         const currentLevel = parseInt(currentItem.getAttribute('aria-level') ?? '1');
@@ -266,7 +261,7 @@ function handleTreeKeydown(event: KeyboardEvent): void {
       event.stopPropagation();
       // Treeitem itself is typically an <a> tag — click it directly
       currentItem.click();
-      announce(`${currentItem.getAttribute('aria-label') ?? 'ページ'} を開きました`);
+      announce(t('pageOpened', { title: currentItem.getAttribute('aria-label') ?? t('page') }), { source: MODULE });
       // After navigation, focus will be handled by page load
       setTimeout(() => {
         const mainFrame = document.querySelector('main.notion-frame') as HTMLElement | null;
@@ -316,7 +311,7 @@ function handleTypeAhead(char: string, items: HTMLElement[], currentIndex: numbe
   if (typeAheadBuffer.length === 1) {
     // Single char with no match — silently fail
   } else {
-    announce('一致なし');
+    announce(t('noMatch'), { source: MODULE });
   }
 }
 
@@ -337,6 +332,7 @@ export function initTreeEnhancer(): void {
 
   // Keyboard handler on the sidebar
   sidebar.addEventListener('keydown', handleTreeKeydown as EventListener, true);
+  sidebarElement = sidebar;
 
   // Set initial roving tabindex: first item gets tabindex=0
   const items = getVisibleTreeItems();
@@ -352,9 +348,10 @@ export function initTreeEnhancer(): void {
 }
 
 export function destroyTreeEnhancer(): void {
-  const sidebar = document.querySelector(SIDEBAR_NAV);
-  if (sidebar) {
-    sidebar.removeEventListener('keydown', handleTreeKeydown as EventListener, true);
-  }
+  sidebarElement?.removeEventListener('keydown', handleTreeKeydown as EventListener, true);
+  sidebarElement = null;
+  if (typeAheadTimer) clearTimeout(typeAheadTimer);
+  typeAheadTimer = null;
+  typeAheadBuffer = '';
   initialized = false;
 }
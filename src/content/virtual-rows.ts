@@ -0,0 +1,70 @@
+/**
+ * Virtual Scroll Row Positions
+ *
+ * Notion renders only the table rows near the viewport. The rows it skips
+ * keep their room as empty spacer elements around the rendered ones, so
+ * the spacer heights, in row heights, give the absolute index of the
+ * first rendered row and the number of loaded rows. Beyond the loaded
+ * rows a "Load more" button fetches the next page.
+ *
+ *   rows container
+ *     > div (empty spacer: rows above the window)
+ *     > .notion-collection-item* (rendered rows)
+ *     > div (empty spacer: rows below the window)
+ */
+
+import { SCROLLER } from './selectors';
+
+const ROW_SELECTOR = '.notion-collection-item';
+const LOAD_MORE_TEXT = /^(さらに読み込む|Load more)/i;
+
+export interface RowWindow {
+  /** Absolute index of the first rendered row */
+  first: number;
+  /** Loaded rows, rendered or not */
+  total: number;
+  /** Average rendered row height (px); 0 without layout */
+  rowHeight: number;
+}
+
+/** Height of the empty spacers between `from` and the next row */
+function spacerHeight(from: Element | null, next: (el: Element) => Element | null): number {
+  let height = 0;
+  for (let el = from; el && !el.matches(ROW_SELECTOR); el = next(el)) {
+    if (el.childElementCount === 0 && !el.textContent?.trim()) height += el.getBoundingClientRect().height;
+  }
+  return height;
+}
+
+/**
+ * Where the rendered `rows` sit among all loaded rows. Without layout
+ * (row height 0) the rendered rows are taken to be all of them.
+ */
+export function measureRows(rows: HTMLElement[]): RowWindow {
+  if (rows.length === 0) return { first: 0, total: 0, rowHeight: 0 };
+
+  const heights = rows.map((row) => row.getBoundingClientRect().height);
+  const rowHeight = heights.reduce((sum, h) => sum + h, 0) / rows.length;
+  if (rowHeight <= 0) return { first: 0, total: rows.length, rowHeight: 0 };
+
+  const above = spacerHeight(rows[0].previousElementSibling, (el) => el.previousElementSibling);
+  const below = spacerHeight(rows[rows.length - 1].nextElementSibling, (el) => el.nextElementSibling);
+  const first = Math.round(above / rowHeight);
+  return { first, total: first + rows.length + Math.round(below / rowHeight), rowHeight };
+}
+
+/** Notion's "Load more" button under the last loaded row, if any */
+export function findLoadMoreButton(tableView: HTMLElement): HTMLElement | null {
+  const buttons = tableView.querySelectorAll<HTMLElement>('[role="button"]');
+  return Array.from(buttons).find((button) => LOAD_MORE_TEXT.test(button.textContent?.trim() ?? '')) ?? null;
+}
+
+/**
+ * Scroll Notion's list by `rows` row heights (negative: up) so the rows
+ * there get rendered.
+ */
+export function scrollByRows(tableView: HTMLElement, layout: RowWindow, rows: number): void {
+  const scroller = tableView.closest<HTMLElement>(SCROLLER) ?? document.scrollingElement as HTMLElement | null;
+  if (!scroller || layout.rowHeight <= 0) return;
+  scroller.scrollTop += rows * layout.rowHeight;
+}
@@ -0,0 +1,113 @@
+/**
+ * F-08: Options Page — Entry Point
+ *
+ * Loads the current settings, renders the form and saves every valid
+ * change immediately. Content scripts pick changes up through
+ * chrome.storage.onChanged, so no reload of Notion is needed.
+ */
+
+import { DEFAULT_SETTINGS, type ExtensionSettings } from '../shared/constants';
+import { loadSettings, saveSettings, mergeWithDefaults } from '../shared/storage';
+import { t, setLocale, resolveLocale, type MessageKey } from '../shared/i18n';
+import { logError } from '../shared/logger';
+import { renderSettingsForm, fillSettingsForm, readSettingsForm, showFieldErrors } from './settings-form';
+
+const MODULE = 'Options';
+
+let current: ExtensionSettings = mergeWithDefaults({});
+
+function setStatus(message: string): void {
+  const status = document.getElementById('status');
+  if (!status) return;
+  // Clear first so repeating the same message is announced again
+  status.textContent = '';
+  setTimeout(() => {
+    status.textContent = message;
+  }, 50);
+}
+
+/**
+ * Translate the static page text marked with data-i18n / data-i18n-aria-label.
+ */
+function applyLocale(settings: ExtensionSettings): void {
+  const locale = resolveLocale(settings.language);
+  setLocale(locale);
+  document.documentElement.lang = locale;
+  for (const el of document.querySelectorAll<HTMLElement>('[data-i18n]')) {
+    el.textContent = t(el.dataset.i18n as MessageKey);
+  }
+  for (const el of document.querySelectorAll<HTMLElement>('[data-i18n-aria-label]')) {
+    el.setAttribute('aria-label', t(el.dataset.i18nAriaLabel as MessageKey));
+  }
+}
+
+async function handleChange(form: HTMLFormElement): Promise<void> {
+  const { settings, errors } = readSettingsForm(form, current);
+  showFieldErrors(form, errors);
+
+  const errorCount = Object.keys(errors).length;
+  if (errorCount > 0) {
+    setStatus(t('optSaveErrors', { count: errorCount }));
+    return;
+  }
+
+  try {
+    await saveSettings(settings);
+    const languageChanged = settings.language !== current.language;
+    current = settings;
+    if (languageChanged) {
+      applyLocale(current);
+      renderSettingsForm(form, current);
+      form.querySelector<HTMLElement>('#opt-language')?.focus();
+    } else {
+      // Reflect normalized shortcut text (e.g. "alt+shift+s" → "Alt+Shift+S")
+      fillSettingsForm(form, current);
+    }
+    setStatus(t('optSaved'));
+  } catch (err) {
+    logError(MODULE, 'Failed to save settings:', err);
+    setStatus(t('optSaveFailed'));
+  }
+}
+
+async function handleReset(form: HTMLFormElement): Promise<void> {
+  if (!window.confirm(t('optResetConfirm'))) return;
+
+  const defaults = mergeWithDefaults({ ...DEFAULT_SETTINGS });
+  try {
+    await saveSettings(defaults);
+    current = defaults;
+    applyLocale(current);
+    renderSettingsForm(form, current);
+    setStatus(t('optResetDone'));
+  } catch (err) {
+    logError(MODULE, 'Failed to reset settings:', err);
+    setStatus(t('optSaveFailed'));
+  }
+}
+
+async function init(): Promise<void> {
+  const form = document.getElementById('settings-form') as HTMLFormElement | null;
+  const resetButton = document.getElementById('reset-settings');
+  if (!form) return;
+
+  current = await loadSettings();
+  applyLocale(current);
+  renderSettingsForm(form, current);
+
+  form.addEventListener('change', () => {
+    handleChange(form);
+  });
+  // Enter in a text field must not reload the page
+  form.addEventListener('submit', (e) => {
+    e.preventDefault();
+    handleChange(form);
+  });
+  resetButton?.addEventListener('click', () => {
+    handleReset(form);
+  });
+}
+
+document.addEventListener('DOMContentLoaded', () => {
+  init();
+});
@@ -0,0 +1,576 @@
+/**
+ * F-08: Settings Form
+ *
+ * Builds the options page form from ExtensionSettings and reads it back.
+ * Every control has a visible <label> (or a <fieldset>/<legend> for groups),
+ * and validation errors are exposed via aria-invalid + aria-describedby so
+ * screen readers announce them together with the field.
+ */
+
+import { DEFAULT_SETTINGS, type ExtensionSettings } from '../shared/constants';
+import { t, type MessageKey } from '../shared/i18n';
+
+type ScreenReader = ExtensionSettings['screenReader'];
+type Verbosity = ExtensionSettings['verbosity'];
+type Language = ExtensionSettings['language'];
+type FeatureKey = keyof ExtensionSettings['features'];
+
+export const SCREEN_READER_OPTIONS: { value: ScreenReader; label: MessageKey }[] = [
+  { value: 'nvda', label: 'optScreenReaderNvda' },
+  { value: 'jaws', label: 'optScreenReaderJaws' },
+  { value: 'voiceover', label: 'optScreenReaderVoiceOver' },
+  { value: 'other', label: 'optScreenReaderOther' },
+];
+
+export const VERBOSITY_OPTIONS: { value: Verbosity; label: MessageKey; hint: MessageKey }[] = [
+  { value: 'minimal', label: 'optVerbosityMinimal', hint: 'optVerbosityMinimalHint' },
+  { value: 'standard', label: 'optVerbosityStandard', hint: 'optVerbosityStandardHint' },
+  { value: 'verbose', label: 'optVerbosityVerbose', hint: 'optVerbosityVerboseHint' },
+];
+
+export const LANGUAGE_OPTIONS: { value: Language; label: MessageKey }[] = [
+  { value: 'auto', label: 'optLanguageAuto' },
+  { value: 'ja', label: 'optLanguageJa' },
+  { value: 'en', label: 'optLanguageEn' },
+];
+
+export const FEATURE_LABELS: Record<FeatureKey, MessageKey> = {
+  sidebarTree: 'optFeatureSidebarTree',
+  blockNavigation: 'optFeatureBlockNavigation',
+  contentEditableEnhance: 'optFeatureContentEditableEnhance',
+  dbTableGrid: 'optFeatureDbTableGrid',
+  liveAnnouncer: 'optFeatureLiveAnnouncer',
+  searchDialog: 'optFeatureSearchDialog',
+  comments: 'optFeatureComments',
+};
+
+/** Shortcut names share the help text's message keys */
+export const SHORTCUT_LABELS: Record<string, MessageKey> = {
+  focusSidebar: 'shortcutFocusSidebar',
+  focusMain: 'shortcutFocusMain',
+  focusHeader: 'shortcutFocusHeader',
+  announceBlock: 'shortcutAnnounceBlock',
+  headingOutline: 'shortcutHeadingOutline',
+  nextBlock: 'shortcutNextBlock',
+  prevBlock: 'shortcutPrevBlock',
+  nextHeading: 'shortcutNextHeading',
+  prevHeading: 'shortcutPrevHeading',
+  nextH1: 'shortcutNextH1',
+  nextH2: 'shortcutNextH2',
+  nextH3: 'shortcutNextH3',
+  firstBlock: 'shortcutFirstBlock',
+  lastBlock: 'shortcutLastBlock',
+  parentBlock: 'shortcutParentBlock',
+  firstChildBlock: 'shortcutFirstChildBlock',
+  nextSiblingBlock: 'shortcutNextSiblingBlock',
+  prevSiblingBlock: 'shortcutPrevSiblingBlock',
+  dbGridMode: 'shortcutDbGridMode',
+  blockActionMenu: 'shortcutBlockActionMenu',
+  landmarkList: 'shortcutLandmarkList',
+  elementsList: 'shortcutElementsList',
+  repeatLastAnnouncement: 'shortcutRepeatLastAnnouncement',
+  prevAnnouncement: 'shortcutPrevAnnouncement',
+  nextAnnouncement: 'shortcutNextAnnouncement',
+  announcementHistory: 'shortcutAnnouncementHistory',
+  help: 'shortcutHelp',
+};
+
+/** Quick key names share the Navigate-mode "no next {kind}" labels */
+export const QUICK_KEY_LABELS: Record<string, MessageKey> = {
+  heading: 'quickKeyHeading',
+  heading1: 'quickKeyHeading1',
+  heading2: 'quickKeyHeading2',
+  heading3: 'quickKeyHeading3',
+  table: 'quickKeyTable',
+  list: 'quickKeyList',
+  todo: 'quickKeyTodo',
+  image: 'quickKeyImage',
+  link: 'quickKeyLink',
+  code: 'quickKeyCode',
+  quote: 'quickKeyQuote',
+};
+
+export const EARCON_LABELS: Record<string, MessageKey> = {
+  navigateModeStart: 'earconNavigateModeStart',
+  navigateModeEnd: 'earconNavigateModeEnd',
+  boundary: 'earconBoundary',
+  dialogOpen: 'earconDialogOpen',
+  popupOpen: 'earconPopupOpen',
+  gridModeStart: 'earconGridModeStart',
+  gridModeEnd: 'earconGridModeEnd',
+};
+
+/** Keys that keyboard-handler can resolve from KeyboardEvent.code while Alt is held */
+const SHORTCUT_KEY_PATTERN = /^([a-z0-9]|\/|home|end)$/;
+const MODIFIER_ORDER = ['alt', 'ctrl', 'meta', 'shift'];
+const MODIFIER_DISPLAY: Record<string, string> = { alt: 'Alt', ctrl: 'Ctrl', meta: 'Meta', shift: 'Shift' };
+
+export interface FormReadResult {
+  settings: ExtensionSettings;
+  /** Field id → error message */
+  errors: Record<string, string>;
+}
+
+// ─── Shortcut validation ─────────────────────────────────────
+
+/**
+ * Normalize a shortcut to its display form ("alt+shift+s" → "Alt+Shift+S").
+ * Returns null when the combo cannot be parsed.
+ */
+export function normalizeShortcut(combo: string): string | null {
+  const parts = combo.split('+').map((p) => p.trim().toLowerCase()).filter(Boolean);
+  // "Alt+Shift++" is not representable; a trailing "+" would be dropped above
+  if (parts.length === 0 || combo.trim().endsWith('+')) return null;
+
+  const key = parts[parts.length - 1];
+  const modifiers = parts.slice(0, -1);
+  if (modifiers.some((m) => !MODIFIER_ORDER.includes(m))) return null;
+  if (new Set(modifiers).size !== modifiers.length) return null;
+
+  const sortedMods = MODIFIER_ORDER.filter((m) => modifiers.includes(m)).map((m) => MODIFIER_DISPLAY[m]);
+  const displayKey = key.length === 1 ? key.toUpperCase() : key.charAt(0).toUpperCase() + key.slice(1);
+  return [...sortedMods, displayKey].join('+');
+}
+
+/**
+ * Validate a single shortcut. An empty string disables the shortcut.
+ * Returns an error message, or null when valid.
+ */
+export function validateShortcut(combo: string): string | null {
+  if (combo.trim() === '') return null;
+
+  const normalized = normalizeShortcut(combo);
+  if (!normalized) {
+    return t('optShortcutFormat');
+  }
+
+  const parts = normalized.toLowerCase().split('+');
+  if (!parts.includes('alt') || !parts.includes('shift')) {
+    return t('optShortcutModifiers');
+  }
+  if (!SHORTCUT_KEY_PATTERN.test(parts[parts.length - 1])) {
+    return t('optShortcutKey');
+  }
+  return null;
+}
+
+/**
+ * Find shortcuts that share the same key combination.
+ * Returns shortcut name → error message for every duplicate after the first.
+ */
+export function findShortcutConflicts(shortcuts: Record<string, string>): Record<string, string> {
+  const conflicts: Record<string, string> = {};
+  const seen = new Map<string, string>();
+
+  for (const [name, combo] of Object.entries(shortcuts)) {
+    const normalized = normalizeShortcut(combo);
+    if (!normalized) continue;
+    const owner = seen.get(normalized);
+    if (owner) {
+      conflicts[name] = t('optShortcutConflict', { name: SHORTCUT_LABELS[owner] ? t(SHORTCUT_LABELS[owner]) : owner });
+    } else {
+      seen.set(normalized, name);
+    }
+  }
+  return conflicts;
+}
+
+// ─── Quick key validation ────────────────────────────────────
+
+/**
+ * Validate a single quick key: one letter or digit, or empty to disable.
+ * Returns an error message, or null when valid.
+ */
+export function validateQuickKey(key: string): string | null {
+  if (key.trim() === '' || /^[a-z0-9]$/i.test(key.trim())) return null;
+  return t('optQuickKeyFormat');
+}
+
+/**
+ * Find quick keys that share the same key.
+ * Returns quick key name → error message for every duplicate after the first.
+ */
+export function findQuickKeyConflicts(quickKeys: Record<string, string>): Record<string, string> {
+  const conflicts: Record<string, string> = {};
+  const seen = new Map<string, string>();
+
+  for (const [name, key] of Object.entries(quickKeys)) {
+    const normalized = key.trim().toUpperCase();
+    if (!normalized) continue;
+    const owner = seen.get(normalized);
+    if (owner) {
+      conflicts[name] = t('optShortcutConflict', { name: QUICK_KEY_LABELS[owner] ? t(QUICK_KEY_LABELS[owner]) : owner });
+    } else {
+      seen.set(normalized, name);
+    }
+  }
+  return conflicts;
+}
+
+// ─── Rendering ───────────────────────────────────────────────
+
+function createFieldset(legendText: string, id: string): HTMLFieldSetElement {
+  const fieldset = document.createElement('fieldset');
+  fieldset.id = id;
+  const legend = document.createElement('legend');
+  legend.textContent = legendText;
+  fieldset.appendChild(legend);
+  return fieldset;
+}
+
+function createCheckbox(id: string, labelText: string, checked: boolean): HTMLElement {
+  const row = document.createElement('div');
+  row.className = 'field field-checkbox';
+  const input = document.createElement('input');
+  input.type = 'checkbox';
+  input.id = id;
+  input.name = id;
+  input.checked = checked;
+  const label = document.createElement('label');
+  label.htmlFor = id;
+  label.textContent = labelText;
+  row.append(input, label);
+  return row;
+}
+
+function createErrorSlot(fieldId: string): HTMLElement {
+  const error = document.createElement('p');
+  error.id = `${fieldId}-error`;
+  error.className = 'field-error';
+  error.hidden = true;
+  return error;
+}
+
+/**
+ * Build the settings form controls inside `form`, filled from `settings`.
+ */
+export function renderSettingsForm(form: HTMLFormElement, settings: ExtensionSettings): void {
+  form.textContent = '';
+  form.noValidate = true;
+
+  // General
+  const general = createFieldset(t('optGroupGeneral'), 'group-general');
+  general.appendChild(createCheckbox('opt-enabled', t('optEnabled'), settings.enabled));
+
+  const srRow = document.createElement('div');
+  srRow.className = 'field';
+  const srLabel = document.createElement('label');
+  srLabel.htmlFor = 'opt-screenReader';
+  srLabel.textContent = t('optScreenReader');
+  const srSelect = document.createElement('select');
+  srSelect.id = 'opt-screenReader';
+  srSelect.name = 'opt-screenReader';
+  for (const opt of SCREEN_READER_OPTIONS) {
+    const option = document.createElement('option');
+    option.value = opt.value;
+    option.textContent = t(opt.label);
+    srSelect.appendChild(option);
+  }
+  srSelect.value = settings.screenReader;
+  srRow.append(srLabel, srSelect);
+  general.appendChild(srRow);
+
+  const langRow = document.createElement('div');
+  langRow.className = 'field';
+  const langLabel = document.createElement('label');
+  langLabel.htmlFor = 'opt-language';
+  langLabel.textContent = t('optLanguage');
+  const langSelect = document.createElement('select');
+  langSelect.id = 'opt-language';
+  langSelect.name = 'opt-language';
+  for (const opt of LANGUAGE_OPTIONS) {
+    const option = document.createElement('option');
+    option.value = opt.value;
+    option.textContent = t(opt.label);
+    langSelect.appendChild(option);
+  }
+  langSelect.value = settings.language;
+  langRow.append(langLabel, langSelect);
+  general.appendChild(langRow);
+  general.appendChild(createCheckbox('opt-braille', t('optBraille'), settings.braille));
+  form.appendChild(general);
+
+  // Verbosity (radio group)
+  const verbosity = createFieldset(t('optGroupVerbosity'), 'group-verbosity');
+  for (const opt of VERBOSITY_OPTIONS) {
+    const id = `opt-verbosity-${opt.value}`;
+    const row = document.createElement('div');
+    row.className = 'field field-radio';
+    const input = document.createElement('input');
+    input.type = 'radio';
+    input.id = id;
+    input.name = 'opt-verbosity';
+    input.value = opt.value;
+    input.checked = settings.verbosity === opt.value;
+    input.setAttribute('aria-describedby', `${id}-hint`);
+    const label = document.createElement('label');
+    label.htmlFor = id;
+    label.textContent = t(opt.label);
+    const hint = document.createElement('span');
+    hint.id = `${id}-hint`;
+    hint.className = 'field-hint';
+    hint.textContent = t(opt.hint);
+    row.append(input, label, hint);
+    verbosity.appendChild(row);
+  }
+  form.appendChild(verbosity);
+
+  // Features
+  const features = createFieldset(t('optGroupFeatures'), 'group-features');
+  for (const [key, label] of Object.entries(FEATURE_LABELS) as [FeatureKey, MessageKey][]) {
+    features.appendChild(createCheckbox(`opt-feature-${key}`, t(label), settings.features[key]));
+  }
+  form.appendChild(features);
+
+  // Shortcuts
+  const shortcuts = createFieldset(t('optGroupShortcuts'), 'group-shortcuts');
+  const shortcutHint = document.createElement('p');
+  shortcutHint.id = 'shortcut-hint';
+  shortcutHint.className = 'field-hint';
+  shortcutHint.textContent = t('optShortcutHint');
+  shortcuts.appendChild(shortcutHint);
+  for (const name of Object.keys(DEFAULT_SETTINGS.shortcuts)) {
+    const id = `opt-shortcut-${name}`;
+    const row = document.createElement('div');
+    row.className = 'field field-text';
+    const label = document.createElement('label');
+    label.htmlFor = id;
+    label.textContent = SHORTCUT_LABELS[name] ? t(SHORTCUT_LABELS[name]) : name;
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.id = id;
+    input.name = id;
+    input.autocomplete = 'off';
+    input.spellcheck = false;
+    input.value = settings.shortcuts[name] ?? '';
+    input.setAttribute('aria-describedby', `shortcut-hint ${id}-error`);
+    row.append(label, input, createErrorSlot(id));
+    shortcuts.appendChild(row);
+  }
+  form.appendChild(shortcuts);
+
+  // Quick keys
+  const quickKeys = createFieldset(t('optGroupQuickKeys'), 'group-quickKeys');
+  const quickKeyHint = document.createElement('p');
+  quickKeyHint.id = 'quickKey-hint';
+  quickKeyHint.className = 'field-hint';
+  quickKeyHint.textContent = t('optQuickKeyHint');
+  quickKeys.appendChild(quickKeyHint);
+  for (const name of Object.keys(DEFAULT_SETTINGS.quickKeys)) {
+    const id = `opt-quickKey-${name}`;
+    const row = document.createElement('div');
+    row.className = 'field field-text';
+    const label = document.createElement('label');
+    label.htmlFor = id;
+    label.textContent = QUICK_KEY_LABELS[name] ? t(QUICK_KEY_LABELS[name]) : name;
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.id = id;
+    input.name = id;
+    input.autocomplete = 'off';
+    input.spellcheck = false;
+    input.size = 2;
+    input.value = settings.quickKeys[name] ?? '';
+    input.setAttribute('aria-describedby', `quickKey-hint ${id}-error`);
+    row.append(label, input, createErrorSlot(id));
+    quickKeys.appendChild(row);
+  }
+  form.appendChild(quickKeys);
+
+  // Earcons
+  const earcons = createFieldset(t('optGroupEarcons'), 'group-earcons');
+  earcons.appendChild(createCheckbox('opt-earcons-enabled', t('optEarconsEnabled'), settings.earcons.enabled));
+  const volumeRow = document.createElement('div');
+  volumeRow.className = 'field field-range';
+  const volumeLabel = document.createElement('label');
+  volumeLabel.htmlFor = 'opt-earcons-volume';
+  volumeLabel.textContent = t('optEarconsVolume');
+  const volume = document.createElement('input');
+  volume.type = 'range';
+  volume.id = 'opt-earcons-volume';
+  volume.name = 'opt-earcons-volume';
+  volume.min = '0';
+  volume.max = '100';
+  volume.step = '5';
+  volume.value = String(settings.earcons.volume);
+  volumeRow.append(volumeLabel, volume);
+  earcons.appendChild(volumeRow);
+  for (const name of Object.keys(DEFAULT_SETTINGS.earcons.cues)) {
+    const label = EARCON_LABELS[name] ? t(EARCON_LABELS[name]) : name;
+    earcons.appendChild(createCheckbox(`opt-earcon-${name}`, label, settings.earcons.cues[name] ?? false));
+  }
+  form.appendChild(earcons);
+
+  // Advanced
+  const advanced = createFieldset(t('optGroupAdvanced'), 'group-advanced');
+  advanced.appendChild(createCheckbox('opt-debugMode', t('optDebugMode'), settings.debugMode));
+  form.appendChild(advanced);
+}
+
+/**
+ * Update the existing controls to reflect `settings` (e.g. after a reset).
+ */
+export function fillSettingsForm(form: HTMLFormElement, settings: ExtensionSettings): void {
+  const field = (id: string) => form.querySelector<HTMLInputElement>(`#${id}`);
+
+  const enabled = field('opt-enabled');
+  if (enabled) enabled.checked = settings.enabled;
+
+  const sr = form.querySelector<HTMLSelectElement>('#opt-screenReader');
+  if (sr) sr.value = settings.screenReader;
+
+  const lang = form.querySelector<HTMLSelectElement>('#opt-language');
+  if (lang) lang.value = settings.language;
+
+  const braille = field('opt-braille');
+  if (braille) braille.checked = settings.braille;
+
+  const radio = field(`opt-verbosity-${settings.verbosity}`);
+  if (radio) radio.checked = true;
+
+  for (const key of Object.keys(FEATURE_LABELS) as FeatureKey[]) {
+    const input = field(`opt-feature-${key}`);
+    if (input) input.checked = settings.features[key];
+  }
+
+  for (const name of Object.keys(DEFAULT_SETTINGS.shortcuts)) {
+    const input = field(`opt-shortcut-${name}`);
+    if (input) input.value = settings.shortcuts[name] ?? '';
+  }
+
+  for (const name of Object.keys(DEFAULT_SETTINGS.quickKeys)) {
+    const input = field(`opt-quickKey-${name}`);
+    if (input) input.value = settings.quickKeys[name] ?? '';
+  }
+
+  const earconsEnabled = field('opt-earcons-enabled');
+  if (earconsEnabled) earconsEnabled.checked = settings.earcons.enabled;
+  const volume = field('opt-earcons-volume');
+  if (volume) volume.value = String(settings.earcons.volume);
+  for (const name of Object.keys(DEFAULT_SETTINGS.earcons.cues)) {
+    const input = field(`opt-earcon-${name}`);
+    if (input) input.checked = settings.earcons.cues[name] ?? false;
+  }
+
+  const debug = field('opt-debugMode');
+  if (debug) debug.checked = settings.debugMode;
+
+  showFieldErrors(form, {});
+}
+
+// ─── Reading & validation ────────────────────────────────────
+
+/**
+ * Read the form into a new settings object and validate it.
+ * `base` supplies values for keys the form does not expose.
+ */
+export function readSettingsForm(form: HTMLFormElement, base: ExtensionSettings): FormReadResult {
+  const errors: Record<string, string> = {};
+  const input = (id: string) => form.querySelector<HTMLInputElement>(`#${id}`);
+
+  const srValue = form.querySelector<HTMLSelectElement>('#opt-screenReader')?.value;
+  const screenReader = SCREEN_READER_OPTIONS.some((o) => o.value === srValue)
+    ? srValue as ScreenReader
+    : base.screenReader;
+
+  const langValue = form.querySelector<HTMLSelectElement>('#opt-language')?.value;
+  const language = LANGUAGE_OPTIONS.some((o) => o.value === langValue)
+    ? langValue as Language
+    : base.language;
+
+  const checkedVerbosity = form.querySelector<HTMLInputElement>('input[name="opt-verbosity"]:checked')?.value;
+  const verbosity = VERBOSITY_OPTIONS.some((o) => o.value === checkedVerbosity)
+    ? checkedVerbosity as Verbosity
+    : base.verbosity;
+
+  const features = { ...base.features };
+  for (const key of Object.keys(FEATURE_LABELS) as FeatureKey[]) {
+    const el = input(`opt-feature-${key}`);
+    if (el) features[key] = el.checked;
+  }
+
+  const shortcuts: Record<string, string> = { ...base.shortcuts };
+  for (const name of Object.keys(DEFAULT_SETTINGS.shortcuts)) {
+    const el = input(`opt-shortcut-${name}`);
+    if (!el) continue;
+    const raw = el.value.trim();
+    const error = validateShortcut(raw);
+    if (error) {
+      errors[`opt-shortcut-${name}`] = error;
+      shortcuts[name] = raw;
+    } else {
+      shortcuts[name] = raw === '' ? '' : normalizeShortcut(raw) ?? raw;
+    }
+  }
+
+  const conflicts = findShortcutConflicts(shortcuts);
+  for (const [name, message] of Object.entries(conflicts)) {
+    const id = `opt-shortcut-${name}`;
+    if (!errors[id]) errors[id] = message;
+  }
+
+  const quickKeys: Record<string, string> = { ...base.quickKeys };
+  for (const name of Object.keys(DEFAULT_SETTINGS.quickKeys)) {
+    const el = input(`opt-quickKey-${name}`);
+    if (!el) continue;
+    const raw = el.value.trim();
+    const error = validateQuickKey(raw);
+    if (error) errors[`opt-quickKey-${name}`] = error;
+    quickKeys[name] = error ? raw : raw.toUpperCase();
+  }
+
+  for (const [name, message] of Object.entries(findQuickKeyConflicts(quickKeys))) {
+    const id = `opt-quickKey-${name}`;
+    if (!errors[id]) errors[id] = message;
+  }
+
+  const cues: Record<string, boolean> = { ...base.earcons.cues };
+  for (const name of Object.keys(DEFAULT_SETTINGS.earcons.cues)) {
+    const el = input(`opt-earcon-${name}`);
+    if (el) cues[name] = el.checked;
+  }
+  const volumeValue = Number(input('opt-earcons-volume')?.value);
+  const earcons = {
+    enabled: input('opt-earcons-enabled')?.checked ?? base.earcons.enabled,
+    volume: Number.isFinite(volumeValue) ? Math.min(Math.max(volumeValue, 0), 100) : base.earcons.volume,
+    cues,
+  };
+
+  const settings: ExtensionSettings = {
+    ...base,
+    enabled: input('opt-enabled')?.checked ?? base.enabled,
+    screenReader,
+    verbosity,
+    language,
+    braille: input('opt-braille')?.checked ?? base.braille,
+    features,
+    shortcuts,
+    quickKeys,
+    earcons,
+    debugMode: input('opt-debugMode')?.checked ?? base.debugMode,
+  };
+
+  return { settings, errors };
+}
+
+/**
+ * Reflect validation errors on the form: aria-invalid + visible message.
+ * Fields not present in `errors` are cleared.
+ */
+export function showFieldErrors(form: HTMLFormElement, errors: Record<string, string>): void {
+  const slots = form.querySelectorAll<HTMLElement>('.field-error');
+  for (const slot of slots) {
+    const fieldId = slot.id.replace(/-error$/, '');
+    const field = form.querySelector<HTMLElement>(`#${fieldId}`);
+    const message = errors[fieldId];
+    if (message) {
+      slot.textContent = message;
+      slot.hidden = false;
+      field?.setAttribute('aria-invalid', 'true');
+    } else {
+      slot.textContent = '';
+      slot.hidden = true;
+      field?.removeAttribute('aria-invalid');
+    }
+  }
+}
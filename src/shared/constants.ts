@@ -1,5 +1,10 @@
 /** Extension marker attribute for elements modified by this extension */
 export const EXTENSION_ATTR = 'data-accessible-notion';
+/**
+ * Marks an aria-label or aria-roledescription the extension wrote where it
+ * keeps ones the page set itself; marked ones are rewritten on re-init
+ */
+export const OWN_LABEL_ATTR = `${EXTENSION_ATTR}-label`;
 
 /** Extension marker for live region */
 export const LIVE_REGION_ATTR = 'data-accessible-notion-live';
@@ -12,6 +17,8 @@ export const DEFAULT_SETTINGS: ExtensionSettings = {
   enabled: true,
   screenReader: 'nvda',
   verbosity: 'standard',
+  language: 'auto',
+  braille: false,
   features: {
     sidebarTree: true,
     blockNavigation: true,
@@ -36,11 +43,46 @@ export const DEFAULT_SETTINGS: ExtensionSettings = {
     nextH3: 'Alt+Shift+3',
     firstBlock: 'Alt+Shift+Home',
     lastBlock: 'Alt+Shift+End',
+    parentBlock: 'Alt+Shift+U',
+    firstChildBlock: 'Alt+Shift+I',
+    nextSiblingBlock: 'Alt+Shift+O',
+    prevSiblingBlock: 'Alt+Shift+Y',
     dbGridMode: 'Alt+Shift+D',
     blockActionMenu: 'Alt+Shift+A',
     landmarkList: 'Alt+Shift+L',
+    elementsList: 'Alt+Shift+E',
+    repeatLastAnnouncement: 'Alt+Shift+R',
+    prevAnnouncement: 'Alt+Shift+Z',
+    nextAnnouncement: 'Alt+Shift+X',
+    announcementHistory: 'Alt+Shift+V',
     help: 'Alt+Shift+/',
   },
+  quickKeys: {
+    heading: 'H',
+    heading1: '1',
+    heading2: '2',
+    heading3: '3',
+    table: 'T',
+    list: 'L',
+    todo: 'X',
+    image: 'G',
+    link: 'K',
+    code: 'C',
+    quote: 'Q',
+  },
+  earcons: {
+    enabled: false,
+    volume: 50,
+    cues: {
+      navigateModeStart: true,
+      navigateModeEnd: true,
+      boundary: true,
+      dialogOpen: true,
+      popupOpen: true,
+      gridModeStart: true,
+      gridModeEnd: true,
+    },
+  },
   debugMode: false,
 };
 
@@ -48,6 +90,10 @@ export interface ExtensionSettings {
   enabled: boolean;
   screenReader: 'nvda' | 'jaws' | 'voiceover' | 'other';
   verbosity: 'minimal' | 'standard' | 'verbose';
+  /** UI/announcement language. 'auto' follows the browser language */
+  language: 'auto' | 'ja' | 'en';
+  /** Add compact aria-braillelabel forms for braille display users */
+  braille: boolean;
   features: {
     sidebarTree: boolean;
     blockNavigation: boolean;
@@ -58,5 +104,13 @@ export interface ExtensionSettings {
     comments: boolean;
   };
   shortcuts: Record<string, string>;
+  /** Single-key jumps in Navigate mode; Shift reverses the direction */
+  quickKeys: Record<string, string>;
+  /** Non-speech audio cues; `volume` is 0–100, `cues` toggles each cue */
+  earcons: {
+    enabled: boolean;
+    volume: number;
+    cues: Record<string, boolean>;
+  };
   debugMode: boolean;
 }
@@ -0,0 +1,54 @@
+/**
+ * Message catalog shared by content scripts and the options page.
+ *
+ * Messages live in src/_locales/<locale>/messages.json (the same files
+ * chrome.i18n uses for the manifest). chrome.i18n.getMessage() always
+ * follows the browser UI language, so the catalogs are bundled and looked
+ * up here instead — that lets the `language` setting override the browser.
+ *
+ * Placeholders use `{name}` and are filled from the params object.
+ */
+
+import ja from '../_locales/ja/messages.json';
+import en from '../_locales/en/messages.json';
+import type { ExtensionSettings } from './constants';
+
+export type Locale = 'ja' | 'en';
+export type MessageKey = keyof typeof ja;
+
+type Catalog = Record<string, { message: string }>;
+
+const CATALOGS: Record<Locale, Catalog> = { ja, en };
+
+let locale: Locale = 'ja';
+
+/**
+ * Resolve the `language` setting to a supported locale.
+ * 'auto' follows the browser: Japanese for ja-*, English otherwise.
+ */
+export function resolveLocale(
+  language: ExtensionSettings['language'],
+  browserLanguage: string = navigator.language,
+): Locale {
+  if (language === 'ja' || language === 'en') return language;
+  return browserLanguage.toLowerCase().startsWith('ja') ? 'ja' : 'en';
+}
+
+export function setLocale(next: Locale): void {
+  locale = next;
+}
+
+export function getLocale(): Locale {
+  return locale;
+}
+
+/**
+ * Look up a message in the current locale, falling back to Japanese.
+ */
+export function t(key: MessageKey, params?: Record<string, string | number>): string {
+  const template = CATALOGS[locale][key]?.message ?? CATALOGS.ja[key]?.message ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match,
+  );
+}
@@ -1,16 +1,36 @@
 import { DEFAULT_SETTINGS, type ExtensionSettings } from './constants';
 
+/**
+ * Merge stored settings over the defaults.
+ * Nested groups (features, shortcuts) are merged key by key so that
+ * settings saved by an older version still pick up newly added keys.
+ */
+export function mergeWithDefaults(stored: Partial<ExtensionSettings>): ExtensionSettings {
+  return {
+    ...DEFAULT_SETTINGS,
+    ...stored,
+    features: { ...DEFAULT_SETTINGS.features, ...stored.features },
+    shortcuts: { ...DEFAULT_SETTINGS.shortcuts, ...stored.shortcuts },
+    quickKeys: { ...DEFAULT_SETTINGS.quickKeys, ...stored.quickKeys },
+    earcons: {
+      ...DEFAULT_SETTINGS.earcons,
+      ...stored.earcons,
+      cues: { ...DEFAULT_SETTINGS.earcons.cues, ...stored.earcons?.cues },
+    },
+  };
+}
+
 /** Load settings from chrome.storage.local, falling back to defaults */
 export async function loadSettings(): Promise<ExtensionSettings> {
   try {
     const result = await chrome.storage.local.get('settings');
     if (result.settings) {
-      return { ...DEFAULT_SETTINGS, ...result.settings };
+      return mergeWithDefaults(result.settings);
     }
   } catch {
     // Storage unavailable (e.g. in tests) — use defaults
   }
-  return { ...DEFAULT_SETTINGS };
+  return mergeWithDefaults({});
 }
 
 /** Save settings to chrome.storage.local */
@@ -24,7 +44,7 @@ export function onSettingsChanged(
 ): void {
   chrome.storage.onChanged.addListener((changes) => {
     if (changes.settings?.newValue) {
-      callback({ ...DEFAULT_SETTINGS, ...changes.settings.newValue });
+      callback(mergeWithDefaults(changes.settings.newValue));
     }
   });
 }
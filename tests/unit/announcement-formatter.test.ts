@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  setVerbosity,
+  composeAnnouncement,
+  formatBlock,
+  formatTreeItem,
+  formatGridCell,
+  formatGridRow,
+  formatGridColumn,
+  formatGalleryCard,
+  formatColumnHeader,
+  formatComment,
+} from '../../src/content/announcement-formatter';
+
+function setupPage(): void {
+  document.body.innerHTML = `
+    <main class="notion-frame">
+      <div class="notion-selectable notion-header-block" data-block-id="h1">
+        <div role="textbox" contenteditable="true"><b>重要</b>な見出し</div>
+      </div>
+      <div class="notion-selectable notion-bulleted_list-block" data-block-id="l1">
+        <div role="textbox" contenteditable="true">一つ目</div>
+      </div>
+      <div class="notion-selectable notion-bulleted_list-block" data-block-id="l2">
+        <div role="textbox" contenteditable="true">二つ目</div>
+        <div class="notion-selectable notion-text-block" data-block-id="c1">
+          <div role="textbox" contenteditable="true">子ブロック</div>
+        </div>
+      </div>
+      <div class="notion-selectable notion-to_do-block" data-block-id="t1" aria-checked="true">
+        <div role="textbox" contenteditable="true">買い物</div>
+      </div>
+    </main>
+  `;
+}
+
+function block(id: string): HTMLElement {
+  return document.querySelector(`[data-block-id="${id}"]`) as HTMLElement;
+}
+
+describe('announcement-formatter', () => {
+  afterEach(() => {
+    setVerbosity('standard');
+  });
+
+  describe('composeAnnouncement', () => {
+    const parts = {
+      type: '見出し1',
+      text: 'はじめに',
+      context: ['レベル2'],
+      states: ['展開'],
+      details: ['太字'],
+      position: { index: 0, total: 3 },
+    };
+
+    it('standard: type, text, context, state and position', () => {
+      expect(composeAnnouncement(parts)).toBe('見出し1: はじめに, レベル2, 展開 (1/3)');
+    });
+
+    it('minimal: text and state only', () => {
+      setVerbosity('minimal');
+      expect(composeAnnouncement(parts)).toBe('はじめに, 展開');
+    });
+
+    it('verbose: adds details', () => {
+      setVerbosity('verbose');
+      expect(composeAnnouncement(parts)).toBe('見出し1: はじめに, レベル2, 展開, 太字 (1/3)');
+    });
+
+    it('marks empty content', () => {
+      expect(composeAnnouncement({ type: 'テキスト', text: '' })).toBe('テキスト (空)');
+      setVerbosity('minimal');
+      expect(composeAnnouncement({ type: 'テキスト', text: '' })).toBe('空');
+    });
+  });
+
+  describe('formatBlock', () => {
+    beforeEach(setupPage);
+
+    it('keeps the standard format', () => {
+      expect(formatBlock(block('t1'), { index: 3, total: 5 })).toBe('チェックボックス: 買い物, チェック済み (4/5)');
+    });
+
+    it('adds the depth of nested blocks in standard mode', () => {
+      expect(formatBlock(block('c1'))).toBe('テキストブロック: 子ブロック, 階層2');
+      expect(formatBlock(block('t1'))).toBe('チェックボックス: 買い物, チェック済み');
+    });
+
+    it('reads list position and nesting level for list items', () => {
+      expect(formatBlock(block('l2'))).toBe('箇条書き: 二つ目, リスト 2/2');
+      block('c1').className = 'notion-selectable notion-numbered_list-block';
+      expect(formatBlock(block('c1'))).toBe('番号付きリスト: 子ブロック, リスト 1/1, レベル2');
+    });
+
+    it('drops the type label and counter in minimal mode', () => {
+      setVerbosity('minimal');
+      expect(formatBlock(block('t1'), { index: 3, total: 5 })).toBe('買い物, チェック済み');
+    });
+
+    it('adds depth and to-do list position in verbose mode', () => {
+      setVerbosity('verbose');
+      expect(formatBlock(block('l2'))).toBe('箇条書き: 二つ目, リスト 2/2, 階層1');
+      expect(formatBlock(block('t1'))).toBe('チェックボックス: 買い物, チェック済み, 階層1, リスト 1/1');
+      expect(formatBlock(block('c1'))).toBe('テキストブロック: 子ブロック, 階層2');
+    });
+
+    it('reports inline formatting in verbose mode', () => {
+      setVerbosity('verbose');
+      expect(formatBlock(block('h1'))).toContain('太字');
+    });
+
+    it('reads full text in verbose mode only', () => {
+      const long = 'あ'.repeat(80);
+      block('c1').querySelector('[contenteditable]')!.textContent = long;
+      expect(formatBlock(block('c1'))).toContain('…');
+      setVerbosity('verbose');
+      expect(formatBlock(block('c1'))).toContain(long);
+    });
+  });
+
+  describe('other widgets', () => {
+    it('formats tree items', () => {
+      const item = document.createElement('div');
+      item.setAttribute('aria-label', 'ページA');
+      item.setAttribute('aria-level', '2');
+      item.setAttribute('aria-expanded', 'false');
+      expect(formatTreeItem(item)).toBe('ページA, レベル2, 折りたたみ');
+      setVerbosity('minimal');
+      expect(formatTreeItem(item)).toBe('ページA, 折りたたみ');
+    });
+
+    it('formats grid cells', () => {
+      expect(formatGridCell('名前', 'Alice', 0, 1, 3, 2)).toBe('名前: Alice');
+      setVerbosity('minimal');
+      expect(formatGridCell('名前', '', 0, 1, 3, 2)).toBe('空');
+      setVerbosity('verbose');
+      expect(formatGridCell('名前', 'Alice', 0, 1, 3, 2)).toBe('名前: Alice, 1/3行, 2/2列');
+    });
+
+    it('formats gallery cards', () => {
+      expect(formatGalleryCard('企画書', ['進行中', '田中'], 1, 0, 2, 3)).toBe('企画書, 進行中, 田中');
+      setVerbosity('minimal');
+      expect(formatGalleryCard('企画書', ['進行中', '田中'], 1, 0, 2, 3)).toBe('企画書');
+      setVerbosity('verbose');
+      expect(formatGalleryCard('企画書', [], 1, 0, 2, 3)).toBe('企画書, 2/2行, 1/3列');
+    });
+
+    it('formats whole rows', () => {
+      expect(formatGridRow(['名前: Alice', '年齢: 25'], 0, 3)).toBe('名前: Alice, 年齢: 25');
+      setVerbosity('verbose');
+      expect(formatGridRow(['名前: Alice', '年齢: 25'], 0, 3)).toBe('名前: Alice, 年齢: 25, 1/3行');
+    });
+
+    it('formats whole columns with a summary', () => {
+      expect(formatGridColumn('状態', ['完了', '', '完了', '進行中']))
+        .toBe('状態の列: 完了, 空, 完了, 進行中。4行、空欄1件, 完了 2件, 進行中 1件');
+      // Unique values are not counted
+      expect(formatGridColumn('名前', ['Alice', 'Bob'])).toBe('名前の列: Alice, Bob。2行、空欄0件');
+      // Only the rendered rows of a longer table
+      expect(formatGridColumn('名前', ['Alice', ''], '100+'))
+        .toBe('名前の列: Alice, 空。表示中の2行（全100+行）、空欄1件');
+    });
+
+    it('formats column headers with their type and sort', () => {
+      expect(formatColumnHeader('期限', '日付', '昇順', 2, 4)).toBe('列ヘッダー: 期限, 日付, 昇順');
+      expect(formatColumnHeader('メモ', null, null, 3, 4)).toBe('列ヘッダー: メモ');
+      setVerbosity('verbose');
+      expect(formatColumnHeader('メモ', null, null, 3, 4)).toBe('列ヘッダー: メモ, 4/4列');
+    });
+
+    it('formats comments', () => {
+      const comment = document.createElement('div');
+      comment.textContent = '田中 昨日 とても長いコメント本文';
+      expect(formatComment(comment, '田中 昨日 とても…', 1, 4)).toBe('田中 昨日 とても… (2/4)');
+      setVerbosity('verbose');
+      expect(formatComment(comment, '田中 昨日 とても…', 1, 4)).toBe('田中 昨日 とても長いコメント本文 (2/4)');
+    });
+  });
+});
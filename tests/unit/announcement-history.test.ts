@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  openAnnouncementHistory,
+  closeAnnouncementHistory,
+  isAnnouncementHistoryOpen,
+} from '../../src/content/announcement-history';
+import { initLiveAnnouncer, destroyLiveAnnouncer, announce } from '../../src/content/live-announcer';
+
+function dialog(): HTMLElement | null {
+  return document.getElementById('an-announcement-history');
+}
+
+function entries(): HTMLElement[] {
+  return Array.from(dialog()!.querySelectorAll<HTMLElement>('li'));
+}
+
+function press(target: Element | null, key: string): KeyboardEvent {
+  const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true });
+  target!.dispatchEvent(event);
+  return event;
+}
+
+describe('announcement-history', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    document.body.innerHTML = '<button id="origin">元の位置</button>';
+    initLiveAnnouncer();
+    document.getElementById('origin')!.focus();
+    announce('一つ目', { source: 'BlockFocusManager' });
+    announce('二つ目', { source: 'TableEnhancer' });
+    announce('三つ目', { source: 'AnnouncementHistory' });
+    vi.advanceTimersByTime(4000);
+  });
+
+  afterEach(() => {
+    closeAnnouncementHistory();
+    destroyLiveAnnouncer();
+    vi.useRealTimers();
+  });
+
+  it('opens a modal dialog listing the newest entry first', () => {
+    openAnnouncementHistory();
+    expect(dialog()?.getAttribute('role')).toBe('dialog');
+    expect(dialog()?.getAttribute('aria-modal')).toBe('true');
+    // Sources by their user-facing names; unnamed ones are left out
+    expect(entries().map((li) => li.textContent)).toEqual([
+      expect.stringMatching(/^三つ目（[^、]+）$/),
+      expect.stringMatching(/^二つ目（.+、データベース）$/),
+      expect.stringMatching(/^一つ目（.+、ブロック）$/),
+    ]);
+    expect(document.activeElement).toBe(entries()[0]);
+  });
+
+  it('moves focus between entries with the arrow keys', () => {
+    openAnnouncementHistory();
+    press(entries()[0], 'ArrowDown');
+    expect(document.activeElement).toBe(entries()[1]);
+    expect(entries()[1].tabIndex).toBe(0);
+    expect(entries()[0].tabIndex).toBe(-1);
+    press(entries()[1], 'Home');
+    expect(document.activeElement).toBe(entries()[0]);
+  });
+
+  it('keeps focus inside the dialog on Tab', () => {
+    openAnnouncementHistory();
+    const event = press(entries()[0], 'Tab');
+    expect(event.defaultPrevented).toBe(true);
+    expect(document.activeElement?.tagName).toBe('BUTTON');
+    press(document.activeElement, 'Tab');
+    expect(document.activeElement).toBe(entries()[0]);
+  });
+
+  it('Escape closes and restores focus', () => {
+    openAnnouncementHistory();
+    press(entries()[0], 'Escape');
+    expect(isAnnouncementHistoryOpen()).toBe(false);
+    expect(document.activeElement).toBe(document.getElementById('origin'));
+  });
+
+  it('announces instead of opening when the history is empty', () => {
+    destroyLiveAnnouncer();
+    initLiveAnnouncer();
+    openAnnouncementHistory();
+    vi.advanceTimersByTime(20);
+    expect(dialog()).toBeNull();
+    expect(document.querySelector('[aria-live="polite"]')?.textContent).toBe('通知の履歴はありません');
+  });
+});
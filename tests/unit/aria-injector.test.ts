@@ -1,6 +1,15 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { enhanceBlock, enhanceTextbox, enhanceImage, scanAndEnhance } from '../../src/content/aria-injector';
+import {
+  enhanceBlock,
+  enhanceTextbox,
+  enhanceImage,
+  enhanceLists,
+  clearLists,
+  scanAndEnhance,
+} from '../../src/content/aria-injector';
 import { initLiveAnnouncer, destroyLiveAnnouncer } from '../../src/content/live-announcer';
+import { setBrailleLabels } from '../../src/content/braille';
+import { setLocale } from '../../src/shared/i18n';
 
 describe('aria-injector', () => {
   beforeEach(() => {
@@ -32,6 +41,37 @@ describe('aria-injector', () => {
       expect(block.getAttribute('tabindex')).toBe('-1');
     });
 
+    it('relabels blocks in the new language after a language change', () => {
+      const block = document.createElement('div');
+      block.classList.add('notion-selectable', 'notion-quote-block');
+      block.setAttribute('data-block-id', 'q');
+      block.textContent = 'hello';
+      document.body.appendChild(block);
+      scanAndEnhance();
+      expect(block.getAttribute('aria-label')).toBe('引用: hello');
+
+      // Teardown drops the marker and init scans again
+      block.removeAttribute('data-accessible-notion');
+      setLocale('en');
+      try {
+        scanAndEnhance();
+        expect(block.getAttribute('aria-roledescription')).toBe('Quote');
+        expect(block.getAttribute('aria-label')).toBe('Quote: hello');
+      } finally {
+        setLocale('ja');
+      }
+    });
+
+    it('keeps a roledescription the page set itself', () => {
+      const block = document.createElement('div');
+      block.classList.add('notion-selectable', 'notion-quote-block');
+      block.setAttribute('aria-roledescription', 'ページの説明');
+      block.textContent = 'hello';
+      document.body.appendChild(block);
+      enhanceBlock(block);
+      expect(block.getAttribute('aria-label')).toBe('ページの説明: hello');
+    });
+
     it('adds heading role with aria-level for header block', () => {
       const block = document.createElement('div');
       block.classList.add('notion-selectable', 'notion-header-block');
@@ -67,6 +107,29 @@ describe('aria-injector', () => {
       expect(block.getAttribute('aria-label')).toContain('(空)');
     });
 
+    it('says a database is linked', () => {
+      const block = document.createElement('div');
+      block.classList.add('notion-selectable', 'notion-collection_view-block');
+      block.innerHTML = '<a href="/ws/0123456789abcdef0123456789abcdef?v=1">タスク</a><div>ビュー</div>';
+      document.body.appendChild(block);
+
+      enhanceBlock(block);
+
+      expect(block.getAttribute('aria-label')).toBe('データベース: タスク, リンクドデータベース');
+    });
+
+    it('takes a database title from the database itself, not a nested one', () => {
+      const block = document.createElement('div');
+      block.classList.add('notion-selectable', 'notion-collection_view-block');
+      block.innerHTML = '<div class="notion-selectable notion-collection_view-block"><div class="collection-title">子</div></div>'
+        + '<div class="collection-title">親</div>';
+      document.body.appendChild(block);
+
+      enhanceBlock(block);
+
+      expect(block.getAttribute('aria-label')).toBe('データベース: 親');
+    });
+
     it('does not overwrite existing role', () => {
       const block = document.createElement('div');
       block.classList.add('notion-selectable', 'notion-text-block');
@@ -151,6 +214,120 @@ describe('aria-injector', () => {
     });
   });
 
+  describe('enhanceLists', () => {
+    function addListItem(type: string, id: string, text: string, parent: Element = document.body): HTMLElement {
+      const block = document.createElement('div');
+      block.classList.add('notion-selectable', `notion-${type}-block`);
+      block.setAttribute('data-block-id', id);
+      block.textContent = text;
+      parent.appendChild(block);
+      return block;
+    }
+
+    it('sets size, position and level on list items', () => {
+      addListItem('bulleted_list', 'a', 'りんご');
+      const second = addListItem('bulleted_list', 'b', 'みかん');
+      const nested = addListItem('bulleted_list', 'c', '温州', second);
+      enhanceLists();
+
+      expect(second.getAttribute('aria-setsize')).toBe('2');
+      expect(second.getAttribute('aria-posinset')).toBe('2');
+      expect(second.getAttribute('aria-level')).toBe('1');
+      expect(nested.getAttribute('aria-posinset')).toBe('1');
+      expect(nested.getAttribute('aria-level')).toBe('2');
+    });
+
+    it('numbers numbered list items and renumbers on insert', () => {
+      const first = addListItem('numbered_list', 'a', '準備');
+      const second = addListItem('numbered_list', 'b', '実行');
+      scanAndEnhance();
+      expect(second.getAttribute('aria-label')).toBe('番号付きリスト 2: 実行');
+
+      const inserted = document.createElement('div');
+      inserted.classList.add('notion-selectable', 'notion-numbered_list-block');
+      inserted.setAttribute('data-block-id', 'x');
+      inserted.textContent = '確認';
+      first.after(inserted);
+      scanAndEnhance();
+      expect(second.getAttribute('aria-label')).toBe('番号付きリスト 3: 実行');
+      expect(second.getAttribute('aria-setsize')).toBe('3');
+    });
+
+    it('keeps the item number after the extension is disabled and re-enabled', () => {
+      addListItem('numbered_list', 'a', '準備');
+      const second = addListItem('numbered_list', 'b', '実行');
+      scanAndEnhance();
+
+      // Teardown: markers and list attributes go, Notion's own label stays
+      for (const el of document.querySelectorAll('[data-accessible-notion]')) {
+        el.removeAttribute('data-accessible-notion');
+      }
+      clearLists();
+      expect(second.hasAttribute('aria-posinset')).toBe(false);
+
+      scanAndEnhance();
+      expect(second.getAttribute('aria-label')).toBe('番号付きリスト 2: 実行');
+      expect(second.getAttribute('aria-posinset')).toBe('2');
+    });
+
+    it('relabels numbered items when their text changes', () => {
+      const item = addListItem('numbered_list', 'a', '準備');
+      enhanceLists();
+      item.textContent = '準備運動';
+      enhanceLists();
+      expect(item.getAttribute('aria-label')).toBe('番号付きリスト 1: 準備運動');
+    });
+
+    it('leaves to-do items alone', () => {
+      const todo = addListItem('to_do', 'a', '買い物');
+      enhanceLists();
+      expect(todo.hasAttribute('aria-posinset')).toBe(false);
+    });
+  });
+
+  describe('braille labels', () => {
+    beforeEach(() => {
+      Object.defineProperty(Element.prototype, 'ariaBrailleLabel', { configurable: true, value: null });
+      setBrailleLabels(true);
+    });
+
+    afterEach(() => {
+      setBrailleLabels(false);
+      delete (Element.prototype as { ariaBrailleLabel?: unknown }).ariaBrailleLabel;
+    });
+
+    function addBlock(type: string, id: string, text: string): HTMLElement {
+      const block = document.createElement('div');
+      block.classList.add('notion-selectable', `notion-${type}-block`);
+      block.setAttribute('data-block-id', id);
+      block.textContent = text;
+      document.body.appendChild(block);
+      return block;
+    }
+
+    it('pairs the spoken label with an abbreviated type and content-only label', () => {
+      const block = addBlock('callout', 'c', '注意してください');
+      enhanceBlock(block);
+      expect(block.getAttribute('aria-label')).toBe('コールアウトブロック: 注意してください');
+      expect(block.getAttribute('aria-brailleroledescription')).toBe('注記');
+      expect(block.getAttribute('aria-braillelabel')).toBe('注意してください');
+    });
+
+    it('leaves the heading level to the screen reader', () => {
+      const block = addBlock('header', 'h', '概要');
+      enhanceBlock(block);
+      expect(block.hasAttribute('aria-brailleroledescription')).toBe(false);
+      expect(block.getAttribute('aria-braillelabel')).toBe('概要');
+    });
+
+    it('puts the item number in front of numbered list items', () => {
+      addBlock('numbered_list', 'a', '準備');
+      const second = addBlock('numbered_list', 'b', '実行');
+      scanAndEnhance();
+      expect(second.getAttribute('aria-braillelabel')).toBe('2. 実行');
+    });
+  });
+
   describe('scanAndEnhance', () => {
     it('enhances multiple blocks in one pass', () => {
       // Create multiple blocks
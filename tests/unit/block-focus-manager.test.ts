@@ -10,11 +10,18 @@ import {
   navigateToNextHeading,
   navigateToPrevHeading,
   navigateToNextHeadingLevel,
+  navigateToParent,
+  navigateToFirstChild,
+  navigateToNextSibling,
+  navigateToPrevSibling,
+  setQuickKeys,
   resetBlockFocusManager,
   getCurrentIndex,
   isNavigateMode,
 } from '../../src/content/block-focus-manager';
 import { initLiveAnnouncer, destroyLiveAnnouncer } from '../../src/content/live-announcer';
+import { setScreenReader } from '../../src/content/sr-profile';
+import { DEFAULT_SETTINGS } from '../../src/shared/constants';
 
 const NAV_CLASS = 'accessible-notion-nav-focus';
 
@@ -482,6 +489,176 @@ describe('block-focus-manager (virtual cursor)', () => {
     });
   });
 
+  // ─── Hierarchical navigation ──────────────────────────────
+
+  describe('hierarchical navigation', () => {
+    /**
+     * 0: toggle
+     * 1:   text (child of toggle)
+     * 2:   text (child of toggle)
+     * 3: text
+     */
+    beforeEach(() => {
+      document.querySelector('main')!.innerHTML = `
+        <div class="notion-selectable notion-toggle-block" data-block-id="toggle">
+          <div role="textbox" contenteditable="true">トグル</div>
+          <div class="notion-selectable notion-text-block" data-block-id="child-1">
+            <div role="textbox" contenteditable="true">子1</div>
+          </div>
+          <div class="notion-selectable notion-text-block" data-block-id="child-2">
+            <div role="textbox" contenteditable="true">子2</div>
+          </div>
+        </div>
+        <div class="notion-selectable notion-text-block" data-block-id="after">
+          <div role="textbox" contenteditable="true">後続</div>
+        </div>
+      `;
+    });
+
+    it('ArrowRight moves into the first child and announces its depth', async () => {
+      enterNavigateMode(0);
+      const event = fireKey('ArrowRight');
+      expect(event.defaultPrevented).toBe(true);
+      expect(getHighlighted()).toBe(getBlock('child-1'));
+      await new Promise((r) => requestAnimationFrame(r));
+      const live = document.querySelector('[aria-live="polite"]');
+      expect(live?.textContent).toContain('階層2');
+    });
+
+    it('ArrowLeft moves out to the parent', () => {
+      enterNavigateMode(2);
+      fireKey('ArrowLeft');
+      expect(getHighlighted()).toBe(getBlock('toggle'));
+    });
+
+    it('sibling navigation skips descendants', () => {
+      enterNavigateMode(0);
+      navigateToNextSibling();
+      expect(getHighlighted()).toBe(getBlock('after'));
+      navigateToPrevSibling();
+      expect(getHighlighted()).toBe(getBlock('toggle'));
+    });
+
+    it('announces when there is nowhere to go', async () => {
+      enterNavigateMode(3);
+      navigateToFirstChild();
+      expect(getHighlighted()).toBe(getBlock('after'));
+      await new Promise((r) => requestAnimationFrame(r));
+      const live = document.querySelector('[aria-live="polite"]');
+      expect(live?.textContent).toContain('子ブロックがありません');
+    });
+
+    it('starts from the block being edited', () => {
+      const editable = getBlock('child-2').querySelector<HTMLElement>('[contenteditable="true"]')!;
+      editable.setAttribute('tabindex', '-1');
+      editable.focus();
+      navigateToParent();
+      expect(isNavigateMode()).toBe(true);
+      expect(getHighlighted()).toBe(getBlock('toggle'));
+    });
+  });
+
+  // ─── Quick keys ───────────────────────────────────────────
+
+  describe('quick keys', () => {
+    afterEach(() => {
+      setQuickKeys(DEFAULT_SETTINGS.quickKeys);
+    });
+
+    function fireShiftKey(key: string): KeyboardEvent {
+      const event = new KeyboardEvent('keydown', { key, shiftKey: true, bubbles: true, cancelable: true });
+      document.dispatchEvent(event);
+      return event;
+    }
+
+    it('H jumps to the next heading', () => {
+      enterNavigateMode(0);
+      const event = fireKey('h');
+      expect(event.defaultPrevented).toBe(true);
+      expect(getCurrentIndex()).toBe(1);
+      fireKey('h');
+      expect(getCurrentIndex()).toBe(4);
+    });
+
+    it('Shift reverses the direction', () => {
+      enterNavigateMode(4);
+      fireShiftKey('H');
+      expect(getCurrentIndex()).toBe(1);
+    });
+
+    it('digits jump to a heading level', () => {
+      enterNavigateMode(0);
+      fireKey('2');
+      expect(getCurrentIndex()).toBe(4);
+    });
+
+    it('G jumps to images', () => {
+      enterNavigateMode(0);
+      fireKey('g');
+      expect(getHighlighted()).toBe(getBlock('block-3'));
+    });
+
+    it('announces when there is no match', async () => {
+      enterNavigateMode(0);
+      fireKey('q');
+      expect(getCurrentIndex()).toBe(0);
+      await new Promise((r) => requestAnimationFrame(r));
+      const live = document.querySelector('[aria-live="polite"]');
+      expect(live?.textContent).toContain('次の引用がありません');
+    });
+
+    it('follows the configured keys', () => {
+      setQuickKeys({ ...DEFAULT_SETTINGS.quickKeys, heading: 'J', image: '' });
+      enterNavigateMode(0);
+      expect(fireKey('h').defaultPrevented).toBe(false);
+      expect(fireKey('g').defaultPrevented).toBe(false);
+      fireKey('j');
+      expect(getCurrentIndex()).toBe(1);
+    });
+
+    it('passes letters through outside navigate mode', () => {
+      const event = fireKey('h');
+      expect(event.defaultPrevented).toBe(false);
+      expect(isNavigateMode()).toBe(false);
+    });
+  });
+
+  // ─── List cues ────────────────────────────────────────────
+
+  describe('list entry and exit', () => {
+    beforeEach(() => {
+      document.querySelector('main')!.innerHTML = `
+        <div class="notion-selectable notion-text-block" data-block-id="before">前</div>
+        <div class="notion-selectable notion-bulleted_list-block" data-block-id="item-1">一</div>
+        <div class="notion-selectable notion-bulleted_list-block" data-block-id="item-2">二</div>
+        <div class="notion-selectable notion-text-block" data-block-id="after">後</div>
+      `;
+    });
+
+    async function lastAnnouncement(): Promise<string> {
+      await new Promise((r) => requestAnimationFrame(r));
+      return document.querySelector('[aria-live="polite"]')?.textContent ?? '';
+    }
+
+    it('announces entering a list with its size', async () => {
+      enterNavigateMode(0);
+      fireKey('ArrowDown');
+      expect(await lastAnnouncement()).toMatch(/^リスト 2項目 箇条書き: 一/);
+    });
+
+    it('does not repeat the cue within the list', async () => {
+      enterNavigateMode(1);
+      fireKey('ArrowDown');
+      expect(await lastAnnouncement()).toMatch(/^箇条書き: 二/);
+    });
+
+    it('announces leaving the list', async () => {
+      enterNavigateMode(2);
+      fireKey('ArrowDown');
+      expect(await lastAnnouncement()).toMatch(/^リスト終了 テキストブロック: 後/);
+    });
+  });
+
   // ─── Reset ─────────────────────────────────────────────────
 
   describe('resetBlockFocusManager', () => {
@@ -564,4 +741,36 @@ describe('block-focus-manager (virtual cursor)', () => {
       expect(getCurrentIndex()).toBe(0);
     });
   });
+
+  // ─── Screen reader profiles ───────────────────────────────
+
+  describe('VoiceOver profile (DOM focus)', () => {
+    beforeEach(() => {
+      setScreenReader('voiceover');
+    });
+
+    afterEach(() => {
+      setScreenReader('nvda');
+    });
+
+    it('moves DOM focus to the highlighted block', () => {
+      enterNavigateMode(1);
+      expect(document.activeElement).toBe(getBlock('block-1'));
+      expect(getBlock('block-1').getAttribute('tabindex')).toBe('-1');
+    });
+
+    it('Enter focuses the textbox instead of passing through', () => {
+      enterNavigateMode(0);
+      const event = fireKey('Enter');
+      expect(event.defaultPrevented).toBe(true);
+      expect(document.activeElement).toBe(getBlock('block-0').querySelector('[contenteditable="true"]'));
+      expect(isNavigateMode()).toBe(false);
+    });
+
+    it('does not move DOM focus with the NVDA profile', () => {
+      setScreenReader('nvda');
+      enterNavigateMode(1);
+      expect(document.activeElement).not.toBe(getBlock('block-1'));
+    });
+  });
 });
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  getBlocks,
+  getBlockEntry,
+  findHeading,
+  getFirstChild,
+  getSibling,
+  invalidateBlocks,
+  invalidateBlocksOnMutation,
+  getCurrentBlockIndex,
+  setCurrentBlock,
+  resetBlockModel,
+} from '../../src/content/block-model';
+
+function setupPage(): void {
+  document.body.innerHTML = `
+    <main class="notion-frame">
+      <div class="notion-selectable notion-header-block" data-block-id="h1">見出し1</div>
+      <div class="notion-selectable notion-toggle-block" data-block-id="tg">
+        トグル
+        <div class="notion-selectable notion-text-block" data-block-id="child">子</div>
+      </div>
+      <div class="notion-selectable notion-column_list-block" data-block-id="cl">
+        <div class="notion-selectable notion-column-block" data-block-id="col">
+          <div class="notion-selectable notion-sub_header-block" data-block-id="h2">見出し2</div>
+        </div>
+      </div>
+      <div class="notion-selectable notion-sub_sub_header-block" data-block-id="h3">見出し3</div>
+    </main>
+  `;
+}
+
+function el(id: string): HTMLElement {
+  return document.querySelector(`[data-block-id="${id}"]`) as HTMLElement;
+}
+
+describe('block-model', () => {
+  beforeEach(() => {
+    resetBlockModel();
+    setupPage();
+  });
+
+  it('lists blocks in document order with type and heading level', () => {
+    const blocks = getBlocks();
+    expect(blocks.map((b) => b.element.dataset.blockId)).toEqual(['h1', 'tg', 'child', 'cl', 'col', 'h2', 'h3']);
+    expect(blocks[0].type).toBe('header-block');
+    expect(blocks[0].headingLevel).toBe(1);
+    expect(blocks[1].headingLevel).toBeNull();
+  });
+
+  it('computes parent and depth, skipping column layouts', () => {
+    expect(getBlockEntry(el('child'))?.parent?.element).toBe(el('tg'));
+    expect(getBlockEntry(el('child'))?.depth).toBe(2);
+    expect(getBlockEntry(el('h2'))?.parent).toBeNull();
+    expect(getBlockEntry(el('h2'))?.depth).toBe(1);
+  });
+
+  it('reads text live from the DOM', () => {
+    const entry = getBlockEntry(el('h1'))!;
+    el('h1').textContent = '変更後';
+    expect(entry.text).toBe('変更後');
+  });
+
+  it('keeps the cached list until invalidated', () => {
+    const first = getBlocks();
+    expect(getBlocks()).toBe(first);
+
+    invalidateBlocks();
+    expect(getBlocks()).not.toBe(first);
+  });
+
+  it('rebuilds when the main frame is replaced', () => {
+    getBlocks();
+    document.body.innerHTML = '<main class="notion-frame"><div class="notion-selectable notion-text-block" data-block-id="x"></div></main>';
+    expect(getBlocks()).toHaveLength(1);
+  });
+
+  it('invalidates only for mutations that add or remove blocks', async () => {
+    const first = getBlocks();
+    const main = document.querySelector('main')!;
+    const records: MutationRecord[] = [];
+    const observer = new MutationObserver((m) => records.push(...m));
+    observer.observe(main, { childList: true, subtree: true, attributes: true });
+
+    el('h1').classList.add('accessible-notion-nav-focus');
+    el('h1').appendChild(document.createElement('span'));
+    await Promise.resolve();
+    invalidateBlocksOnMutation(records.splice(0));
+    expect(getBlocks()).toBe(first);
+
+    const added = document.createElement('div');
+    added.className = 'notion-selectable notion-text-block';
+    added.dataset.blockId = 'added';
+    main.appendChild(added);
+    await Promise.resolve();
+    invalidateBlocksOnMutation(records.splice(0));
+    expect(getBlocks()).toHaveLength(first.length + 1);
+    observer.disconnect();
+  });
+
+  describe('findHeading', () => {
+    it('searches forward and backward', () => {
+      expect(findHeading(-1, 1)?.element).toBe(el('h1'));
+      expect(findHeading(0, 1)?.element).toBe(el('h2'));
+      expect(findHeading(6, -1)?.element).toBe(el('h2'));
+      expect(findHeading(6, 1)).toBeNull();
+    });
+
+    it('filters by level', () => {
+      expect(findHeading(-1, 1, 3)?.element).toBe(el('h3'));
+      expect(findHeading(-1, 1, 4)).toBeNull();
+    });
+  });
+
+  describe('tree', () => {
+    it('finds the first child', () => {
+      expect(getFirstChild(getBlockEntry(el('tg'))!)?.element).toBe(el('child'));
+      expect(getFirstChild(getBlockEntry(el('h1'))!)).toBeNull();
+    });
+
+    it('treats column contents as children of the column list\'s parent', () => {
+      expect(getFirstChild(getBlockEntry(el('cl'))!)?.element).toBe(el('h2'));
+    });
+
+    it('moves between siblings, skipping descendants and layouts', () => {
+      expect(getSibling(getBlockEntry(el('tg'))!, 1)?.element).toBe(el('h2'));
+      expect(getSibling(getBlockEntry(el('h2'))!, 1)?.element).toBe(el('h3'));
+      expect(getSibling(getBlockEntry(el('h3'))!, -1)?.element).toBe(el('h2'));
+      expect(getSibling(getBlockEntry(el('h2'))!, -1)?.element).toBe(el('tg'));
+      expect(getSibling(getBlockEntry(el('h1'))!, -1)).toBeNull();
+    });
+
+    it('stays within the parent', () => {
+      expect(getSibling(getBlockEntry(el('child'))!, 1)).toBeNull();
+      expect(getSibling(getBlockEntry(el('child'))!, -1)).toBeNull();
+    });
+  });
+
+  describe('cursor', () => {
+    it('tracks the current block by element', () => {
+      setCurrentBlock(getBlockEntry(el('h3')));
+      expect(getCurrentBlockIndex()).toBe(6);
+
+      // Index follows the element when blocks are inserted before it
+      const added = document.createElement('div');
+      added.className = 'notion-selectable notion-text-block';
+      added.dataset.blockId = 'added';
+      el('h1').before(added);
+      invalidateBlocks();
+      expect(getCurrentBlockIndex()).toBe(7);
+    });
+
+    it('returns -1 once the current block is removed', () => {
+      setCurrentBlock(getBlockEntry(el('h3')));
+      el('h3').remove();
+      invalidateBlocks();
+      expect(getCurrentBlockIndex()).toBe(-1);
+    });
+  });
+});
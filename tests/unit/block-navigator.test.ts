@@ -13,6 +13,7 @@ import {
   getCurrentBlockIndex,
 } from '../../src/content/block-navigator';
 import { initLiveAnnouncer, destroyLiveAnnouncer } from '../../src/content/live-announcer';
+import { navigateToLast } from '../../src/content/block-focus-manager';
 
 function createBlock(type: string, text: string): HTMLElement {
   const block = document.createElement('div');
@@ -135,6 +136,14 @@ describe('block-navigator', () => {
     });
   });
 
+  describe('shared cursor', () => {
+    it('continues from the block the virtual cursor is on', () => {
+      navigateToLast();
+      prevBlock();
+      expect(getCurrentBlockIndex()).toBe(5);
+    });
+  });
+
   describe('announceCurrentBlock', () => {
     it('announces block when focused on a block', () => {
       const blocks = document.querySelectorAll<HTMLElement>('div.notion-selectable[data-block-id]');
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  enterBoardMode,
+  isBoardModeActive,
+  destroyBoardNavigator,
+} from '../../src/content/board-navigator';
+import { initLiveAnnouncer, destroyLiveAnnouncer } from '../../src/content/live-announcer';
+
+/** Board with groups of the given card counts: "Todo", "Doing", "Done", … */
+function createBoard(cardCounts: number[]): HTMLElement {
+  const names = ['Todo', 'Doing', 'Done', 'Archived'];
+  const cvBlock = document.createElement('div');
+  cvBlock.classList.add('notion-selectable', 'notion-collection_view-block');
+  cvBlock.setAttribute('tabindex', '-1');
+
+  const board = document.createElement('div');
+  board.classList.add('notion-board-view');
+
+  cardCounts.forEach((count, g) => {
+    const group = document.createElement('div');
+    group.classList.add('notion-board-group');
+    const header = document.createElement('div');
+    header.classList.add('notion-board-group-header');
+    header.textContent = names[g];
+    group.appendChild(header);
+
+    for (let c = 0; c < count; c++) {
+      const card = document.createElement('div');
+      card.classList.add('notion-collection-item');
+      card.setAttribute('data-block-id', `card-${g}-${c}`);
+      card.setAttribute('tabindex', '-1');
+      card.textContent = `${names[g]}${c + 1}`;
+      group.appendChild(card);
+    }
+    board.appendChild(group);
+  });
+
+  cvBlock.appendChild(board);
+  document.body.appendChild(cvBlock);
+  return board;
+}
+
+function press(key: string, init: KeyboardEventInit = {}): KeyboardEvent {
+  const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init });
+  (document.activeElement ?? document.body).dispatchEvent(event);
+  return event;
+}
+
+/** Let queued messages through (each one dwells 1s in the live region) */
+function lastAnnouncement(): string {
+  vi.advanceTimersByTime(1100);
+  return document.querySelector('[aria-live="polite"]')?.textContent ?? '';
+}
+
+describe('board-navigator', () => {
+  let board: HTMLElement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    document.body.innerHTML = '';
+    initLiveAnnouncer();
+    board = createBoard([2, 3, 0]);
+  });
+
+  afterEach(() => {
+    // A frame left pending under fake timers never fires in the next test
+    vi.runOnlyPendingTimers();
+    destroyBoardNavigator();
+    destroyLiveAnnouncer();
+    vi.useRealTimers();
+  });
+
+  it('starts on the first card and announces its position', () => {
+    enterBoardMode(board);
+    expect(isBoardModeActive()).toBe(true);
+    expect(document.activeElement?.textContent).toBe('Todo1');
+    expect(lastAnnouncement()).toBe('ボードモード開始: Todo、カード 1/2: Todo1');
+  });
+
+  it('starts on the focused card', () => {
+    (board.querySelector('[data-block-id="card-1-2"]') as HTMLElement).focus();
+    enterBoardMode(board);
+    expect(document.activeElement?.textContent).toBe('Doing3');
+  });
+
+  it('moves between cards with ↑/↓ and between groups with ←/→', () => {
+    enterBoardMode(board);
+    press('ArrowDown');
+    expect(document.activeElement?.textContent).toBe('Todo2');
+    press('ArrowRight');
+    expect(document.activeElement?.textContent).toBe('Doing2');
+    expect(lastAnnouncement()).toBe('Doing、カード 2/3: Doing2');
+    press('End');
+    expect(document.activeElement?.textContent).toBe('Doing3');
+  });
+
+  it('keeps the position at the edges', () => {
+    enterBoardMode(board);
+    const event = press('ArrowUp');
+    expect(event.defaultPrevented).toBe(true);
+    expect(document.activeElement?.textContent).toBe('Todo1');
+  });
+
+  it('focuses an empty group and says it has no cards', () => {
+    enterBoardMode(board);
+    press('ArrowRight');
+    press('ArrowRight');
+    expect(document.activeElement?.classList.contains('notion-board-group')).toBe(true);
+    expect(lastAnnouncement()).toBe('Done、カードなし');
+  });
+
+  it('Enter opens the card', () => {
+    enterBoardMode(board);
+    const card = document.activeElement as HTMLElement;
+    const onClick = vi.fn();
+    card.addEventListener('click', onClick);
+    press('Enter');
+    expect(onClick).toHaveBeenCalled();
+  });
+
+  it('Shift+→ drags the card into the next group and follows it', () => {
+    const drag: string[] = [];
+    let dragged: HTMLElement | null = null;
+    board.addEventListener('mousedown', (e) => {
+      drag.push('down');
+      dragged = (e.target as HTMLElement).closest('.notion-collection-item');
+    });
+    board.addEventListener('mousemove', () => drag.push('move'));
+    board.addEventListener('mouseup', (e) => {
+      drag.push('up');
+      // Stand-in for Notion's drop handling
+      (e.target as HTMLElement).closest('.notion-board-group')!.appendChild(dragged!);
+    });
+
+    enterBoardMode(board);
+    press('ArrowRight', { shiftKey: true });
+    expect(drag).toEqual(['down', 'move', 'move', 'up']);
+
+    vi.advanceTimersByTime(1000);
+    expect(lastAnnouncement()).toBe('Todo1 を Doing に移動しました、カード 4/4');
+    expect(document.activeElement?.textContent).toBe('Todo1');
+    press('ArrowDown');
+    expect(document.activeElement?.textContent).toBe('Todo1');
+  });
+
+  it('reports a move that did not happen', () => {
+    enterBoardMode(board);
+    press('ArrowRight', { shiftKey: true });
+    vi.advanceTimersByTime(1100);
+    expect(document.querySelector('[aria-live="assertive"]')?.textContent).toBe('Todo1 を移動できませんでした');
+  });
+
+  it('Escape leaves board mode', () => {
+    enterBoardMode(board);
+    press('Escape');
+    expect(isBoardModeActive()).toBe(false);
+    expect(document.activeElement).toBe(board.parentElement);
+    expect(lastAnnouncement()).toBe('ボードモード終了');
+    expect(press('ArrowDown').defaultPrevented).toBe(false);
+  });
+
+  it('S opens the source of a linked board and leaves board mode', () => {
+    board.insertAdjacentHTML('beforebegin', '<a href="/ws/0123456789abcdef0123456789abcdef">タスク</a>');
+    const click = vi.fn((e: Event) => e.preventDefault());
+    board.parentElement!.querySelector('a')!.addEventListener('click', click);
+    enterBoardMode(board);
+
+    expect(press('s').defaultPrevented).toBe(true);
+    expect(click).toHaveBeenCalled();
+    expect(isBoardModeActive()).toBe(false);
+    vi.advanceTimersByTime(1100);
+    expect(lastAnnouncement()).toBe('元のデータベースを開きます: タスク');
+  });
+});
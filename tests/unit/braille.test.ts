@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  setBrailleLabels,
+  isBrailleSupported,
+  compactText,
+  setBrailleLabel,
+  setBrailleRoleDescription,
+  formatBrailleCell,
+} from '../../src/content/braille';
+
+/** jsdom has no ARIA 1.3 reflection; pretend the browser supports it */
+function supportBraille(): void {
+  Object.defineProperty(Element.prototype, 'ariaBrailleLabel', { configurable: true, value: null });
+}
+
+describe('braille', () => {
+  afterEach(() => {
+    setBrailleLabels(false);
+    delete (Element.prototype as { ariaBrailleLabel?: unknown }).ariaBrailleLabel;
+  });
+
+  it('detects support from ARIA reflection', () => {
+    expect(isBrailleSupported()).toBe(false);
+    supportBraille();
+    expect(isBrailleSupported()).toBe(true);
+  });
+
+  it('collapses whitespace and truncates', () => {
+    expect(compactText('  a \n  b  ')).toBe('a b');
+    expect(compactText('あいうえお', 3)).toBe('あいう…');
+  });
+
+  it('shortens column names in cell labels and marks empty values', () => {
+    expect(formatBrailleCell('ステータス', '進行中')).toBe('ステータス:進行中');
+    expect(formatBrailleCell('プロジェクト担当者', '')).toBe('プロジェクト…:-');
+  });
+
+  describe('attributes', () => {
+    let el: HTMLElement;
+
+    beforeEach(() => {
+      el = document.createElement('div');
+    });
+
+    it('adds nothing while the setting is off', () => {
+      supportBraille();
+      setBrailleLabel(el, 'テキスト');
+      setBrailleRoleDescription(el, '文');
+      expect(el.hasAttribute('aria-braillelabel')).toBe(false);
+      expect(el.hasAttribute('aria-brailleroledescription')).toBe(false);
+    });
+
+    it('adds nothing when the browser lacks support', () => {
+      setBrailleLabels(true);
+      setBrailleLabel(el, 'テキスト');
+      expect(el.hasAttribute('aria-braillelabel')).toBe(false);
+    });
+
+    it('sets compact labels when enabled and supported', () => {
+      supportBraille();
+      setBrailleLabels(true);
+      setBrailleLabel(el, '  本文  ');
+      setBrailleRoleDescription(el, '文');
+      expect(el.getAttribute('aria-braillelabel')).toBe('本文');
+      expect(el.getAttribute('aria-brailleroledescription')).toBe('文');
+    });
+
+    it('never leaves the label empty', () => {
+      supportBraille();
+      setBrailleLabels(true);
+      setBrailleLabel(el, '');
+      expect(el.getAttribute('aria-braillelabel')).toBe('-');
+    });
+
+    it('removes labels once the setting is turned off', () => {
+      supportBraille();
+      setBrailleLabels(true);
+      setBrailleLabel(el, '本文');
+      setBrailleLabels(false);
+      setBrailleLabel(el, '本文');
+      expect(el.hasAttribute('aria-braillelabel')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  enterCalendarMode,
+  isCalendarModeActive,
+  destroyCalendarNavigator,
+} from '../../src/content/calendar-navigator';
+import { initLiveAnnouncer, destroyLiveAnnouncer } from '../../src/content/live-announcer';
+
+/** Fill the calendar with 35 day cells starting at `start` */
+function renderMonth(view: HTMLElement, start: Date, events: Record<number, string[]> = {}): void {
+  view.innerHTML = '';
+  for (let i = 0; i < 35; i++) {
+    const date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + i);
+    const cell = document.createElement('div');
+    cell.classList.add('notion-calendar-view-day');
+    const number = document.createElement('div');
+    number.classList.add('day-number');
+    // Notion names the month on the 1st
+    number.textContent = date.getDate() === 1 ? `${date.getMonth() + 1}月1日` : String(date.getDate());
+    cell.appendChild(number);
+
+    const titles = date.getMonth() === 9 ? events[date.getDate()] ?? [] : [];
+    for (const title of titles) {
+      const item = document.createElement('div');
+      item.classList.add('notion-collection-item');
+      item.textContent = title;
+      cell.appendChild(item);
+    }
+    view.appendChild(cell);
+  }
+}
+
+/** October 2026 (Sunday-first weeks from 27 September) with month buttons */
+function createCalendar(): HTMLElement {
+  const cvBlock = document.createElement('div');
+  cvBlock.classList.add('notion-selectable', 'notion-collection_view-block');
+  cvBlock.setAttribute('tabindex', '-1');
+
+  const header = document.createElement('div');
+  header.classList.add('notion-calendar-view-header');
+  header.textContent = '2026年10月';
+  const prev = document.createElement('div');
+  prev.setAttribute('role', 'button');
+  prev.setAttribute('aria-label', '前の月');
+  const next = document.createElement('div');
+  next.setAttribute('role', 'button');
+  next.setAttribute('aria-label', '次の月');
+  header.append(prev, next);
+
+  const view = document.createElement('div');
+  view.classList.add('notion-calendar-view');
+  renderMonth(view, new Date(2026, 8, 27), { 19: ['定例会議', 'レビュー'], 20: [] });
+
+  // Stand-in for Notion re-rendering the grid
+  next.addEventListener('click', () => {
+    header.firstChild!.textContent = '2026年11月';
+    renderMonth(view, new Date(2026, 10, 1));
+  });
+
+  cvBlock.append(header, view);
+  document.body.appendChild(cvBlock);
+  return view;
+}
+
+function press(key: string): KeyboardEvent {
+  const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true });
+  (document.activeElement ?? document.body).dispatchEvent(event);
+  return event;
+}
+
+/** Let queued messages through (each one dwells 1s in the live region) */
+function lastAnnouncement(): string {
+  vi.advanceTimersByTime(1100);
+  return document.querySelector('[aria-live="polite"]')?.textContent ?? '';
+}
+
+describe('calendar-navigator', () => {
+  let view: HTMLElement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 9, 19, 9, 0));
+    document.body.innerHTML = '';
+    initLiveAnnouncer();
+    view = createCalendar();
+  });
+
+  afterEach(() => {
+    // A frame left pending under fake timers never fires in the next test
+    vi.runOnlyPendingTimers();
+    destroyCalendarNavigator();
+    destroyLiveAnnouncer();
+    vi.useRealTimers();
+  });
+
+  it('starts on today with the full date and event count', () => {
+    enterCalendarMode(view);
+    expect(isCalendarModeActive()).toBe(true);
+    expect(lastAnnouncement()).toBe('カレンダーモード開始: 2026年10月19日月曜日、予定2件');
+    expect(document.activeElement?.getAttribute('aria-label')).toBe('2026年10月19日月曜日、予定2件');
+  });
+
+  it('finds the 1st when it is labelled with an English month', () => {
+    view.querySelector<HTMLElement>('.notion-calendar-view-day:nth-child(5) .day-number')!.textContent = 'Oct 1';
+    enterCalendarMode(view);
+    press('ArrowRight');
+    expect(lastAnnouncement()).toBe('2026年10月20日火曜日、予定なし');
+  });
+
+  it('moves by day and by week', () => {
+    enterCalendarMode(view);
+    press('ArrowRight');
+    expect(lastAnnouncement()).toBe('2026年10月20日火曜日、予定なし');
+    press('ArrowUp');
+    expect(lastAnnouncement()).toBe('2026年10月13日火曜日、予定なし');
+  });
+
+  it('Home/End go to the start and end of the week', () => {
+    enterCalendarMode(view);
+    press('Home');
+    expect(lastAnnouncement()).toBe('2026年10月18日日曜日、予定なし');
+    press('End');
+    expect(lastAnnouncement()).toBe('2026年10月24日土曜日、予定なし');
+  });
+
+  it('reaches the neighbouring month days shown in the grid', () => {
+    enterCalendarMode(view);
+    press('Home');
+    press('ArrowUp');
+    press('ArrowUp');
+    press('ArrowUp');
+    expect(lastAnnouncement()).toBe('2026年9月27日日曜日、予定なし');
+  });
+
+  it('PageDown switches Notion to the next month', () => {
+    enterCalendarMode(view);
+    press('PageDown');
+    vi.advanceTimersByTime(300);
+    expect(lastAnnouncement()).toBe('2026年11月19日木曜日、予定なし');
+    expect(document.activeElement?.textContent).toBe('19');
+  });
+
+  it('lists the events of the day with Enter and returns with Escape', () => {
+    enterCalendarMode(view);
+    press('Enter');
+    expect(document.activeElement?.textContent).toBe('定例会議');
+    expect(lastAnnouncement()).toBe('予定 1/2: 定例会議');
+    press('ArrowDown');
+    expect(lastAnnouncement()).toBe('予定 2/2: レビュー');
+    press('Escape');
+    expect(isCalendarModeActive()).toBe(true);
+    expect(document.activeElement?.classList.contains('notion-calendar-view-day')).toBe(true);
+  });
+
+  it('N clicks the add button of the focused day', () => {
+    enterCalendarMode(view);
+    const cell = document.activeElement as HTMLElement;
+    const add = document.createElement('div');
+    add.setAttribute('role', 'button');
+    add.setAttribute('aria-label', '新規');
+    const onClick = vi.fn();
+    add.addEventListener('click', onClick);
+    cell.addEventListener('mouseover', () => cell.appendChild(add));
+
+    press('n');
+    expect(onClick).toHaveBeenCalled();
+    expect(lastAnnouncement()).toBe('2026年10月19日月曜日 に予定を作成します');
+  });
+
+  it('Escape leaves calendar mode', () => {
+    enterCalendarMode(view);
+    press('Escape');
+    expect(isCalendarModeActive()).toBe(false);
+    expect(lastAnnouncement()).toBe('カレンダーモード終了');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getPropertyType, readViewRules, describeViewRules } from '../../src/content/column-info';
+
+function pill(className: string, html: string): string {
+  return `<div class="${className}">${html}</div>`;
+}
+
+describe('column-info', () => {
+  let scope: HTMLElement;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    scope = document.createElement('div');
+    document.body.appendChild(scope);
+  });
+
+  describe('getPropertyType', () => {
+    it('reads the type from the header icon', () => {
+      scope.innerHTML = '<svg class="typesDate"></svg>期限';
+      expect(getPropertyType(scope)).toBe('日付');
+    });
+
+    it('returns null for an unknown icon', () => {
+      scope.innerHTML = '<svg class="somethingNew"></svg>列';
+      expect(getPropertyType(scope)).toBeNull();
+    });
+  });
+
+  describe('readViewRules', () => {
+    it('reads sorts in order with their direction', () => {
+      scope.innerHTML = pill('notion-sort-rule', '<svg class="arrowDown"></svg>期限')
+        + pill('notion-sort-rule', '名前');
+      expect(readViewRules(scope, ['名前', '期限']).sorts).toEqual([
+        { column: '期限', direction: 'descending' },
+        { column: '名前', direction: 'ascending' },
+      ]);
+    });
+
+    it('prefers the longest matching column name', () => {
+      scope.innerHTML = pill('notion-sort-rule', 'Due date descending');
+      expect(readViewRules(scope, ['Due', 'Due date']).sorts).toEqual([
+        { column: 'Due date', direction: 'descending' },
+      ]);
+    });
+
+    it('counts filters', () => {
+      scope.innerHTML = pill('notion-filter-rule', '状態: 完了') + pill('notion-filter-rule', '担当: 田中');
+      expect(readViewRules(scope, ['状態']).filterCount).toBe(2);
+    });
+  });
+
+  describe('describeViewRules', () => {
+    it('summarises filters and sorts', () => {
+      expect(describeViewRules({
+        filterCount: 3,
+        sorts: [{ column: '期限', direction: 'ascending' }, { column: '名前', direction: 'descending' }],
+      })).toBe('フィルター3件, 期限の昇順, 名前の降順で並べ替え');
+    });
+
+    it('is empty without rules', () => {
+      expect(describeViewRules({ filterCount: 0, sorts: [] })).toBe('');
+    });
+  });
+});
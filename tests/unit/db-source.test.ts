@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { getLinkedSource, describeLinkedSource, onSourcePageResolved, openLinkedSource } from '../../src/content/db-source';
+import { initLiveAnnouncer, destroyLiveAnnouncer } from '../../src/content/live-announcer';
+
+const DB_ID = 'aaaabbbbccccddddeeeeffff00001111';
+const DB_UUID = 'aaaabbbb-cccc-dddd-eeee-ffff00001111';
+
+/** Notion's record API answering from `records`, in the wrapped shape of newer responses */
+function stubRecordApi(records: Record<string, object>) {
+  const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+    const id = JSON.parse(init.body as string).requests[0].pointer.id;
+    const value = records[id] && { value: records[id], role: 'reader' };
+    return { ok: true, json: async () => ({ recordMap: { block: value ? { [id]: { value } } : {} } }) };
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function createBlock(html: string): HTMLElement {
+  const block = document.createElement('div');
+  block.classList.add('notion-selectable', 'notion-collection_view-block');
+  block.innerHTML = html;
+  document.body.appendChild(block);
+  return block;
+}
+
+describe('db-source', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    onSourcePageResolved(() => {});
+  });
+
+  describe('getLinkedSource', () => {
+    it('takes the title from the link', () => {
+      const block = createBlock('<a href="/ws/0123456789abcdef0123456789abcdef?v=abc">タスク</a><div>ビュー</div>');
+      expect(getLinkedSource(block)).toMatchObject({ title: 'タスク', link: block.firstElementChild });
+    });
+
+    it('is null for a database that lives on the page', () => {
+      expect(getLinkedSource(createBlock('<div>タスク</div>'))).toBeNull();
+    });
+  });
+
+  describe('source page', () => {
+    it('names the page the source sits on, through the blocks between', async () => {
+      const fetchMock = stubRecordApi({
+        [DB_UUID]: { type: 'collection_view_page', parent_table: 'block', parent_id: 'column-1' },
+        'column-1': { type: 'column', parent_table: 'block', parent_id: 'page-1' },
+        'page-1': { type: 'page', parent_table: 'space', properties: { title: [['Project '], ['Hub', [['b']]]] } },
+      });
+      const resolved = vi.fn();
+      onSourcePageResolved(resolved);
+      const block = createBlock(`<a href="/ws/Tasks-${DB_ID}?v=abc">タスク</a>`);
+
+      expect(describeLinkedSource(getLinkedSource(block)!)).toBe('リンクドデータベース');
+      await vi.waitFor(() => expect(resolved).toHaveBeenCalledWith(block));
+      expect(getLinkedSource(block)!.page).toBe('Project Hub');
+      expect(describeLinkedSource(getLinkedSource(block)!)).toBe('Project Hub からのリンクドデータベース');
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('stays just linked when the lookup fails', async () => {
+      const fetchMock = vi.fn(async () => ({ ok: false }));
+      vi.stubGlobal('fetch', fetchMock);
+      const resolved = vi.fn();
+      onSourcePageResolved(resolved);
+      const block = createBlock('<a href="/ws/fedcba9876543210fedcba9876543210">タスク</a>');
+
+      getLinkedSource(block);
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      getLinkedSource(block);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(resolved).not.toHaveBeenCalled();
+      expect(describeLinkedSource(getLinkedSource(block)!)).toBe('リンクドデータベース');
+    });
+  });
+
+  describe('openLinkedSource', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      initLiveAnnouncer();
+    });
+
+    afterEach(() => {
+      vi.runOnlyPendingTimers();
+      destroyLiveAnnouncer();
+      vi.useRealTimers();
+    });
+
+    function lastAnnouncement(): string {
+      vi.advanceTimersByTime(1100);
+      return document.querySelector('[aria-live="polite"]')?.textContent ?? '';
+    }
+
+    it('clicks the source link of the view it is called from', () => {
+      const block = createBlock('<a href="/ws/0123456789abcdef0123456789abcdef">タスク</a><div class="view"></div>');
+      const click = vi.fn((e: Event) => e.preventDefault());
+      block.querySelector('a')!.addEventListener('click', click);
+
+      expect(openLinkedSource(block.querySelector('.view')!)).toBe(true);
+      expect(click).toHaveBeenCalled();
+      expect(lastAnnouncement()).toBe('元のデータベースを開きます: タスク');
+    });
+
+    it('says when the view is not linked', () => {
+      const block = createBlock('<div class="view"></div>');
+      expect(openLinkedSource(block.querySelector('.view')!)).toBe(false);
+      expect(lastAnnouncement()).toBe('リンクドデータベースではありません');
+    });
+  });
+});
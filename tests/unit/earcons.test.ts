@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { playEarcon, setEarconSettings, destroyEarcons } from '../../src/content/earcons';
+import { DEFAULT_SETTINGS } from '../../src/shared/constants';
+
+/** Minimal WebAudio stand-in that records the tones it was asked to play */
+class FakeAudioContext {
+  static instances: FakeAudioContext[] = [];
+  state = 'running';
+  currentTime = 0;
+  destination = {};
+  tones: { type: string; frequency: number; peak: number }[] = [];
+  closed = false;
+
+  constructor() {
+    FakeAudioContext.instances.push(this);
+  }
+
+  createOscillator() {
+    const osc = {
+      type: 'sine',
+      frequency: { value: 0 },
+      connect: (gain: { peak: number; connect: () => void }) => {
+        this.tones.push({ type: osc.type, frequency: osc.frequency.value, peak: gain.peak });
+        return gain;
+      },
+      start: vi.fn(),
+      stop: vi.fn(),
+    };
+    return osc;
+  }
+
+  createGain() {
+    const node = {
+      peak: 0,
+      gain: {
+        setValueAtTime: vi.fn(),
+        linearRampToValueAtTime: (value: number) => { node.peak = Math.max(node.peak, value); },
+      },
+      connect: vi.fn(),
+    };
+    return node;
+  }
+
+  resume() { return Promise.resolve(); }
+  close() { this.closed = true; return Promise.resolve(); }
+}
+
+function enable(overrides: Partial<typeof DEFAULT_SETTINGS.earcons> = {}): void {
+  setEarconSettings({ ...DEFAULT_SETTINGS.earcons, enabled: true, ...overrides });
+}
+
+function playedTones() {
+  return FakeAudioContext.instances.flatMap((ctx) => ctx.tones);
+}
+
+describe('earcons', () => {
+  beforeEach(() => {
+    FakeAudioContext.instances = [];
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+  });
+
+  afterEach(() => {
+    destroyEarcons();
+    setEarconSettings(DEFAULT_SETTINGS.earcons);
+    vi.unstubAllGlobals();
+  });
+
+  it('is off by default and creates no audio context', () => {
+    playEarcon('boundary');
+    expect(FakeAudioContext.instances).toHaveLength(0);
+  });
+
+  it('plays the tones of an enabled cue', () => {
+    enable();
+    playEarcon('navigateModeStart');
+    expect(playedTones().map((tone) => tone.frequency)).toEqual([523, 784]);
+  });
+
+  it('reuses one audio context', () => {
+    enable();
+    playEarcon('boundary');
+    playEarcon('popupOpen');
+    expect(FakeAudioContext.instances).toHaveLength(1);
+  });
+
+  it('skips cues that are switched off', () => {
+    enable({ cues: { ...DEFAULT_SETTINGS.earcons.cues, boundary: false } });
+    playEarcon('boundary');
+    expect(playedTones()).toEqual([]);
+  });
+
+  it('scales the gain with the volume setting', () => {
+    enable({ volume: 40 });
+    playEarcon('popupOpen');
+    expect(playedTones()[0].peak).toBeCloseTo(0.4);
+  });
+
+  it('stays silent at volume 0', () => {
+    enable({ volume: 0 });
+    playEarcon('popupOpen');
+    expect(FakeAudioContext.instances).toHaveLength(0);
+  });
+
+  it('closes the audio context on destroy', () => {
+    enable();
+    playEarcon('boundary');
+    destroyEarcons();
+    expect(FakeAudioContext.instances[0].closed).toBe(true);
+  });
+
+  it('does nothing without WebAudio', () => {
+    vi.stubGlobal('AudioContext', undefined);
+    enable();
+    expect(() => playEarcon('boundary')).not.toThrow();
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { openElementsList, closeElementsList, isElementsListOpen } from '../../src/content/elements-list';
+import {
+  initBlockFocusManager,
+  destroyBlockFocusManager,
+  getCurrentIndex,
+  isNavigateMode,
+} from '../../src/content/block-focus-manager';
+import { initLiveAnnouncer, destroyLiveAnnouncer } from '../../src/content/live-announcer';
+
+function setupPage(): void {
+  document.body.innerHTML = `
+    <button id="origin">元の位置</button>
+    <main class="notion-frame">
+      <div class="notion-selectable notion-header-block" data-block-id="h1">概要</div>
+      <div class="notion-selectable notion-text-block" data-block-id="p1">
+        <div role="textbox" contenteditable="true">詳細は<a href="https://example.com">仕様書</a>へ</div>
+      </div>
+      <div class="notion-selectable notion-sub_header-block" data-block-id="h2">背景</div>
+      <div class="notion-selectable notion-sub_header-block" data-block-id="h3">目標</div>
+      <div class="notion-selectable notion-to_do-block" data-block-id="t1" aria-checked="true">買い物</div>
+    </main>
+  `;
+}
+
+function dialog(): HTMLElement | null {
+  return document.getElementById('an-elements-list');
+}
+
+function input(): HTMLInputElement {
+  return dialog()!.querySelector('input')!;
+}
+
+function options(): string[] {
+  return Array.from(dialog()!.querySelectorAll('[role="treeitem"], [role="option"]')).map((el) => el.textContent ?? '');
+}
+
+function press(target: HTMLElement, key: string): KeyboardEvent {
+  const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true });
+  target.dispatchEvent(event);
+  return event;
+}
+
+function type(value: string): void {
+  input().value = value;
+  input().dispatchEvent(new Event('input', { bubbles: true }));
+}
+
+describe('elements-list', () => {
+  beforeEach(() => {
+    setupPage();
+    initLiveAnnouncer();
+    initBlockFocusManager();
+    document.getElementById('origin')!.focus();
+  });
+
+  afterEach(() => {
+    closeElementsList();
+    destroyBlockFocusManager();
+    destroyLiveAnnouncer();
+  });
+
+  it('opens a modal dialog with the filter focused', () => {
+    openElementsList();
+    expect(dialog()?.getAttribute('role')).toBe('dialog');
+    expect(dialog()?.getAttribute('aria-modal')).toBe('true');
+    expect(document.activeElement).toBe(input());
+  });
+
+  it('shows headings as a tree with levels', () => {
+    openElementsList();
+    const list = dialog()!.querySelector('#an-elements-list-items')!;
+    expect(list.getAttribute('role')).toBe('tree');
+    expect(options()).toEqual(['概要', '背景', '目標']);
+    expect(list.children[1].getAttribute('aria-level')).toBe('2');
+  });
+
+  it('labels tabs with their item counts', () => {
+    openElementsList();
+    const tabs = Array.from(dialog()!.querySelectorAll('[role="tab"]')).map((el) => el.textContent);
+    expect(tabs).toEqual(['見出し (3)', 'リンク (1)', 'データベース (0)', 'To-do (1)', 'コメント (0)']);
+  });
+
+  it('switches tabs with the arrow keys', () => {
+    openElementsList();
+    const headingsTab = dialog()!.querySelector<HTMLElement>('[role="tab"]')!;
+    headingsTab.focus();
+    press(headingsTab, 'ArrowRight');
+
+    const linksTab = dialog()!.querySelectorAll<HTMLElement>('[role="tab"]')[1];
+    expect(linksTab.getAttribute('aria-selected')).toBe('true');
+    expect(document.activeElement).toBe(linksTab);
+    expect(dialog()!.querySelector('#an-elements-list-items')!.getAttribute('role')).toBe('listbox');
+    expect(options()).toEqual(['仕様書']);
+  });
+
+  it('filters as you type', () => {
+    openElementsList();
+    type('目');
+    expect(options()).toEqual(['目標']);
+    type('存在しない');
+    expect(options()).toEqual([]);
+    expect(dialog()!.querySelector<HTMLElement>('#an-elements-list-empty')!.hidden).toBe(false);
+  });
+
+  it('tracks the active item with aria-activedescendant', () => {
+    openElementsList();
+    expect(input().getAttribute('aria-activedescendant')).toBe('an-elements-list-item-0');
+    press(input(), 'ArrowDown');
+    expect(input().getAttribute('aria-activedescendant')).toBe('an-elements-list-item-1');
+    expect(dialog()!.querySelector('#an-elements-list-item-1')!.getAttribute('aria-selected')).toBe('true');
+  });
+
+  it('Enter moves the navigate cursor to the chosen block', () => {
+    openElementsList();
+    press(input(), 'ArrowDown');
+    press(input(), 'Enter');
+
+    expect(isElementsListOpen()).toBe(false);
+    expect(isNavigateMode()).toBe(true);
+    expect(getCurrentIndex()).toBe(2);
+  });
+
+  it('Escape closes and restores focus', () => {
+    openElementsList();
+    press(input(), 'Escape');
+    expect(dialog()).toBeNull();
+    expect(document.activeElement).toBe(document.getElementById('origin'));
+  });
+
+  it('keeps focus inside the dialog on Tab', () => {
+    openElementsList();
+    const event = press(input(), 'Tab');
+    expect(event.defaultPrevented).toBe(true);
+    expect(document.activeElement?.getAttribute('role')).toBe('tab');
+  });
+});
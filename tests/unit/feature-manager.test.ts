@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { applyFeatures, destroyFeatures, isFeatureActive } from '../../src/content/feature-manager';
+import { scanAndEnhance } from '../../src/content/aria-injector';
+import { DEFAULT_SETTINGS, LIVE_REGION_ATTR, type ExtensionSettings } from '../../src/shared/constants';
+
+type Features = ExtensionSettings['features'];
+
+const ALL_ON: Features = { ...DEFAULT_SETTINGS.features };
+const ALL_OFF = Object.fromEntries(
+  Object.keys(ALL_ON).map((key) => [key, false]),
+) as unknown as Features;
+
+function setupPage(): void {
+  document.body.innerHTML = `
+    <nav class="notion-sidebar-container">
+      <div role="tree"><div role="treeitem" aria-label="ページ1">ページ1</div></div>
+    </nav>
+    <main class="notion-frame">
+      <div class="notion-selectable notion-text-block" data-block-id="b1">
+        <div role="textbox" contenteditable="true">本文</div>
+      </div>
+    </main>
+  `;
+}
+
+/** Tracks listeners and observers that are currently attached */
+function trackResources() {
+  const listeners = new Set<string>();
+  const observers = new Set<MutationObserver>();
+  const ids = new WeakMap<object, number>();
+  let nextId = 0;
+  const idOf = (obj: object) => {
+    if (!ids.has(obj)) ids.set(obj, nextId++);
+    return ids.get(obj);
+  };
+  const keyOf = (target: EventTarget, type: string, listener: unknown, options?: boolean | EventListenerOptions) => {
+    const capture = typeof options === 'boolean' ? options : !!options?.capture;
+    return `${idOf(target)}:${type}:${idOf(listener as object)}:${capture}`;
+  };
+
+  const origAdd = EventTarget.prototype.addEventListener;
+  const origRemove = EventTarget.prototype.removeEventListener;
+  const origObserve = MutationObserver.prototype.observe;
+  const origDisconnect = MutationObserver.prototype.disconnect;
+
+  const add = vi.spyOn(EventTarget.prototype, 'addEventListener').mockImplementation(function (
+    this: EventTarget, type, listener, options,
+  ) {
+    if (listener) listeners.add(keyOf(this, type, listener, options));
+    origAdd.call(this, type, listener, options);
+  });
+  const remove = vi.spyOn(EventTarget.prototype, 'removeEventListener').mockImplementation(function (
+    this: EventTarget, type, listener, options,
+  ) {
+    if (listener) listeners.delete(keyOf(this, type, listener, options));
+    origRemove.call(this, type, listener, options);
+  });
+  const observe = vi.spyOn(MutationObserver.prototype, 'observe').mockImplementation(function (
+    this: MutationObserver, target, options,
+  ) {
+    observers.add(this);
+    origObserve.call(this, target, options);
+  });
+  const disconnect = vi.spyOn(MutationObserver.prototype, 'disconnect').mockImplementation(function (
+    this: MutationObserver,
+  ) {
+    observers.delete(this);
+    origDisconnect.call(this);
+  });
+
+  return {
+    listeners,
+    observers,
+    restore() {
+      add.mockRestore();
+      remove.mockRestore();
+      observe.mockRestore();
+      disconnect.mockRestore();
+    },
+  };
+}
+
+describe('feature-manager', () => {
+  beforeEach(() => {
+    setupPage();
+  });
+
+  afterEach(() => {
+    destroyFeatures();
+    applyFeatures(ALL_ON);
+    destroyFeatures();
+  });
+
+  // Runs first so no module state is left over from other tests
+  it('does not leak listeners or observers across toggles', () => {
+    // jsdom's selector engine attaches its own document listeners on first use
+    document.querySelectorAll('div');
+    getComputedStyle(document.body);
+    const tracker = trackResources();
+    try {
+      const baseline = tracker.listeners.size;
+      for (let i = 0; i < 3; i++) {
+        applyFeatures(ALL_ON);
+        applyFeatures(ALL_ON);
+        applyFeatures(ALL_OFF);
+      }
+      expect(tracker.listeners.size).toBe(baseline);
+      expect(tracker.observers.size).toBe(0);
+
+      applyFeatures(ALL_ON);
+      destroyFeatures();
+      expect(tracker.listeners.size).toBe(baseline);
+      expect(tracker.observers.size).toBe(0);
+    } finally {
+      tracker.restore();
+    }
+  });
+
+  it('starts only enabled features', () => {
+    applyFeatures({ ...ALL_ON, comments: false });
+    expect(isFeatureActive('sidebarTree')).toBe(true);
+    expect(isFeatureActive('comments')).toBe(false);
+  });
+
+  it('stops a single feature without touching the others', () => {
+    applyFeatures(ALL_ON);
+    applyFeatures({ ...ALL_ON, liveAnnouncer: false });
+
+    expect(document.querySelectorAll(`[${LIVE_REGION_ATTR}]`).length).toBe(0);
+    expect(isFeatureActive('liveAnnouncer')).toBe(false);
+    expect(isFeatureActive('blockNavigation')).toBe(true);
+  });
+
+  it('removes textbox labels when contentEditableEnhance is turned off', () => {
+    applyFeatures(ALL_ON);
+    scanAndEnhance();
+    const textbox = document.querySelector('[role="textbox"]')!;
+    expect(textbox.getAttribute('aria-label')).toContain('本文');
+
+    applyFeatures({ ...ALL_ON, contentEditableEnhance: false });
+    expect(textbox.hasAttribute('aria-label')).toBe(false);
+    scanAndEnhance();
+    expect(textbox.hasAttribute('aria-label')).toBe(false);
+
+    applyFeatures(ALL_ON);
+    expect(textbox.getAttribute('aria-label')).toContain('本文');
+  });
+
+  it('re-applies every flag after destroyFeatures', () => {
+    applyFeatures(ALL_ON);
+    destroyFeatures();
+    expect(isFeatureActive('liveAnnouncer')).toBe(false);
+
+    applyFeatures(ALL_ON);
+    expect(document.querySelectorAll(`[${LIVE_REGION_ATTR}]`).length).toBe(2);
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  layoutGalleryRows,
+  enterGalleryMode,
+  isGalleryModeActive,
+  destroyGalleryNavigator,
+  removeGalleryRows,
+} from '../../src/content/gallery-navigator';
+import { initLiveAnnouncer, destroyLiveAnnouncer } from '../../src/content/live-announcer';
+
+/** Gallery of `count` cards laid out `columns` per row */
+function createGallery(count: number, columns: number): HTMLElement {
+  const cvBlock = document.createElement('div');
+  cvBlock.classList.add('notion-selectable', 'notion-collection_view-block');
+  cvBlock.setAttribute('tabindex', '-1');
+
+  const gallery = document.createElement('div');
+  gallery.classList.add('notion-gallery-view');
+
+  for (let i = 0; i < count; i++) {
+    const card = document.createElement('div');
+    card.classList.add('notion-collection-item');
+    card.setAttribute('data-block-id', `card-${i}`);
+    card.innerHTML = `<div aria-hidden="true">📄</div><div>カード${i + 1}</div><div><span>進行中</span></div>`;
+    const top = Math.floor(i / columns) * 200;
+    card.getBoundingClientRect = () => ({ top, left: 0, width: 100, height: 180 } as DOMRect);
+    gallery.appendChild(card);
+  }
+
+  cvBlock.appendChild(gallery);
+  document.body.appendChild(cvBlock);
+  return gallery;
+}
+
+function cards(): HTMLElement[] {
+  return Array.from(document.querySelectorAll<HTMLElement>('.notion-collection-item'));
+}
+
+function press(key: string, init: KeyboardEventInit = {}): KeyboardEvent {
+  const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init });
+  (document.activeElement ?? document.body).dispatchEvent(event);
+  return event;
+}
+
+/** Rows grouping the gallery's cards */
+function rowsOf(gallery: HTMLElement): Element[] {
+  const holder = document.getElementById(gallery.getAttribute('aria-owns') ?? '');
+  return Array.from(holder?.querySelectorAll('[role="row"]') ?? []);
+}
+
+/** Let queued messages through (each one dwells 1s in the live region) */
+function lastAnnouncement(): string {
+  vi.advanceTimersByTime(1100);
+  return document.querySelector('[aria-live="polite"]')?.textContent ?? '';
+}
+
+describe('gallery-navigator', () => {
+  let gallery: HTMLElement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    document.body.innerHTML = '';
+    initLiveAnnouncer();
+    gallery = createGallery(5, 3);
+  });
+
+  afterEach(() => {
+    // A frame left pending under fake timers never fires in the next test
+    vi.runOnlyPendingTimers();
+    destroyGalleryNavigator();
+    destroyLiveAnnouncer();
+    vi.useRealTimers();
+  });
+
+  describe('layoutGalleryRows', () => {
+    it('groups the cards into rows by their laid-out position', () => {
+      expect(layoutGalleryRows(gallery)).toBe(3);
+
+      const rows = rowsOf(gallery);
+      expect(rows).toHaveLength(2);
+      expect(rows[0].getAttribute('aria-owns')?.split(' ')).toEqual(cards().slice(0, 3).map((c) => c.id));
+      expect(rows[1].getAttribute('aria-owns')?.split(' ')).toEqual(cards().slice(3).map((c) => c.id));
+      expect(gallery.getAttribute('aria-rowcount')).toBe('2');
+      expect(gallery.getAttribute('aria-colcount')).toBe('3');
+      expect(cards()[4].getAttribute('aria-colindex')).toBe('2');
+    });
+
+    it('labels cards with the title and property values', () => {
+      layoutGalleryRows(gallery);
+      expect(cards()[0].getAttribute('role')).toBe('gridcell');
+      expect(cards()[0].getAttribute('aria-label')).toBe('カード1, 進行中');
+    });
+
+    it('regroups when the column count changes', () => {
+      layoutGalleryRows(gallery);
+      cards().forEach((card, i) => {
+        card.getBoundingClientRect = () => ({ top: Math.floor(i / 2) * 200 } as DOMRect);
+      });
+      expect(layoutGalleryRows(gallery)).toBe(2);
+      expect(rowsOf(gallery)).toHaveLength(3);
+    });
+
+    it('keeps the rows outside Notion\'s gallery container', () => {
+      layoutGalleryRows(gallery);
+      expect(gallery.querySelector('[role="row"]')).toBeNull();
+      expect(rowsOf(gallery)[0].closest('.notion-collection_view-block')).toBeNull();
+      // Rebuilding the same layout reuses the holder
+      layoutGalleryRows(gallery);
+      expect(document.querySelectorAll('[data-accessible-notion="gallery-rows"]')).toHaveLength(1);
+    });
+
+    it('drops the rows of a gallery Notion replaced, and all rows on removal', () => {
+      layoutGalleryRows(gallery);
+      gallery.closest('.notion-collection_view-block')!.remove();
+      const replaced = createGallery(2, 2);
+      layoutGalleryRows(replaced);
+      expect(document.querySelectorAll('[data-accessible-notion="gallery-rows"]')).toHaveLength(1);
+
+      removeGalleryRows();
+      expect(document.querySelectorAll('[data-accessible-notion="gallery-rows"]')).toHaveLength(0);
+      expect(replaced.hasAttribute('aria-owns')).toBe(false);
+    });
+  });
+
+  describe('gallery mode', () => {
+    it('starts on the first card', () => {
+      enterGalleryMode(gallery);
+      expect(isGalleryModeActive()).toBe(true);
+      expect(document.activeElement).toBe(cards()[0]);
+      expect(lastAnnouncement()).toBe('ギャラリーモード開始: カード1, 進行中');
+    });
+
+    it('moves by row and column the way the cards are laid out', () => {
+      enterGalleryMode(gallery);
+      press('ArrowRight');
+      expect(document.activeElement).toBe(cards()[1]);
+      press('ArrowDown');
+      expect(document.activeElement).toBe(cards()[4]);
+      expect(lastAnnouncement()).toBe('カード5, 進行中');
+      press('ArrowUp');
+      press('End');
+      expect(document.activeElement).toBe(cards()[2]);
+    });
+
+    it('stops at the edge of a row', () => {
+      enterGalleryMode(gallery);
+      press('End');
+      press('ArrowRight');
+      expect(document.activeElement).toBe(cards()[2]);
+    });
+
+    it('lands on the last card of a shorter last row', () => {
+      enterGalleryMode(gallery);
+      press('End');
+      press('ArrowDown');
+      expect(document.activeElement).toBe(cards()[4]);
+    });
+
+    it('restores focus to the card when its peek closes', async () => {
+      enterGalleryMode(gallery);
+      press('ArrowRight');
+      press('Enter');
+
+      const peek = document.createElement('div');
+      peek.classList.add('notion-peek-renderer');
+      document.body.appendChild(peek);
+      peek.tabIndex = -1;
+      peek.focus();
+      await Promise.resolve();
+
+      peek.remove();
+      await Promise.resolve();
+      expect(document.activeElement).toBe(cards()[1]);
+    });
+
+    it('stops waiting for the card page once gallery mode ends', async () => {
+      enterGalleryMode(gallery);
+      press('Enter');
+      const peek = document.createElement('div');
+      peek.classList.add('notion-peek-renderer');
+      document.body.appendChild(peek);
+      await Promise.resolve();
+
+      press('Escape');
+      peek.remove();
+      await Promise.resolve();
+      expect(document.activeElement).not.toBe(cards()[0]);
+    });
+
+    it('stops waiting for the card page after a while', async () => {
+      enterGalleryMode(gallery);
+      press('Enter');
+      const peek = document.createElement('div');
+      peek.classList.add('notion-peek-renderer');
+      document.body.appendChild(peek);
+      await Promise.resolve();
+
+      vi.advanceTimersByTime(5 * 60_000);
+      (document.activeElement as HTMLElement).blur();
+      peek.remove();
+      await Promise.resolve();
+      expect(document.activeElement).not.toBe(cards()[0]);
+    });
+
+    it('Escape leaves gallery mode', () => {
+      enterGalleryMode(gallery);
+      press('Escape');
+      expect(isGalleryModeActive()).toBe(false);
+      expect(lastAnnouncement()).toBe('ギャラリーモード終了');
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import ja from '../../src/_locales/ja/messages.json';
+import en from '../../src/_locales/en/messages.json';
+import { t, setLocale, resolveLocale } from '../../src/shared/i18n';
+import { setVerbosity, composeAnnouncement, formatBlock } from '../../src/content/announcement-formatter';
+
+describe('i18n', () => {
+  afterEach(() => {
+    setLocale('ja');
+  });
+
+  describe('resolveLocale', () => {
+    it('follows the browser language for auto', () => {
+      expect(resolveLocale('auto', 'ja-JP')).toBe('ja');
+      expect(resolveLocale('auto', 'en-US')).toBe('en');
+      expect(resolveLocale('auto', 'fr')).toBe('en');
+    });
+
+    it('lets an explicit setting override the browser', () => {
+      expect(resolveLocale('ja', 'en-US')).toBe('ja');
+      expect(resolveLocale('en', 'ja-JP')).toBe('en');
+    });
+  });
+
+  describe('t', () => {
+    it('looks up the current locale', () => {
+      expect(t('navigateMode')).toBe(ja.navigateMode.message);
+      setLocale('en');
+      expect(t('navigateMode')).toBe(en.navigateMode.message);
+    });
+
+    it('fills placeholders', () => {
+      setLocale('en');
+      expect(t('popupOpened', { label: 'Menu', count: 3 })).toBe('Menu, 3 items');
+    });
+
+    it('leaves unknown placeholders in place', () => {
+      expect(t('popupOpened', { label: 'メニュー' })).toBe('メニュー {count}件');
+    });
+  });
+
+  it('has the same keys in both catalogs', () => {
+    expect(Object.keys(en).sort()).toEqual(Object.keys(ja).sort());
+  });
+
+  it('announces blocks in English', () => {
+    setLocale('en');
+    document.body.innerHTML = `
+      <main class="notion-frame">
+        <div class="notion-selectable notion-to_do-block" data-block-id="t1" aria-checked="false">
+          <div role="textbox" contenteditable="true">Groceries</div>
+        </div>
+      </main>
+    `;
+    const block = document.querySelector<HTMLElement>('[data-block-id="t1"]')!;
+    expect(formatBlock(block, { index: 0, total: 2 })).toBe('To-do checkbox: Groceries, not checked (1/2)');
+
+    setVerbosity('minimal');
+    expect(composeAnnouncement({ text: '' })).toBe(en.empty.message);
+    setVerbosity('standard');
+  });
+});
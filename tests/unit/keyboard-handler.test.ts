@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { initKeyboardHandler, updateShortcuts, destroyKeyboardHandler } from '../../src/content/keyboard-handler';
+import { initKeyboardHandler, updateShortcuts, updateFeatures, destroyKeyboardHandler } from '../../src/content/keyboard-handler';
 import { initLiveAnnouncer, destroyLiveAnnouncer } from '../../src/content/live-announcer';
 import { initBlockFocusManager, destroyBlockFocusManager, isNavigateMode } from '../../src/content/block-focus-manager';
 import { DEFAULT_SETTINGS, type ExtensionSettings } from '../../src/shared/constants';
@@ -226,6 +226,20 @@ describe('keyboard-handler', () => {
     });
   });
 
+  describe('updateFeatures', () => {
+    it('leaves block navigation keys to Notion while the feature is off', () => {
+      initKeyboardHandler(settings);
+      updateFeatures({ ...settings.features, blockNavigation: false });
+
+      const event = fireKeyCombo('N');
+      expect(event.defaultPrevented).toBe(false);
+      expect(isNavigateMode()).toBe(false);
+
+      updateFeatures({ ...settings.features, blockNavigation: true });
+      expect(fireKeyCombo('N').defaultPrevented).toBe(true);
+    });
+  });
+
   describe('Mac Option+Shift key matching', () => {
     beforeEach(() => {
       initKeyboardHandler(settings);
@@ -1,5 +1,14 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { initLiveAnnouncer, announce, destroyLiveAnnouncer } from '../../src/content/live-announcer';
+import {
+  initLiveAnnouncer,
+  announce,
+  destroyLiveAnnouncer,
+  recordAnnouncements,
+  stopRecordingAnnouncements,
+  getAnnouncementHistory,
+  repeatLastAnnouncement,
+  reviewAnnouncement,
+} from '../../src/content/live-announcer';
 import { LIVE_REGION_ATTR } from '../../src/shared/constants';
 
 describe('live-announcer', () => {
@@ -61,4 +70,184 @@ describe('live-announcer', () => {
     const regions = document.querySelectorAll(`[${LIVE_REGION_ATTR}]`);
     expect(regions.length).toBe(0);
   });
+
+  describe('queue', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(0);
+    });
+
+    afterEach(() => {
+      stopRecordingAnnouncements();
+      vi.useRealTimers();
+    });
+
+    function spoken(records: ReturnType<typeof recordAnnouncements>): string[] {
+      return records.map((r) => `${r.time}:${r.message}`);
+    }
+
+    it('speaks quick successive messages in turn instead of dropping them', () => {
+      const records = recordAnnouncements();
+      announce('一つ目');
+      announce('二つ目');
+      vi.advanceTimersByTime(3000);
+      expect(spoken(records)).toEqual(['16:一つ目', '1032:二つ目']);
+    });
+
+    it('keeps each message in the region for the minimum dwell time', () => {
+      const polite = document.querySelector(`[${LIVE_REGION_ATTR}="polite"]`)!;
+      announce('一つ目');
+      announce('二つ目');
+      vi.advanceTimersByTime(1000);
+      expect(polite.textContent).toBe('一つ目');
+      vi.advanceTimersByTime(100);
+      expect(polite.textContent).toBe('二つ目');
+    });
+
+    it('coalesces a duplicate of a message that is still waiting', () => {
+      const records = recordAnnouncements();
+      announce('一つ目');
+      announce('二つ目');
+      announce('二つ目');
+      announce('一つ目');
+      vi.advanceTimersByTime(5000);
+      expect(records.map((r) => r.message)).toEqual(['一つ目', '二つ目']);
+    });
+
+    it('puts assertive messages ahead of queued polite ones', () => {
+      const records = recordAnnouncements();
+      announce('現在');
+      announce('待機');
+      announce('エラー', 'assertive');
+      vi.advanceTimersByTime(5000);
+      expect(records.map((r) => `${r.priority}:${r.message}`)).toEqual([
+        'polite:現在',
+        'assertive:エラー',
+        'polite:待機',
+      ]);
+    });
+
+    it('interrupt drops the queue and speaks at once', () => {
+      const records = recordAnnouncements();
+      announce('一つ目');
+      announce('二つ目');
+      announce('三つ目');
+      vi.advanceTimersByTime(20);
+      announce('移動先', { interrupt: true });
+      vi.advanceTimersByTime(5000);
+      expect(spoken(records)).toEqual(['16:一つ目', '36:移動先']);
+    });
+
+    it('interrupt supersedes a message that has not been injected yet', () => {
+      const records = recordAnnouncements();
+      announce('古い位置', { interrupt: true });
+      announce('新しい位置', { interrupt: true });
+      vi.advanceTimersByTime(100);
+      expect(records.map((r) => r.message)).toEqual(['新しい位置']);
+    });
+
+    it('speaks without animation frames, as in a background tab', () => {
+      const raf = vi.spyOn(window, 'requestAnimationFrame').mockImplementation(() => 0);
+      const records = recordAnnouncements();
+      announce('一つ目');
+      announce('二つ目');
+      vi.advanceTimersByTime(3000);
+      expect(spoken(records)).toEqual(['100:一つ目', '1200:二つ目']);
+      raf.mockRestore();
+    });
+
+    it('stops recording on request', () => {
+      const records = recordAnnouncements();
+      stopRecordingAnnouncements();
+      announce('記録外');
+      vi.advanceTimersByTime(100);
+      expect(records).toEqual([]);
+    });
+
+    it('drops queued messages on destroy', () => {
+      const records = recordAnnouncements();
+      announce('一つ目');
+      announce('二つ目');
+      vi.advanceTimersByTime(20);
+      destroyLiveAnnouncer();
+      initLiveAnnouncer();
+      vi.advanceTimersByTime(5000);
+      expect(records.map((r) => r.message)).toEqual(['一つ目']);
+    });
+  });
+
+  describe('history', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(0);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    function polite(): string {
+      return document.querySelector(`[${LIVE_REGION_ATTR}="polite"]`)?.textContent ?? '';
+    }
+
+    it('keeps spoken messages with time and source', () => {
+      announce('一つ目', { source: 'Test' });
+      announce('二つ目');
+      vi.advanceTimersByTime(3000);
+      expect(getAnnouncementHistory()).toEqual([
+        { message: '一つ目', priority: 'polite', time: 16, source: 'Test' },
+        { message: '二つ目', priority: 'polite', time: 1032, source: '' },
+      ]);
+    });
+
+    it('drops the oldest entries beyond the buffer size', () => {
+      for (let i = 0; i < 55; i++) {
+        announce(`通知${i}`, { interrupt: true });
+        vi.advanceTimersByTime(20);
+      }
+      const history = getAnnouncementHistory();
+      expect(history.length).toBe(50);
+      expect(history[0].message).toBe('通知5');
+      expect(history[49].message).toBe('通知54');
+    });
+
+    it('repeats the last message without adding it again', () => {
+      announce('大事な通知');
+      vi.advanceTimersByTime(1500);
+      repeatLastAnnouncement();
+      vi.advanceTimersByTime(20);
+      expect(polite()).toBe('大事な通知');
+      expect(getAnnouncementHistory().length).toBe(1);
+    });
+
+    it('reviews older and newer messages from the newest', () => {
+      announce('一', { interrupt: true });
+      vi.advanceTimersByTime(20);
+      announce('二', { interrupt: true });
+      vi.advanceTimersByTime(20);
+
+      reviewAnnouncement(-1);
+      vi.advanceTimersByTime(20);
+      expect(polite()).toBe('2/2: 二');
+      reviewAnnouncement(-1);
+      vi.advanceTimersByTime(20);
+      expect(polite()).toBe('1/2: 一');
+      reviewAnnouncement(-1);
+      vi.advanceTimersByTime(20);
+      expect(polite()).toBe('最も古い通知です');
+      reviewAnnouncement(1);
+      vi.advanceTimersByTime(20);
+      expect(polite()).toBe('2/2: 二');
+      reviewAnnouncement(1);
+      vi.advanceTimersByTime(20);
+      expect(polite()).toBe('最新の通知です');
+      expect(getAnnouncementHistory().length).toBe(2);
+    });
+
+    it('says so when there is no history', () => {
+      repeatLastAnnouncement();
+      vi.advanceTimersByTime(20);
+      expect(polite()).toBe('通知の履歴はありません');
+    });
+  });
 });
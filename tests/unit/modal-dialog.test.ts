@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createModalDialog, openModalDialog, closeModalDialog } from '../../src/content/modal-dialog';
+
+function press(target: Element | null, key: string, shiftKey = false): KeyboardEvent {
+  const event = new KeyboardEvent('keydown', { key, shiftKey, bubbles: true, cancelable: true });
+  target?.dispatchEvent(event);
+  return event;
+}
+
+function styles(): HTMLElement | null {
+  return document.getElementById('an-modal-dialog-styles');
+}
+
+describe('modal-dialog', () => {
+  let root: HTMLElement;
+  let first: HTMLButtonElement;
+  let last: HTMLInputElement;
+
+  beforeEach(() => {
+    document.head.innerHTML = '';
+    document.body.innerHTML = '<button id="origin">origin</button>';
+    document.getElementById('origin')!.focus();
+    root = createModalDialog('test-dialog', 'Test', 'test');
+    first = document.createElement('button');
+    const skipped = document.createElement('li');
+    skipped.tabIndex = -1;
+    last = document.createElement('input');
+    root.append(first, skipped, last);
+  });
+
+  afterEach(() => {
+    closeModalDialog(root);
+  });
+
+  it('builds a modal dialog labelled by its title', () => {
+    expect(root.getAttribute('role')).toBe('dialog');
+    expect(root.getAttribute('aria-modal')).toBe('true');
+    openModalDialog(root, () => closeModalDialog(root));
+    expect(document.getElementById(root.getAttribute('aria-labelledby')!)?.textContent).toBe('Test');
+  });
+
+  it('cycles Tab and Shift+Tab through the tab stops', () => {
+    openModalDialog(root, () => closeModalDialog(root));
+    first.focus();
+    expect(press(first, 'Tab').defaultPrevented).toBe(true);
+    expect(document.activeElement).toBe(last);
+    press(last, 'Tab');
+    expect(document.activeElement).toBe(first);
+    press(first, 'Tab', true);
+    expect(document.activeElement).toBe(last);
+  });
+
+  it('Escape calls the close callback', () => {
+    const onClose = vi.fn();
+    openModalDialog(root, onClose);
+    press(first, 'Escape');
+    expect(onClose).toHaveBeenCalledOnce();
+  });
+
+  it('removes the dialog and styles and restores focus on close', () => {
+    openModalDialog(root, () => closeModalDialog(root));
+    expect(styles()).not.toBeNull();
+    first.focus();
+    closeModalDialog(root);
+    expect(root.isConnected).toBe(false);
+    expect(styles()).toBeNull();
+    expect(document.activeElement).toBe(document.getElementById('origin'));
+  });
+
+  it('keeps the styles while another dialog is open', () => {
+    const other = createModalDialog('other-dialog', 'Other', 'other');
+    openModalDialog(root, () => closeModalDialog(root));
+    openModalDialog(other, () => closeModalDialog(other));
+    closeModalDialog(other);
+    expect(styles()).not.toBeNull();
+    closeModalDialog(root);
+    expect(styles()).toBeNull();
+  });
+});
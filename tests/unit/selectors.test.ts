@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { detectBlockType, getBlockText, BLOCK_TYPE_MAP } from '../../src/content/selectors';
+import { detectBlockType, getBlockText, getListInfo, BLOCK_TYPE_MAP } from '../../src/content/selectors';
 
 describe('selectors', () => {
   beforeEach(() => {
@@ -105,6 +105,35 @@ describe('selectors', () => {
     });
   });
 
+  describe('getListInfo', () => {
+    beforeEach(() => {
+      document.body.innerHTML = `
+        <div class="notion-selectable notion-text-block" data-block-id="p">段落</div>
+        <div class="notion-selectable notion-numbered_list-block" data-block-id="n1">一</div>
+        <div class="notion-selectable notion-numbered_list-block" data-block-id="n2">
+          二
+          <div class="notion-selectable notion-bulleted_list-block" data-block-id="b1">子</div>
+        </div>
+        <div class="notion-selectable notion-bulleted_list-block" data-block-id="b2">別リスト</div>
+      `;
+    });
+
+    const el = (id: string) => document.querySelector(`[data-block-id="${id}"]`)!;
+
+    it('groups consecutive blocks of the same list type', () => {
+      expect(getListInfo(el('n2'))).toMatchObject({ type: 'numbered_list-block', first: el('n1'), index: 1, total: 2, level: 1 });
+      expect(getListInfo(el('b2'))).toMatchObject({ first: el('b2'), index: 0, total: 1 });
+    });
+
+    it('counts enclosing list items as levels', () => {
+      expect(getListInfo(el('b1'))).toMatchObject({ index: 0, total: 1, level: 2 });
+    });
+
+    it('returns null for non-list blocks', () => {
+      expect(getListInfo(el('p'))).toBeNull();
+    });
+  });
+
   describe('BLOCK_TYPE_MAP completeness', () => {
     it('has both Japanese and English descriptions for every type', () => {
       for (const [key, info] of Object.entries(BLOCK_TYPE_MAP)) {
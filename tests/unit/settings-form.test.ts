@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  normalizeShortcut,
+  validateShortcut,
+  findShortcutConflicts,
+  validateQuickKey,
+  findQuickKeyConflicts,
+  renderSettingsForm,
+  fillSettingsForm,
+  readSettingsForm,
+  showFieldErrors,
+} from '../../src/options/settings-form';
+import { mergeWithDefaults } from '../../src/shared/storage';
+import { DEFAULT_SETTINGS } from '../../src/shared/constants';
+
+function setup(): HTMLFormElement {
+  document.body.innerHTML = '<form id="settings-form"></form>';
+  const form = document.getElementById('settings-form') as HTMLFormElement;
+  renderSettingsForm(form, mergeWithDefaults({}));
+  return form;
+}
+
+describe('settings-form', () => {
+  describe('shortcut validation', () => {
+    it('normalizes modifier order and case', () => {
+      expect(normalizeShortcut('shift+alt+s')).toBe('Alt+Shift+S');
+      expect(normalizeShortcut('Alt+Shift+home')).toBe('Alt+Shift+Home');
+    });
+
+    it('rejects unparsable combos', () => {
+      expect(normalizeShortcut('Alt+Shift+')).toBeNull();
+      expect(normalizeShortcut('Hyper+S')).toBeNull();
+      expect(normalizeShortcut('Alt+Alt+S')).toBeNull();
+    });
+
+    it('allows an empty value to disable a shortcut', () => {
+      expect(validateShortcut('')).toBeNull();
+    });
+
+    it('requires Alt and Shift', () => {
+      expect(validateShortcut('Ctrl+S')).toBe('Alt と Shift の両方を含めてください');
+    });
+
+    it('rejects keys keyboard-handler cannot resolve', () => {
+      expect(validateShortcut('Alt+Shift+F5')).toBe('使用できるキーは英字・数字・/・Home・End です');
+      expect(validateShortcut('Alt+Shift+/')).toBeNull();
+    });
+
+    it('reports duplicates after the first owner', () => {
+      const conflicts = findShortcutConflicts({
+        nextBlock: 'Alt+Shift+N',
+        prevBlock: 'alt+shift+n',
+        help: 'Alt+Shift+/',
+      });
+      expect(Object.keys(conflicts)).toEqual(['prevBlock']);
+      expect(conflicts.prevBlock).toBe('「次のブロックへ移動」と重複しています');
+    });
+  });
+
+  describe('quick key validation', () => {
+    it('accepts one letter or digit, or empty', () => {
+      expect(validateQuickKey('h')).toBeNull();
+      expect(validateQuickKey('3')).toBeNull();
+      expect(validateQuickKey('')).toBeNull();
+      expect(validateQuickKey('HH')).toBe('英字または数字1文字を入力してください');
+      expect(validateQuickKey('/')).toBe('英字または数字1文字を入力してください');
+    });
+
+    it('reports duplicates regardless of case', () => {
+      const conflicts = findQuickKeyConflicts({ heading: 'H', table: 'h', list: '' , code: '' });
+      expect(conflicts).toEqual({ table: '「見出し」と重複しています' });
+    });
+  });
+
+  describe('rendering', () => {
+    let form: HTMLFormElement;
+
+    beforeEach(() => {
+      form = setup();
+    });
+
+    it('groups controls in labelled fieldsets', () => {
+      const legends = Array.from(form.querySelectorAll('fieldset > legend')).map((l) => l.textContent);
+      expect(legends).toEqual(['全般', '読み上げの詳細度', '機能', 'キーボードショートカット', 'クイックナビゲーションキー', '効果音', '詳細設定']);
+    });
+
+    it('gives every control an associated label', () => {
+      const controls = form.querySelectorAll<HTMLInputElement | HTMLSelectElement>('input, select');
+      expect(controls.length).toBeGreaterThan(0);
+      for (const control of controls) {
+        expect(control.labels?.length, control.id).toBe(1);
+      }
+    });
+
+    it('renders one shortcut field per default shortcut', () => {
+      const inputs = form.querySelectorAll('#group-shortcuts input[type="text"]');
+      expect(inputs.length).toBe(Object.keys(DEFAULT_SETTINGS.shortcuts).length);
+      const first = inputs[0] as HTMLInputElement;
+      expect(first.getAttribute('aria-describedby')).toBe(`shortcut-hint ${first.id}-error`);
+    });
+
+    it('reflects current settings', () => {
+      expect((form.querySelector('#opt-verbosity-standard') as HTMLInputElement).checked).toBe(true);
+      expect((form.querySelector('#opt-shortcut-nextBlock') as HTMLInputElement).value).toBe(
+        DEFAULT_SETTINGS.shortcuts.nextBlock,
+      );
+    });
+  });
+
+  describe('reading', () => {
+    let form: HTMLFormElement;
+
+    beforeEach(() => {
+      form = setup();
+    });
+
+    it('reads changed values and normalizes shortcuts', () => {
+      (form.querySelector('#opt-verbosity-verbose') as HTMLInputElement).checked = true;
+      (form.querySelector('#opt-screenReader') as HTMLSelectElement).value = 'jaws';
+      (form.querySelector('#opt-language') as HTMLSelectElement).value = 'en';
+      (form.querySelector('#opt-feature-comments') as HTMLInputElement).checked = false;
+      (form.querySelector('#opt-shortcut-help') as HTMLInputElement).value = 'shift+alt+q';
+
+      const { settings, errors } = readSettingsForm(form, mergeWithDefaults({}));
+      expect(errors).toEqual({});
+      expect(settings.verbosity).toBe('verbose');
+      expect(settings.screenReader).toBe('jaws');
+      expect(settings.language).toBe('en');
+      expect(settings.features.comments).toBe(false);
+      expect(settings.shortcuts.help).toBe('Alt+Shift+Q');
+    });
+
+    it('returns field errors for invalid and conflicting shortcuts', () => {
+      (form.querySelector('#opt-shortcut-help') as HTMLInputElement).value = 'Ctrl+H';
+      (form.querySelector('#opt-shortcut-prevBlock') as HTMLInputElement).value =
+        DEFAULT_SETTINGS.shortcuts.nextBlock;
+
+      const { errors } = readSettingsForm(form, mergeWithDefaults({}));
+      expect(errors['opt-shortcut-help']).toBe('Alt と Shift の両方を含めてください');
+      expect(errors['opt-shortcut-prevBlock']).toContain('重複しています');
+    });
+
+    it('reads quick keys in upper case and flags invalid ones', () => {
+      (form.querySelector('#opt-quickKey-heading') as HTMLInputElement).value = 'j';
+      (form.querySelector('#opt-quickKey-todo') as HTMLInputElement).value = '';
+      (form.querySelector('#opt-quickKey-code') as HTMLInputElement).value = '!';
+
+      const { settings, errors } = readSettingsForm(form, mergeWithDefaults({}));
+      expect(settings.quickKeys.heading).toBe('J');
+      expect(settings.quickKeys.todo).toBe('');
+      expect(errors).toEqual({ 'opt-quickKey-code': '英字または数字1文字を入力してください' });
+    });
+
+    it('reads the earcon toggle, volume and per-cue switches', () => {
+      (form.querySelector('#opt-earcons-enabled') as HTMLInputElement).checked = true;
+      (form.querySelector('#opt-earcons-volume') as HTMLInputElement).value = '80';
+      (form.querySelector('#opt-earcon-boundary') as HTMLInputElement).checked = false;
+
+      const { settings } = readSettingsForm(form, mergeWithDefaults({}));
+      expect(settings.earcons.enabled).toBe(true);
+      expect(settings.earcons.volume).toBe(80);
+      expect(settings.earcons.cues.boundary).toBe(false);
+      expect(settings.earcons.cues.dialogOpen).toBe(true);
+    });
+
+    it('restores values with fillSettingsForm', () => {
+      (form.querySelector('#opt-enabled') as HTMLInputElement).checked = false;
+      fillSettingsForm(form, mergeWithDefaults({}));
+      expect((form.querySelector('#opt-enabled') as HTMLInputElement).checked).toBe(true);
+    });
+  });
+
+  describe('showFieldErrors', () => {
+    it('sets and clears aria-invalid with a visible message', () => {
+      const form = setup();
+      const input = form.querySelector('#opt-shortcut-help') as HTMLInputElement;
+      const slot = form.querySelector('#opt-shortcut-help-error') as HTMLElement;
+
+      showFieldErrors(form, { 'opt-shortcut-help': 'エラー' });
+      expect(input.getAttribute('aria-invalid')).toBe('true');
+      expect(slot.hidden).toBe(false);
+      expect(slot.textContent).toBe('エラー');
+
+      showFieldErrors(form, {});
+      expect(input.hasAttribute('aria-invalid')).toBe(false);
+      expect(slot.hidden).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { setScreenReader, getProfile, getGridCommand } from '../../src/content/sr-profile';
+import { initLiveAnnouncer, announce, destroyLiveAnnouncer } from '../../src/content/live-announcer';
+
+function key(k: string, init: KeyboardEventInit = {}): KeyboardEvent {
+  return new KeyboardEvent('keydown', { key: k, ...init });
+}
+
+describe('sr-profile', () => {
+  afterEach(() => {
+    setScreenReader('nvda');
+  });
+
+  it('uses the NVDA profile for "other"', () => {
+    setScreenReader('other');
+    expect(getProfile().blockFocus).toBe('virtual');
+    expect(getProfile().liveRegion.injectDelay).toBe(0);
+  });
+
+  it('uses DOM focus for VoiceOver', () => {
+    setScreenReader('voiceover');
+    expect(getProfile().blockFocus).toBe('dom');
+  });
+
+  describe('getGridCommand', () => {
+    it('maps arrows, Home/End and Escape', () => {
+      expect(getGridCommand(key('ArrowDown'))).toBe('down');
+      expect(getGridCommand(key('Home'))).toBe('rowStart');
+      expect(getGridCommand(key('End', { ctrlKey: true }))).toBe('tableEnd');
+      expect(getGridCommand(key('Escape'))).toBe('exit');
+      expect(getGridCommand(key('a'))).toBeNull();
+    });
+
+    it('treats Ctrl+Alt+Arrow as table navigation for NVDA and JAWS', () => {
+      for (const reader of ['nvda', 'jaws'] as const) {
+        setScreenReader(reader);
+        expect(getGridCommand(key('ArrowRight', { ctrlKey: true, altKey: true }))).toBe('right');
+      }
+    });
+
+    it('leaves VO key combos to VoiceOver', () => {
+      setScreenReader('voiceover');
+      expect(getGridCommand(key('ArrowRight', { ctrlKey: true, altKey: true }))).toBeNull();
+      expect(getGridCommand(key('ArrowRight'))).toBe('right');
+    });
+
+    it('maps Cmd+Arrow to Home/End for VoiceOver only', () => {
+      expect(getGridCommand(key('ArrowLeft', { metaKey: true }))).toBe('left');
+      setScreenReader('voiceover');
+      expect(getGridCommand(key('ArrowLeft', { metaKey: true }))).toBe('rowStart');
+      expect(getGridCommand(key('ArrowDown', { metaKey: true }))).toBe('tableEnd');
+    });
+  });
+
+  describe('live region timing', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      document.body.innerHTML = '';
+      initLiveAnnouncer();
+    });
+
+    afterEach(() => {
+      destroyLiveAnnouncer();
+      vi.useRealTimers();
+    });
+
+    it('JAWS injects text after a delay', () => {
+      setScreenReader('jaws');
+      announce('テスト');
+      const region = document.querySelector('[aria-live="polite"]')!;
+      vi.advanceTimersByTime(50);
+      expect(region.textContent).toBe('');
+      vi.advanceTimersByTime(50);
+      expect(region.textContent).toBe('テスト');
+    });
+
+    it('VoiceOver inserts a fresh child node for each message', () => {
+      setScreenReader('voiceover');
+      const region = document.querySelector('[aria-live="polite"]')!;
+
+      announce('同じ');
+      vi.advanceTimersByTime(150);
+      const first = region.firstElementChild;
+      expect(first?.textContent).toBe('同じ');
+
+      // Queued behind the first message's dwell time
+      vi.advanceTimersByTime(1000);
+      announce('同じ');
+      vi.advanceTimersByTime(150);
+      expect(region.firstElementChild).not.toBe(first);
+      expect(region.children.length).toBe(1);
+    });
+
+    it('clears the region after the profile delay', () => {
+      setScreenReader('jaws');
+      announce('テスト');
+      const region = document.querySelector('[aria-live="polite"]')!;
+      vi.advanceTimersByTime(5100);
+      expect(region.textContent).toBe('');
+    });
+  });
+});
@@ -1,7 +1,11 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { scanAndEnhanceTables, enhanceTableView, enterGridMode, destroyTableEnhancer } from '../../src/content/table-enhancer';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { scanAndEnhanceTables, enhanceTableView, relabelTableView, enterGridMode, destroyTableEnhancer } from '../../src/content/table-enhancer';
+import { onSourcePageResolved } from '../../src/content/db-source';
 import { initLiveAnnouncer, destroyLiveAnnouncer } from '../../src/content/live-announcer';
+import { isBoardModeActive } from '../../src/content/board-navigator';
+import { setBrailleLabels } from '../../src/content/braille';
 import { EXTENSION_ATTR } from '../../src/shared/constants';
+import { setLocale } from '../../src/shared/i18n';
 
 /**
  * Build a mock Notion table view DOM structure.
@@ -16,10 +20,10 @@ import { EXTENSION_ATTR } from '../../src/shared/constants';
  *         > .notion-collection-item[data-block-id]* (data rows)
  *           > .notion-table-view-row > div (inner) > div* (row cells)
  */
-function createTableView(rows: string[][], headerNames: string[]): HTMLElement {
+function createTableView(rows: string[][], headerNames: string[], blockId = 'cv-block-1'): HTMLElement {
   const cvBlock = document.createElement('div');
   cvBlock.classList.add('notion-selectable', 'notion-collection_view-block');
-  cvBlock.setAttribute('data-block-id', 'cv-block-1');
+  cvBlock.setAttribute('data-block-id', blockId);
 
   const tableView = document.createElement('div');
   tableView.classList.add('notion-table-view');
@@ -46,33 +50,72 @@ function createTableView(rows: string[][], headerNames: string[]): HTMLElement {
   tableView.appendChild(headerRow);
 
   // Data rows
-  for (let r = 0; r < rows.length; r++) {
-    const rowEl = document.createElement('div');
-    rowEl.classList.add('notion-page-block', 'notion-collection-item');
-    rowEl.setAttribute('data-block-id', `row-${r}`);
-
-    const tvRow = document.createElement('div');
-    tvRow.classList.add('notion-table-view-row');
-    const rowInner = document.createElement('div');
-
-    for (let c = 0; c < rows[r].length; c++) {
-      const cell = document.createElement('div');
-      cell.textContent = rows[r][c];
-      // Mock offsetWidth > 0 for real cells
-      Object.defineProperty(cell, 'offsetWidth', { value: 100, configurable: true });
-      rowInner.appendChild(cell);
-    }
-
-    tvRow.appendChild(rowInner);
-    rowEl.appendChild(tvRow);
-    tableView.appendChild(rowEl);
-  }
+  rows.forEach((cells, r) => tableView.appendChild(createRow(cells, `row-${r}`)));
 
   cvBlock.appendChild(tableView);
   document.body.appendChild(cvBlock);
   return cvBlock;
 }
 
+function createRow(cells: string[], id: string): HTMLElement {
+  const rowEl = document.createElement('div');
+  rowEl.classList.add('notion-page-block', 'notion-collection-item');
+  rowEl.setAttribute('data-block-id', id);
+
+  const tvRow = document.createElement('div');
+  tvRow.classList.add('notion-table-view-row');
+  const rowInner = document.createElement('div');
+
+  for (const text of cells) {
+    const cell = document.createElement('div');
+    cell.textContent = text;
+    // Mock offsetWidth > 0 for real cells
+    Object.defineProperty(cell, 'offsetWidth', { value: 100, configurable: true });
+    rowInner.appendChild(cell);
+  }
+
+  tvRow.appendChild(rowInner);
+  rowEl.appendChild(tvRow);
+  return rowEl;
+}
+
+const ROW_HEIGHT = 30;
+
+/**
+ * A table of `total` loaded rows of which Notion renders three, the rest
+ * kept as empty spacers inside a scroller. `render(first)` re-renders the
+ * window from row `first`, as Notion does after a scroll.
+ */
+function createVirtualTable(total: number): { container: HTMLElement; scroller: HTMLElement; render: (first: number) => void } {
+  const scroller = document.createElement('div');
+  scroller.classList.add('notion-scroller');
+  const container = createTableView([], ['名前', '番号']);
+  scroller.appendChild(container);
+  document.body.appendChild(scroller);
+  const tableView = container.querySelector<HTMLElement>('.notion-table-view')!;
+
+  function spacer(rows: number): HTMLElement {
+    const el = document.createElement('div');
+    el.getBoundingClientRect = () => ({ height: rows * ROW_HEIGHT } as DOMRect);
+    return el;
+  }
+
+  function render(first: number): void {
+    tableView.querySelectorAll('.notion-table-view-header-row ~ *').forEach((el) => el.remove());
+    const last = Math.min(first + 3, total);
+    tableView.appendChild(spacer(first));
+    for (let r = first; r < last; r++) {
+      const row = createRow([`タスク${r + 1}`, String(r + 1)], `row-${r}`);
+      row.getBoundingClientRect = () => ({ height: ROW_HEIGHT } as DOMRect);
+      tableView.appendChild(row);
+    }
+    tableView.appendChild(spacer(total - last));
+  }
+
+  render(0);
+  return { container, scroller, render };
+}
+
 function createBoardView(): HTMLElement {
   const cvBlock = document.createElement('div');
   cvBlock.classList.add('notion-selectable', 'notion-collection_view-block');
@@ -147,6 +190,45 @@ function createGalleryView(): HTMLElement {
   return cvBlock;
 }
 
+function press(key: string): KeyboardEvent {
+  const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true });
+  (document.activeElement ?? document.body).dispatchEvent(event);
+  return event;
+}
+
+/** Let queued messages through (each one dwells 1s in the live region) */
+function lastAnnouncement(): string {
+  vi.advanceTimersByTime(1100);
+  return document.querySelector('[aria-live="polite"]')?.textContent ?? '';
+}
+
+/** Run the editor-closed check (mutation callback, then a zero timer) */
+async function settle(): Promise<void> {
+  await Promise.resolve();
+  vi.advanceTimersByTime(0);
+}
+
+function firstCell(container: HTMLElement, col = 0): HTMLElement {
+  return container.querySelectorAll<HTMLElement>('[role="row"][aria-rowindex="2"] [role="gridcell"]')[col];
+}
+
+/** Header cells, with a property type icon on each `types` entry */
+function headerCells(container: HTMLElement, types: string[] = []): HTMLElement[] {
+  const cells = Array.from(container.querySelectorAll<HTMLElement>('.notion-table-view-header-row > div > div > div'));
+  types.forEach((type, i) => {
+    cells[i].prepend(document.createElementNS('http://www.w3.org/2000/svg', 'svg'));
+    cells[i].firstElementChild!.setAttribute('class', type);
+  });
+  return cells;
+}
+
+/** Sort and filter pills as Notion shows them above the table */
+function addViewRules(container: HTMLElement, rules: string[]): void {
+  const bar = document.createElement('div');
+  bar.innerHTML = rules.join('');
+  container.prepend(bar);
+}
+
 describe('table-enhancer', () => {
   beforeEach(() => {
     document.body.innerHTML = '';
@@ -255,6 +337,43 @@ describe('table-enhancer', () => {
       expect(cells[0].getAttribute('tabindex')).toBe('-1');
     });
 
+    it('adds compact braille cell labels when enabled', () => {
+      Object.defineProperty(Element.prototype, 'ariaBrailleLabel', { configurable: true, value: null });
+      setBrailleLabels(true);
+      try {
+        const container = createTableView(
+          [['Alice', '']],
+          ['名前', '年齢'],
+        );
+
+        enhanceTableView(container);
+
+        const cells = container.querySelectorAll('[role="gridcell"]');
+        expect(cells[0].getAttribute('aria-braillelabel')).toBe('名前:Alice');
+        expect(cells[1].getAttribute('aria-label')).toBe('年齢: 空');
+        expect(cells[1].getAttribute('aria-braillelabel')).toBe('年齢:-');
+      } finally {
+        setBrailleLabels(false);
+        delete (Element.prototype as { ariaBrailleLabel?: unknown }).ariaBrailleLabel;
+      }
+    });
+
+    it('relabels unnamed column headers after a language change', () => {
+      const container = createTableView([['A', '1']], ['', '値']);
+      enhanceTableView(container);
+      expect(headerCells(container)[0].getAttribute('aria-label')).toBe('列1');
+
+      // Teardown drops the marker and init enhances again
+      container.removeAttribute(EXTENSION_ATTR);
+      setLocale('en');
+      try {
+        enhanceTableView(container);
+        expect(headerCells(container)[0].getAttribute('aria-label')).toBe('Column 1');
+      } finally {
+        setLocale('ja');
+      }
+    });
+
     it('marks container with EXTENSION_ATTR=table', () => {
       const container = createTableView(
         [['Alice', '25']],
@@ -354,6 +473,91 @@ describe('table-enhancer', () => {
       const regions = document.querySelectorAll('[role="region"]');
       expect(regions.length).toBeGreaterThanOrEqual(1); // board
     });
+
+    it('labels the view tabs of nested databases separately', () => {
+      const outer = createTableView([['A', '1']], ['名前', '値'], 'cv-outer');
+      const inner = createTableView([['B', '2']], ['名前', '値'], 'cv-inner');
+      outer.setAttribute('aria-label', 'データベース: 親');
+      inner.setAttribute('aria-label', 'データベース: 子');
+      for (const cv of [outer, inner]) {
+        cv.insertAdjacentHTML('afterbegin', '<div role="tablist"><div class="notion-collection-view-tab-button">表</div></div>');
+      }
+      outer.appendChild(inner);
+
+      scanAndEnhanceTables();
+
+      expect(outer.querySelector('[role="tablist"]')!.getAttribute('aria-label')).toBe('親 のビュー');
+      expect(inner.querySelector('[role="tablist"]')!.getAttribute('aria-label')).toBe('子 のビュー');
+    });
+  });
+
+  describe('linked databases', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.runOnlyPendingTimers();
+      vi.useRealTimers();
+      vi.unstubAllGlobals();
+    });
+
+    function createLinkedTable(): { container: HTMLElement; link: HTMLAnchorElement } {
+      const container = createTableView([['Alice', '25'], ['Bob', '30']], ['名前', '年齢']);
+      container.insertAdjacentHTML('afterbegin', '<a href="/ws/0123456789abcdef0123456789abcdef?v=abc">タスク</a>');
+      const link = container.querySelector('a')!;
+      link.addEventListener('click', (e) => e.preventDefault());
+      enhanceTableView(container);
+      return { container, link };
+    }
+
+    it('says the grid is linked in its label', () => {
+      const { container } = createLinkedTable();
+      expect(container.querySelector('[role="grid"]')!.getAttribute('aria-label'))
+        .toBe('タスク テーブル 2行 2列, リンクドデータベース');
+    });
+
+    it('names the source page in the grid label once it is known', async () => {
+      const records: Record<string, object> = {
+        '99998888-7777-6666-5555-444433332222': { type: 'collection_view_page', parent_table: 'block', parent_id: 'page-1' },
+        'page-1': { type: 'page', properties: { title: [['Project Hub']] } },
+      };
+      vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+        const id = JSON.parse(init.body as string).requests[0].pointer.id;
+        return { ok: true, json: async () => ({ recordMap: { block: { [id]: { value: records[id] } } } }) };
+      }));
+      const relabeled = vi.fn((block: Element) => relabelTableView(block as HTMLElement));
+      onSourcePageResolved(relabeled);
+
+      const container = createTableView([['Alice', '25']], ['名前', '年齢']);
+      container.insertAdjacentHTML('afterbegin', '<a href="/ws/99998888777766665555444433332222">タスク</a>');
+      enhanceTableView(container);
+      await vi.waitFor(() => expect(relabeled).toHaveBeenCalled());
+
+      expect(container.querySelector('[role="grid"]')!.getAttribute('aria-label'))
+        .toBe('タスク テーブル 1行 2列, Project Hub からのリンクドデータベース');
+    });
+
+    it('S opens the source database and leaves grid mode', () => {
+      const { link } = createLinkedTable();
+      const click = vi.fn();
+      link.addEventListener('click', click);
+      enterGridMode();
+
+      expect(press('s').defaultPrevented).toBe(true);
+      expect(click).toHaveBeenCalled();
+      // The grid mode start message is still queued
+      vi.advanceTimersByTime(1100);
+      expect(lastAnnouncement()).toBe('元のデータベースを開きます: タスク');
+      expect(press('ArrowDown').defaultPrevented).toBe(false);
+    });
+
+    it('S says when the database is not linked', () => {
+      enhanceTableView(createTableView([['Alice', '25']], ['名前', '年齢']));
+      enterGridMode();
+      press('s');
+      expect(lastAnnouncement()).toBe('リンクドデータベースではありません');
+    });
   });
 
   describe('grid mode', () => {
@@ -385,6 +589,29 @@ describe('table-enhancer', () => {
       expect(live?.textContent).toContain('グリッドモード開始');
     });
 
+    it('enters board mode on a board view', () => {
+      const container = createBoardView();
+      scanAndEnhanceTables();
+      container.querySelector<HTMLElement>('.notion-collection-item')!.focus();
+      enterGridMode();
+
+      expect(isBoardModeActive()).toBe(true);
+      expect(document.activeElement?.textContent).toBe('カード1');
+
+      // Alt+Shift+D again leaves it
+      enterGridMode();
+      expect(isBoardModeActive()).toBe(false);
+    });
+
+    it('leaves grid mode when entered again from inside the table', () => {
+      enhanceTableView(createTableView([['Alice', '25'], ['Bob', '30']], ['名前', '年齢']));
+      enterGridMode();
+      expect(press('ArrowDown').defaultPrevented).toBe(true);
+
+      enterGridMode();
+      expect(press('ArrowDown').defaultPrevented).toBe(false);
+    });
+
     it('announces when no table is found', async () => {
       // No table in DOM
       enterGridMode();
@@ -396,11 +623,522 @@ describe('table-enhancer', () => {
     });
   });
 
+  describe('cell editing', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.runOnlyPendingTimers();
+      vi.useRealTimers();
+    });
+
+    it('Enter opens the cell editor and focus returns with the new value when it closes', async () => {
+      const container = createTableView([['Alice', '25']], ['名前', '年齢']);
+      enhanceTableView(container);
+      enterGridMode();
+      const cell = firstCell(container);
+      cell.addEventListener('click', () => {
+        const editor = document.createElement('div');
+        editor.setAttribute('contenteditable', 'true');
+        editor.setAttribute('tabindex', '0');
+        editor.textContent = 'Alice';
+        editor.addEventListener('keydown', (e) => {
+          if (e.key === 'Escape') cell.textContent = 'Alicia';
+        });
+        cell.replaceChildren(editor);
+      });
+
+      press('Enter');
+      vi.advanceTimersByTime(100);
+      expect(document.activeElement?.getAttribute('contenteditable')).toBe('true');
+      expect(lastAnnouncement()).toBe('名前 を編集中。Escape で終了');
+
+      // Arrows edit the text rather than move the grid
+      expect(press('ArrowDown').defaultPrevented).toBe(false);
+
+      press('Escape');
+      await settle();
+      expect(document.activeElement).toBe(cell);
+      expect(cell.getAttribute('aria-label')).toBe('名前: Alicia');
+      expect(lastAnnouncement()).toBe('編集終了: 名前: Alicia');
+    });
+
+    it('Space toggles a checkbox cell', () => {
+      const container = createTableView([['Alice', '']], ['名前', '完了']);
+      const checkbox = document.createElement('div');
+      checkbox.setAttribute('role', 'checkbox');
+      checkbox.setAttribute('aria-checked', 'false');
+      checkbox.addEventListener('click', () => checkbox.setAttribute('aria-checked', 'true'));
+      container.querySelectorAll('.notion-table-view-row > div > div')[1].appendChild(checkbox);
+      enhanceTableView(container);
+      enterGridMode();
+      press('ArrowRight');
+      expect(firstCell(container, 1).getAttribute('aria-label')).toBe('完了: 未チェック');
+
+      press(' ');
+      vi.advanceTimersByTime(100);
+      expect(firstCell(container, 1).getAttribute('aria-label')).toBe('完了: チェック済み');
+      expect(lastAnnouncement()).toBe('完了: チェック済み');
+    });
+
+    it('Enter on a select property opens its option listbox', async () => {
+      const container = createTableView([['Alice', '未着手']], ['名前', '状態']);
+      headerCells(container, ['typesTitle', 'typesSelect']);
+      enhanceTableView(container);
+      enterGridMode();
+      press('ArrowRight');
+
+      const overlay = document.createElement('div');
+      overlay.classList.add('notion-overlay-container');
+      overlay.innerHTML = '<div role="dialog"><input><div role="listbox">'
+        + '<div role="option">未着手</div><div role="option">進行中</div><div role="option">完了</div></div></div>';
+      firstCell(container, 1).addEventListener('click', () => document.body.appendChild(overlay));
+
+      press('Enter');
+      vi.advanceTimersByTime(100);
+      expect(document.activeElement).toBe(overlay.querySelector('input'));
+      expect(lastAnnouncement()).toBe('状態 のオプション、3件');
+
+      firstCell(container, 1).textContent = '進行中';
+      overlay.remove();
+      await settle();
+      expect(document.activeElement).toBe(firstCell(container, 1));
+      expect(lastAnnouncement()).toBe('編集終了: 状態: 進行中');
+    });
+
+    it('leaves Space alone on cells that are not checkboxes', () => {
+      const container = createTableView([['Alice', '25']], ['名前', '年齢']);
+      enhanceTableView(container);
+      enterGridMode();
+      expect(press(' ').defaultPrevented).toBe(false);
+    });
+  });
+
+  describe('column headers', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.runOnlyPendingTimers();
+      vi.useRealTimers();
+    });
+
+    it('summarises filters and sorts in the grid label and sets aria-sort', () => {
+      const container = createTableView([['Alice', '10/1']], ['名前', '期限']);
+      addViewRules(container, [
+        '<div class="notion-filter-rule">状態</div>',
+        '<div class="notion-filter-rule">担当</div>',
+        '<div class="notion-sort-rule"><svg class="arrowDown"></svg>期限</div>',
+      ]);
+      enhanceTableView(container);
+
+      const grid = container.querySelector('[role="grid"]')!;
+      expect(grid.getAttribute('aria-label')).toBe('データベース テーブル 1行 2列, フィルター2件, 期限の降順で並べ替え');
+      const headers = headerCells(container);
+      expect(headers[1].getAttribute('aria-sort')).toBe('descending');
+      expect(headers[0].hasAttribute('aria-sort')).toBe(false);
+    });
+
+    it('moves up to the header row and announces type and sort', () => {
+      const container = createTableView([['Alice', '10/1']], ['名前', '期限']);
+      headerCells(container, ['typesTitle', 'typesDate']);
+      addViewRules(container, ['<div class="notion-sort-rule">期限</div>']);
+      enhanceTableView(container);
+      enterGridMode();
+
+      press('ArrowRight');
+      press('ArrowUp');
+      expect(document.activeElement).toBe(headerCells(container)[1]);
+      expect(lastAnnouncement()).toBe('列ヘッダー: 期限, 日付, 昇順');
+      press('ArrowUp');
+      expect(document.activeElement).toBe(headerCells(container)[1]);
+    });
+
+    it('Enter on a header opens the property menu and focus returns when it closes', async () => {
+      const container = createTableView([['Alice', '10/1']], ['名前', '期限']);
+      enhanceTableView(container);
+      enterGridMode();
+      press('ArrowUp');
+
+      const overlay = document.createElement('div');
+      overlay.classList.add('notion-overlay-container');
+      overlay.innerHTML = '<div role="dialog"><div role="menuitem" tabindex="-1">昇順で並べ替え</div>'
+        + '<div role="menuitem" tabindex="-1">フィルター</div></div>';
+      headerCells(container)[0].addEventListener('click', () => document.body.appendChild(overlay));
+
+      press('Enter');
+      vi.advanceTimersByTime(100);
+      expect(document.activeElement?.textContent).toBe('昇順で並べ替え');
+      expect(lastAnnouncement()).toBe('名前 のプロパティメニュー');
+
+      // Choosing the sort closes the menu and adds a rule pill
+      addViewRules(container, ['<div class="notion-sort-rule">名前</div>']);
+      overlay.remove();
+      await settle();
+      expect(document.activeElement).toBe(headerCells(container)[0]);
+      expect(headerCells(container)[0].getAttribute('aria-sort')).toBe('ascending');
+      expect(lastAnnouncement()).toBe('列ヘッダー: 名前, 昇順');
+    });
+  });
+
+  describe('row and column reading', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.runOnlyPendingTimers();
+      vi.useRealTimers();
+    });
+
+    function createStaffTable(): HTMLElement {
+      const container = createTableView(
+        [['Alice', '完了', '10/1'], ['Bob', '', '10/5'], ['Carol', '完了', '10/9']],
+        ['名前', '状態', '期限'],
+      );
+      enhanceTableView(container);
+      enterGridMode();
+      return container;
+    }
+
+    it('R reads the whole row', () => {
+      createStaffTable();
+      press('ArrowDown');
+      press('r');
+      expect(lastAnnouncement()).toBe('名前: Bob, 状態: 空, 期限: 10/5');
+    });
+
+    it('C reads the column with a summary', () => {
+      createStaffTable();
+      press('ArrowRight');
+      press('c');
+      expect(lastAnnouncement()).toBe('状態の列: 完了, 空, 完了。3行、空欄1件, 完了 2件');
+    });
+
+    it('H makes the column a row header spoken on row change', () => {
+      createStaffTable();
+      press('h');
+      expect(lastAnnouncement()).toBe('名前 を行見出しにしました');
+
+      press('ArrowRight');
+      press('ArrowRight');
+      expect(lastAnnouncement()).toBe('期限: 10/1');
+      press('ArrowDown');
+      expect(lastAnnouncement()).toBe('名前: Bob, 期限: 10/5');
+
+      press('Home');
+      press('h');
+      press('End');
+      press('ArrowUp');
+      expect(lastAnnouncement()).toBe('期限: 10/1');
+    });
+  });
+
+  describe('virtual scroll', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.runOnlyPendingTimers();
+      vi.useRealTimers();
+    });
+
+    function rowIndexOf(el: Element | null): string | null | undefined {
+      return el?.closest('[role="row"]')?.getAttribute('aria-rowindex');
+    }
+
+    it('numbers rendered rows by their place among all loaded rows', () => {
+      const { container, render } = createVirtualTable(100);
+      render(40);
+      enhanceTableView(container);
+
+      const rows = container.querySelectorAll('.notion-collection-item');
+      expect(rows[0].getAttribute('aria-rowindex')).toBe('42');
+      const grid = container.querySelector('[role="grid"]')!;
+      expect(grid.getAttribute('aria-rowcount')).toBe('101');
+      expect(grid.getAttribute('aria-label')).toContain('100行');
+    });
+
+    it('scrolls Notion\'s list when moving past the rendered rows', () => {
+      const { container, scroller, render } = createVirtualTable(100);
+      enhanceTableView(container);
+      enterGridMode();
+      press('ArrowDown');
+      press('ArrowDown');
+      press('ArrowDown');
+      expect(scroller.scrollTop).toBe(ROW_HEIGHT);
+
+      render(1);
+      vi.advanceTimersByTime(100);
+      expect(document.activeElement?.textContent).toBe('タスク4');
+      expect(rowIndexOf(document.activeElement)).toBe('5');
+      expect(lastAnnouncement()).toBe('名前: タスク4');
+    });
+
+    it('keeps its row by block id when Notion re-renders the window', async () => {
+      const { container, render } = createVirtualTable(100);
+      scanAndEnhanceTables();
+      enterGridMode();
+      press('ArrowDown');
+      press('ArrowDown');
+
+      render(2);
+      await settle();
+      vi.advanceTimersByTime(100);
+      // The focused row was replaced; Notion's own focus handling is not mocked
+      container.querySelector('.notion-table-view')!.dispatchEvent(
+        new KeyboardEvent('keydown', { key: 'ArrowDown', bubbles: true, cancelable: true }));
+      expect(document.activeElement?.textContent).toBe('タスク4');
+    });
+
+    it('C says the column summary covers only the rendered rows', () => {
+      const { container } = createVirtualTable(100);
+      enhanceTableView(container);
+      container.querySelector<HTMLElement>('[role="gridcell"]')!.focus();
+      enterGridMode();
+      press('c');
+      vi.advanceTimersByTime(1100);
+      expect(lastAnnouncement()).toBe('名前の列: タスク1, タスク2, タスク3。表示中の3行（全100行）、空欄0件');
+    });
+
+    it('loads more rows past the last loaded one', () => {
+      const { container, render } = createVirtualTable(3);
+      const loadMore = document.createElement('div');
+      loadMore.setAttribute('role', 'button');
+      loadMore.textContent = 'さらに読み込む';
+      container.appendChild(loadMore);
+      enhanceTableView(container);
+      expect(container.querySelector('[role="grid"]')!.getAttribute('aria-rowcount')).toBe('-1');
+
+      enterGridMode();
+      press('ArrowDown');
+      press('ArrowDown');
+      expect(lastAnnouncement()).toBe('名前: タスク3, この先は未読み込み（↓で読み込み）');
+
+      const tableView = container.querySelector('.notion-table-view')!;
+      loadMore.addEventListener('click', () => {
+        tableView.appendChild(createRow(['タスク4', '4'], 'row-3'));
+        loadMore.remove();
+      });
+      press('ArrowDown');
+      vi.advanceTimersByTime(50);
+      expect(document.querySelector('[aria-live="polite"]')?.textContent).toBe('次の行を読み込んでいます');
+      vi.advanceTimersByTime(500);
+      expect(document.activeElement?.textContent).toBe('タスク4');
+    });
+  });
+
+  describe('multiple tables', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.runOnlyPendingTimers();
+      vi.useRealTimers();
+    });
+
+    function createTables(): [HTMLElement, HTMLElement] {
+      const a = createTableView([['Alice', '25'], ['Bob', '30']], ['名前', '年齢'], 'cv-a');
+      const b = createTableView([['東京', '晴れ'], ['大阪', '雨']], ['都市', '天気'], 'cv-b');
+      scanAndEnhanceTables();
+      return [a, b];
+    }
+
+    it('keeps a cursor per table and resumes where the user left off', () => {
+      const [a, b] = createTables();
+      enterGridMode();
+      press('ArrowDown');
+      press('ArrowRight');
+      press('Escape');
+
+      firstCell(b).focus();
+      enterGridMode();
+      expect(document.activeElement).toBe(firstCell(b));
+      press('Escape');
+
+      firstCell(a).focus();
+      enterGridMode();
+      expect(document.activeElement?.textContent).toBe('30');
+      // Earlier start and end messages are still queued
+      vi.advanceTimersByTime(3000);
+      expect(lastAnnouncement()).toContain('年齢: 30');
+    });
+
+    it('leaves grid mode in one table when entering it in another', () => {
+      const [a, b] = createTables();
+      enterGridMode();
+      firstCell(b).focus();
+      enterGridMode();
+
+      const event = new KeyboardEvent('keydown', { key: 'ArrowDown', bubbles: true, cancelable: true });
+      firstCell(a).dispatchEvent(event);
+      expect(event.defaultPrevented).toBe(false);
+      expect(press('ArrowDown').defaultPrevented).toBe(true);
+    });
+
+    it('watches virtual scroll in every table', async () => {
+      const tables = createTables();
+      for (const table of tables) {
+        table.querySelector('.notion-table-view')!.appendChild(createRow(['新規', ''], `${table.dataset.blockId}-new`));
+      }
+      await settle();
+      vi.advanceTimersByTime(100);
+      for (const table of tables) {
+        expect(table.querySelector(`[data-block-id="${table.dataset.blockId}-new"]`)!.getAttribute('role')).toBe('row');
+      }
+    });
+
+    it('stops watching tables that left the page', async () => {
+      const [, b] = createTables();
+      b.remove();
+      scanAndEnhanceTables();
+
+      b.querySelector('.notion-table-view')!.appendChild(createRow(['新規', ''], 'cv-b-new'));
+      await settle();
+      vi.advanceTimersByTime(100);
+      expect(b.querySelector('[data-block-id="cv-b-new"]')!.hasAttribute('role')).toBe(false);
+    });
+  });
+
+  describe('row actions', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.runOnlyPendingTimers();
+      vi.useRealTimers();
+    });
+
+    function rowIdOf(el: Element | null): string | null | undefined {
+      return el?.closest('.notion-collection-item')?.getAttribute('data-block-id');
+    }
+
+    /** Give each row the gutter "+" button and drag handle menu Notion shows on hover */
+    function addRowGutters(container: HTMLElement): void {
+      const overlay = document.createElement('div');
+      overlay.classList.add('notion-overlay-container');
+      document.body.appendChild(overlay);
+
+      for (const row of container.querySelectorAll<HTMLElement>('.notion-collection-item')) {
+        const id = row.getAttribute('data-block-id')!;
+        const add = document.createElement('div');
+        add.setAttribute('role', 'button');
+        add.setAttribute('aria-label', '下に追加');
+        add.addEventListener('click', () => row.after(createRow(['', ''], `${id}-new`)));
+
+        const handle = document.createElement('div');
+        handle.setAttribute('role', 'button');
+        handle.setAttribute('aria-label', 'ドラッグ');
+        handle.addEventListener('click', () => {
+          overlay.innerHTML = '<div role="dialog"><div role="menuitem">削除</div><div role="menuitem">複製</div></div>';
+          const [remove, duplicate] = overlay.querySelectorAll<HTMLElement>('[role="menuitem"]');
+          remove.addEventListener('click', () => row.remove());
+          duplicate.addEventListener('click', () => {
+            const cells = Array.from(row.querySelectorAll('.notion-table-view-row > div > div'), (c) => c.textContent!);
+            row.after(createRow(cells, `${id}-copy`));
+          });
+        });
+        row.prepend(add, handle);
+      }
+    }
+
+    function createPeopleTable(): HTMLElement {
+      const container = createTableView([['Alice', '25'], ['Bob', '30']], ['名前', '年齢']);
+      addRowGutters(container);
+      enhanceTableView(container);
+      enterGridMode();
+      return container;
+    }
+
+    it('N inserts a row below and moves to its first cell', () => {
+      createPeopleTable();
+      press('ArrowRight');
+      press('n');
+      vi.advanceTimersByTime(100);
+      expect(rowIdOf(document.activeElement)).toBe('row-0-new');
+      expect(lastAnnouncement()).toBe('行を挿入しました: 名前: 空');
+    });
+
+    it('N uses the New button under the table when the row has no + button', () => {
+      const container = createTableView([['Alice', '25']], ['名前', '年齢']);
+      const newButton = document.createElement('div');
+      newButton.setAttribute('role', 'button');
+      newButton.textContent = '新規';
+      newButton.addEventListener('click', () => {
+        container.querySelector('.notion-table-view')!.appendChild(createRow(['', ''], 'row-end'));
+      });
+      container.appendChild(newButton);
+      enhanceTableView(container);
+      enterGridMode();
+
+      press('n');
+      vi.advanceTimersByTime(100);
+      expect(rowIdOf(document.activeElement)).toBe('row-end');
+    });
+
+    it('D duplicates the row and stays in the same column', () => {
+      createPeopleTable();
+      press('ArrowRight');
+      press('d');
+      vi.advanceTimersByTime(200);
+      expect(rowIdOf(document.activeElement)).toBe('row-0-copy');
+      expect(lastAnnouncement()).toBe('行を複製しました: 年齢: 25');
+    });
+
+    it('Delete asks first and a second Delete deletes the row', () => {
+      const container = createPeopleTable();
+      press('Delete');
+      expect(lastAnnouncement()).toBe('Alice の行を削除しますか？もう一度 Delete で削除します');
+      expect(container.querySelector('[data-block-id="row-0"]')).not.toBeNull();
+
+      press('Delete');
+      vi.advanceTimersByTime(200);
+      expect(container.querySelector('[data-block-id="row-0"]')).toBeNull();
+      expect(rowIdOf(document.activeElement)).toBe('row-1');
+      expect(lastAnnouncement()).toBe('行を削除しました: 名前: Bob');
+    });
+
+    it('any other key cancels a pending delete', () => {
+      const container = createPeopleTable();
+      press('Delete');
+      press('ArrowRight');
+      press('Delete');
+      vi.advanceTimersByTime(200);
+      expect(container.querySelector('[data-block-id="row-0"]')).not.toBeNull();
+      expect(lastAnnouncement()).toBe('Alice の行を削除しますか？もう一度 Delete で削除します');
+    });
+
+    it('says so when Notion shows no row buttons', () => {
+      const container = createTableView([['Alice', '25']], ['名前', '年齢']);
+      enhanceTableView(container);
+      enterGridMode();
+      press('d');
+      expect(lastAnnouncement()).toBe('行の操作ボタンが見つかりません');
+    });
+  });
+
   describe('destroyTableEnhancer', () => {
     it('cleans up without error', () => {
       createTableView([['A', '1']], ['名前']);
       scanAndEnhanceTables();
       expect(() => destroyTableEnhancer()).not.toThrow();
     });
+
+    it('detaches the grid key handler', () => {
+      const container = createTableView([['Alice', '25'], ['Bob', '30']], ['名前', '年齢']);
+      enhanceTableView(container);
+      enterGridMode();
+      destroyTableEnhancer();
+
+      const cell = container.querySelector('[role="gridcell"]')!;
+      const event = new KeyboardEvent('keydown', { key: 'ArrowDown', bubbles: true, cancelable: true });
+      cell.dispatchEvent(event);
+      expect(event.defaultPrevented).toBe(false);
+    });
   });
 });
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  labelTimelineItems,
+  enterTimelineMode,
+  isTimelineModeActive,
+  destroyTimelineNavigator,
+} from '../../src/content/timeline-navigator';
+import { initLiveAnnouncer, destroyLiveAnnouncer } from '../../src/content/live-announcer';
+
+const PX_PER_DAY = 40;
+/** Day ticks from 12 October to 8 November 2026 */
+const FIRST_DAY = new Date(2026, 9, 12);
+
+function xOf(date: Date): number {
+  return Math.round((date.getTime() - FIRST_DAY.getTime()) / 86400000) * PX_PER_DAY;
+}
+
+/** A bar from `start` for `days` days; dragging it moves it along the scale */
+function createItem(title: string, start: Date, days: number, top: number): HTMLElement {
+  const item = document.createElement('div');
+  item.classList.add('notion-collection-item');
+  item.setAttribute('data-block-id', title);
+  item.textContent = title;
+  let left = xOf(start);
+  item.getBoundingClientRect = () =>
+    ({ left, right: left + days * PX_PER_DAY, top, width: days * PX_PER_DAY, height: 30 } as DOMRect);
+
+  let downX = 0;
+  item.addEventListener('mousedown', (e) => { downX = e.clientX; });
+  item.addEventListener('mouseup', (e) => {
+    left += Math.round((e.clientX - downX) / PX_PER_DAY) * PX_PER_DAY;
+  });
+  return item;
+}
+
+function createTimeline(): HTMLElement {
+  const cvBlock = document.createElement('div');
+  cvBlock.classList.add('notion-selectable', 'notion-collection_view-block');
+  cvBlock.setAttribute('tabindex', '-1');
+
+  const header = document.createElement('div');
+  header.classList.add('notion-timeline-header');
+  const month = document.createElement('div');
+  month.classList.add('timeline-month');
+  month.textContent = '2026年10月';
+  header.appendChild(month);
+  for (let i = 0; i < 28; i++) {
+    const date = new Date(2026, 9, 12 + i);
+    const mark = document.createElement('div');
+    mark.classList.add('timeline-day');
+    mark.textContent = String(date.getDate());
+    mark.getBoundingClientRect = () => ({ left: xOf(date) } as DOMRect);
+    header.appendChild(mark);
+  }
+
+  const view = document.createElement('div');
+  view.classList.add('notion-timeline-view');
+  // Document order differs from start-date order
+  view.append(
+    createItem('リリース', new Date(2026, 10, 2), 1, 60),
+    createItem('企画', new Date(2026, 9, 19), 5, 0),
+    createItem('開発', new Date(2026, 9, 27), 8, 30),
+  );
+
+  cvBlock.append(header, view);
+  document.body.appendChild(cvBlock);
+  return view;
+}
+
+function item(title: string): HTMLElement {
+  return document.querySelector<HTMLElement>(`[data-block-id="${title}"]`)!;
+}
+
+function press(key: string, init: KeyboardEventInit = {}): KeyboardEvent {
+  const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init });
+  (document.activeElement ?? document.body).dispatchEvent(event);
+  return event;
+}
+
+/** Let queued messages through (each one dwells 1s in the live region) */
+function lastAnnouncement(): string {
+  vi.advanceTimersByTime(1100);
+  return document.querySelector('[aria-live="polite"]')?.textContent ?? '';
+}
+
+describe('timeline-navigator', () => {
+  let view: HTMLElement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    document.body.innerHTML = '';
+    initLiveAnnouncer();
+    view = createTimeline();
+  });
+
+  afterEach(() => {
+    // A frame left pending under fake timers never fires in the next test
+    vi.runOnlyPendingTimers();
+    destroyTimelineNavigator();
+    destroyLiveAnnouncer();
+    vi.useRealTimers();
+  });
+
+  describe('labelTimelineItems', () => {
+    it('labels items with the dates read from the scale', () => {
+      labelTimelineItems(view);
+      expect(item('企画').getAttribute('aria-label')).toBe('企画、10月19日(月)〜10月23日(金)、5日間');
+      expect(item('開発').getAttribute('aria-label')).toBe('開発、10月27日(火)〜11月3日(火)、8日間');
+      expect(item('リリース').getAttribute('aria-label')).toBe('リリース、11月2日(月)、1日');
+    });
+
+    it('numbers items in start-date order', () => {
+      labelTimelineItems(view);
+      expect(item('企画').getAttribute('aria-posinset')).toBe('1');
+      expect(item('リリース').getAttribute('aria-posinset')).toBe('3');
+      expect(item('リリース').getAttribute('aria-setsize')).toBe('3');
+    });
+
+    it('says the dates are unknown without a scale', () => {
+      document.querySelector('.timeline-month')!.remove();
+      labelTimelineItems(view);
+      expect(item('企画').getAttribute('aria-label')).toBe('企画、日付不明');
+    });
+  });
+
+  describe('timeline mode', () => {
+    it('starts on the earliest item', () => {
+      enterTimelineMode(view);
+      expect(isTimelineModeActive()).toBe(true);
+      expect(document.activeElement).toBe(item('企画'));
+      expect(lastAnnouncement()).toBe('タイムラインモード開始: 企画、10月19日(月)〜10月23日(金)、5日間 (1/3)');
+    });
+
+    it('moves through items chronologically', () => {
+      enterTimelineMode(view);
+      press('ArrowDown');
+      expect(document.activeElement).toBe(item('開発'));
+      press('End');
+      expect(document.activeElement).toBe(item('リリース'));
+      expect(lastAnnouncement()).toBe('リリース、11月2日(月)、1日 (3/3)');
+      press('ArrowDown');
+      expect(document.activeElement).toBe(item('リリース'));
+    });
+
+    it('leaves plain ←/→ to the page', () => {
+      enterTimelineMode(view);
+      expect(press('ArrowRight').defaultPrevented).toBe(false);
+    });
+
+    it('Shift+→ shifts the item by a day', () => {
+      enterTimelineMode(view);
+      press('ArrowRight', { shiftKey: true });
+      vi.advanceTimersByTime(500);
+      expect(lastAnnouncement()).toBe('日付を移動しました: 企画、10月20日(火)〜10月24日(土)、5日間 (1/3)');
+      expect(item('企画').getAttribute('aria-label')).toBe('企画、10月20日(火)〜10月24日(土)、5日間');
+    });
+
+    it('Ctrl+Shift+← shifts the item by a week and follows it in the new order', () => {
+      enterTimelineMode(view);
+      press('End');
+      press('ArrowLeft', { shiftKey: true, ctrlKey: true });
+      vi.advanceTimersByTime(500);
+      expect(lastAnnouncement()).toBe('日付を移動しました: リリース、10月26日(月)、1日 (2/3)');
+    });
+
+    it('reports a shift that did not take', () => {
+      enterTimelineMode(view);
+      item('企画').addEventListener('mouseup', (e) => e.stopImmediatePropagation(), { capture: true });
+      press('ArrowRight', { shiftKey: true });
+      vi.advanceTimersByTime(1600);
+      expect(document.querySelector('[aria-live="assertive"]')?.textContent).toBe('企画 の日付を移動できませんでした');
+    });
+
+    it('Escape leaves timeline mode', () => {
+      enterTimelineMode(view);
+      press('Escape');
+      expect(isTimelineModeActive()).toBe(false);
+      expect(lastAnnouncement()).toBe('タイムラインモード終了');
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { measureRows, findLoadMoreButton, scrollByRows } from '../../src/content/virtual-rows';
+
+const ROW_HEIGHT = 30;
+
+function sized<T extends HTMLElement>(el: T, height: number): T {
+  el.getBoundingClientRect = () => ({ height } as DOMRect);
+  return el;
+}
+
+/** Rows `first`..`first + count - 1` of `total`, between empty spacers */
+function createWindow(first: number, count: number, total: number): HTMLElement[] {
+  const list = document.createElement('div');
+  list.appendChild(sized(document.createElement('div'), first * ROW_HEIGHT));
+  const rows: HTMLElement[] = [];
+  for (let i = 0; i < count; i++) {
+    const row = sized(document.createElement('div'), ROW_HEIGHT);
+    row.classList.add('notion-collection-item');
+    row.textContent = `行${first + i + 1}`;
+    rows.push(row);
+    list.appendChild(row);
+  }
+  list.appendChild(sized(document.createElement('div'), (total - first - count) * ROW_HEIGHT));
+  document.body.appendChild(list);
+  return rows;
+}
+
+describe('virtual-rows', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  describe('measureRows', () => {
+    it('places the rendered rows by the spacers around them', () => {
+      expect(measureRows(createWindow(40, 10, 100))).toEqual({ first: 40, total: 100, rowHeight: ROW_HEIGHT });
+    });
+
+    it('ignores siblings with content', () => {
+      const rows = createWindow(0, 2, 2);
+      const header = sized(document.createElement('div'), 40);
+      header.textContent = '名前';
+      rows[0].before(header);
+      expect(measureRows(rows)).toEqual({ first: 0, total: 2, rowHeight: ROW_HEIGHT });
+    });
+
+    it('takes the rendered rows as all rows without layout', () => {
+      const rows = createWindow(0, 3, 3).map((row) => sized(row, 0));
+      expect(measureRows(rows)).toEqual({ first: 0, total: 3, rowHeight: 0 });
+    });
+  });
+
+  it('findLoadMoreButton finds the button by its text', () => {
+    document.body.innerHTML = '<div role="button">新規</div><div role="button">さらに読み込む 25</div>';
+    expect(findLoadMoreButton(document.body)?.textContent).toBe('さらに読み込む 25');
+    document.body.innerHTML = '<div role="button">新規</div>';
+    expect(findLoadMoreButton(document.body)).toBeNull();
+  });
+
+  it('scrollByRows scrolls the enclosing scroller by row heights', () => {
+    const scroller = document.createElement('div');
+    scroller.classList.add('notion-scroller');
+    const table = document.createElement('div');
+    scroller.appendChild(table);
+    document.body.appendChild(scroller);
+
+    scrollByRows(table, { first: 0, total: 100, rowHeight: ROW_HEIGHT }, 3);
+    expect(scroller.scrollTop).toBe(90);
+  });
+});